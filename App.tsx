@@ -1,11 +1,46 @@
 
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { toJpeg } from 'html-to-image';
 import { PayPalScriptProvider, PayPalButtons } from "@paypal/react-paypal-js";
-import { BannerConfig, UserAccount } from './types';
+import { BackgroundCrop, BannerConfig, BannerLayer, ExportedFile, ExportSettings, ImageLayer, LayerType, Product, ProductLayer, SavedDesignSummary, SavedLogo, ShareLink, TextStyle, UserAccount } from './types';
 import BannerPreview from './components/BannerPreview';
-import { generateOutdoorBackground, getUserProfile, generateNewPrompt } from './services/geminiService';
-import { languages, translations } from './i18n';
+import TypographyControls from './components/TypographyControls';
+import HighlightRulesPanel from './components/HighlightRulesPanel';
+import ImageLayerControls from './components/ImageLayerControls';
+import BackgroundControls from './components/BackgroundControls';
+import ExportDialog from './components/ExportDialog';
+import AnimationControls from './components/AnimationControls';
+import LegibilityPanel, { LegibilityFix } from './components/LegibilityPanel';
+import DesignLibraryDialog from './components/DesignLibraryDialog';
+import ShareDialog from './components/ShareDialog';
+import BackgroundCandidates from './components/BackgroundCandidates';
+import BackgroundEditPanel, { BackgroundEditState, DEFAULT_BACKGROUND_EDIT } from './components/BackgroundEditPanel';
+import MaskCanvas from './components/MaskCanvas';
+import { useHistory } from './hooks/useHistory';
+import { useAnimationPlayback } from './hooks/useAnimationPlayback';
+import { createLayer, updateLayer, removeLayer, duplicateLayer, moveLayer, insertLayerBelow, migrateBannerConfig } from './utils/layers';
+import { createProduct } from './utils/products';
+import { DEFAULT_HEADING_STYLE, DEFAULT_PROMO_STYLE } from './utils/typography';
+import { DEFAULT_HIGHLIGHT_SETTINGS } from './utils/promoRules';
+import { DEFAULT_BACKGROUND_CROP } from './utils/background';
+import { hasAnimations, totalAnimationDuration } from './utils/animation';
+import { TEXT_COVERAGE_LIMIT, findSafeZoneConflicts, safeZoneRegions, textCoverage } from './utils/safeZones';
+import { LegibilityResult, PixelSample, checkLegibility, createLegibilityPlate, findLegiblePosition, isTextElement, legibilityShadow } from './utils/contrast';
+import { SIZE_PRESETS, getSizePreset, configForSize, switchSize, addSize, removeSize, resizeActiveSize } from './utils/campaign';
+import { switchLocale, addCopyVariant, removeCopyVariant } from './utils/copyVariants';
+import { PROJECT_FILE_EXTENSION } from './utils/projectFile';
+import { DEFAULT_EXPORT_SETTINGS, exportBanner, downloadBlob, measureBannerLayers, resolveExportScale } from './services/exportService';
+import { buildExportFilename, buildCampaignArchiveFilename } from './utils/exportFilename';
+import { campaignBanners, exportCampaign } from './services/campaignExportService';
+import { overlayOpacityForLegibility, sampleBackground } from './services/legibilityService';
+import { openProject, saveProject } from './services/projectService';
+import { createShare, listShares, revokeShare } from './services/shareService';
+import { SaveDesignResult, createDesign, deleteDesign, duplicateDesign, getDesign, listDesigns, saveDesign, updateDesignDetails } from './services/designService';
+import { AlignCommand, alignLayers, distributeLayersVertically, measureLayerBoxes } from './utils/alignment';
+import { generateOutdoorBackground, getUserProfile, generateNewPrompt, editBackgroundImage, BackgroundEditRequest } from './services/geminiService';
+import { prepareBackgroundEdit } from './services/backgroundEditService';
+import { listLogos, uploadLogo, deleteLogo } from './services/logoService';
+import { readFileAsDataUrl, isSupportedPhoto, prepareBackgroundPhoto } from './services/imageService';
+import { detectLanguage, languages, translations } from './i18n';
 
 const defaultPrompts: Record<string, string> = {
   nature: 'Hyper-realistic, high-fidelity professional photography of a man wearing a high-performance waterproof outdoor jacket walking on a scenic mountain trek trail. \nCRITICAL COMPOSITION: The man MUST be positioned on the extreme RIGHT third of the frame. \nThe left two-thirds of the image MUST remain clear of any major subjects to allow for text placement.\nTheme: nature.\nAtmosphere: Bright natural daylight, cinematic lighting, sharp crisp details, vibrant colors. \nStyle: High-end retail brand photography for an outdoor gear company. \nNo text, no watermarks, no logos in the image. Masterpiece quality.',
@@ -14,8 +49,11 @@ const defaultPrompts: Record<string, string> = {
   winter: 'Hyper-realistic, high-fidelity professional photography of a person wearing a heavy winter expedition parka standing on a snowy glacier peak. \nCRITICAL COMPOSITION: The person MUST be positioned on the extreme RIGHT third of the frame. \nThe left two-thirds of the image MUST remain clear of any major subjects to allow for text placement.\nTheme: winter.\nAtmosphere: Bright snow, clear blue sky, cinematic lighting, sharp crisp details, cool colors. \nStyle: High-end retail brand photography for an outdoor gear company. \nNo text, no watermarks, no logos in the image. Masterpiece quality.'
 };
 
+const LEGIBILITY_DEBOUNCE_MS = 800;
+
 const App: React.FC = () => {
   const bannerRef = useRef<HTMLDivElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
   
   // Initialize with a placeholder, but credits will be fetched from DB
   const [user, setUser] = useState<UserAccount>({
@@ -24,38 +62,76 @@ const App: React.FC = () => {
     email: 'user@example.com' // In a real app, this comes from Auth provider
   });
   
-  const [config, setConfig] = useState<BannerConfig>({
-    title: '杜戛地 探拓戶外',
-    discount: '秋冬外套88折',
-    discount2: '全館新品登場',
+  const {
+    state: config,
+    set: setConfig,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    beginBatch,
+    endBatch,
+  } = useHistory<BannerConfig>({
     theme: 'nature',
     prompt: 'Hyper-realistic, high-fidelity professional photography of a man wearing a high-performance waterproof outdoor jacket walking on a scenic mountain trek trail. \nCRITICAL COMPOSITION: The man MUST be positioned on the extreme RIGHT third of the frame. \nThe left two-thirds of the image MUST remain clear of any major subjects to allow for text placement.\nTheme: nature.\nAtmosphere: Bright natural daylight, cinematic lighting, sharp crisp details, vibrant colors. \nStyle: High-end retail brand photography for an outdoor gear company. \nNo text, no watermarks, no logos in the image. Masterpiece quality.',
     backgroundImage: 'https://images.unsplash.com/photo-1522163182402-834f871fd851?q=80&w=1644&auto=format&fit=crop', 
+    backgroundCrop: { ...DEFAULT_BACKGROUND_CROP },
     overlayOpacity: 0.45,
     width: 1644,
     height: 604,
-    titleX: 10,
-    titleY: 35,
-    discountX: 10,
-    discountY: 52,
-    discount2X: 10,
-    discount2Y: 65,
+    layers: [
+      { id: 'title', type: 'text', text: '杜戛地 探拓戶外', x: 10, y: 35, style: { ...DEFAULT_HEADING_STYLE } },
+      { id: 'discount', type: 'promo', text: '秋冬外套88折', x: 10, y: 52, style: { ...DEFAULT_PROMO_STYLE } },
+      { id: 'discount2', type: 'promo', text: '全館新品登場', x: 10, y: 65, style: { ...DEFAULT_PROMO_STYLE } },
+    ],
+    locale: 'zh-TW',
+    copyVariants: [{ locale: 'zh-TW', texts: {} }],
+    highlights: DEFAULT_HIGHLIGHT_SETTINGS,
+    products: [],
+    sizes: [{ id: 'web-hero', width: 1644, height: 604, positions: {} }],
+    activeSizeId: 'web-hero',
   });
   
   const [loading, setLoading] = useState(false);
+  const [candidateCount, setCandidateCount] = useState(2);
+  // Generated backgrounds kept for this session, newest first.
+  const [backgroundCandidates, setBackgroundCandidates] = useState<string[]>([]);
+  const [previewCandidate, setPreviewCandidate] = useState<string | null>(null);
+  // Null unless the background edit mode is open.
+  const [backgroundEdit, setBackgroundEdit] = useState<BackgroundEditState | null>(null);
+  const [editingBackground, setEditingBackground] = useState(false);
   const [generatingPrompt, setGeneratingPrompt] = useState(false);
   const [exporting, setExporting] = useState(false);
   const [showBilling, setShowBilling] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [exportedFiles, setExportedFiles] = useState<ExportedFile[]>([]);
+  const [exportProgress, setExportProgress] = useState<{ done: number; total: number } | null>(null);
+  const [styleLayerId, setStyleLayerId] = useState<string | null>(null);
+  const [animationLayerId, setAnimationLayerId] = useState<string | null>(null);
+  const [showHighlightRules, setShowHighlightRules] = useState(false);
+  const [selectedLayerIds, setSelectedLayerIds] = useState<string[]>([]);
+  const [snapEnabled, setSnapEnabled] = useState(true);
+  const [snapMargin, setSnapMargin] = useState(5);
+  const [showSafeZones, setShowSafeZones] = useState(false);
+  const [layoutStats, setLayoutStats] = useState({ textCoverage: 0, safeZoneConflicts: 0 });
+  const [showLegibility, setShowLegibility] = useState(false);
+  const [backgroundSample, setBackgroundSample] = useState<PixelSample | null>(null);
+  const [legibility, setLegibility] = useState<LegibilityResult[]>([]);
+  const [fixingLayerId, setFixingLayerId] = useState<string | null>(null);
+  const [savingProject, setSavingProject] = useState(false);
+  const [showDesignLibrary, setShowDesignLibrary] = useState(false);
+  const [designs, setDesigns] = useState<SavedDesignSummary[] | null>(null);
+  const [currentDesign, setCurrentDesign] = useState<{ id: string; name: string } | null>(null);
+  const [designBusy, setDesignBusy] = useState(false);
+  const [showShareDialog, setShowShareDialog] = useState(false);
+  const [shares, setShares] = useState<ShareLink[] | null>(null);
+  const [creatingShare, setCreatingShare] = useState(false);
+  const [logos, setLogos] = useState<SavedLogo[]>([]);
+  const [uploadingLayerId, setUploadingLayerId] = useState<string | null>(null);
+  const [uploadingBackground, setUploadingBackground] = useState(false);
   const [isUserLoaded, setIsUserLoaded] = useState(false);
-  const [lang, setLang] = useState(() => {
-    const browserLang = navigator.language;
-    if (languages[browserLang as keyof typeof languages]) return browserLang;
-    const shortLang = browserLang.split('-')[0];
-    if (languages[shortLang as keyof typeof languages]) return shortLang;
-    if (browserLang.toLowerCase().startsWith('zh-tw') || browserLang.toLowerCase().startsWith('zh-hk')) return 'zh-TW';
-    if (browserLang.toLowerCase().startsWith('zh')) return 'zh-CN';
-    return 'en';
-  });
+  const [lang, setLang] = useState(detectLanguage);
 
   const t = (key: string) => translations[lang]?.[key] || translations['en'][key] || key;
 
@@ -97,12 +173,447 @@ const App: React.FC = () => {
     loadUser();
   }, []);
 
+  useEffect(() => {
+    listLogos(user.email).then(setLogos);
+  }, [user.email]);
+
+  // Undo/redo shortcuts. Text fields keep the browser's own editing shortcuts.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'TEXTAREA' || (target.tagName === 'INPUT' && (target as HTMLInputElement).type === 'text'))) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const animationPlayback = useAnimationPlayback(totalAnimationDuration(config));
+
   const handleUpdateConfig = useCallback((updates: Partial<BannerConfig>) => {
     setConfig(prev => ({ ...prev, ...updates }));
-  }, []);
+  }, [setConfig]);
+
+  const handleUpdateLayer = (id: string, updates: Partial<BannerLayer>) => {
+    setConfig(
+      prev => ({ ...prev, layers: updateLayer(prev.layers, id, updates) }),
+      { coalesce: `layer-${id}-${Object.keys(updates).join(',')}` }
+    );
+  };
+
+  const handleUpdateLayerStyle = (id: string, updates: Partial<TextStyle>) => {
+    setConfig(
+      prev => ({
+        ...prev,
+        layers: prev.layers.map(layer =>
+          layer.id === id && (layer.type === 'text' || layer.type === 'promo')
+            ? { ...layer, style: { ...layer.style, ...updates } }
+            : layer
+        ),
+      }),
+      { coalesce: `style-${id}-${Object.keys(updates).join(',')}` }
+    );
+  };
+
+  const handleAddLayer = (type: LayerType) => {
+    setConfig(prev => ({ ...prev, layers: [...prev.layers, createLayer(type)] }));
+  };
+
+  const handleUploadLogo = async (layerId: string, file: File) => {
+    if (file.type !== 'image/png' && file.type !== 'image/svg+xml') {
+      alert(t('logoTypeError'));
+      return;
+    }
+    setUploadingLayerId(layerId);
+    try {
+      const dataUrl = await readFileAsDataUrl(file);
+      handleUpdateLayer(layerId, { src: dataUrl });
+      const saved = await uploadLogo(user.email, file.name, dataUrl);
+      if (saved) {
+        setLogos(prev => [saved, ...prev]);
+      } else {
+        alert(t('logoSaveError'));
+      }
+    } finally {
+      setUploadingLayerId(null);
+    }
+  };
+
+  const handleUploadBackground = async (file: File) => {
+    if (!isSupportedPhoto(file)) {
+      alert(t('backgroundTypeError'));
+      return;
+    }
+    setUploadingBackground(true);
+    try {
+      const backgroundImage = await prepareBackgroundPhoto(file);
+      setConfig(prev => ({ ...prev, backgroundImage, backgroundCrop: { ...DEFAULT_BACKGROUND_CROP } }));
+    } catch (error) {
+      console.error("Background upload error:", error);
+      alert(t('backgroundLoadError'));
+    } finally {
+      setUploadingBackground(false);
+    }
+  };
+
+  const handleBackgroundCropChange = (backgroundCrop: BackgroundCrop) => {
+    setConfig(prev => ({ ...prev, backgroundCrop }), { coalesce: 'backgroundCrop' });
+  };
+
+  const handleDeleteLogo = async (id: string) => {
+    if (await deleteLogo(user.email, id)) {
+      setLogos(prev => prev.filter(logo => logo.id !== id));
+    }
+  };
+
+  const handleRemoveLayer = (id: string) => {
+    setConfig(prev => ({ ...prev, layers: removeLayer(prev.layers, id) }));
+  };
+
+  const handleDuplicateLayer = (id: string) => {
+    setConfig(prev => ({ ...prev, layers: duplicateLayer(prev.layers, id) }));
+  };
+
+  const handleMoveLayer = (id: string, direction: 'up' | 'down') => {
+    setConfig(prev => ({ ...prev, layers: moveLayer(prev.layers, id, direction) }));
+  };
+
+  const handleAddProduct = () => {
+    setConfig(prev => ({ ...prev, products: [...prev.products, createProduct()] }));
+  };
+
+  const handleUpdateProduct = (id: string, updates: Partial<Product>) => {
+    setConfig(
+      prev => ({ ...prev, products: prev.products.map(p => (p.id === id ? { ...p, ...updates } : p)) }),
+      { coalesce: `product-${id}-${Object.keys(updates).join(',')}` }
+    );
+  };
+
+  // Removing a product also removes every card that shows it.
+  const handleRemoveProduct = (id: string) => {
+    setConfig(prev => ({
+      ...prev,
+      products: prev.products.filter(p => p.id !== id),
+      layers: prev.layers.filter(layer => layer.type !== 'product' || layer.productId !== id),
+    }));
+  };
+
+  const handleAddProductCard = (productId: string) => {
+    const cardCount = config.layers.filter(layer => layer.type === 'product').length;
+    const card = createLayer('product', {
+      productId,
+      x: Math.min(85, 55 + cardCount * 15),
+      badgeStyle: lang.startsWith('zh') ? 'zhe' : 'percent',
+    } as Partial<ProductLayer>);
+    setConfig(prev => ({ ...prev, layers: [...prev.layers, card] }));
+  };
+
+  const layerBoxes = () => {
+    const canvas = bannerRef.current?.querySelector<HTMLElement>('[data-banner-canvas]');
+    return canvas ? measureLayerBoxes(canvas, config.layers) : [];
+  };
+
+  const handleAlign = (command: AlignCommand) => {
+    const boxes = layerBoxes();
+    setConfig(prev => ({ ...prev, layers: alignLayers(prev.layers, boxes, selectedLayerIds, command) }));
+  };
+
+  const handleDistributeVertically = () => {
+    const boxes = layerBoxes();
+    setConfig(prev => ({ ...prev, layers: distributeLayersVertically(prev.layers, boxes, selectedLayerIds) }));
+  };
+
+  const handleSwitchSize = (sizeId: string) => {
+    setConfig(prev => switchSize(prev, sizeId));
+  };
+
+  const handleAddSize = (presetId: string) => {
+    setConfig(prev => switchSize(addSize(prev, presetId), presetId));
+  };
+
+  const handleRemoveSize = (sizeId: string) => {
+    setConfig(prev => removeSize(prev, sizeId));
+  };
+
+  const handleSwitchLocale = (locale: string) => {
+    setConfig(prev => switchLocale(prev, locale));
+  };
+
+  const handleAddLocale = (locale: string) => {
+    setConfig(prev => switchLocale(addCopyVariant(prev, locale), locale));
+  };
+
+  const handleRemoveLocale = (locale: string) => {
+    setConfig(prev => removeCopyVariant(prev, locale));
+  };
+
+  const sizeLabel = (sizeId: string) => {
+    const preset = getSizePreset(sizeId);
+    return preset ? t(preset.labelKey) : t('customSize');
+  };
+
+  const layerTypeLabels: Record<LayerType, string> = {
+    text: t('layerText'),
+    promo: t('layerPromo'),
+    image: t('layerImage'),
+    shape: t('layerShape'),
+    product: t('layerProduct'),
+  };
+
+  const activeSafeZones = safeZoneRegions(config.activeSizeId);
+
+  // Text coverage and safe-zone conflicts depend on the rendered layout, so they are measured
+  // after each render and again once web fonts have loaded.
+  useEffect(() => {
+    const measure = () => {
+      const boxes = layerBoxes();
+      setLayoutStats({
+        textCoverage: textCoverage(config.layers, boxes),
+        safeZoneConflicts: findSafeZoneConflicts(boxes, activeSafeZones).length,
+      });
+    };
+    const frame = requestAnimationFrame(measure);
+    document.fonts.ready.then(measure);
+    return () => cancelAnimationFrame(frame);
+  }, [config]);
+
+  // Rendering the background for the contrast check is slow, so it waits for edits to settle.
+  useEffect(() => {
+    if (!showLegibility) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const sample = await sampleBackground(config);
+        if (!cancelled) setBackgroundSample(sample);
+      } catch (error) {
+        console.error('Legibility check failed:', error);
+      }
+    }, LEGIBILITY_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [config, showLegibility]);
+
+  useEffect(() => {
+    if (!showLegibility || !backgroundSample) return;
+    const frame = requestAnimationFrame(() => setLegibility(checkLegibility(config, layerBoxes(), backgroundSample)));
+    return () => cancelAnimationFrame(frame);
+  }, [config, backgroundSample, showLegibility]);
+
+  const handleLegibilityFix = async (layerId: string, fix: LegibilityFix) => {
+    const layer = config.layers.find(l => l.id === layerId);
+    const boxes = layerBoxes();
+    const box = boxes.find(b => b.id === layerId);
+    const result = legibility.find(r => r.layerId === layerId);
+    if (!layer || !isTextElement(layer) || !box || !result || !backgroundSample) return;
+
+    switch (fix) {
+      case 'overlay': {
+        setFixingLayerId(layerId);
+        try {
+          const overlayOpacity = await overlayOpacityForLegibility(config, layer, box);
+          if (overlayOpacity === null) alert(t('legibilityOverlayInsufficient'));
+          else setConfig(prev => ({ ...prev, overlayOpacity }));
+        } catch (error) {
+          console.error('Overlay adjustment failed:', error);
+        } finally {
+          setFixingLayerId(null);
+        }
+        break;
+      }
+      case 'shadow':
+        handleUpdateLayerStyle(layerId, { shadow: legibilityShadow(layer.style, result.lightText) });
+        break;
+      case 'plate': {
+        const plate = createLegibilityPlate(box, result.lightText);
+        setConfig(prev => ({ ...prev, layers: insertLayerBelow(prev.layers, layerId, plate) }));
+        break;
+      }
+      case 'move': {
+        const position = findLegiblePosition(layer, box, config, backgroundSample, boxes.filter(b => b.id !== layerId));
+        if (position) handleUpdateLayer(layerId, position);
+        else alert(t('legibilityNoEmptyRegion'));
+        break;
+      }
+    }
+  };
+
+  /**
+   * Lists elements that a platform would cover in any of the banners about to be exported,
+   * and asks whether to export anyway. Sizes that aren't on screen are laid out off-screen.
+   */
+  const confirmSafeZones = async (targets: { banner: BannerConfig; sizeId: string; locale?: string }[]) => {
+    const warnings = new Set<string>();
+    for (const { banner, sizeId, locale } of targets) {
+      const regions = safeZoneRegions(sizeId);
+      if (regions.length === 0) continue;
+      const boxes = banner === config ? layerBoxes() : await measureBannerLayers(banner);
+      for (const conflict of findSafeZoneConflicts(boxes, regions)) {
+        const layer = banner.layers.find(l => l.id === conflict.layerId);
+        if (!layer) continue;
+        const name = layer.type === 'text' || layer.type === 'promo' ? `${layerTypeLabels[layer.type]} "${layer.text}"` : layerTypeLabels[layer.type];
+        const where = locale ? `${sizeLabel(sizeId)} · ${locale}` : sizeLabel(sizeId);
+        warnings.add(`• ${where}: ${name} (${t(conflict.labelKey)})`);
+      }
+    }
+    return warnings.size === 0 || window.confirm(`${t('safeZoneExportWarning')}\n\n${[...warnings].join('\n')}`);
+  };
+
+  const handleSaveProject = async () => {
+    setSavingProject(true);
+    try {
+      await saveProject(config);
+    } catch (error) {
+      console.error('Saving project failed:', error);
+      alert(t('projectSaveFailed'));
+    } finally {
+      setSavingProject(false);
+    }
+  };
+
+  const handleOpenProject = async (file: File) => {
+    const { project, error } = await openProject(file);
+    if (!project) {
+      alert(t(error === 'newer-version' ? 'projectNewerVersion' : 'projectInvalid'));
+      return;
+    }
+    loadDesignIntoEditor(project.config);
+    setCurrentDesign(null);
+  };
+
+  const loadDesignIntoEditor = (loaded: BannerConfig) => {
+    setConfig(migrateBannerConfig(loaded));
+    setSelectedLayerIds([]);
+    setStyleLayerId(null);
+    setAnimationLayerId(null);
+  };
+
+  const handleOpenDesignLibrary = async () => {
+    setShowDesignLibrary(true);
+    setDesigns(null);
+    setDesigns(await listDesigns(user.email));
+  };
+
+  /**
+   * Runs a library request, reporting failures. Returns the saved design on success.
+   */
+  const runDesignRequest = async (request: () => Promise<SaveDesignResult>) => {
+    setDesignBusy(true);
+    try {
+      const result = await request();
+      if (result.error) alert(t(result.error === 'too-large' ? 'designTooLarge' : 'designSaveFailed'));
+      return result.design ?? null;
+    } finally {
+      setDesignBusy(false);
+    }
+  };
+
+  const upsertDesignSummary = (design: SavedDesignSummary) => {
+    setDesigns(prev => prev && [design, ...prev.filter(d => d.id !== design.id)]);
+  };
+
+  const handleSaveDesignAsNew = async () => {
+    const title = config.layers.find(layer => layer.type === 'text');
+    const name = window.prompt(t('designNamePrompt'), title?.type === 'text' ? title.text : '');
+    if (name === null) return;
+    const design = await runDesignRequest(() => createDesign(user.email, name.trim(), config));
+    if (!design) return;
+    setCurrentDesign({ id: design.id, name: design.name });
+    upsertDesignSummary(design);
+  };
+
+  const handleSaveDesign = async () => {
+    if (!currentDesign) return handleSaveDesignAsNew();
+    const design = await runDesignRequest(() => saveDesign(user.email, currentDesign.id, config));
+    if (design) upsertDesignSummary(design);
+  };
+
+  const handleOpenDesign = async (summary: SavedDesignSummary, asTemplate: boolean) => {
+    setDesignBusy(true);
+    const design = await getDesign(user.email, summary.id);
+    setDesignBusy(false);
+    if (!design) {
+      alert(t('designLoadFailed'));
+      return;
+    }
+    loadDesignIntoEditor(design.config);
+    // A banner started from a template is a new design; saving it leaves the template as it is.
+    setCurrentDesign(asTemplate ? null : { id: design.id, name: design.name });
+    setShowDesignLibrary(false);
+  };
+
+  const handleDuplicateDesign = async (summary: SavedDesignSummary) => {
+    const design = await runDesignRequest(() => duplicateDesign(user.email, summary.id, `${summary.name} ${t('designCopySuffix')}`));
+    if (design) upsertDesignSummary(design);
+  };
+
+  const handleToggleTemplate = async (summary: SavedDesignSummary) => {
+    const design = await runDesignRequest(() => updateDesignDetails(user.email, summary.id, { isTemplate: !summary.isTemplate }));
+    if (design) setDesigns(prev => prev && prev.map(d => (d.id === design.id ? design : d)));
+  };
+
+  const handleRenameDesign = async (summary: SavedDesignSummary) => {
+    const name = window.prompt(t('designNamePrompt'), summary.name);
+    if (name === null || !name.trim()) return;
+    const design = await runDesignRequest(() => updateDesignDetails(user.email, summary.id, { name: name.trim() }));
+    if (!design) return;
+    setDesigns(prev => prev && prev.map(d => (d.id === design.id ? design : d)));
+    if (currentDesign?.id === design.id) setCurrentDesign({ id: design.id, name: design.name });
+  };
+
+  const handleDeleteDesign = async (summary: SavedDesignSummary) => {
+    if (!window.confirm(t('confirmDeleteDesign').replace('{name}', summary.name))) return;
+    setDesignBusy(true);
+    const deleted = await deleteDesign(user.email, summary.id);
+    setDesignBusy(false);
+    if (!deleted) {
+      alert(t('designDeleteFailed'));
+      return;
+    }
+    setDesigns(prev => prev && prev.filter(d => d.id !== summary.id));
+    if (currentDesign?.id === summary.id) setCurrentDesign(null);
+  };
+
+  const handleOpenShareDialog = async () => {
+    setShowShareDialog(true);
+    setShares(null);
+    setShares(await listShares(user.email));
+  };
+
+  const handleCreateShare = async (expiresInDays: number | null) => {
+    const title = config.layers.find(layer => layer.type === 'text');
+    const name = currentDesign?.name ?? (title?.type === 'text' ? title.text : '');
+    setCreatingShare(true);
+    const result = await createShare(user.email, name, config, expiresInDays);
+    setCreatingShare(false);
+    if (result.error) {
+      alert(t(result.error === 'too-large' ? 'shareTooLarge' : 'shareCreateFailed'));
+      return;
+    }
+    setShares(prev => [result.share, ...(prev ?? [])]);
+  };
+
+  const handleRevokeShare = async (share: ShareLink) => {
+    if (!window.confirm(t('confirmRevokeShare'))) return;
+    if (await revokeShare(user.email, share.token)) {
+      setShares(prev => prev && prev.filter(s => s.token !== share.token));
+    } else {
+      alert(t('shareRevokeFailed'));
+    }
+  };
 
   const handleGenerateBackground = useCallback(async () => {
-    if (user.credits <= 0) {
+    if (user.credits < candidateCount) {
       setShowBilling(true);
       return;
     }
@@ -110,10 +621,15 @@ const App: React.FC = () => {
     setLoading(true);
       
     // Pass email to backend to ensure credits are deducted from correct account
-    const result = await generateOutdoorBackground(config.prompt, user.email);
+    const result = await generateOutdoorBackground(config.prompt, user.email, {
+      count: candidateCount,
+      width: config.width,
+      height: config.height,
+    });
     
-    if (result.imageUrl) {
-      setConfig(prev => ({ ...prev, backgroundImage: result.imageUrl }));
+    if (result.imageUrls.length > 0) {
+      setBackgroundCandidates(prev => [...result.imageUrls, ...prev]);
+      setPreviewCandidate(result.imageUrls[0]);
       // Update credits from server response to ensure sync
       setUser(prev => ({ ...prev, credits: result.credits }));
     } else if (result.credits === -1) {
@@ -124,7 +640,62 @@ const App: React.FC = () => {
       if (profile) setUser(profile);
     }
     setLoading(false);
-  }, [config.prompt, user.credits, user.email]);
+  }, [config.prompt, config.width, config.height, candidateCount, user.credits, user.email]);
+
+  // Edits apply to whichever background the preview shows, so unapplied candidates can be refined too.
+  const editSource = previewCandidate ?? config.backgroundImage;
+  const editCrop = previewCandidate ? DEFAULT_BACKGROUND_CROP : config.backgroundCrop;
+
+  const handleApplyBackgroundEdit = async () => {
+    if (!backgroundEdit || !editSource) return;
+    if (user.credits < 1) {
+      setShowBilling(true);
+      return;
+    }
+
+    setEditingBackground(true);
+    try {
+      const { mode } = backgroundEdit;
+      const { image, mask = '' } = await prepareBackgroundEdit(
+        editSource,
+        editCrop,
+        { width: config.width, height: config.height },
+        mode === 'extend' ? undefined : backgroundEdit.strokes
+      );
+      const request: BackgroundEditRequest = mode === 'extend'
+        ? { mode, image, edge: backgroundEdit.edge, amount: backgroundEdit.amount, prompt: config.prompt }
+        : mode === 'erase'
+          ? { mode, image, mask }
+          : { mode, image, mask, instruction: backgroundEdit.instruction };
+      const result = await editBackgroundImage(user.email, request);
+      if (result.imageUrl) {
+        const edited = result.imageUrl;
+        setBackgroundCandidates(prev => [edited, ...prev]);
+        setPreviewCandidate(edited);
+        setBackgroundEdit(prev => prev && { ...prev, strokes: [] });
+        setUser(prev => ({ ...prev, credits: result.credits }));
+      } else {
+        alert(t('editBackgroundFailed'));
+        const profile = await getUserProfile(user.email);
+        if (profile) setUser(profile);
+      }
+    } catch (error) {
+      console.error('Preparing the background edit failed:', error);
+      alert(t('editBackgroundFailed'));
+    } finally {
+      setEditingBackground(false);
+    }
+  };
+
+  const handleApplyCandidate = (candidate: string) => {
+    setConfig(prev => ({ ...prev, backgroundImage: candidate, backgroundCrop: { ...DEFAULT_BACKGROUND_CROP } }));
+    setPreviewCandidate(null);
+  };
+
+  const handleDiscardCandidate = (candidate: string) => {
+    setBackgroundCandidates(prev => prev.filter(c => c !== candidate));
+    setPreviewCandidate(prev => (prev === candidate ? null : prev));
+  };
 
   const handleNewPrompt = async () => {
     if (user.credits <= 0) {
@@ -168,27 +739,70 @@ const App: React.FC = () => {
   };
 
   const handleExport = async () => {
-    if (!bannerRef.current) return;
     setExporting(true);
     try {
-      const dataUrl = await toJpeg(bannerRef.current, { 
-        quality: 0.95,
-        pixelRatio: 2,
-        width: config.width,
-        height: config.height,
-        cacheBust: true,
-      });
-      const link = document.createElement('a');
-      link.download = `outdoors-banner-${Date.now()}.jpg`;
-      link.href = dataUrl;
-      link.click();
+      if (!(await confirmSafeZones([{ banner: config, sizeId: config.activeSizeId }]))) return;
+      const result = await exportBanner(config, exportSettings);
+      const filename = buildExportFilename(exportSettings.filenamePattern, config, result.format);
+      downloadBlob(result.blob, filename);
+      // With a size limit, the dialog stays open to report what the file ended up as.
+      if (result.budget) setExportedFiles([{ filename, result }]);
+      else setShowExportDialog(false);
     } catch (err) {
       console.error('Export failed:', err);
+      alert(t('exportFailed'));
     } finally {
       setExporting(false);
     }
   };
 
+  // Renders every campaign size off-screen, one after another, and downloads each file.
+  // Every size uses the scale chosen for the active one.
+  const handleExportAllSizes = async () => {
+    setExporting(true);
+    const scale = resolveExportScale(exportSettings, config);
+    const pattern = exportSettings.filenamePattern.includes('{size}')
+      ? exportSettings.filenamePattern
+      : `${exportSettings.filenamePattern}-{size}`;
+    try {
+      const targets = config.sizes.map(size => ({ banner: configForSize(config, size.id), sizeId: size.id }));
+      if (!(await confirmSafeZones(targets))) return;
+      const files: ExportedFile[] = [];
+      for (const size of config.sizes) {
+        const sizeConfig = configForSize(config, size.id);
+        const result = await exportBanner(sizeConfig, exportSettings, scale);
+        const filename = buildExportFilename(pattern, sizeConfig, result.format, size.id);
+        downloadBlob(result.blob, filename);
+        files.push({ filename, result });
+      }
+      if (files.some(file => file.result.budget)) setExportedFiles(files);
+      else setShowExportDialog(false);
+    } catch (err) {
+      console.error('Export failed:', err);
+      alert(t('exportFailed'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // Every size in every language, packed into one ZIP with a manifest.
+  const handleExportCampaign = async () => {
+    setExporting(true);
+    try {
+      if (!(await confirmSafeZones(campaignBanners(config)))) return;
+      const { zip, files } = await exportCampaign(config, exportSettings, (done, total) => setExportProgress({ done, total }));
+      downloadBlob(zip, buildCampaignArchiveFilename(config));
+      if (files.some(file => file.result.budget)) setExportedFiles(files);
+      else setShowExportDialog(false);
+    } catch (err) {
+      console.error('Export failed:', err);
+      alert(t('exportFailed'));
+    } finally {
+      setExporting(false);
+      setExportProgress(null);
+    }
+  };
+
   const handleStripeCheckout = async () => {
     setLoading(true);
     try {
@@ -252,15 +866,354 @@ const App: React.FC = () => {
 
       <main className="max-w-[1644px] mx-auto px-4 mt-6 sm:mt-12 space-y-8 sm:space-y-12 pb-20">
         <section className="touch-none">
-          <div className="relative group/banner ring-1 ring-white/10 rounded-2xl overflow-hidden shadow-2xl">
-            <BannerPreview ref={bannerRef} config={config} onUpdateConfig={handleUpdateConfig} />
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            {config.sizes.map(size => (
+              <div
+                key={size.id}
+                className={`flex items-center rounded-full border transition-colors ${
+                  size.id === config.activeSizeId
+                    ? 'bg-orange-600 border-orange-500 text-white'
+                    : 'bg-white/5 border-white/10 text-white/60 hover:text-white hover:border-white/30'
+                }`}
+              >
+                <button
+                  onClick={() => handleSwitchSize(size.id)}
+                  className="pl-4 pr-2 py-1.5 text-[10px] font-black uppercase tracking-wider"
+                >
+                  {sizeLabel(size.id)} <span className="font-mono opacity-60 ml-1">{size.width}×{size.height}</span>
+                </button>
+                {config.sizes.length > 1 && (
+                  <button
+                    onClick={() => handleRemoveSize(size.id)}
+                    title={t('removeSize')}
+                    className="pr-3 pl-1 py-1.5 text-[10px] font-black opacity-60 hover:opacity-100"
+                  >✕</button>
+                )}
+              </div>
+            ))}
+            {SIZE_PRESETS.some(preset => !config.sizes.some(size => size.id === preset.id)) && (
+              <select
+                value=""
+                onChange={(e) => e.target.value && handleAddSize(e.target.value)}
+                className="bg-white/5 border border-white/10 text-white/60 text-[10px] font-black uppercase tracking-wider px-3 py-1.5 rounded-full outline-none focus:border-orange-500 transition-colors appearance-none"
+              >
+                <option value="" className="bg-[#1a1c23]">+ {t('addSize')}</option>
+                {SIZE_PRESETS.filter(preset => !config.sizes.some(size => size.id === preset.id)).map(preset => (
+                  <option key={preset.id} value={preset.id} className="bg-[#1a1c23]">
+                    {t(preset.labelKey)} ({preset.width}×{preset.height})
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-2 mb-4" role="group" aria-label={t('copyLanguage')}>
+            {config.copyVariants.map(variant => (
+              <div
+                key={variant.locale}
+                className={`flex items-center rounded-full border transition-colors ${
+                  variant.locale === config.locale
+                    ? 'bg-orange-600 border-orange-500 text-white'
+                    : 'bg-white/5 border-white/10 text-white/60 hover:text-white hover:border-white/30'
+                }`}
+              >
+                <button
+                  onClick={() => handleSwitchLocale(variant.locale)}
+                  aria-pressed={variant.locale === config.locale}
+                  className="pl-4 pr-2 py-1.5 text-[10px] font-black uppercase tracking-wider"
+                >
+                  {languages[variant.locale as keyof typeof languages] ?? variant.locale}
+                </button>
+                {config.copyVariants.length > 1 && (
+                  <button
+                    onClick={() => handleRemoveLocale(variant.locale)}
+                    title={t('removeLanguage')}
+                    className="pr-3 pl-1 py-1.5 text-[10px] font-black opacity-60 hover:opacity-100"
+                  >✕</button>
+                )}
+              </div>
+            ))}
+            {Object.keys(languages).some(code => !config.copyVariants.some(v => v.locale === code)) && (
+              <select
+                value=""
+                onChange={(e) => e.target.value && handleAddLocale(e.target.value)}
+                className="bg-white/5 border border-white/10 text-white/60 text-[10px] font-black uppercase tracking-wider px-3 py-1.5 rounded-full outline-none focus:border-orange-500 transition-colors appearance-none"
+              >
+                <option value="" className="bg-[#1a1c23]">+ {t('addLanguage')}</option>
+                {Object.entries(languages).filter(([code]) => !config.copyVariants.some(v => v.locale === code)).map(([code, name]) => (
+                  <option key={code} value={code} className="bg-[#1a1c23]">{name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+          <div
+            className="relative group/banner ring-1 ring-white/10 rounded-2xl overflow-hidden shadow-2xl"
+            onDragOver={(e) => {
+              if (e.dataTransfer.types.includes('Files')) e.preventDefault();
+            }}
+            onDrop={(e) => {
+              const file = e.dataTransfer.files?.[0];
+              if (!file) return;
+              e.preventDefault();
+              handleUploadBackground(file);
+            }}
+          >
+            <BannerPreview
+              ref={bannerRef}
+              config={previewCandidate ? { ...config, backgroundImage: previewCandidate, backgroundCrop: { ...DEFAULT_BACKGROUND_CROP } } : config}
+              onUpdateConfig={handleUpdateConfig}
+              onDragStart={beginBatch}
+              onDragEnd={endBatch}
+              selectedLayerIds={selectedLayerIds}
+              onSelectLayers={setSelectedLayerIds}
+              snapping={{ enabled: snapEnabled, margin: snapMargin }}
+              animationTime={animationPlayback.time}
+              safeZones={showSafeZones ? activeSafeZones : undefined}
+              overlay={backgroundEdit && backgroundEdit.mode !== 'extend' ? (
+                <MaskCanvas
+                  width={config.width}
+                  height={config.height}
+                  strokes={backgroundEdit.strokes}
+                  brushRadius={backgroundEdit.brushRadius}
+                  onChange={(strokes) => setBackgroundEdit(prev => prev && { ...prev, strokes })}
+                  label={t('editMaskHint')}
+                />
+              ) : undefined}
+              t={t}
+            />
             <div className="absolute top-4 left-4 pointer-events-none opacity-0 group-hover/banner:opacity-100 transition-opacity bg-black/60 backdrop-blur-md px-3 py-1.5 rounded-full border border-white/10 text-[10px] font-bold uppercase tracking-widest text-orange-400">
               {t('dragHint')}
             </div>
           </div>
-          <div className="flex justify-end mt-4">
+          {backgroundEdit && (
+            <BackgroundEditPanel
+              edit={backgroundEdit}
+              onChange={(updates) => setBackgroundEdit(prev => prev && { ...prev, ...updates })}
+              busy={editingBackground}
+              onApply={handleApplyBackgroundEdit}
+              onCancel={() => setBackgroundEdit(null)}
+              t={t}
+            />
+          )}
+          {backgroundCandidates.length > 0 && (
+            <BackgroundCandidates
+              candidates={backgroundCandidates}
+              previewing={previewCandidate}
+              currentBackground={config.backgroundImage}
+              onPreview={setPreviewCandidate}
+              onApply={handleApplyCandidate}
+              onDiscard={handleDiscardCandidate}
+              t={t}
+            />
+          )}
+          <div className="flex flex-wrap justify-end items-center mt-4 gap-3">
+            <div className="flex items-center bg-white/5 border border-white/10 rounded-2xl p-1 mr-auto">
+              <button
+                onClick={() => setSnapEnabled(prev => !prev)}
+                aria-pressed={snapEnabled}
+                title={t('snapTooltip')}
+                className={`h-11 px-3 rounded-xl text-[10px] font-black uppercase tracking-wider transition-colors ${snapEnabled ? 'bg-orange-600 text-white' : 'text-white/50 hover:text-white hover:bg-white/10'}`}
+              >
+                {t('snap')}
+              </button>
+              <label className="flex items-center space-x-1 px-2 text-[10px] font-black text-white/30 uppercase tracking-wider" title={t('snapMarginTooltip')}>
+                <span>{t('snapMargin')}</span>
+                <input
+                  type="number" min="0" max="25" step="0.5"
+                  value={snapMargin}
+                  onChange={(e) => setSnapMargin(parseFloat(e.target.value) || 0)}
+                  className="w-14 px-2 py-1.5 bg-black/40 border border-white/10 rounded-lg focus:border-orange-500 outline-none font-bold text-white text-xs"
+                />
+                <span>%</span>
+              </label>
+              <div className="w-px h-6 bg-white/10 mx-1"></div>
+              <button
+                onClick={() => handleAlign('left')}
+                disabled={selectedLayerIds.length < 2}
+                title={t('alignLeft')}
+                aria-label={t('alignLeft')}
+                className="w-11 h-11 rounded-xl flex items-center justify-center text-white/70 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 3v18M8 7h12M8 12h7M8 17h10" />
+                </svg>
+              </button>
+              <button
+                onClick={() => handleAlign('center')}
+                disabled={selectedLayerIds.length < 2}
+                title={t('alignCenter')}
+                aria-label={t('alignCenter')}
+                className="w-11 h-11 rounded-xl flex items-center justify-center text-white/70 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 3v18M6 7h12M8.5 12h7M7 17h10" />
+                </svg>
+              </button>
+              <button
+                onClick={handleDistributeVertically}
+                disabled={selectedLayerIds.length < 3}
+                title={t('distributeVertically')}
+                aria-label={t('distributeVertically')}
+                className="w-11 h-11 rounded-xl flex items-center justify-center text-white/70 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 3h16M4 21h16M8 9h8v6H8z" />
+                </svg>
+              </button>
+            </div>
+            <div className="flex items-center bg-white/5 border border-white/10 rounded-2xl p-1">
+              <button
+                onClick={() => setShowSafeZones(prev => !prev)}
+                disabled={activeSafeZones.length === 0}
+                aria-pressed={showSafeZones}
+                title={activeSafeZones.length === 0 ? t('safeZonesUnavailable') : t('safeZonesTooltip')}
+                className={`h-11 px-3 rounded-xl text-[10px] font-black uppercase tracking-wider transition-colors disabled:opacity-30 ${showSafeZones && activeSafeZones.length > 0 ? 'bg-orange-600 text-white' : 'text-white/50 hover:text-white hover:bg-white/10'}`}
+              >
+                {t('safeZones')}
+                {layoutStats.safeZoneConflicts > 0 && (
+                  <span className="ml-1.5 px-1.5 py-0.5 rounded-full bg-red-500 text-white">{layoutStats.safeZoneConflicts}</span>
+                )}
+              </button>
+              <div
+                role="meter"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(layoutStats.textCoverage)}
+                aria-label={t('textCoverage')}
+                title={t('textCoverageTooltip')}
+                className="flex items-center space-x-2 px-3 text-[10px] font-black uppercase tracking-wider text-white/30"
+              >
+                <span>{t('textCoverage')}</span>
+                <span className="w-16 h-1.5 bg-white/10 rounded-full overflow-hidden">
+                  <span
+                    className={`block h-full rounded-full ${layoutStats.textCoverage > TEXT_COVERAGE_LIMIT ? 'bg-red-500' : 'bg-orange-500'}`}
+                    style={{ width: `${Math.min(100, layoutStats.textCoverage)}%` }}
+                  ></span>
+                </span>
+                <span className={`font-mono ${layoutStats.textCoverage > TEXT_COVERAGE_LIMIT ? 'text-red-400' : 'text-white/60'}`}>
+                  {Math.round(layoutStats.textCoverage)}%
+                </span>
+              </div>
+            </div>
+            <div className="flex items-center bg-white/5 border border-white/10 rounded-2xl p-1">
+              <button
+                onClick={() => setBackgroundEdit(prev => (prev ? null : { ...DEFAULT_BACKGROUND_EDIT }))}
+                disabled={!editSource || !isUserLoaded}
+                aria-pressed={!!backgroundEdit}
+                title={t('editBackgroundTooltip')}
+                className={`h-11 px-3 rounded-xl text-[10px] font-black uppercase tracking-wider transition-colors disabled:opacity-30 ${backgroundEdit ? 'bg-orange-600 text-white' : 'text-white/50 hover:text-white hover:bg-white/10'}`}
+              >
+                {t('editBackground')}
+              </button>
+            </div>
+            <div className="flex items-center bg-white/5 border border-white/10 rounded-2xl p-1">
+              <button
+                onClick={animationPlayback.playing ? animationPlayback.stop : animationPlayback.play}
+                disabled={!hasAnimations(config)}
+                title={t(animationPlayback.playing ? 'stopAnimation' : 'playAnimation')}
+                aria-label={t(animationPlayback.playing ? 'stopAnimation' : 'playAnimation')}
+                aria-pressed={animationPlayback.playing}
+                className="w-11 h-11 rounded-xl flex items-center justify-center text-white/70 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  {animationPlayback.playing
+                    ? <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 7h10v10H7z" />
+                    : <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 5v14l11-7z" />}
+                </svg>
+              </button>
+            </div>
+            <div className="flex items-center bg-white/5 border border-white/10 rounded-2xl p-1">
+              <button
+                onClick={handleOpenDesignLibrary}
+                title={t('designLibraryTooltip')}
+                aria-label={t('designLibrary')}
+                className="w-11 h-11 rounded-xl flex items-center justify-center text-white/70 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 5h6v6H4zM14 5h6v6h-6zM4 15h6v4H4zM14 15h6v4h-6z" />
+                </svg>
+              </button>
+              <button
+                onClick={handleOpenShareDialog}
+                title={t('shareTooltip')}
+                aria-label={t('share')}
+                className="w-11 h-11 rounded-xl flex items-center justify-center text-white/70 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 14a4 4 0 005.66 0l3-3a4 4 0 00-5.66-5.66l-1 1M14 10a4 4 0 00-5.66 0l-3 3a4 4 0 005.66 5.66l1-1" />
+                </svg>
+              </button>
+              <button
+                onClick={handleSaveDesign}
+                disabled={designBusy}
+                title={currentDesign ? t('saveDesignTooltip').replace('{name}', currentDesign.name) : t('saveDesignNewTooltip')}
+                aria-label={t('saveDesign')}
+                className="w-11 h-11 rounded-xl flex items-center justify-center text-white/70 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 18a4 4 0 01-.5-7.97A6 6 0 0118 9a4.5 4.5 0 01-.5 9H7zM12 11v5m0-5l-2 2m2-2l2 2" />
+                </svg>
+              </button>
+            </div>
+            <div className="flex items-center bg-white/5 border border-white/10 rounded-2xl p-1">
+              <input
+                ref={projectInputRef}
+                type="file"
+                accept={`${PROJECT_FILE_EXTENSION},.json,application/json`}
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) handleOpenProject(file);
+                }}
+              />
+              <button
+                onClick={() => projectInputRef.current?.click()}
+                title={t('openProjectTooltip')}
+                aria-label={t('openProject')}
+                className="w-11 h-11 rounded-xl flex items-center justify-center text-white/70 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2V7z" />
+                </svg>
+              </button>
+              <button
+                onClick={handleSaveProject}
+                disabled={savingProject}
+                title={t('saveProjectTooltip')}
+                aria-label={t('saveProject')}
+                className="w-11 h-11 rounded-xl flex items-center justify-center text-white/70 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 3h11l3 3v13a2 2 0 01-2 2H7a2 2 0 01-2-2V3zM8 3v5h7V3M8 21v-6h8v6" />
+                </svg>
+              </button>
+            </div>
+            <div className="flex items-center bg-white/5 border border-white/10 rounded-2xl p-1">
+              <button
+                onClick={undo}
+                disabled={!canUndo}
+                title={t('undoTooltip')}
+                aria-label={t('undoTooltip')}
+                className="w-11 h-11 rounded-xl flex items-center justify-center text-white/70 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+                </svg>
+              </button>
+              <button
+                onClick={redo}
+                disabled={!canRedo}
+                title={t('redoTooltip')}
+                aria-label={t('redoTooltip')}
+                className="w-11 h-11 rounded-xl flex items-center justify-center text-white/70 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+                </svg>
+              </button>
+            </div>
             <button 
-              onClick={handleExport}
+              onClick={() => { setExportedFiles([]); setShowExportDialog(true); }}
               disabled={exporting}
               title={t('exportTooltip')}
               className="group bg-orange-600 hover:bg-orange-500 text-white px-8 py-3 rounded-2xl font-black text-lg transition-all shadow-xl active:scale-[0.98] flex items-center justify-center space-x-3 disabled:opacity-50 disabled:cursor-not-allowed uppercase"
@@ -293,7 +1246,7 @@ const App: React.FC = () => {
                     <input 
                       type="number" 
                       value={config.width}
-                      onChange={(e) => setConfig(prev => ({ ...prev, width: parseInt(e.target.value) || 0 }))}
+                      onChange={(e) => setConfig(prev => resizeActiveSize(prev, { width: parseInt(e.target.value) || 0 }), { coalesce: 'width' })}
                       className="w-full px-4 py-3 bg-black/40 border border-white/10 rounded-xl focus:border-orange-500 outline-none font-bold text-white transition-all text-sm"
                     />
                   </div>
@@ -302,39 +1255,303 @@ const App: React.FC = () => {
                     <input 
                       type="number" 
                       value={config.height}
-                      onChange={(e) => setConfig(prev => ({ ...prev, height: parseInt(e.target.value) || 0 }))}
+                      onChange={(e) => setConfig(prev => resizeActiveSize(prev, { height: parseInt(e.target.value) || 0 }), { coalesce: 'height' })}
                       className="w-full px-4 py-3 bg-black/40 border border-white/10 rounded-xl focus:border-orange-500 outline-none font-bold text-white transition-all text-sm"
                     />
                   </div>
                 </div>
 
+                <div className="space-y-3">
+                  {[...config.layers].reverse().map((layer, index) => (
+                    <div key={layer.id} className={`bg-black/20 border rounded-2xl p-3 space-y-2 transition-colors ${selectedLayerIds.includes(layer.id) ? 'border-orange-500/50' : 'border-white/5'}`}>
+                      <div className="flex items-center justify-between">
+                        <button
+                          onClick={(e) => setSelectedLayerIds(prev =>
+                            e.shiftKey || e.ctrlKey || e.metaKey
+                              ? (prev.includes(layer.id) ? prev.filter(id => id !== layer.id) : [...prev, layer.id])
+                              : [layer.id]
+                          )}
+                          className="text-[10px] font-black text-white/30 hover:text-white/60 uppercase tracking-[0.2em] transition-colors"
+                        >
+                          {layerTypeLabels[layer.type]}
+                        </button>
+                        <div className="flex items-center space-x-1 ml-auto mr-2" role="group" aria-label={`${layerTypeLabels[layer.type]} ${t('precisionControls')}`}>
+                          {(['x', 'y'] as const).map(axis => (
+                            <label key={axis} className="flex items-center space-x-1 text-[9px] font-black text-white/30 uppercase">
+                              <span>{axis}</span>
+                              <input
+                                type="number"
+                                min="0" max="100" step="0.1"
+                                value={layer[axis]}
+                                aria-label={`${layerTypeLabels[layer.type]} ${t(axis === 'x' ? 'positionX' : 'positionY')}`}
+                                onChange={(e) => handleUpdateLayer(layer.id, { [axis]: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                                className="w-14 px-1.5 py-1 bg-black/40 border border-white/10 rounded-md focus:border-orange-500 outline-none font-bold text-white text-[10px]"
+                              />
+                            </label>
+                          ))}
+                        </div>
+                        <div className="flex items-center space-x-1">
+                          <button
+                            onClick={() => handleMoveLayer(layer.id, 'up')}
+                            disabled={index === 0}
+                            title={t('moveLayerUp')}
+                            className="w-7 h-7 rounded-lg text-white/40 hover:text-white hover:bg-white/10 disabled:opacity-20 disabled:hover:bg-transparent transition-colors text-xs font-black"
+                          >↑</button>
+                          <button
+                            onClick={() => handleMoveLayer(layer.id, 'down')}
+                            disabled={index === config.layers.length - 1}
+                            title={t('moveLayerDown')}
+                            className="w-7 h-7 rounded-lg text-white/40 hover:text-white hover:bg-white/10 disabled:opacity-20 disabled:hover:bg-transparent transition-colors text-xs font-black"
+                          >↓</button>
+                          <button
+                            onClick={() => setAnimationLayerId(prev => (prev === layer.id ? null : layer.id))}
+                            title={t('animation')}
+                            aria-expanded={animationLayerId === layer.id}
+                            className={`w-7 h-7 rounded-lg hover:bg-white/10 transition-colors text-xs font-black ${animationLayerId === layer.id || layer.animation ? 'text-orange-400' : 'text-white/40 hover:text-white'}`}
+                          >✦</button>
+                          <button
+                            onClick={() => handleDuplicateLayer(layer.id)}
+                            title={t('duplicateLayer')}
+                            className="w-7 h-7 rounded-lg text-white/40 hover:text-white hover:bg-white/10 transition-colors text-xs font-black"
+                          >⧉</button>
+                          <button
+                            onClick={() => handleRemoveLayer(layer.id)}
+                            title={t('removeLayer')}
+                            className="w-7 h-7 rounded-lg text-white/40 hover:text-red-400 hover:bg-white/10 transition-colors text-xs font-black"
+                          >✕</button>
+                        </div>
+                      </div>
+                      {(layer.type === 'text' || layer.type === 'promo') && (
+                        <>
+                          <div className="flex items-center space-x-2">
+                            <input 
+                              type="text" 
+                              value={layer.text}
+                              onChange={(e) => handleUpdateLayer(layer.id, { text: e.target.value })}
+                              className="flex-1 min-w-0 px-5 py-4 bg-black/40 border border-white/10 rounded-2xl focus:border-orange-500 outline-none font-bold text-white transition-all text-sm"
+                            />
+                            <button
+                              onClick={() => setStyleLayerId(prev => (prev === layer.id ? null : layer.id))}
+                              title={t('typography')}
+                              aria-expanded={styleLayerId === layer.id}
+                              className={`w-12 h-12 shrink-0 rounded-2xl border text-sm font-black transition-colors ${styleLayerId === layer.id ? 'bg-orange-600 border-orange-500 text-white' : 'bg-black/40 border-white/10 text-white/50 hover:text-white'}`}
+                            >Aa</button>
+                          </div>
+                          {styleLayerId === layer.id && (
+                            <TypographyControls
+                              style={layer.style}
+                              onChange={(updates) => handleUpdateLayerStyle(layer.id, updates)}
+                              t={t}
+                            />
+                          )}
+                        </>
+                      )}
+                      {layer.type === 'image' && (
+                        <ImageLayerControls
+                          layer={layer}
+                          logos={logos}
+                          uploading={uploadingLayerId === layer.id}
+                          onChange={(updates: Partial<ImageLayer>) => handleUpdateLayer(layer.id, updates)}
+                          onUpload={(file) => handleUploadLogo(layer.id, file)}
+                          onDeleteLogo={handleDeleteLogo}
+                          t={t}
+                        />
+                      )}
+                      {layer.type === 'shape' && (
+                        <div className="flex items-center space-x-3">
+                          <input 
+                            type="color" 
+                            value={layer.color}
+                            onChange={(e) => handleUpdateLayer(layer.id, { color: e.target.value })}
+                            className="w-10 h-10 bg-transparent border border-white/10 rounded-lg cursor-pointer"
+                          />
+                          <select
+                            value={layer.shape}
+                            onChange={(e) => handleUpdateLayer(layer.id, { shape: e.target.value as 'rect' | 'ellipse' })}
+                            className="flex-1 px-4 py-3 bg-black/40 border border-white/10 rounded-xl focus:border-orange-500 outline-none font-bold text-white transition-all text-sm appearance-none"
+                          >
+                            <option value="rect">{t('shapeRect')}</option>
+                            <option value="ellipse">{t('shapeEllipse')}</option>
+                          </select>
+                        </div>
+                      )}
+                      {layer.type === 'product' && (
+                        <div className="grid grid-cols-3 gap-2">
+                          <select
+                            value={layer.productId}
+                            onChange={(e) => handleUpdateLayer(layer.id, { productId: e.target.value })}
+                            className="col-span-3 px-4 py-3 bg-black/40 border border-white/10 rounded-xl focus:border-orange-500 outline-none font-bold text-white transition-all text-sm appearance-none"
+                          >
+                            {config.products.map(product => (
+                              <option key={product.id} value={product.id}>{product.name}</option>
+                            ))}
+                          </select>
+                          <input
+                            type="text"
+                            value={layer.currency}
+                            maxLength={3}
+                            title={t('currency')}
+                            onChange={(e) => handleUpdateLayer(layer.id, { currency: e.target.value.toUpperCase() })}
+                            className="px-3 py-3 bg-black/40 border border-white/10 rounded-xl focus:border-orange-500 outline-none font-bold text-white transition-all text-sm uppercase"
+                          />
+                          <select
+                            value={layer.badgeStyle}
+                            title={t('badgeStyle')}
+                            onChange={(e) => handleUpdateLayer(layer.id, { badgeStyle: e.target.value as ProductLayer['badgeStyle'] })}
+                            className="col-span-2 px-4 py-3 bg-black/40 border border-white/10 rounded-xl focus:border-orange-500 outline-none font-bold text-white transition-all text-sm appearance-none"
+                          >
+                            <option value="percent">-30%</option>
+                            <option value="zhe">7折</option>
+                          </select>
+                        </div>
+                      )}
+                      {animationLayerId === layer.id && (
+                        <AnimationControls
+                          animation={layer.animation}
+                          onChange={(animation) => handleUpdateLayer(layer.id, { animation })}
+                          t={t}
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-4 gap-2">
+                  {(['text', 'promo', 'image', 'shape'] as LayerType[]).map(type => (
+                    <button
+                      key={type}
+                      onClick={() => handleAddLayer(type)}
+                      className="px-2 py-2 rounded-xl text-[10px] font-bold tracking-wider uppercase transition-all border bg-orange-600/20 text-orange-400 border-orange-500/30 hover:bg-orange-600 hover:text-white hover:border-orange-500"
+                    >
+                      + {layerTypeLabels[type]}
+                    </button>
+                  ))}
+                </div>
+
                 <div>
-                  <label className="block text-[10px] font-black text-white/30 uppercase tracking-[0.2em] mb-3">{t('mainHeading')}</label>
-                  <input 
-                    type="text" 
-                    value={config.title}
-                    onChange={(e) => setConfig(prev => ({ ...prev, title: e.target.value }))}
-                    className="w-full px-5 py-4 bg-black/40 border border-white/10 rounded-2xl focus:border-orange-500 outline-none font-bold text-white transition-all text-sm"
-                  />
+                  <div className="flex justify-between items-center mb-3">
+                    <label className="block text-[10px] font-black text-white/30 uppercase tracking-[0.2em]">{t('highlightRules')}</label>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => setShowHighlightRules(prev => !prev)}
+                        aria-expanded={showHighlightRules}
+                        className="px-3 py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all border bg-white/5 text-white/60 border-white/10 hover:text-white"
+                      >
+                        {showHighlightRules ? '−' : '+'}
+                      </button>
+                    </div>
+                  </div>
+                  {showHighlightRules && (
+                    <HighlightRulesPanel
+                      settings={config.highlights}
+                      onChange={(highlights) => setConfig(prev => ({ ...prev, highlights }), { coalesce: 'highlights' })}
+                      t={t}
+                    />
+                  )}
                 </div>
 
                 <div>
-                  <label className="block text-[10px] font-black text-white/30 uppercase tracking-[0.2em] mb-3">{t('promo1')}</label>
-                  <input 
-                    type="text" 
-                    value={config.discount}
-                    onChange={(e) => setConfig(prev => ({ ...prev, discount: e.target.value }))}
-                    className="w-full px-5 py-4 bg-black/40 border border-white/10 rounded-2xl focus:border-orange-500 outline-none font-bold text-white transition-all text-sm"
-                  />
+                  <div className="flex justify-between items-center mb-3">
+                    <label className="block text-[10px] font-black text-white/30 uppercase tracking-[0.2em]">
+                      {t('legibility')}
+                      {showLegibility && legibility.some(r => !r.passes) && (
+                        <span className="ml-1.5 px-1.5 py-0.5 rounded-full bg-red-500 text-white">{legibility.filter(r => !r.passes).length}</span>
+                      )}
+                    </label>
+                    <button
+                      onClick={() => setShowLegibility(prev => !prev)}
+                      aria-expanded={showLegibility}
+                      title={t('legibilityTooltip')}
+                      className="px-3 py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all border bg-white/5 text-white/60 border-white/10 hover:text-white"
+                    >
+                      {showLegibility ? '−' : '+'}
+                    </button>
+                  </div>
+                  {showLegibility && (
+                    <LegibilityPanel
+                      results={legibility}
+                      layers={config.layers}
+                      checking={!backgroundSample}
+                      fixingLayerId={fixingLayerId}
+                      onFix={handleLegibilityFix}
+                      onSelect={(layerId) => setSelectedLayerIds([layerId])}
+                      t={t}
+                    />
+                  )}
+                </div>
+
+                <div>
+                  <div className="flex justify-between items-center mb-3">
+                    <label className="block text-[10px] font-black text-white/30 uppercase tracking-[0.2em]">{t('products')}</label>
+                    <button
+                      onClick={handleAddProduct}
+                      className="px-3 py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all border bg-orange-600/20 text-orange-400 border-orange-500/30 hover:bg-orange-600 hover:text-white hover:border-orange-500"
+                    >
+                      + {t('addProduct')}
+                    </button>
+                  </div>
+                  <div className="space-y-3">
+                    {config.products.map(product => (
+                      <div key={product.id} className="bg-black/20 border border-white/5 rounded-2xl p-3 space-y-2">
+                        <div className="flex items-center space-x-2">
+                          <input
+                            type="text"
+                            value={product.name}
+                            placeholder={t('productName')}
+                            onChange={(e) => handleUpdateProduct(product.id, { name: e.target.value })}
+                            className="flex-1 min-w-0 px-4 py-3 bg-black/40 border border-white/10 rounded-xl focus:border-orange-500 outline-none font-bold text-white transition-all text-sm placeholder:text-white/20"
+                          />
+                          <button
+                            onClick={() => handleRemoveProduct(product.id)}
+                            title={t('removeLayer')}
+                            className="w-7 h-7 rounded-lg text-white/40 hover:text-red-400 hover:bg-white/10 transition-colors text-xs font-black"
+                          >✕</button>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                          <input
+                            type="number"
+                            min="0"
+                            value={product.price}
+                            title={t('salePrice')}
+                            onChange={(e) => handleUpdateProduct(product.id, { price: parseFloat(e.target.value) || 0 })}
+                            className="px-4 py-3 bg-black/40 border border-white/10 rounded-xl focus:border-orange-500 outline-none font-bold text-white transition-all text-sm"
+                          />
+                          <input
+                            type="number"
+                            min="0"
+                            value={product.originalPrice}
+                            title={t('originalPrice')}
+                            onChange={(e) => handleUpdateProduct(product.id, { originalPrice: parseFloat(e.target.value) || 0 })}
+                            className="px-4 py-3 bg-black/40 border border-white/10 rounded-xl focus:border-orange-500 outline-none font-bold text-white/50 line-through transition-all text-sm"
+                          />
+                        </div>
+                        <input
+                          type="url"
+                          value={product.imageUrl}
+                          placeholder={t('imageUrl')}
+                          onChange={(e) => handleUpdateProduct(product.id, { imageUrl: e.target.value })}
+                          className="w-full px-4 py-3 bg-black/40 border border-white/10 rounded-xl focus:border-orange-500 outline-none font-bold text-white transition-all text-sm placeholder:text-white/20"
+                        />
+                        <button
+                          onClick={() => handleAddProductCard(product.id)}
+                          className="w-full px-2 py-2 rounded-xl text-[10px] font-bold tracking-wider uppercase transition-all border bg-white/5 text-white/60 border-white/10 hover:bg-orange-600 hover:text-white hover:border-orange-500"
+                        >
+                          + {t('addToBanner')}
+                        </button>
+                      </div>
+                    ))}
+                  </div>
                 </div>
 
                 <div>
-                  <label className="block text-[10px] font-black text-white/30 uppercase tracking-[0.2em] mb-3">{t('promo2')}</label>
-                  <input 
-                    type="text" 
-                    value={config.discount2}
-                    onChange={(e) => setConfig(prev => ({ ...prev, discount2: e.target.value }))}
-                    className="w-full px-5 py-4 bg-black/40 border border-white/10 rounded-2xl focus:border-orange-500 outline-none font-bold text-white transition-all text-sm"
+                  <label className="block text-[10px] font-black text-white/30 uppercase tracking-[0.2em] mb-3">{t('backgroundPhoto')}</label>
+                  <BackgroundControls
+                    image={config.backgroundImage}
+                    crop={config.backgroundCrop}
+                    onCropChange={handleBackgroundCropChange}
+                    onUpload={handleUploadBackground}
+                    uploading={uploadingBackground}
+                    t={t}
                   />
                 </div>
 
@@ -364,7 +1581,7 @@ const App: React.FC = () => {
                     <input 
                       type="range" min="0" max="1" step="0.01"
                       value={config.overlayOpacity}
-                      onChange={(e) => setConfig(prev => ({ ...prev, overlayOpacity: parseFloat(e.target.value) }))}
+                      onChange={(e) => setConfig(prev => ({ ...prev, overlayOpacity: parseFloat(e.target.value) }), { coalesce: 'overlayOpacity' })}
                       className="w-full h-1 mt-6 bg-white/10 rounded-full appearance-none cursor-pointer accent-orange-600"
                     />
                   </div>
@@ -393,12 +1610,27 @@ const App: React.FC = () => {
                  <div className="space-y-4">
                    <textarea
                      value={config.prompt}
-                     onChange={(e) => setConfig(prev => ({ ...prev, prompt: e.target.value }))}
+                     onChange={(e) => setConfig(prev => ({ ...prev, prompt: e.target.value }), { coalesce: 'prompt' })}
                      className="w-full h-64 px-5 py-4 bg-black/40 border border-white/10 rounded-2xl focus:border-orange-500 outline-none font-bold text-white transition-all text-sm resize-none"
                    />
                  </div>
 
-                 <div className="pt-4">
+                 <div className="pt-4 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-[10px] font-black text-white/30 uppercase tracking-[0.2em]">{t('candidateCount')}</span>
+                    <div className="flex items-center bg-white/5 border border-white/10 rounded-2xl p-1">
+                      {[1, 2, 3, 4].map(count => (
+                        <button
+                          key={count}
+                          onClick={() => setCandidateCount(count)}
+                          aria-pressed={candidateCount === count}
+                          className={`w-9 h-9 rounded-xl text-xs font-black transition-colors ${candidateCount === count ? 'bg-orange-600 text-white' : 'text-white/50 hover:text-white hover:bg-white/10'}`}
+                        >
+                          {count}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
                   <button 
                     onClick={handleGenerateBackground}
                     disabled={loading || !isUserLoaded}
@@ -416,6 +1648,9 @@ const App: React.FC = () => {
                     )}
                     <span>{loading ? t('generatingBtn') : t('generateBtn')}</span>
                   </button>
+                  <p className="text-center text-[10px] font-bold text-white/30 uppercase tracking-wider">
+                    {t(candidateCount === 1 ? 'generateCostOne' : 'generateCost').replace('{count}', String(candidateCount))}
+                  </p>
                  </div>
                </div>
             </div>
@@ -423,6 +1658,50 @@ const App: React.FC = () => {
         </section>
       </main>
 
+      {showExportDialog && (
+        <ExportDialog
+          config={config}
+          settings={exportSettings}
+          onChange={(updates) => { setExportSettings(prev => ({ ...prev, ...updates })); setExportedFiles([]); }}
+          exporting={exporting}
+          exportedFiles={exportedFiles}
+          onExport={handleExport}
+          onExportAllSizes={handleExportAllSizes}
+          onExportCampaign={handleExportCampaign}
+          progress={exportProgress}
+          onClose={() => setShowExportDialog(false)}
+          t={t}
+        />
+      )}
+
+      {showDesignLibrary && (
+        <DesignLibraryDialog
+          designs={designs}
+          currentDesignId={currentDesign?.id ?? null}
+          busy={designBusy}
+          onSaveAsNew={handleSaveDesignAsNew}
+          onOpen={(design) => handleOpenDesign(design, false)}
+          onUseTemplate={(design) => handleOpenDesign(design, true)}
+          onDuplicate={handleDuplicateDesign}
+          onToggleTemplate={handleToggleTemplate}
+          onRename={handleRenameDesign}
+          onDelete={handleDeleteDesign}
+          onClose={() => setShowDesignLibrary(false)}
+          t={t}
+        />
+      )}
+
+      {showShareDialog && (
+        <ShareDialog
+          shares={shares}
+          creating={creatingShare}
+          onCreate={handleCreateShare}
+          onRevoke={handleRevokeShare}
+          onClose={() => setShowShareDialog(false)}
+          t={t}
+        />
+      )}
+
       {/* Billing Modal */}
       {showBilling && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/90 backdrop-blur-md">
@@ -0,0 +1,67 @@
+import React from 'react';
+import { AnimationEffect, LayerAnimation } from '../types';
+import { ANIMATION_EFFECTS, DEFAULT_LAYER_ANIMATION, MAX_ANIMATION_DELAY_MS, MAX_ANIMATION_DURATION_MS } from '../utils/animation';
+
+interface AnimationControlsProps {
+  animation?: LayerAnimation;
+  onChange: (animation: LayerAnimation | undefined) => void;
+  t: (key: string) => string;
+}
+
+const EFFECT_LABELS: Record<AnimationEffect, string> = {
+  'fade': 'animationFade',
+  'slide-from-left': 'animationSlideFromLeft',
+  'slide-from-right': 'animationSlideFromRight',
+  'slide-from-top': 'animationSlideFromTop',
+  'slide-from-bottom': 'animationSlideFromBottom',
+  'scale': 'animationScale',
+};
+
+const labelClass = 'block text-[9px] font-black text-white/30 uppercase tracking-[0.2em] mb-1';
+const fieldClass = 'w-full px-3 py-2 bg-black/40 border border-white/10 rounded-lg focus:border-orange-500 outline-none font-bold text-white transition-all text-xs';
+const sliderClass = 'w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-orange-600';
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const AnimationControls: React.FC<AnimationControlsProps> = ({ animation, onChange, t }) => (
+  <div className="grid grid-cols-2 gap-2 pt-1">
+    <div className="col-span-2">
+      <label className={labelClass}>{t('animationEffect')}</label>
+      <select
+        value={animation?.effect ?? 'none'}
+        onChange={(e) => onChange(e.target.value === 'none'
+          ? undefined
+          : { ...DEFAULT_LAYER_ANIMATION, ...animation, effect: e.target.value as AnimationEffect })}
+        className={`${fieldClass} appearance-none`}
+      >
+        <option value="none">{t('animationNone')}</option>
+        {ANIMATION_EFFECTS.map(effect => <option key={effect} value={effect}>{t(EFFECT_LABELS[effect])}</option>)}
+      </select>
+    </div>
+
+    {animation && (
+      <>
+        <div>
+          <label className={labelClass}>{t('animationDelay')} {seconds(animation.delay)}</label>
+          <input
+            type="range" min="0" max={MAX_ANIMATION_DELAY_MS} step="100"
+            value={animation.delay}
+            onChange={(e) => onChange({ ...animation, delay: parseInt(e.target.value) })}
+            className={sliderClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>{t('animationDuration')} {seconds(animation.duration)}</label>
+          <input
+            type="range" min="100" max={MAX_ANIMATION_DURATION_MS} step="100"
+            value={animation.duration}
+            onChange={(e) => onChange({ ...animation, duration: parseInt(e.target.value) })}
+            className={sliderClass}
+          />
+        </div>
+      </>
+    )}
+  </div>
+);
+
+export default AnimationControls;
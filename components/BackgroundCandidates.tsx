@@ -0,0 +1,71 @@
+import React from 'react';
+
+interface BackgroundCandidatesProps {
+  candidates: string[];
+  /** The candidate shown in the preview instead of the current background, if any. */
+  previewing: string | null;
+  currentBackground: string;
+  onPreview: (candidate: string | null) => void;
+  onApply: (candidate: string) => void;
+  onDiscard: (candidate: string) => void;
+  t: (key: string) => string;
+}
+
+const actionClass = 'px-3 py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all border';
+
+/**
+ * The strip of generated backgrounds under the preview. Clicking one previews it behind the
+ * current layout; the background only changes once a candidate is applied.
+ */
+const BackgroundCandidates: React.FC<BackgroundCandidatesProps> = ({
+  candidates, previewing, currentBackground, onPreview, onApply, onDiscard, t,
+}) => (
+  <div className="mt-4 bg-white/5 border border-white/10 rounded-2xl p-3 space-y-3">
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-[10px] font-black text-white/40 uppercase tracking-[0.2em] mr-auto">
+        {t('backgroundCandidates')}
+        {previewing && <span className="ml-2 normal-case tracking-normal font-bold text-orange-400">{t('previewingCandidate')}</span>}
+      </span>
+      {previewing && (
+        <>
+          <button onClick={() => onPreview(null)} className={`${actionClass} bg-white/5 text-white/60 border-white/10 hover:text-white`}>
+            {t('showCurrentBackground')}
+          </button>
+          <button
+            onClick={() => onApply(previewing)}
+            className={`${actionClass} bg-orange-600/20 text-orange-400 border-orange-500/30 hover:bg-orange-600 hover:text-white hover:border-orange-500`}
+          >
+            {t('applyCandidate')}
+          </button>
+        </>
+      )}
+    </div>
+    <div className="flex space-x-2 overflow-x-auto pb-1">
+      {candidates.map((candidate, index) => (
+        <div key={candidate} className="relative shrink-0 group/candidate">
+          <button
+            onClick={() => onPreview(candidate === previewing ? null : candidate)}
+            aria-pressed={candidate === previewing}
+            aria-label={t('previewCandidate').replace('{n}', String(index + 1))}
+            className={`block w-32 aspect-video rounded-xl overflow-hidden border-2 transition-colors ${candidate === previewing ? 'border-orange-500' : 'border-transparent hover:border-white/30'}`}
+          >
+            <img src={candidate} alt="" className="w-full h-full object-cover" />
+          </button>
+          {candidate === currentBackground && (
+            <span className="absolute bottom-1 left-1 pointer-events-none bg-black/70 px-1.5 py-0.5 rounded text-[9px] font-black uppercase tracking-wider text-orange-400">
+              {t('candidateInUse')}
+            </span>
+          )}
+          <button
+            onClick={() => onDiscard(candidate)}
+            title={t('discardCandidate')}
+            aria-label={t('discardCandidate')}
+            className="absolute top-1 right-1 w-5 h-5 rounded-full bg-black/70 text-white/60 hover:text-red-400 text-[10px] font-black opacity-0 group-hover/candidate:opacity-100 focus:opacity-100 transition-opacity"
+          >✕</button>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default BackgroundCandidates;
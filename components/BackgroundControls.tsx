@@ -0,0 +1,121 @@
+import React, { useRef, useState } from 'react';
+import { BackgroundCrop } from '../types';
+import { DEFAULT_BACKGROUND_CROP, MAX_BACKGROUND_ZOOM } from '../utils/background';
+
+interface BackgroundControlsProps {
+  image: string | null;
+  crop: BackgroundCrop;
+  onCropChange: (crop: BackgroundCrop) => void;
+  onUpload: (file: File) => void;
+  uploading: boolean;
+  t: (key: string) => string;
+}
+
+const labelClass = 'block text-[10px] font-black text-white/30 uppercase tracking-[0.2em] mb-3';
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const BackgroundControls: React.FC<BackgroundControlsProps> = ({ image, crop, onCropChange, onUpload, uploading, t }) => {
+  const [dragOver, setDragOver] = useState(false);
+  const pickerRef = useRef<HTMLDivElement>(null);
+
+  const setFocalFromPointer = (e: React.PointerEvent) => {
+    const rect = pickerRef.current?.getBoundingClientRect();
+    if (!rect || !rect.width || !rect.height) return;
+    const focalX = Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100));
+    const focalY = Math.min(100, Math.max(0, ((e.clientY - rect.top) / rect.height) * 100));
+    onCropChange({ ...crop, focalX: round(focalX), focalY: round(focalY) });
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragOver(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) onUpload(file);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div
+        onDragOver={(e) => { e.preventDefault(); setDragOver(true); }}
+        onDragLeave={() => setDragOver(false)}
+        onDrop={handleDrop}
+        className={`rounded-2xl border border-dashed p-3 transition-colors ${dragOver ? 'border-orange-500 bg-orange-600/10' : 'border-white/10 bg-black/20'}`}
+      >
+        {image ? (
+          <div
+            ref={pickerRef}
+            role="slider"
+            aria-label={t('focalPoint')}
+            aria-valuetext={`${Math.round(crop.focalX)}%, ${Math.round(crop.focalY)}%`}
+            tabIndex={0}
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              setFocalFromPointer(e);
+            }}
+            onPointerMove={(e) => {
+              if (e.currentTarget.hasPointerCapture(e.pointerId)) setFocalFromPointer(e);
+            }}
+            onKeyDown={(e) => {
+              const step = e.shiftKey ? 10 : 1;
+              const moves: Record<string, [number, number]> = { ArrowLeft: [-step, 0], ArrowRight: [step, 0], ArrowUp: [0, -step], ArrowDown: [0, step] };
+              const move = moves[e.key];
+              if (!move) return;
+              e.preventDefault();
+              onCropChange({
+                ...crop,
+                focalX: Math.min(100, Math.max(0, crop.focalX + move[0])),
+                focalY: Math.min(100, Math.max(0, crop.focalY + move[1])),
+              });
+            }}
+            className="relative rounded-xl overflow-hidden cursor-crosshair touch-none select-none outline-none focus-visible:ring-2 focus-visible:ring-orange-500"
+          >
+            <img src={image} alt="" className="block w-full h-auto max-h-56 object-contain pointer-events-none" draggable={false} />
+            <div
+              className="absolute w-6 h-6 -ml-3 -mt-3 rounded-full border-2 border-white shadow-[0_0_0_2px_rgba(234,88,12,0.9)] pointer-events-none"
+              style={{ left: `${crop.focalX}%`, top: `${crop.focalY}%` }}
+            />
+          </div>
+        ) : (
+          <div className="py-8 text-center text-[10px] font-bold uppercase tracking-wider text-white/30">{t('dropBackgroundHint')}</div>
+        )}
+        <div className="flex items-center justify-between mt-3">
+          <span className="text-[10px] font-bold text-white/30">{image ? t('focalPointHint') : ''}</span>
+          <label className={`shrink-0 px-3 py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase border transition-all cursor-pointer ${uploading ? 'opacity-50 pointer-events-none' : ''} bg-orange-600/20 text-orange-400 border-orange-500/30 hover:bg-orange-600 hover:text-white hover:border-orange-500`}>
+            {uploading ? t('uploading') : t('uploadBackground')}
+            <input
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onUpload(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-[1fr_auto] gap-4 items-end">
+        <div>
+          <label className={labelClass}>{t('backgroundZoom')} {crop.zoom.toFixed(2)}×</label>
+          <input
+            type="range" min="1" max={MAX_BACKGROUND_ZOOM} step="0.01"
+            value={crop.zoom}
+            onChange={(e) => onCropChange({ ...crop, zoom: parseFloat(e.target.value) })}
+            className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-orange-600"
+          />
+        </div>
+        <button
+          onClick={() => onCropChange({ ...DEFAULT_BACKGROUND_CROP })}
+          className="px-3 py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase border bg-white/5 text-white/60 border-white/10 hover:text-white transition-colors"
+        >
+          {t('resetCrop')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BackgroundControls;
@@ -0,0 +1,150 @@
+import React from 'react';
+import { MaskStroke } from '../services/backgroundEditService';
+import { BackgroundEdge } from '../services/geminiService';
+
+export type BackgroundEditMode = 'inpaint' | 'erase' | 'extend';
+
+export interface BackgroundEditState {
+  mode: BackgroundEditMode;
+  strokes: MaskStroke[];
+  /** Brush radius in banner pixels. */
+  brushRadius: number;
+  instruction: string;
+  edge: BackgroundEdge;
+  /** How far to extend, as a fraction of the photo's size along that edge. */
+  amount: number;
+}
+
+export const DEFAULT_BACKGROUND_EDIT: BackgroundEditState = {
+  mode: 'inpaint',
+  strokes: [],
+  brushRadius: 40,
+  instruction: '',
+  edge: 'left',
+  amount: 0.25,
+};
+
+interface BackgroundEditPanelProps {
+  edit: BackgroundEditState;
+  onChange: (updates: Partial<BackgroundEditState>) => void;
+  busy: boolean;
+  onApply: () => void;
+  onCancel: () => void;
+  t: (key: string) => string;
+}
+
+const MODES: { id: BackgroundEditMode; labelKey: string }[] = [
+  { id: 'inpaint', labelKey: 'editModeInpaint' },
+  { id: 'erase', labelKey: 'editModeErase' },
+  { id: 'extend', labelKey: 'editModeExtend' },
+];
+
+const EDGES: { id: BackgroundEdge; labelKey: string }[] = [
+  { id: 'left', labelKey: 'edgeLeft' },
+  { id: 'right', labelKey: 'edgeRight' },
+  { id: 'top', labelKey: 'edgeTop' },
+  { id: 'bottom', labelKey: 'edgeBottom' },
+];
+
+const EXTEND_AMOUNTS = [0.25, 0.5];
+
+const labelClass = 'text-[10px] font-black text-white/30 uppercase tracking-[0.2em]';
+const optionClass = (active: boolean) =>
+  `px-3 py-2 rounded-xl text-[11px] font-black uppercase tracking-wider border transition-colors ${active ? 'bg-orange-600 border-orange-500 text-white' : 'bg-black/40 border-white/10 text-white/50 hover:text-white'}`;
+const actionClass = 'px-3 py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all border';
+
+/**
+ * Controls for AI edits to the background: paint a mask over the banner and describe a change
+ * or erase it, or extend one edge of the photo.
+ */
+const BackgroundEditPanel: React.FC<BackgroundEditPanelProps> = ({ edit, onChange, busy, onApply, onCancel, t }) => {
+  const masked = edit.mode !== 'extend';
+  const ready = masked
+    ? edit.strokes.length > 0 && (edit.mode === 'erase' || edit.instruction.trim() !== '')
+    : true;
+
+  return (
+    <div className="mt-4 bg-white/5 border border-orange-500/30 rounded-2xl p-4 space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={`${labelClass} mr-auto`}>{t('editBackground')}</span>
+        {MODES.map(mode => (
+          <button key={mode.id} onClick={() => onChange({ mode: mode.id })} aria-pressed={edit.mode === mode.id} className={optionClass(edit.mode === mode.id)}>
+            {t(mode.labelKey)}
+          </button>
+        ))}
+      </div>
+
+      {masked ? (
+        <>
+          <p className="text-xs text-white/50 font-bold">{t('editMaskHint')}</p>
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center space-x-2">
+              <span className={labelClass}>{t('brushSize')}</span>
+              <input
+                type="range" min="10" max="150" step="5"
+                value={edit.brushRadius}
+                onChange={(e) => onChange({ brushRadius: parseInt(e.target.value, 10) })}
+                className="w-32 h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-orange-600"
+              />
+            </label>
+            <button
+              onClick={() => onChange({ strokes: edit.strokes.slice(0, -1) })}
+              disabled={edit.strokes.length === 0}
+              className={`${actionClass} bg-white/5 text-white/60 border-white/10 hover:text-white disabled:opacity-40`}
+            >
+              {t('undoStroke')}
+            </button>
+            <button
+              onClick={() => onChange({ strokes: [] })}
+              disabled={edit.strokes.length === 0}
+              className={`${actionClass} bg-white/5 text-white/60 border-white/10 hover:text-white disabled:opacity-40`}
+            >
+              {t('clearMask')}
+            </button>
+          </div>
+          {edit.mode === 'inpaint' && (
+            <input
+              type="text"
+              value={edit.instruction}
+              onChange={(e) => onChange({ instruction: e.target.value })}
+              placeholder={t('editInstructionPlaceholder')}
+              aria-label={t('editInstruction')}
+              className="w-full px-4 py-3 bg-black/40 border border-white/10 rounded-xl focus:border-orange-500 outline-none font-bold text-white text-sm"
+            />
+          )}
+        </>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className={labelClass}>{t('extendEdge')}</span>
+          {EDGES.map(edge => (
+            <button key={edge.id} onClick={() => onChange({ edge: edge.id })} aria-pressed={edit.edge === edge.id} className={optionClass(edit.edge === edge.id)}>
+              {t(edge.labelKey)}
+            </button>
+          ))}
+          <span className={`${labelClass} ml-2`}>{t('extendAmount')}</span>
+          {EXTEND_AMOUNTS.map(amount => (
+            <button key={amount} onClick={() => onChange({ amount })} aria-pressed={edit.amount === amount} className={optionClass(edit.amount === amount)}>
+              +{amount * 100}%
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-2">
+        <span className="mr-auto text-[10px] font-bold text-white/30 uppercase tracking-wider">{t('generateCostOne')}</span>
+        <button onClick={onCancel} disabled={busy} className={`${actionClass} bg-white/5 text-white/60 border-white/10 hover:text-white disabled:opacity-40`}>
+          {t('cancel')}
+        </button>
+        <button
+          onClick={onApply}
+          disabled={busy || !ready}
+          className={`${actionClass} bg-orange-600/20 text-orange-400 border-orange-500/30 hover:bg-orange-600 hover:text-white hover:border-orange-500 disabled:opacity-40`}
+        >
+          {busy ? t('editingBackground') : t('applyEdit')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BackgroundEditPanel;
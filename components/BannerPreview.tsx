@@ -1,43 +1,174 @@
-
 import React, { forwardRef, useState, useCallback, useRef, useEffect } from 'react';
-import { BannerConfig } from '../types';
+import { BannerConfig, BannerLayer, HighlightStyleId, LayerPosition, TextStyle } from '../types';
+import { formatDiscountBadge, formatPrice } from '../utils/products';
+import { bannerUnits, loadFont, textStyleToCss } from '../utils/typography';
+import { segmentPromotion } from '../utils/promoRules';
+import { backgroundImageStyle } from '../utils/background';
+import { LayerBox, SnapGuide, measureLayerBoxes, snapBox } from '../utils/alignment';
+import { animationPoseAt, poseTransform } from '../utils/animation';
+import { SafeZoneRegion } from '../utils/safeZones';
+import { translations } from '../i18n';
 
 interface BannerPreviewProps {
   config: BannerConfig;
   onUpdateConfig?: (updates: Partial<BannerConfig>) => void;
+  /** Called when a drag begins and ends, so the caller can group the moves into one edit. */
+  onDragStart?: () => void;
+  onDragEnd?: () => void;
+  selectedLayerIds?: string[];
+  onSelectLayers?: (ids: string[]) => void;
+  /** Smart guides while dragging; holding Alt temporarily disables snapping. */
+  snapping?: { enabled: boolean; margin: number };
+  /** Translator for accessible labels and announcements; defaults to English. */
+  t?: (key: string) => string;
+  /** Leaves out the background photo and overlays, e.g. for transparent PNG exports. */
+  transparentBackground?: boolean;
+  /** Milliseconds into the entrance animations; when unset, every element is shown at rest. */
+  animationTime?: number;
+  /** Areas a platform covers, shown hatched over the banner. */
+  safeZones?: SafeZoneRegion[];
+  /** Drawn over everything and takes the pointer, e.g. the background edit mask. */
+  overlay?: React.ReactNode;
+}
+
+interface DragState {
+  layerId: string;
+  startX: number;
+  startY: number;
+  /** Starting positions of every layer moving with this drag. */
+  origins: Record<string, LayerPosition>;
+  box: LayerBox | null;
+  others: LayerBox[];
 }
 
-const BannerPreview = forwardRef<HTMLDivElement, BannerPreviewProps>(({ config, onUpdateConfig }, ref) => {
+// Snap distance in screen pixels.
+const SNAP_THRESHOLD_PX = 6;
+// Keyboard nudge steps, in percent of the banner.
+const NUDGE_STEP = 0.5;
+const NUDGE_STEP_LARGE = 5;
+
+const NUDGE_KEYS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+
+// CSS filters that flatten an image to a single color while keeping its alpha channel.
+const RECOLOR_FILTERS: Record<string, string | undefined> = {
+  none: undefined,
+  white: 'brightness(0) invert(1)',
+  black: 'brightness(0)',
+};
+
+const defaultT = (key: string) => translations.en[key] || key;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+const clamp = (value: number) => Math.min(100, Math.max(0, value));
+
+const BannerPreview = forwardRef<HTMLDivElement, BannerPreviewProps>(({
+  config,
+  onUpdateConfig,
+  onDragStart,
+  onDragEnd,
+  selectedLayerIds = [],
+  onSelectLayers,
+  snapping,
+  t = defaultT,
+  transparentBackground = false,
+  animationTime,
+  safeZones = [],
+  overlay,
+}, ref) => {
   const containerRef = useRef<HTMLDivElement | null>(null);
-  const [activeDrag, setActiveDrag] = useState<'title' | 'discount' | 'discount2' | null>(null);
+  const canvasRef = useRef<HTMLDivElement | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [activeDrag, setActiveDrag] = useState<string | null>(null);
+  const [guides, setGuides] = useState<SnapGuide[]>([]);
+  const [announcement, setAnnouncement] = useState('');
+  const nudgingRef = useRef(false);
+  const interactive = !!onUpdateConfig;
 
-  const handleStartDrag = (type: 'title' | 'discount' | 'discount2') => (e: React.MouseEvent | React.TouchEvent) => {
+  const pointerPercent = (e: MouseEvent | TouchEvent | React.MouseEvent | React.TouchEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const point = 'touches' in e ? e.touches[0] : e;
+    return {
+      x: ((point.clientX - rect.left) / rect.width) * 100,
+      y: ((point.clientY - rect.top) / rect.height) * 100,
+    };
+  };
+
+  const handleStartDrag = (layerId: string) => (e: React.MouseEvent | React.TouchEvent) => {
     e.stopPropagation();
-    setActiveDrag(type);
+    if (!onUpdateConfig || !canvasRef.current) return;
+
+    // Shift/Ctrl/Cmd-click toggles a layer in the selection; a plain click selects only that layer
+    // unless it is already part of the selection, in which case the whole selection moves.
+    let selection = selectedLayerIds;
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      selection = selection.includes(layerId) ? selection.filter(id => id !== layerId) : [...selection, layerId];
+    } else if (!selection.includes(layerId)) {
+      selection = [layerId];
+    }
+    onSelectLayers?.(selection);
+    if (!selection.includes(layerId)) return;
+
+    const moving = onSelectLayers ? selection : [layerId];
+    const boxes = measureLayerBoxes(canvasRef.current, config.layers);
+    const start = pointerPercent(e);
+    dragRef.current = {
+      layerId,
+      startX: start.x,
+      startY: start.y,
+      origins: Object.fromEntries(config.layers.filter(l => moving.includes(l.id)).map(l => [l.id, { x: l.x, y: l.y }])),
+      box: boxes.find(box => box.id === layerId) ?? null,
+      others: boxes.filter(box => !moving.includes(box.id)),
+    };
+    setActiveDrag(layerId);
+    onDragStart?.();
   };
 
   const handleMove = useCallback((e: MouseEvent | TouchEvent) => {
-    if (!activeDrag || !containerRef.current || !onUpdateConfig) return;
+    const drag = dragRef.current;
+    if (!drag || !canvasRef.current || !onUpdateConfig) return;
 
-    const rect = containerRef.current.getBoundingClientRect();
-    const clientX = 'touches' in e ? e.touches[0].clientX : e.clientX;
-    const clientY = 'touches' in e ? e.touches[0].clientY : e.clientY;
+    const pointer = pointerPercent(e);
+    let dx = pointer.x - drag.startX;
+    let dy = pointer.y - drag.startY;
 
-    const xPercent = Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100));
-    const yPercent = Math.min(100, Math.max(0, ((clientY - rect.top) / rect.height) * 100));
-
-    if (activeDrag === 'title') {
-      onUpdateConfig({ titleX: Math.round(xPercent), titleY: Math.round(yPercent) });
-    } else if (activeDrag === 'discount') {
-      onUpdateConfig({ discountX: Math.round(xPercent), discountY: Math.round(yPercent) });
-    } else if (activeDrag === 'discount2') {
-      onUpdateConfig({ discount2X: Math.round(xPercent), discount2Y: Math.round(yPercent) });
+    let nextGuides: SnapGuide[] = [];
+    if (snapping?.enabled && !e.altKey && drag.box) {
+      const rect = canvasRef.current.getBoundingClientRect();
+      const origin = drag.origins[drag.layerId];
+      const snap = snapBox(
+        { ...drag.box, left: origin.x + dx, top: origin.y + dy - drag.box.height / 2 },
+        drag.others,
+        {
+          thresholdX: (SNAP_THRESHOLD_PX / rect.width) * 100,
+          thresholdY: (SNAP_THRESHOLD_PX / rect.height) * 100,
+          margin: snapping.margin,
+        }
+      );
+      dx += snap.dx;
+      dy += snap.dy;
+      nextGuides = snap.guides;
     }
-  }, [activeDrag, onUpdateConfig]);
+    setGuides(nextGuides);
+
+    onUpdateConfig({
+      layers: config.layers.map(layer => {
+        const origin = drag.origins[layer.id];
+        return origin ? { ...layer, x: round(clamp(origin.x + dx)), y: round(clamp(origin.y + dy)) } : layer;
+      }),
+    });
+  }, [config.layers, onUpdateConfig, snapping]);
 
   const handleEndDrag = useCallback(() => {
+    dragRef.current = null;
     setActiveDrag(null);
-  }, []);
+    setGuides([]);
+    onDragEnd?.();
+  }, [onDragEnd]);
 
   useEffect(() => {
     if (activeDrag) {
@@ -54,36 +185,119 @@ const BannerPreview = forwardRef<HTMLDivElement, BannerPreviewProps>(({ config,
     };
   }, [activeDrag, handleMove, handleEndDrag]);
 
+  const layerLabel = (layer: BannerLayer) => {
+    const typeLabel = t(`layer${layer.type.charAt(0).toUpperCase()}${layer.type.slice(1)}`);
+    if (layer.type === 'text' || layer.type === 'promo') return `${typeLabel}: ${layer.text}`;
+    if (layer.type === 'product') {
+      const product = config.products.find(p => p.id === layer.productId);
+      return product ? `${typeLabel}: ${product.name}` : typeLabel;
+    }
+    return typeLabel;
+  };
+
+  const describePosition = (x: number, y: number) =>
+    t('layerPosition').replace('{x}', String(x)).replace('{y}', String(y));
+
+  /**
+   * Arrow keys nudge the focused layer (and the rest of the selection, if it is part of one).
+   * Shift moves in larger steps. A held key is grouped into a single edit like a drag.
+   */
+  const handleKeyDown = (layer: BannerLayer) => (e: React.KeyboardEvent) => {
+    if (!onUpdateConfig) return;
+    if (e.key === 'Escape') {
+      onSelectLayers?.([]);
+      (e.currentTarget as HTMLElement).blur();
+      return;
+    }
+    const direction = NUDGE_KEYS[e.key];
+    if (!direction) return;
+    e.preventDefault();
+
+    if (!nudgingRef.current) {
+      nudgingRef.current = true;
+      onDragStart?.();
+    }
+
+    const step = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+    const moving = selectedLayerIds.includes(layer.id) ? selectedLayerIds : [layer.id];
+    const layers = config.layers.map(l => moving.includes(l.id)
+      ? { ...l, x: round(clamp(l.x + direction[0] * step)), y: round(clamp(l.y + direction[1] * step)) }
+      : l);
+    onUpdateConfig({ layers });
+
+    const moved = layers.find(l => l.id === layer.id)!;
+    setAnnouncement(`${layerLabel(moved)}, ${describePosition(moved.x, moved.y)}`);
+  };
+
+  const endNudge = () => {
+    if (!nudgingRef.current) return;
+    nudgingRef.current = false;
+    onDragEnd?.();
+  };
+
+  useEffect(() => {
+    config.layers.forEach(layer => {
+      if (layer.type === 'text' || layer.type === 'promo') loadFont(layer.style.fontFamily);
+    });
+  }, [config.layers]);
+
+  const units = (px: number) => bannerUnits(px, config.width);
+
   const aspectRatio = config.width > 0 ? (config.height / config.width) * 100 : 0;
 
+  const animationStyle = (layer: BannerLayer): React.CSSProperties | undefined => {
+    if (animationTime === undefined || !layer.animation) return undefined;
+    const pose = animationPoseAt(layer.animation, animationTime, config);
+    return { opacity: pose.opacity, transform: poseTransform(pose, units) };
+  };
+
+  /**
+   * Inline styles for each highlight look. Sizes are multiples of the element's own font size,
+   * so highlights follow the size control.
+   */
+  const highlightStyles = (style: TextStyle): Record<HighlightStyleId, { className: string; css: React.CSSProperties }> => ({
+    accent: {
+      className: 'font-black leading-none italic drop-shadow-[0_4px_12px_rgba(234,88,12,0.5)] bg-clip-text text-transparent bg-gradient-to-b from-orange-400 to-orange-600',
+      css: { fontSize: units(style.fontSize * 1.8), marginInline: '0.15em' },
+    },
+    badge: {
+      className: 'font-black leading-none italic text-white bg-orange-600 rounded-full shadow-[0_4px_12px_rgba(234,88,12,0.5)]',
+      css: { fontSize: units(style.fontSize * 1.2), padding: '0.15em 0.5em', marginInline: '0.25em' },
+    },
+    outline: {
+      className: 'font-black leading-none italic text-transparent drop-shadow-[0_2px_6px_rgba(0,0,0,0.6)]',
+      css: { fontSize: units(style.fontSize * 1.8), WebkitTextStroke: `${units(Math.max(1, style.fontSize * 0.04))} #fb923c`, marginInline: '0.15em' },
+    },
+    underline: {
+      className: 'font-black text-orange-400 underline decoration-orange-500',
+      css: { fontSize: units(style.fontSize * 1.2), textDecorationThickness: '0.12em', textUnderlineOffset: '0.15em', marginInline: '0.1em' },
+    },
+  });
+
   /**
    * Renders the promotion text with a high-impact style.
-   * Automatically detects and styles discount patterns like "88折" or "50%".
+   * Discounts, prices and sale keywords are detected by the configured highlight rules.
    */
-  const renderStyledPromotion = (text: string) => {
-    // Regex to capture common discount formats (e.g., 88折, 15% OFF, etc)
-    const discountRegex = /(\d+折|\d+%\s*(OFF|off)?)/g;
-    const parts = text.split(discountRegex);
+  const renderStyledPromotion = (text: string, style: TextStyle) => {
+    const segments = segmentPromotion(text, config.highlights, config.locale);
+    const baseCss = textStyleToCss(style, config.width);
+    const looks = highlightStyles(style);
     
     return (
-      <div className="flex items-baseline font-bold text-orange-400 tracking-wider">
-        {parts.map((part, i) => {
-          if (!part) return null;
-          // Check if this part matches the discount regex
-          if (discountRegex.test(part)) {
+      <div className="flex items-baseline" style={{ fontFamily: baseCss.fontFamily, letterSpacing: baseCss.letterSpacing }}>
+        {segments.map((segment, i) => {
+          if (segment.highlight) {
+            const look = looks[segment.highlight];
             return (
-              <span 
-                key={i} 
-                className="text-3xl md:text-5xl lg:text-7xl font-black text-orange-500 mx-1 md:mx-3 leading-none italic drop-shadow-[0_4px_12px_rgba(234,88,12,0.5)] bg-clip-text text-transparent bg-gradient-to-b from-orange-400 to-orange-600"
-              >
-                {part}
+              <span key={i} className={look.className} style={look.css}>
+                {segment.text}
               </span>
             );
           }
           // Default text styling
           return (
-            <span key={i} className="text-xl md:text-3xl lg:text-4xl drop-shadow-[0_2px_4px_rgba(0,0,0,0.8)] text-white/90">
-              {part}
+            <span key={i} className="whitespace-pre" style={baseCss}>
+              {segment.text}
             </span>
           );
         })}
@@ -91,10 +305,103 @@ const BannerPreview = forwardRef<HTMLDivElement, BannerPreviewProps>(({ config,
     );
   };
 
+  /**
+   * Renders the visual content of a single layer; positioning and dragging are handled by the wrapper.
+   */
+  const renderLayerContent = (layer: BannerLayer) => {
+    switch (layer.type) {
+      case 'text':
+        return (
+          <h2 className="mb-0 opacity-95 whitespace-pre" style={textStyleToCss(layer.style, config.width)}>
+            {layer.text}
+          </h2>
+        );
+      case 'promo':
+        return (
+          <div className="flex flex-col items-start whitespace-nowrap">
+            {renderStyledPromotion(layer.text, layer.style)}
+          </div>
+        );
+      case 'image':
+        return layer.src ? (
+          <img
+            src={layer.src}
+            alt=""
+            className="block w-full h-auto pointer-events-none"
+            style={{ opacity: layer.opacity, filter: RECOLOR_FILTERS[layer.recolor] }}
+            crossOrigin="anonymous"
+            draggable={false}
+          />
+        ) : null;
+      case 'shape':
+        return (
+          <div
+            className="w-full h-full"
+            style={{
+              backgroundColor: layer.color,
+              opacity: layer.opacity,
+              borderRadius: layer.shape === 'ellipse' ? '50%' : undefined,
+            }}
+          />
+        );
+      case 'product': {
+        const product = config.products.find(p => p.id === layer.productId);
+        if (!product) return null;
+        const badge = formatDiscountBadge(product.price, product.originalPrice, layer.badgeStyle);
+        // Card text is sized relative to the card, which is itself a fraction of the banner width.
+        const cardPx = (layer.width / 100) * config.width;
+        return (
+          <div
+            className="relative w-full bg-white/95 overflow-hidden shadow-[0_8px_24px_rgba(0,0,0,0.5)]"
+            style={{ borderRadius: units(cardPx * 0.06), fontFamily: "'Noto Sans TC', sans-serif" }}
+          >
+            {product.imageUrl ? (
+              <img
+                src={product.imageUrl}
+                alt={product.name}
+                className="block w-full aspect-square object-cover pointer-events-none"
+                crossOrigin="anonymous"
+                draggable={false}
+              />
+            ) : (
+              <div className="w-full aspect-square bg-slate-200"></div>
+            )}
+            {badge && (
+              <div
+                className="absolute bg-orange-600 text-white font-black italic rounded-full shadow-lg"
+                style={{
+                  top: units(cardPx * 0.04),
+                  right: units(cardPx * 0.04),
+                  fontSize: units(cardPx * 0.1),
+                  padding: `${units(cardPx * 0.015)} ${units(cardPx * 0.05)}`,
+                }}
+              >
+                {badge}
+              </div>
+            )}
+            <div className="text-slate-900" style={{ padding: `${units(cardPx * 0.04)} ${units(cardPx * 0.06)}` }}>
+              <div className="font-bold truncate" style={{ fontSize: units(cardPx * 0.08) }}>{product.name}</div>
+              <div className="flex items-baseline whitespace-nowrap" style={{ columnGap: units(cardPx * 0.04) }}>
+                <span className="font-black text-orange-600" style={{ fontSize: units(cardPx * 0.14) }}>
+                  {formatPrice(product.price, layer.currency)}
+                </span>
+                {product.originalPrice > product.price && (
+                  <span className="font-bold text-slate-400 line-through" style={{ fontSize: units(cardPx * 0.07) }}>
+                    {formatPrice(product.originalPrice, layer.currency)}
+                  </span>
+                )}
+              </div>
+            </div>
+          </div>
+        );
+      }
+    }
+  };
+
   return (
     <div 
-      className={`relative w-full mx-auto overflow-hidden rounded-xl shadow-[0_32px_64px_-16px_rgba(0,0,0,0.5)] border border-white/10 bg-[#0a0a0a] group ${activeDrag ? 'cursor-grabbing' : 'cursor-default'}`}
-      style={{ maxWidth: config.width }}
+      className={`relative w-full mx-auto overflow-hidden rounded-xl shadow-[0_32px_64px_-16px_rgba(0,0,0,0.5)] border border-white/10 ${transparentBackground ? '' : 'bg-[#0a0a0a]'} group ${activeDrag ? 'cursor-grabbing' : 'cursor-default'}`}
+      style={{ maxWidth: config.width, containerType: 'inline-size' }}
       ref={(el) => {
         containerRef.current = el;
         if (typeof ref === 'function') ref(el);
@@ -102,98 +409,139 @@ const BannerPreview = forwardRef<HTMLDivElement, BannerPreviewProps>(({ config,
       }}
     >
       <div 
-        className="relative w-full bg-[#0a0a0a]"
+        className={`relative w-full ${transparentBackground ? '' : 'bg-[#0a0a0a]'}`}
         style={{ 
             paddingBottom: `${aspectRatio}%`,
             width: '100%' 
         }}
       >
-        <div className="absolute inset-0 flex flex-col items-center justify-center overflow-hidden pointer-events-none">
-          {/* Main Background Layer */}
-          {config.backgroundImage ? (
-            <img 
-              src={config.backgroundImage} 
-              alt="Banner Background" 
-              className="absolute inset-0 w-full h-full object-cover transition-transform duration-[2000ms] group-hover:scale-105"
-              crossOrigin="anonymous"
-            />
-          ) : (
-            <div className="absolute inset-0 bg-gradient-to-tr from-slate-900 via-emerald-950 to-slate-900 flex items-center justify-center">
-              <span className="text-white/5 text-6xl font-black italic tracking-widest animate-pulse uppercase">Outdoor Adventure</span>
-            </div>
-          )}
+        {!transparentBackground && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center overflow-hidden pointer-events-none">
+            {/* Main Background Layer */}
+            {config.backgroundImage ? (
+              <img 
+                src={config.backgroundImage} 
+                alt="Banner Background" 
+                className="absolute inset-0 w-full h-full"
+                style={backgroundImageStyle(config.backgroundCrop)}
+                crossOrigin="anonymous"
+              />
+            ) : (
+              <div className="absolute inset-0 bg-gradient-to-tr from-slate-900 via-emerald-950 to-slate-900 flex items-center justify-center">
+                <span className="text-white/5 text-6xl font-black italic tracking-widest animate-pulse uppercase">Outdoor Adventure</span>
+              </div>
+            )}
 
-          {/* Overlays */}
-          <div className="absolute inset-0 opacity-[0.03] pointer-events-none mix-blend-overlay" style={{ backgroundImage: 'url("https://www.transparenttextures.com/patterns/p6-dark.png")' }}></div>
-          <div 
-            className="absolute inset-0 bg-gradient-to-r from-black/95 via-black/50 to-transparent transition-opacity duration-500" 
-            style={{ opacity: config.overlayOpacity }}
-          ></div>
-          <div 
-            className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-black/20"
-            style={{ opacity: config.overlayOpacity * 0.5 }}
-          ></div>
-        </div>
+            {/* Overlays */}
+            <div data-export-ignore className="absolute inset-0 opacity-[0.03] pointer-events-none mix-blend-overlay" style={{ backgroundImage: 'url("https://www.transparenttextures.com/patterns/p6-dark.png")' }}></div>
+            <div 
+              className="absolute inset-0 bg-gradient-to-r from-black/95 via-black/50 to-transparent transition-opacity duration-500" 
+              style={{ opacity: config.overlayOpacity }}
+            ></div>
+            <div 
+              className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-black/20"
+              style={{ opacity: config.overlayOpacity * 0.5 }}
+            ></div>
+          </div>
+        )}
 
         {/* Interaction Layer */}
-        <div className="absolute inset-0 overflow-hidden">
-          {/* Heading Placement */}
-          <div 
-            className={`absolute select-none group/title ${activeDrag === 'title' ? 'cursor-grabbing z-20 scale-105' : 'cursor-grab hover:z-10 hover:scale-[1.02]'} transition-transform`}
-            style={{ 
-              left: `${config.titleX}%`, 
-              top: `${config.titleY}%`,
-              transform: 'translateY(-50%)' 
-            }}
-            onMouseDown={handleStartDrag('title')}
-            onTouchStart={handleStartDrag('title')}
-          >
-            <h2 className={`text-xl md:text-4xl lg:text-6xl font-black tracking-tighter mb-0 leading-none uppercase italic opacity-95 drop-shadow-[0_4px_8px_rgba(0,0,0,0.7)] text-white whitespace-nowrap ${activeDrag === 'title' ? 'text-orange-200' : 'text-white'}`}>
-              {config.title}
-            </h2>
-            <div className="absolute -inset-2 border-2 border-orange-500/0 group-hover/title:border-orange-500/20 rounded-lg transition-colors pointer-events-none"></div>
-          </div>
+        <div
+          ref={canvasRef}
+          data-banner-canvas
+          className="absolute inset-0 overflow-hidden"
+          onMouseDown={(e) => {
+            if (e.target === e.currentTarget) onSelectLayers?.([]);
+          }}
+        >
+          {config.layers.map(layer => {
+            const isDragging = activeDrag === layer.id;
+            const isSelected = selectedLayerIds.includes(layer.id);
+            const sized = layer.type === 'image' || layer.type === 'shape' || layer.type === 'product';
+            return (
+              <div 
+                key={layer.id}
+                data-layer-id={layer.id}
+                className={`absolute select-none group/layer outline-none focus-visible:ring-2 focus-visible:ring-orange-400 focus-visible:ring-offset-2 focus-visible:ring-offset-transparent rounded ${isDragging ? 'cursor-grabbing z-20 scale-105' : 'cursor-grab hover:z-10 hover:scale-[1.02]'} transition-transform`}
+                style={{ 
+                  left: `${layer.x}%`, 
+                  top: `${layer.y}%`,
+                  width: sized ? `${layer.width}%` : undefined,
+                  height: layer.type === 'shape' ? `${layer.height}%` : undefined,
+                  transform: 'translateY(-50%)' 
+                }}
+                onMouseDown={handleStartDrag(layer.id)}
+                onTouchStart={handleStartDrag(layer.id)}
+                tabIndex={interactive ? 0 : undefined}
+                role={interactive ? 'button' : undefined}
+                aria-roledescription={interactive ? t('movableElement') : undefined}
+                aria-label={interactive ? `${layerLabel(layer)}, ${describePosition(layer.x, layer.y)}` : undefined}
+                aria-describedby={interactive ? 'banner-keyboard-help' : undefined}
+                aria-pressed={interactive ? isSelected : undefined}
+                onKeyDown={handleKeyDown(layer)}
+                onKeyUp={endNudge}
+                onBlur={endNudge}
+                onFocus={() => {
+                  if (interactive && !selectedLayerIds.includes(layer.id)) onSelectLayers?.([layer.id]);
+                }}
+              >
+                <div className="w-full h-full" style={animationStyle(layer)}>
+                  {renderLayerContent(layer)}
+                </div>
+                <div className="absolute -inset-2 border-2 border-orange-500/0 group-hover/layer:border-orange-500/20 rounded-lg transition-colors pointer-events-none"></div>
+                {isSelected && (
+                  <div data-export-ignore className="absolute -inset-2 border-2 border-dashed border-orange-400/80 rounded-lg pointer-events-none"></div>
+                )}
+              </div>
+            );
+          })}
 
-          {/* Promotion 1 Placement */}
-          <div 
-            className={`absolute select-none group/discount ${activeDrag === 'discount' ? 'cursor-grabbing z-20 scale-105' : 'cursor-grab hover:z-10 hover:scale-[1.02]'} transition-transform`}
-            style={{ 
-              left: `${config.discountX}%`, 
-              top: `${config.discountY}%`,
-              transform: 'translateY(-50%)'
-            }}
-            onMouseDown={handleStartDrag('discount')}
-            onTouchStart={handleStartDrag('discount')}
-          >
-            <div className="flex flex-col items-start whitespace-nowrap">
-              {renderStyledPromotion(config.discount)}
-            </div>
-            <div className="absolute -inset-3 border-2 border-orange-500/0 group-hover/discount:border-orange-500/20 rounded-lg transition-colors pointer-events-none"></div>
-          </div>
+          {interactive && (
+            <>
+              <p id="banner-keyboard-help" className="sr-only">{t('keyboardMoveHelp')}</p>
+              <div data-export-ignore className="sr-only" aria-live="polite" aria-atomic="true">{announcement}</div>
+            </>
+          )}
 
-          {/* Promotion 2 Placement */}
-          <div 
-            className={`absolute select-none group/discount2 ${activeDrag === 'discount2' ? 'cursor-grabbing z-20 scale-105' : 'cursor-grab hover:z-10 hover:scale-[1.02]'} transition-transform`}
-            style={{ 
-              left: `${config.discount2X}%`, 
-              top: `${config.discount2Y}%`,
-              transform: 'translateY(-50%)'
-            }}
-            onMouseDown={handleStartDrag('discount2')}
-            onTouchStart={handleStartDrag('discount2')}
-          >
-            <div className="flex flex-col items-start whitespace-nowrap">
-              {renderStyledPromotion(config.discount2)}
+          {/* Smart guides */}
+          {guides.map((guide, i) => (
+            <div
+              key={i}
+              data-export-ignore
+              className="absolute bg-orange-400 pointer-events-none z-30"
+              style={guide.orientation === 'vertical'
+                ? { left: `${guide.position}%`, top: 0, bottom: 0, width: 1 }
+                : { top: `${guide.position}%`, left: 0, right: 0, height: 1 }}
+            ></div>
+          ))}
+
+          {/* Platform safe zones */}
+          {safeZones.map((region, i) => (
+            <div
+              key={i}
+              data-export-ignore
+              className="absolute border border-red-400/60 pointer-events-none z-30"
+              style={{
+                left: `${region.left}%`,
+                top: `${region.top}%`,
+                width: `${region.width}%`,
+                height: `${region.height}%`,
+                backgroundImage: 'repeating-linear-gradient(45deg, rgba(248, 113, 113, 0.3) 0 6px, transparent 6px 12px)',
+              }}
+            >
+              <span className="absolute top-1 left-1 bg-red-500/90 text-white text-[9px] font-black uppercase tracking-wider px-1.5 py-0.5 rounded whitespace-nowrap">
+                {t(region.labelKey)}
+              </span>
             </div>
-            <div className="absolute -inset-3 border-2 border-orange-500/0 group-hover/discount2:border-orange-500/20 rounded-lg transition-colors pointer-events-none"></div>
-          </div>
+          ))}
         </div>
           
         {/* Decorative Layer (Non-interactive) */}
-        <div className="absolute inset-0 pointer-events-none">
+        <div data-banner-decoration className="absolute inset-0 pointer-events-none">
           <div className="absolute bottom-0 left-0 w-full h-1 bg-gradient-to-r from-orange-600/50 to-transparent"></div>
           
-          <div className="absolute bottom-3 right-4 md:bottom-4 md:right-8 flex flex-col items-end space-y-0.5 md:space-y-1">
+          {/* Editor watermark; sized by viewport breakpoints, so it stays out of exports. */}
+          <div data-export-ignore className="absolute bottom-3 right-4 md:bottom-4 md:right-8 flex flex-col items-end space-y-0.5 md:space-y-1">
             <div className="text-white/20 text-[7px] md:text-[9px] font-black italic tracking-widest uppercase select-none flex items-center space-x-1 md:space-x-2">
               <span className="w-1 h-1 rounded-full bg-orange-500 animate-ping"></span>
               <span>Premium Content Generation</span>
@@ -203,6 +551,8 @@ const BannerPreview = forwardRef<HTMLDivElement, BannerPreviewProps>(({ config,
             </div>
           </div>
         </div>
+
+        {overlay && <div data-export-ignore className="absolute inset-0 z-40">{overlay}</div>}
       </div>
     </div>
   );
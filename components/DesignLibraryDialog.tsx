@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { SavedDesignSummary } from '../types';
+
+interface DesignLibraryDialogProps {
+  /** Null while the library is loading. */
+  designs: SavedDesignSummary[] | null;
+  currentDesignId: string | null;
+  /** True while a library request is running. */
+  busy: boolean;
+  onSaveAsNew: () => void;
+  onOpen: (design: SavedDesignSummary) => void;
+  onUseTemplate: (design: SavedDesignSummary) => void;
+  onDuplicate: (design: SavedDesignSummary) => void;
+  onToggleTemplate: (design: SavedDesignSummary) => void;
+  onRename: (design: SavedDesignSummary) => void;
+  onDelete: (design: SavedDesignSummary) => void;
+  onClose: () => void;
+  t: (key: string) => string;
+}
+
+type LibraryTab = 'designs' | 'templates';
+
+const actionClass = 'px-2.5 py-1 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all border bg-white/5 text-white/60 border-white/10 hover:text-white disabled:opacity-40';
+const tabClass = (active: boolean) =>
+  `px-3 py-2 rounded-xl text-[11px] font-black uppercase tracking-wider border transition-colors ${active ? 'bg-orange-600 border-orange-500 text-white' : 'bg-black/40 border-white/10 text-white/50 hover:text-white'}`;
+
+const DesignLibraryDialog: React.FC<DesignLibraryDialogProps> = ({
+  designs, currentDesignId, busy, onSaveAsNew, onOpen, onUseTemplate, onDuplicate, onToggleTemplate, onRename, onDelete, onClose, t,
+}) => {
+  const [tab, setTab] = useState<LibraryTab>('designs');
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const shown = designs?.filter(design => tab === 'designs' || design.isTemplate) ?? [];
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/90 backdrop-blur-md" onMouseDown={(e) => { if (e.target === e.currentTarget) onClose(); }}>
+      <div role="dialog" aria-modal="true" aria-labelledby="design-library-title" className="w-full max-w-2xl max-h-[90vh] flex flex-col bg-[#1a1c23] rounded-3xl p-8 border border-white/10 shadow-2xl relative overflow-hidden space-y-6">
+        <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-orange-500 via-orange-300 to-orange-500"></div>
+        <div className="flex items-center justify-between">
+          <h2 id="design-library-title" className="text-xl font-black uppercase tracking-tight m-0">{t('designLibrary')}</h2>
+          <button onClick={onClose} title={t('close')} className="w-8 h-8 rounded-lg text-white/40 hover:text-white hover:bg-white/10 transition-colors text-sm font-black">✕</button>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="flex space-x-2">
+            <button onClick={() => setTab('designs')} aria-pressed={tab === 'designs'} className={tabClass(tab === 'designs')}>{t('myDesigns')}</button>
+            <button onClick={() => setTab('templates')} aria-pressed={tab === 'templates'} className={tabClass(tab === 'templates')}>{t('templates')}</button>
+          </div>
+          <button
+            onClick={onSaveAsNew}
+            disabled={busy}
+            className="px-3 py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all border bg-orange-600/20 text-orange-400 border-orange-500/30 hover:bg-orange-600 hover:text-white hover:border-orange-500 disabled:opacity-40"
+          >
+            + {t('saveAsNewDesign')}
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto">
+          {designs === null ? (
+            <p className="text-xs text-white/40 font-bold">{t('loadingDesigns')}</p>
+          ) : shown.length === 0 ? (
+            <p className="text-xs text-white/40 font-bold">{t(tab === 'templates' ? 'noTemplates' : 'noDesigns')}</p>
+          ) : (
+            <div className="grid grid-cols-2 gap-3">
+              {shown.map(design => (
+                <div
+                  key={design.id}
+                  className={`bg-black/20 border rounded-2xl p-3 space-y-2 ${design.id === currentDesignId ? 'border-orange-500/60' : 'border-white/5'}`}
+                >
+                  <div className="aspect-[16/9] rounded-xl overflow-hidden bg-black/40 flex items-center justify-center">
+                    {design.thumbnail
+                      ? <img src={design.thumbnail} alt="" className="w-full h-full object-cover" />
+                      : <span className="text-white/20 text-xs font-black">—</span>}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {design.isTemplate && <span className="text-orange-400 text-xs" title={t('template')}>★</span>}
+                    <span className="flex-1 min-w-0 text-xs font-bold text-white/80 truncate">{design.name}</span>
+                    <span className="text-[10px] text-white/30 font-mono">{new Date(design.updatedAt).toLocaleDateString()}</span>
+                  </div>
+                  <div className="flex flex-wrap gap-1.5">
+                    {tab === 'templates' ? (
+                      <button onClick={() => onUseTemplate(design)} disabled={busy} className={actionClass}>{t('useTemplate')}</button>
+                    ) : (
+                      <>
+                        <button onClick={() => onOpen(design)} disabled={busy} className={actionClass}>{t('openDesign')}</button>
+                        <button onClick={() => onDuplicate(design)} disabled={busy} className={actionClass}>{t('duplicateDesign')}</button>
+                        <button onClick={() => onToggleTemplate(design)} disabled={busy} aria-pressed={design.isTemplate} className={actionClass}>
+                          {t(design.isTemplate ? 'unmarkTemplate' : 'markTemplate')}
+                        </button>
+                        <button onClick={() => onRename(design)} disabled={busy} className={actionClass}>{t('renameDesign')}</button>
+                        <button
+                          onClick={() => onDelete(design)}
+                          disabled={busy}
+                          title={t('deleteDesign')}
+                          className="px-2.5 py-1 rounded-full text-[10px] font-black text-white/40 hover:text-red-400 hover:bg-white/10 transition-colors disabled:opacity-40"
+                        >✕</button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DesignLibraryDialog;
@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from 'react';
+import { BannerConfig, ExportedFile, ExportFormat, ExportSettings } from '../types';
+import { BUDGET_FORMATS, TRANSPARENT_FORMATS, isServerRenderAvailable, resolveExportScale, supportedVideoMimeType } from '../services/exportService';
+import { buildExportFilename } from '../utils/exportFilename';
+import { campaignFileCount } from '../services/campaignExportService';
+
+interface ExportDialogProps {
+  config: BannerConfig;
+  settings: ExportSettings;
+  onChange: (updates: Partial<ExportSettings>) => void;
+  exporting: boolean;
+  /** Files from the last export, shown when a size limit was applied. */
+  exportedFiles: ExportedFile[];
+  onExport: () => void;
+  onExportAllSizes: () => void;
+  onExportCampaign: () => void;
+  /** Files finished so far during a campaign export. */
+  progress: { done: number; total: number } | null;
+  onClose: () => void;
+  t: (key: string) => string;
+}
+
+const FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'png', label: 'PNG' },
+  { id: 'jpeg', label: 'JPEG' },
+  { id: 'webp', label: 'WebP' },
+  { id: 'svg', label: 'SVG' },
+  { id: 'pdf', label: 'PDF' },
+];
+const ANIMATED_FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'gif', label: 'GIF' },
+  { id: 'mp4', label: 'MP4' },
+  { id: 'webm', label: 'WebM' },
+  { id: 'html5', label: 'HTML5' },
+];
+const SCALES = [1, 2, 3];
+const DPI_OPTIONS = [72, 150, 300];
+const LOSSY_FORMATS: ExportFormat[] = ['jpeg', 'webp', 'pdf', 'html5'];
+
+const formatLabel = (format: ExportFormat) => [...FORMATS, ...ANIMATED_FORMATS].find(f => f.id === format)?.label ?? format;
+
+const isFormatSupported = (format: ExportFormat) =>
+  format === 'mp4' || format === 'webm' ? supportedVideoMimeType(format) !== null : true;
+const formatKb = (bytes: number) => `${(bytes / 1000).toFixed(1)} KB`;
+
+const labelClass = 'block text-[10px] font-black text-white/30 uppercase tracking-[0.2em] mb-2';
+const fieldClass = 'w-full px-3 py-2 bg-black/40 border border-white/10 rounded-xl focus:border-orange-500 outline-none font-bold text-white transition-all text-sm';
+const optionClass = (active: boolean) =>
+  `px-3 py-2 rounded-xl text-[11px] font-black uppercase tracking-wider border transition-colors ${active ? 'bg-orange-600 border-orange-500 text-white' : 'bg-black/40 border-white/10 text-white/50 hover:text-white'}`;
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ config, settings, onChange, exporting, exportedFiles, onExport, onExportAllSizes, onExportCampaign, progress, onClose, t }) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // SVG needs the server renderer, which not every deployment has; offer it only once it answers.
+  const [svgAvailable, setSvgAvailable] = useState(false);
+  useEffect(() => {
+    let cancelled = false;
+    isServerRenderAvailable().then(available => {
+      if (!cancelled) setSvgAvailable(available);
+    });
+    return () => { cancelled = true; };
+  }, []);
+  useEffect(() => {
+    if (settings.format !== 'svg') return;
+    isServerRenderAvailable().then(available => {
+      if (!available) onChange({ format: 'png' });
+    });
+  }, [settings.format, onChange]);
+
+  const scale = resolveExportScale(settings, config);
+  const outputWidth = Math.round(config.width * scale);
+  const outputHeight = Math.round(config.height * scale);
+  const filename = buildExportFilename(settings.filenamePattern, config, settings.format);
+  const campaignFiles = campaignFileCount(config);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/90 backdrop-blur-md" onMouseDown={(e) => { if (e.target === e.currentTarget) onClose(); }}>
+      <div role="dialog" aria-modal="true" aria-labelledby="export-dialog-title" className="w-full max-w-lg bg-[#1a1c23] rounded-3xl p-8 border border-white/10 shadow-2xl relative overflow-hidden space-y-6">
+        <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-orange-500 via-orange-300 to-orange-500"></div>
+        <div className="flex items-center justify-between">
+          <h2 id="export-dialog-title" className="text-xl font-black uppercase tracking-tight m-0">{t('exportDialogTitle')}</h2>
+          <button onClick={onClose} title={t('close')} className="w-8 h-8 rounded-lg text-white/40 hover:text-white hover:bg-white/10 transition-colors text-sm font-black">✕</button>
+        </div>
+
+        <div>
+          <label className={labelClass}>{t('exportFormat')}</label>
+          <div className="grid grid-cols-5 gap-2">
+            {FORMATS.filter(format => format.id !== 'svg' || svgAvailable).map(format => (
+              <button key={format.id} onClick={() => onChange({ format: format.id })} aria-pressed={settings.format === format.id} className={optionClass(settings.format === format.id)}>
+                {format.label}
+              </button>
+            ))}
+          </div>
+          <label className={`${labelClass} mt-4`}>{t('exportAnimated')}</label>
+          <div className="grid grid-cols-4 gap-2">
+            {ANIMATED_FORMATS.map(format => (
+              <button
+                key={format.id}
+                onClick={() => onChange({ format: format.id })}
+                disabled={!isFormatSupported(format.id)}
+                title={isFormatSupported(format.id) ? undefined : t('exportVideoUnsupported')}
+                aria-pressed={settings.format === format.id}
+                className={`${optionClass(settings.format === format.id)} disabled:opacity-30 disabled:cursor-not-allowed`}
+              >
+                {format.label}
+              </button>
+            ))}
+          </div>
+          {settings.format === 'svg' && <p className="mt-2 text-[11px] text-white/40">{t('exportSvgHint')}</p>}
+          {ANIMATED_FORMATS.some(f => f.id === settings.format) && <p className="mt-2 text-[11px] text-white/40">{t('exportAnimatedHint')}</p>}
+        </div>
+
+        {settings.format === 'html5' && (
+          <div>
+            <label htmlFor="export-click-tag" className={labelClass}>{t('exportClickTag')}</label>
+            <input
+              id="export-click-tag"
+              type="url"
+              value={settings.clickTagUrl}
+              placeholder="https://"
+              onChange={(e) => onChange({ clickTagUrl: e.target.value })}
+              className={fieldClass}
+            />
+            <p className="mt-2 text-[11px] text-white/40">{t('exportClickTagHint')}</p>
+          </div>
+        )}
+
+        <div>
+          <label className={labelClass}>{t('exportSize')}</label>
+          <div className="flex items-center gap-2">
+            {SCALES.map(value => (
+              <button
+                key={value}
+                onClick={() => onChange({ sizeMode: 'scale', scale: value })}
+                aria-pressed={settings.sizeMode === 'scale' && settings.scale === value}
+                className={optionClass(settings.sizeMode === 'scale' && settings.scale === value)}
+              >
+                {value}x
+              </button>
+            ))}
+            <button
+              onClick={() => onChange({ sizeMode: 'pixels', pixelWidth: settings.pixelWidth || outputWidth })}
+              aria-pressed={settings.sizeMode === 'pixels'}
+              className={optionClass(settings.sizeMode === 'pixels')}
+            >
+              {t('exportExactPixels')}
+            </button>
+            {settings.sizeMode === 'pixels' && (
+              <input
+                type="number"
+                min="1"
+                value={settings.pixelWidth}
+                aria-label={t('width')}
+                onChange={(e) => onChange({ pixelWidth: parseInt(e.target.value) || 0 })}
+                className={`${fieldClass} w-28`}
+              />
+            )}
+          </div>
+          <p className="mt-2 text-[11px] font-mono text-white/40">{outputWidth} × {outputHeight} px</p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          {LOSSY_FORMATS.includes(settings.format) && (
+            <div>
+              <label className={labelClass}>{t('exportQuality')} {Math.round(settings.quality * 100)}</label>
+              <input
+                type="range" min="0.1" max="1" step="0.01"
+                value={settings.quality}
+                onChange={(e) => onChange({ quality: parseFloat(e.target.value) })}
+                className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-orange-600"
+              />
+            </div>
+          )}
+          {settings.format === 'pdf' && (
+            <div>
+              <label className={labelClass}>DPI</label>
+              <select value={settings.dpi} onChange={(e) => onChange({ dpi: parseInt(e.target.value) })} className={`${fieldClass} appearance-none`}>
+                {DPI_OPTIONS.map(dpi => <option key={dpi} value={dpi}>{dpi}</option>)}
+              </select>
+            </div>
+          )}
+          {TRANSPARENT_FORMATS.includes(settings.format) && (
+            <label className="flex items-center space-x-2 text-[10px] font-bold text-white/50 uppercase tracking-wider cursor-pointer">
+              <input type="checkbox" checked={settings.transparent} onChange={(e) => onChange({ transparent: e.target.checked })} className="accent-orange-600" />
+              <span>{t('exportTransparent')}</span>
+            </label>
+          )}
+          {BUDGET_FORMATS.includes(settings.format) && (
+            <div>
+              <label htmlFor="export-max-size" className={labelClass}>{t('exportMaxFileSize')}</label>
+              <div className="flex items-center gap-2">
+                <input
+                  id="export-max-size"
+                  type="number"
+                  min="1"
+                  value={settings.maxFileSizeKb ?? ''}
+                  placeholder={t('exportNoLimit')}
+                  onChange={(e) => onChange({ maxFileSizeKb: parseInt(e.target.value) > 0 ? parseInt(e.target.value) : null })}
+                  className={fieldClass}
+                />
+                <span className="text-[11px] font-black text-white/40">KB</span>
+              </div>
+            </div>
+          )}
+        </div>
+        {settings.maxFileSizeKb !== null && BUDGET_FORMATS.includes(settings.format) && (
+          <p className="-mt-3 text-[11px] text-white/40">{t('exportMaxFileSizeHint')}</p>
+        )}
+
+        <div>
+          <label className={labelClass}>{t('exportFilename')}</label>
+          <input
+            type="text"
+            value={settings.filenamePattern}
+            onChange={(e) => onChange({ filenamePattern: e.target.value })}
+            className={fieldClass}
+          />
+          <p className="mt-2 text-[11px] text-white/40">
+            {t('exportFilenameTokens')} <span className="font-mono">{'{title} {size} {lang} {width} {height} {date}'}</span>
+          </p>
+          <p className="mt-1 text-[11px] font-mono text-orange-400 break-all">{filename}</p>
+        </div>
+
+        {exportedFiles.length > 0 && (
+          <ul aria-live="polite" className="space-y-2 max-h-40 overflow-y-auto">
+            {exportedFiles.map(({ filename, result }) => (
+              <li key={filename} className="px-3 py-2 bg-black/40 border border-white/10 rounded-xl text-[11px]">
+                <div className="flex items-center justify-between gap-3">
+                  <span className="font-mono text-white/60 truncate">{filename}</span>
+                  <span className="font-black text-white shrink-0">
+                    {formatKb(result.blob.size)} · {formatLabel(result.format)}
+                    {result.quality !== undefined && ` ${Math.round(result.quality * 100)}`}
+                  </span>
+                </div>
+                {result.budget && !result.budget.fits && (
+                  <p className="mt-1 font-bold text-red-400">{t('exportOverBudget').replace('{limit}', formatKb(result.budget.limitBytes))}</p>
+                )}
+                {result.budget?.fits && result.budget.degraded && (
+                  <p className="mt-1 font-bold text-orange-400">{t(result.budget.softened ? 'exportSoftened' : 'exportDegraded')}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-3">
+          {campaignFiles > 1 && (
+            <button
+              onClick={onExportCampaign}
+              disabled={exporting}
+              title={t('exportCampaignTooltip')}
+              className="bg-white/10 hover:bg-white/20 text-white px-5 py-3 rounded-2xl font-black text-sm transition-all border border-white/20 active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed uppercase"
+            >
+              {progress ? `${progress.done} / ${progress.total}` : `${t('exportCampaign')} (${campaignFiles})`}
+            </button>
+          )}
+          {config.sizes.length > 1 && (
+            <button
+              onClick={onExportAllSizes}
+              disabled={exporting}
+              title={t('exportAllSizesTooltip')}
+              className="bg-white/10 hover:bg-white/20 text-white px-5 py-3 rounded-2xl font-black text-sm transition-all border border-white/20 active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed uppercase"
+            >
+              {t('exportAllSizes')} ({config.sizes.length})
+            </button>
+          )}
+          <button
+            onClick={onExport}
+            disabled={exporting || outputWidth < 1}
+            className="bg-orange-600 hover:bg-orange-500 text-white px-6 py-3 rounded-2xl font-black text-sm transition-all shadow-xl active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed uppercase"
+          >
+            {exporting ? t('exportingBtn') : t('exportBtn')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { CustomHighlightRule, HighlightCategory, HighlightSettings, HighlightStyleId } from '../types';
+import { compileCustomRule } from '../utils/promoRules';
+
+interface HighlightRulesPanelProps {
+  settings: HighlightSettings;
+  onChange: (settings: HighlightSettings) => void;
+  t: (key: string) => string;
+}
+
+const CATEGORIES: HighlightCategory[] = ['currency', 'percent', 'idiom', 'keyword'];
+const STYLES: HighlightStyleId[] = ['accent', 'badge', 'outline', 'underline'];
+
+const labelClass = 'block text-[9px] font-black text-white/30 uppercase tracking-[0.2em] mb-1';
+const fieldClass = 'w-full px-3 py-2 bg-black/40 border border-white/10 rounded-lg focus:border-orange-500 outline-none font-bold text-white transition-all text-xs';
+
+const HighlightRulesPanel: React.FC<HighlightRulesPanelProps> = ({ settings, onChange, t }) => {
+  const styleLabel = (style: HighlightStyleId) => t(`highlight_${style}`);
+
+  const updateCustom = (id: string, updates: Partial<CustomHighlightRule>) => {
+    onChange({ ...settings, custom: settings.custom.map(rule => (rule.id === id ? { ...rule, ...updates } : rule)) });
+  };
+
+  const addCustom = () => {
+    const rule: CustomHighlightRule = {
+      id: `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+      pattern: '',
+      isRegex: false,
+      style: 'accent',
+    };
+    onChange({ ...settings, custom: [...settings.custom, rule] });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        {CATEGORIES.map(category => (
+          <div key={category}>
+            <label className={labelClass}>{t(`highlightCategory_${category}`)}</label>
+            <select
+              value={settings.categories[category] ?? ''}
+              onChange={(e) => onChange({
+                ...settings,
+                categories: { ...settings.categories, [category]: (e.target.value || null) as HighlightStyleId | null },
+              })}
+              className={`${fieldClass} appearance-none`}
+            >
+              <option value="">{t('highlightOff')}</option>
+              {STYLES.map(style => <option key={style} value={style}>{styleLabel(style)}</option>)}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      {settings.custom.map(rule => {
+        const invalid = rule.pattern !== '' && !compileCustomRule(rule);
+        return (
+          <div key={rule.id} className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={rule.pattern}
+              placeholder={t('highlightPattern')}
+              onChange={(e) => updateCustom(rule.id, { pattern: e.target.value })}
+              aria-invalid={invalid}
+              className={`${fieldClass} flex-1 min-w-0 ${invalid ? 'border-red-500/60' : ''} placeholder:text-white/20`}
+            />
+            <label className="flex items-center space-x-1 text-[10px] font-bold text-white/50 cursor-pointer" title={t('highlightRegex')}>
+              <input type="checkbox" checked={rule.isRegex} onChange={(e) => updateCustom(rule.id, { isRegex: e.target.checked })} className="accent-orange-600" />
+              <span className="font-mono">.*</span>
+            </label>
+            <select
+              value={rule.style}
+              onChange={(e) => updateCustom(rule.id, { style: e.target.value as HighlightStyleId })}
+              className={`${fieldClass} w-28 appearance-none`}
+            >
+              {STYLES.map(style => <option key={style} value={style}>{styleLabel(style)}</option>)}
+            </select>
+            <button
+              onClick={() => onChange({ ...settings, custom: settings.custom.filter(r => r.id !== rule.id) })}
+              title={t('removeLayer')}
+              className="w-7 h-7 shrink-0 rounded-lg text-white/40 hover:text-red-400 hover:bg-white/10 transition-colors text-xs font-black"
+            >✕</button>
+          </div>
+        );
+      })}
+
+      <button
+        onClick={addCustom}
+        className="w-full px-2 py-2 rounded-xl text-[10px] font-bold tracking-wider uppercase transition-all border bg-white/5 text-white/60 border-white/10 hover:bg-orange-600 hover:text-white hover:border-orange-500"
+      >
+        + {t('addHighlightRule')}
+      </button>
+    </div>
+  );
+};
+
+export default HighlightRulesPanel;
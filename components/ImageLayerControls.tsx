@@ -0,0 +1,88 @@
+import React from 'react';
+import { ImageLayer, SavedLogo } from '../types';
+
+interface ImageLayerControlsProps {
+  layer: ImageLayer;
+  logos: SavedLogo[];
+  uploading: boolean;
+  onChange: (updates: Partial<ImageLayer>) => void;
+  onUpload: (file: File) => void;
+  onDeleteLogo: (id: string) => void;
+  t: (key: string) => string;
+}
+
+const labelClass = 'block text-[9px] font-black text-white/30 uppercase tracking-[0.2em] mb-1';
+const fieldClass = 'w-full px-3 py-2 bg-black/40 border border-white/10 rounded-lg focus:border-orange-500 outline-none font-bold text-white transition-all text-xs';
+const rangeClass = 'w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-orange-600';
+
+const ImageLayerControls: React.FC<ImageLayerControlsProps> = ({ layer, logos, uploading, onChange, onUpload, onDeleteLogo, t }) => (
+  <div className="space-y-3">
+    <div className="flex items-center space-x-2">
+      <input
+        type="url"
+        value={layer.src.startsWith('data:') ? '' : layer.src}
+        placeholder={layer.src.startsWith('data:') ? t('uploadedImage') : t('imageUrl')}
+        onChange={(e) => onChange({ src: e.target.value })}
+        className={`${fieldClass} flex-1 min-w-0 placeholder:text-white/20`}
+      />
+      <label className={`shrink-0 px-3 py-2 rounded-lg text-[10px] font-bold tracking-wider uppercase border transition-all cursor-pointer ${uploading ? 'opacity-50 pointer-events-none' : ''} bg-orange-600/20 text-orange-400 border-orange-500/30 hover:bg-orange-600 hover:text-white hover:border-orange-500`}>
+        {uploading ? t('uploading') : t('uploadLogo')}
+        <input
+          type="file"
+          accept="image/png,image/svg+xml"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onUpload(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+    </div>
+
+    {logos.length > 0 && (
+      <div>
+        <label className={labelClass}>{t('savedLogos')}</label>
+        <div className="flex flex-wrap gap-2">
+          {logos.map(logo => (
+            <div key={logo.id} className="relative group">
+              <button
+                onClick={() => onChange({ src: logo.dataUrl })}
+                title={logo.name}
+                className={`w-14 h-14 rounded-lg border p-1 bg-[repeating-conic-gradient(#333_0_25%,#222_0_50%)] bg-[length:12px_12px] transition-colors ${layer.src === logo.dataUrl ? 'border-orange-500' : 'border-white/10 hover:border-white/40'}`}
+              >
+                <img src={logo.dataUrl} alt={logo.name} className="w-full h-full object-contain" />
+              </button>
+              <button
+                onClick={() => onDeleteLogo(logo.id)}
+                title={t('deleteLogo')}
+                className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-black border border-white/20 text-white/60 hover:text-red-400 text-[9px] font-black opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+              >✕</button>
+            </div>
+          ))}
+        </div>
+      </div>
+    )}
+
+    <div className="grid grid-cols-3 gap-2">
+      <div>
+        <label className={labelClass}>{t('imageWidth')} {layer.width}%</label>
+        <input type="range" min="2" max="100" step="1" value={layer.width} onChange={(e) => onChange({ width: parseFloat(e.target.value) })} className={rangeClass} />
+      </div>
+      <div>
+        <label className={labelClass}>{t('imageOpacity')} {Math.round(layer.opacity * 100)}%</label>
+        <input type="range" min="0" max="1" step="0.05" value={layer.opacity} onChange={(e) => onChange({ opacity: parseFloat(e.target.value) })} className={rangeClass} />
+      </div>
+      <div>
+        <label className={labelClass}>{t('recolor')}</label>
+        <select value={layer.recolor} onChange={(e) => onChange({ recolor: e.target.value as ImageLayer['recolor'] })} className={`${fieldClass} appearance-none`}>
+          <option value="none">{t('recolorNone')}</option>
+          <option value="white">{t('recolorWhite')}</option>
+          <option value="black">{t('recolorBlack')}</option>
+        </select>
+      </div>
+    </div>
+  </div>
+);
+
+export default ImageLayerControls;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { BannerLayer } from '../types';
+import type { LegibilityResult } from '../utils/contrast';
+
+export type LegibilityFix = 'overlay' | 'shadow' | 'plate' | 'move';
+
+interface LegibilityPanelProps {
+  results: LegibilityResult[];
+  layers: BannerLayer[];
+  /** True until the first background sample is ready. */
+  checking: boolean;
+  /** The element a fix is being computed for. */
+  fixingLayerId: string | null;
+  onFix: (layerId: string, fix: LegibilityFix) => void;
+  onSelect: (layerId: string) => void;
+  t: (key: string) => string;
+}
+
+const FIX_LABELS: Record<LegibilityFix, string> = {
+  overlay: 'legibilityFixOverlay',
+  shadow: 'legibilityFixShadow',
+  plate: 'legibilityFixPlate',
+  move: 'legibilityFixMove',
+};
+
+const ratio = (value: number) => `${value.toFixed(1)}:1`;
+
+const LegibilityPanel: React.FC<LegibilityPanelProps> = ({ results, layers, checking, fixingLayerId, onFix, onSelect, t }) => {
+  if (checking) return <p className="text-xs text-white/40 font-bold">{t('legibilityChecking')}</p>;
+  if (results.length === 0) return <p className="text-xs text-white/40 font-bold">{t('legibilityNoText')}</p>;
+
+  const layerText = (layerId: string) => {
+    const layer = layers.find(l => l.id === layerId);
+    return layer && (layer.type === 'text' || layer.type === 'promo') ? layer.text : '';
+  };
+
+  return (
+    <div className="space-y-2">
+      {results.map(result => {
+        // Darkening the overlay only helps light text.
+        const fixes: LegibilityFix[] = result.lightText ? ['overlay', 'shadow', 'plate', 'move'] : ['shadow', 'plate', 'move'];
+        const fixing = fixingLayerId === result.layerId;
+        return (
+          <div key={result.layerId} className="bg-black/20 border border-white/5 rounded-2xl p-3 space-y-2">
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => onSelect(result.layerId)}
+                className="flex-1 min-w-0 text-left text-xs font-bold text-white/80 truncate hover:text-white"
+              >
+                {layerText(result.layerId) || '—'}
+              </button>
+              <span
+                className={`font-mono text-xs font-black ${result.passes ? 'text-white/60' : 'text-red-400'}`}
+                title={t('legibilityRequired').replace('{ratio}', ratio(result.required))}
+              >
+                {result.passes ? '✓' : '⚠'} {ratio(result.contrast)}
+              </span>
+            </div>
+            {!result.passes && (
+              <div className="flex flex-wrap gap-1.5">
+                {fixes.map(fix => (
+                  <button
+                    key={fix}
+                    onClick={() => onFix(result.layerId, fix)}
+                    disabled={fixingLayerId !== null}
+                    className="px-2.5 py-1 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all border bg-orange-600/20 text-orange-400 border-orange-500/30 hover:bg-orange-600 hover:text-white hover:border-orange-500 disabled:opacity-40"
+                  >
+                    {fixing && fix === 'overlay' ? '…' : t(FIX_LABELS[fix])}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LegibilityPanel;
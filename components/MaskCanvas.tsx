@@ -0,0 +1,72 @@
+import React, { useEffect, useRef } from 'react';
+import { MaskStroke, drawMaskStrokes } from '../services/backgroundEditService';
+
+interface MaskCanvasProps {
+  /** Banner size in pixels; strokes are recorded in this space. */
+  width: number;
+  height: number;
+  strokes: MaskStroke[];
+  brushRadius: number;
+  onChange: (strokes: MaskStroke[]) => void;
+  label: string;
+}
+
+/**
+ * A transparent canvas over the banner for painting the area an AI edit may change.
+ */
+const MaskCanvas: React.FC<MaskCanvasProps> = ({ width, height, strokes, brushRadius, onChange, label }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const activeRef = useRef<MaskStroke | null>(null);
+
+  const redraw = (extra?: MaskStroke) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, width, height);
+    // Painting each stroke opaque on a translucent canvas keeps overlaps from darkening.
+    drawMaskStrokes(ctx, extra ? [...strokes, extra] : strokes, '#ea580c');
+  };
+
+  useEffect(() => {
+    redraw();
+  });
+
+  const toBanner = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * width,
+      y: ((e.clientY - rect.top) / rect.height) * height,
+    };
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      aria-label={label}
+      className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+      style={{ opacity: 0.55 }}
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        activeRef.current = { points: [toBanner(e)], radius: brushRadius };
+        redraw(activeRef.current);
+      }}
+      onPointerMove={(e) => {
+        if (!activeRef.current) return;
+        activeRef.current.points.push(toBanner(e));
+        redraw(activeRef.current);
+      }}
+      onPointerUp={() => {
+        if (!activeRef.current) return;
+        onChange([...strokes, activeRef.current]);
+        activeRef.current = null;
+      }}
+      onPointerCancel={() => {
+        activeRef.current = null;
+        redraw();
+      }}
+    />
+  );
+};
+
+export default MaskCanvas;
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { ShareLink } from '../types';
+import { shareUrl } from '../services/shareService';
+
+interface ShareDialogProps {
+  /** Null while the user's links are loading. */
+  shares: ShareLink[] | null;
+  creating: boolean;
+  onCreate: (expiresInDays: number | null) => void;
+  onRevoke: (share: ShareLink) => void;
+  onClose: () => void;
+  t: (key: string) => string;
+}
+
+const EXPIRY_OPTIONS: { days: number | null; labelKey: string }[] = [
+  { days: 1, labelKey: 'shareExpiresDay' },
+  { days: 7, labelKey: 'shareExpiresWeek' },
+  { days: 30, labelKey: 'shareExpiresMonth' },
+  { days: null, labelKey: 'shareExpiresNever' },
+];
+
+const labelClass = 'block text-[10px] font-black text-white/30 uppercase tracking-[0.2em] mb-2';
+const optionClass = (active: boolean) =>
+  `px-3 py-2 rounded-xl text-[11px] font-black uppercase tracking-wider border transition-colors ${active ? 'bg-orange-600 border-orange-500 text-white' : 'bg-black/40 border-white/10 text-white/50 hover:text-white'}`;
+
+const ShareDialog: React.FC<ShareDialogProps> = ({ shares, creating, onCreate, onRevoke, onClose, t }) => {
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(7);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(token));
+      setCopiedToken(token);
+    } catch (error) {
+      console.error('Copying the link failed:', error);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/90 backdrop-blur-md" onMouseDown={(e) => { if (e.target === e.currentTarget) onClose(); }}>
+      <div role="dialog" aria-modal="true" aria-labelledby="share-dialog-title" className="w-full max-w-lg bg-[#1a1c23] rounded-3xl p-8 border border-white/10 shadow-2xl relative overflow-hidden space-y-6">
+        <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-orange-500 via-orange-300 to-orange-500"></div>
+        <div className="flex items-center justify-between">
+          <h2 id="share-dialog-title" className="text-xl font-black uppercase tracking-tight m-0">{t('shareDialogTitle')}</h2>
+          <button onClick={onClose} title={t('close')} className="w-8 h-8 rounded-lg text-white/40 hover:text-white hover:bg-white/10 transition-colors text-sm font-black">✕</button>
+        </div>
+
+        <p className="text-xs text-white/50 font-bold leading-relaxed">{t('shareHint')}</p>
+
+        <div>
+          <label className={labelClass}>{t('shareExpiry')}</label>
+          <div className="grid grid-cols-4 gap-2">
+            {EXPIRY_OPTIONS.map(option => (
+              <button
+                key={option.labelKey}
+                onClick={() => setExpiresInDays(option.days)}
+                aria-pressed={expiresInDays === option.days}
+                className={optionClass(expiresInDays === option.days)}
+              >
+                {t(option.labelKey)}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <button
+          onClick={() => onCreate(expiresInDays)}
+          disabled={creating}
+          className="w-full bg-orange-600 hover:bg-orange-500 text-white py-3 rounded-2xl font-black uppercase transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {creating ? t('shareCreating') : t('shareCreate')}
+        </button>
+
+        <div>
+          <label className={labelClass}>{t('shareActiveLinks')}</label>
+          {shares === null ? (
+            <p className="text-xs text-white/40 font-bold">{t('shareLoading')}</p>
+          ) : shares.length === 0 ? (
+            <p className="text-xs text-white/40 font-bold">{t('shareNoLinks')}</p>
+          ) : (
+            <ul className="space-y-2 max-h-60 overflow-y-auto">
+              {shares.map(share => (
+                <li key={share.token} className="bg-black/20 border border-white/5 rounded-2xl p-3 space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <span className="flex-1 min-w-0 text-xs font-bold text-white/80 truncate">{share.name}</span>
+                    <span className="text-[10px] text-white/30 font-mono">
+                      {share.expiresAt
+                        ? t('shareExpiresOn').replace('{date}', new Date(share.expiresAt).toLocaleDateString())
+                        : t('shareExpiresNever')}
+                    </span>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      readOnly
+                      value={shareUrl(share.token)}
+                      onFocus={(e) => e.target.select()}
+                      className="flex-1 min-w-0 px-3 py-2 bg-black/40 border border-white/10 rounded-xl focus:border-orange-500 outline-none font-mono text-white/70 text-[11px]"
+                    />
+                    <button
+                      onClick={() => copyLink(share.token)}
+                      className="px-2.5 py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all border bg-white/5 text-white/60 border-white/10 hover:text-white"
+                    >
+                      {copiedToken === share.token ? t('shareCopied') : t('shareCopy')}
+                    </button>
+                    <button
+                      onClick={() => onRevoke(share)}
+                      className="px-2.5 py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all border bg-white/5 text-white/60 border-white/10 hover:text-red-400"
+                    >
+                      {t('shareRevoke')}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareDialog;
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { ExportFormat } from '../types';
+import BannerPreview from './BannerPreview';
+import { SharedBannerResult, getSharedBanner } from '../services/shareService';
+import { DEFAULT_EXPORT_SETTINGS, downloadBlob, exportBanner } from '../services/exportService';
+import { configForSize, getSizePreset } from '../utils/campaign';
+import { configForLocale } from '../utils/copyVariants';
+import { migrateBannerConfig } from '../utils/layers';
+import { buildExportFilename } from '../utils/exportFilename';
+import { detectLanguage, languages, translations } from '../i18n';
+
+interface SharedBannerPageProps {
+  token: string;
+}
+
+const DOWNLOAD_FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'png', label: 'PNG' },
+  { id: 'jpeg', label: 'JPEG' },
+];
+
+const optionClass = (active: boolean) =>
+  `px-3 py-2 rounded-xl text-[11px] font-black uppercase tracking-wider border transition-colors ${active ? 'bg-orange-600 border-orange-500 text-white' : 'bg-black/40 border-white/10 text-white/50 hover:text-white'}`;
+
+/**
+ * The read-only page behind a share link: the banner in each of its sizes and languages,
+ * with downloads, and no editing.
+ */
+const SharedBannerPage: React.FC<SharedBannerPageProps> = ({ token }) => {
+  const [lang] = useState(detectLanguage);
+  const [result, setResult] = useState<SharedBannerResult | null>(null);
+  const [sizeId, setSizeId] = useState<string | null>(null);
+  const [locale, setLocale] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState<ExportFormat | null>(null);
+
+  const t = (key: string) => translations[lang]?.[key] || translations['en'][key] || key;
+
+  useEffect(() => {
+    getSharedBanner(token).then(loaded => {
+      setResult(loaded.banner ? { banner: { ...loaded.banner, config: migrateBannerConfig(loaded.banner.config) } } : loaded);
+    });
+  }, [token]);
+
+  if (!result || !result.banner) {
+    const messageKey = !result ? 'sharedLoading' : result.error === 'expired' ? 'sharedExpired' : result.error === 'not-found' ? 'sharedNotFound' : 'sharedLoadFailed';
+    return (
+      <div className="min-h-screen bg-[#0f1115] text-white/90 font-['Noto_Sans_TC'] flex items-center justify-center p-6">
+        <p className="text-sm font-bold text-white/50">{t(messageKey)}</p>
+      </div>
+    );
+  }
+
+  const { banner } = result;
+  const activeSizeId = sizeId ?? banner.config.activeSizeId;
+  const activeLocale = locale ?? banner.config.locale;
+  const shown = configForSize(configForLocale(banner.config, activeLocale), activeSizeId);
+  const sizeLabel = (id: string) => {
+    const preset = getSizePreset(id);
+    return preset ? t(preset.labelKey) : t('customSize');
+  };
+
+  const handleDownload = async (format: ExportFormat) => {
+    setDownloading(format);
+    try {
+      const exported = await exportBanner(shown, { ...DEFAULT_EXPORT_SETTINGS, format });
+      downloadBlob(exported.blob, buildExportFilename(DEFAULT_EXPORT_SETTINGS.filenamePattern, shown, exported.format, activeSizeId));
+    } catch (error) {
+      console.error('Download failed:', error);
+      alert(t('exportFailed'));
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0f1115] pb-20 text-white/90 font-['Noto_Sans_TC'] selection:bg-orange-500/30">
+      <header className="bg-black/50 backdrop-blur-xl border-b border-white/10">
+        <div className="max-w-7xl mx-auto px-4 h-16 flex items-center justify-between">
+          <div className="flex items-center space-x-3 min-w-0">
+            <div className="w-10 h-10 shrink-0 bg-orange-600 rounded-xl flex items-center justify-center shadow-[0_0_20px_rgba(234,88,12,0.4)]">
+              <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+              </svg>
+            </div>
+            <div className="min-w-0">
+              <h1 className="text-lg font-black tracking-tighter leading-none uppercase italic truncate">{banner.name}</h1>
+              <p className="text-[10px] font-black text-white/30 uppercase tracking-[0.2em] mt-1">
+                {t('sharedReadOnly')}
+                {banner.expiresAt && ` · ${t('shareExpiresOn').replace('{date}', new Date(banner.expiresAt).toLocaleDateString())}`}
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 pt-8 space-y-6">
+        <div className="flex flex-wrap items-center gap-2">
+          {banner.config.sizes.map(size => (
+            <button key={size.id} onClick={() => setSizeId(size.id)} aria-pressed={size.id === activeSizeId} className={optionClass(size.id === activeSizeId)}>
+              {sizeLabel(size.id)} <span className="font-mono opacity-60">{size.width}×{size.height}</span>
+            </button>
+          ))}
+          {banner.config.copyVariants.length > 1 && (
+            <select
+              value={activeLocale}
+              onChange={(e) => setLocale(e.target.value)}
+              aria-label={t('copyLanguage')}
+              className="px-3 py-2 bg-black/40 border border-white/10 rounded-xl focus:border-orange-500 outline-none font-bold text-white text-xs appearance-none"
+            >
+              {banner.config.copyVariants.map(variant => (
+                <option key={variant.locale} value={variant.locale} className="bg-[#1a1c23]">
+                  {languages[variant.locale as keyof typeof languages] ?? variant.locale}
+                </option>
+              ))}
+            </select>
+          )}
+          <div className="flex-1" />
+          {DOWNLOAD_FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => handleDownload(format.id)}
+              disabled={downloading !== null}
+              className="px-4 py-2 rounded-xl text-[11px] font-black uppercase tracking-wider bg-orange-600 hover:bg-orange-500 text-white transition-colors disabled:opacity-50"
+            >
+              {downloading === format.id ? '…' : `↓ ${format.label}`}
+            </button>
+          ))}
+        </div>
+
+        <div className="ring-1 ring-white/10 rounded-2xl overflow-hidden shadow-2xl">
+          <BannerPreview config={shown} t={t} />
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default SharedBannerPage;
@@ -0,0 +1,122 @@
+import React from 'react';
+import { TextStyle } from '../types';
+import { FONT_FAMILIES, getFontWeights } from '../utils/typography';
+
+interface TypographyControlsProps {
+  style: TextStyle;
+  onChange: (updates: Partial<TextStyle>) => void;
+  t: (key: string) => string;
+}
+
+const labelClass = 'block text-[9px] font-black text-white/30 uppercase tracking-[0.2em] mb-1';
+const fieldClass = 'w-full px-3 py-2 bg-black/40 border border-white/10 rounded-lg focus:border-orange-500 outline-none font-bold text-white transition-all text-xs';
+
+const TypographyControls: React.FC<TypographyControlsProps> = ({ style, onChange, t }) => {
+  const weights = getFontWeights(style.fontFamily);
+
+  const handleFamilyChange = (fontFamily: string) => {
+    const available = getFontWeights(fontFamily);
+    // Snap to the closest weight the new family actually ships.
+    const fontWeight = available.reduce((best, w) =>
+      Math.abs(w - style.fontWeight) < Math.abs(best - style.fontWeight) ? w : best, available[0]);
+    onChange({ fontFamily, fontWeight });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2 pt-1">
+      <div className="col-span-2">
+        <label className={labelClass}>{t('fontFamily')}</label>
+        <select value={style.fontFamily} onChange={(e) => handleFamilyChange(e.target.value)} className={`${fieldClass} appearance-none`}>
+          {FONT_FAMILIES.map(f => (
+            <option key={f.family} value={f.family} style={{ fontFamily: f.family }}>{f.family}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className={labelClass}>{t('fontWeight')}</label>
+        <select value={style.fontWeight} onChange={(e) => onChange({ fontWeight: parseInt(e.target.value) })} className={`${fieldClass} appearance-none`}>
+          {weights.map(w => <option key={w} value={w}>{w}</option>)}
+        </select>
+      </div>
+      <div>
+        <label className={labelClass}>{t('fontSize')}</label>
+        <input type="number" min="4" value={style.fontSize} onChange={(e) => onChange({ fontSize: parseFloat(e.target.value) || 0 })} className={fieldClass} />
+      </div>
+
+      <div>
+        <label className={labelClass}>{t('letterSpacing')}</label>
+        <input type="number" step="0.01" value={style.letterSpacing} onChange={(e) => onChange({ letterSpacing: parseFloat(e.target.value) || 0 })} className={fieldClass} />
+      </div>
+      <div>
+        <label className={labelClass}>{t('lineHeight')}</label>
+        <input type="number" step="0.05" min="0.5" value={style.lineHeight} onChange={(e) => onChange({ lineHeight: parseFloat(e.target.value) || 1 })} className={fieldClass} />
+      </div>
+
+      <div>
+        <label className={labelClass}>{t('textCase')}</label>
+        <select value={style.textTransform} onChange={(e) => onChange({ textTransform: e.target.value as TextStyle['textTransform'] })} className={`${fieldClass} appearance-none`}>
+          <option value="none">{t('caseNone')}</option>
+          <option value="uppercase">{t('caseUpper')}</option>
+          <option value="lowercase">{t('caseLower')}</option>
+          <option value="capitalize">{t('caseCapitalize')}</option>
+        </select>
+      </div>
+      <div className="flex items-end">
+        <button
+          onClick={() => onChange({ fontStyle: style.fontStyle === 'italic' ? 'normal' : 'italic' })}
+          className={`w-full px-3 py-2 rounded-lg text-xs font-black italic border transition-colors ${style.fontStyle === 'italic' ? 'bg-orange-600 border-orange-500 text-white' : 'bg-black/40 border-white/10 text-white/50'}`}
+        >
+          {t('italic')}
+        </button>
+      </div>
+
+      <div>
+        <label className={labelClass}>{t('textColor')}</label>
+        <div className="flex items-center space-x-2">
+          <input type="color" value={style.gradient ? style.gradient.from : style.color} onChange={(e) => onChange(style.gradient ? { gradient: { ...style.gradient, from: e.target.value } } : { color: e.target.value })} className="w-8 h-8 bg-transparent border border-white/10 rounded cursor-pointer" />
+          {style.gradient && (
+            <input type="color" value={style.gradient.to} onChange={(e) => onChange({ gradient: { ...style.gradient!, to: e.target.value } })} className="w-8 h-8 bg-transparent border border-white/10 rounded cursor-pointer" />
+          )}
+        </div>
+      </div>
+      <div className="flex items-end">
+        <label className="flex items-center space-x-2 text-[10px] font-bold text-white/50 uppercase tracking-wider cursor-pointer pb-2">
+          <input
+            type="checkbox"
+            checked={!!style.gradient}
+            onChange={(e) => onChange({ gradient: e.target.checked ? { from: style.color, to: '#ea580c' } : null })}
+            className="accent-orange-600"
+          />
+          <span>{t('gradient')}</span>
+        </label>
+      </div>
+
+      <div className="col-span-2 flex items-center space-x-2">
+        <label className="flex items-center space-x-2 text-[10px] font-bold text-white/50 uppercase tracking-wider cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!style.shadow}
+            onChange={(e) => onChange({ shadow: e.target.checked ? { color: '#000000', opacity: 0.7, blur: 8, offsetX: 0, offsetY: 4 } : null })}
+            className="accent-orange-600"
+          />
+          <span>{t('textShadow')}</span>
+        </label>
+        {style.shadow && (
+          <>
+            <input type="color" value={style.shadow.color} onChange={(e) => onChange({ shadow: { ...style.shadow!, color: e.target.value } })} className="w-8 h-8 bg-transparent border border-white/10 rounded cursor-pointer" />
+            <input
+              type="range" min="0" max="40" step="1"
+              value={style.shadow.blur}
+              title={t('shadowBlur')}
+              onChange={(e) => onChange({ shadow: { ...style.shadow!, blur: parseFloat(e.target.value) } })}
+              className="flex-1 h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-orange-600"
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TypographyControls;
@@ -0,0 +1,423 @@
+/**
+ * Generation providers for the Cloud Function; mirrors server-generation.ts.
+ */
+
+import { GoogleGenAI, type GenerateContentResponse } from "@google/genai";
+import { Resvg } from "@resvg/resvg-js";
+import { imageSize } from "image-size";
+
+// --- ASPECT RATIOS ---
+// The ratios the image model can generate, with the pixel size it returns for each.
+const IMAGE_SIZES = {
+  '21:9': [1536, 672],
+  '16:9': [1344, 768],
+  '3:2': [1248, 832],
+  '4:3': [1184, 864],
+  '5:4': [1152, 896],
+  '1:1': [1024, 1024],
+  '4:5': [896, 1152],
+  '3:4': [864, 1184],
+  '2:3': [832, 1248],
+  '9:16': [768, 1344],
+} satisfies Record<string, [number, number]>;
+
+export type GenerationAspectRatio = keyof typeof IMAGE_SIZES;
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+// Share of a generated image that cropping to the banner may cut away before it's outpainted instead.
+const MAX_CROP_LOSS = 0.15;
+
+const ratioOf = (ratio: GenerationAspectRatio) => {
+  const [width, height] = IMAGE_SIZES[ratio];
+  return width / height;
+};
+
+/**
+ * The supported ratio closest to the given size, compared on a log scale so 2:1 and 1:2 are
+ * equally far from 1:1.
+ */
+export const snapAspectRatio = ({ width, height }: ImageSize): GenerationAspectRatio => {
+  const target = Math.log(width / height);
+  return (Object.keys(IMAGE_SIZES) as GenerationAspectRatio[]).reduce((best, ratio) =>
+    Math.abs(Math.log(ratioOf(ratio)) - target) < Math.abs(Math.log(ratioOf(best)) - target) ? ratio : best
+  );
+};
+
+/**
+ * Whether an image generated at the snapped ratio would lose too much to cropping when it
+ * covers a banner of the given size, so it should be extended to the banner's ratio.
+ */
+export const needsOutpainting = (size: ImageSize) => {
+  const target = size.width / size.height;
+  const generated = ratioOf(snapAspectRatio(size));
+  return 1 - Math.min(target, generated) / Math.max(target, generated) > MAX_CROP_LOSS;
+};
+
+const parseDataUrl = (dataUrl: string) => {
+  const match = dataUrl.match(/^data:([^;,]+);base64,(.*)$/);
+  if (!match) throw new Error("Expected an image data URL");
+  return { mimeType: match[1], data: match[2] };
+};
+
+const dataUrlSize = (dataUrl: string): ImageSize => {
+  const { width, height } = imageSize(Buffer.from(parseDataUrl(dataUrl).data, 'base64'));
+  if (!width || !height) throw new Error("Unreadable image");
+  return { width, height };
+};
+
+// Images come from request bodies, so they're escaped before going into an SVG attribute.
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;');
+
+/** Pixels to add on each side of an image when extending it. */
+export interface Padding {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/**
+ * Padding that centres the image on the smallest canvas with the target's ratio that holds it.
+ */
+export const paddingForAspect = (image: ImageSize, target: ImageSize): Padding => {
+  const ratio = target.width / target.height;
+  const padX = Math.round(Math.max(0, image.height * ratio - image.width) / 2);
+  const padY = Math.round(Math.max(0, image.width / ratio - image.height) / 2);
+  return { top: padY, right: padX, bottom: padY, left: padX };
+};
+
+export type ImageEdge = keyof Padding;
+
+export const IMAGE_EDGES: ImageEdge[] = ['top', 'right', 'bottom', 'left'];
+
+/**
+ * Padding that grows one edge by `amount`, a fraction of the image's size along that axis.
+ */
+export const paddingForEdge = (image: ImageSize, edge: ImageEdge, amount: number): Padding => ({
+  top: 0, right: 0, bottom: 0, left: 0,
+  [edge]: Math.round((edge === 'left' || edge === 'right' ? image.width : image.height) * amount),
+});
+
+// --- PROVIDERS ---
+// Prompt and image generation go through a provider chosen by GENERATION_PROVIDER, so the
+// routes don't depend on one vendor. `local` needs no key or network: it returns canned
+// prompts and drawn placeholder scenery, the same output for the same input.
+
+export interface ImageOptions {
+  aspectRatio: GenerationAspectRatio;
+  /** Distinguishes images generated together from the same prompt. */
+  variation?: number;
+}
+
+export interface GenerationProvider {
+  readonly name: string;
+  /** Writes an image prompt for the given theme. */
+  generatePrompt(theme: string): Promise<string>;
+  /** Generates an image and returns it as a data URL. */
+  generateImage(prompt: string, options: ImageOptions): Promise<string>;
+  /**
+   * Outpaints an image by the given padding, keeping the original unchanged. `prompt`
+   * describes the scene, when known.
+   */
+  extendImage(image: string, prompt: string, padding: Padding): Promise<string>;
+  /**
+   * Changes the parts of an image under the white area of `mask`, a same-sized PNG, as
+   * `instruction` describes.
+   */
+  editImage(image: string, mask: string, instruction: string): Promise<string>;
+}
+
+const promptInstruction = (theme: string) => `You are an expert AI image prompt engineer. Generate a highly detailed, hyper-realistic image generation prompt for an outdoor clothing brand banner.
+The theme is: ${theme}.
+CRITICAL REQUIREMENT: The prompt MUST specify that the main subject (a person wearing outdoor gear) is positioned on the extreme RIGHT third of the frame, leaving the left two-thirds completely empty/clear for text placement.
+The prompt should describe the lighting, atmosphere, and camera style (high-end retail photography).
+Do not include any conversational text, just the prompt itself.`;
+
+const extendInstruction = (prompt: string) => `Extend this photograph outward. Replace the flat gray bands at the edges with a seamless continuation of the scene, matching its lighting, perspective, colors and level of detail. Leave the original area, including any person in it, unchanged. Add no text, watermarks or logos.${prompt ? `
+The photograph was created from this description: ${prompt}` : ''}`;
+
+const editInstruction = (instruction: string) => `The first image is a photograph and the second is a mask of the same size. Edit only the part of the photograph under the white area of the mask: ${instruction}
+Keep everything under the black area exactly as it is, and blend the edit seamlessly into its surroundings, matching lighting, perspective and grain. Add no text, watermarks or logos. Return only the edited photograph.`;
+
+export const ERASE_INSTRUCTION = 'Remove everything in this area and fill it with what would naturally be behind it.';
+
+const GRAY_PADDING = '#808080';
+
+export interface GeminiModels {
+  prompt: string;
+  image: string;
+}
+
+export const DEFAULT_GEMINI_MODELS: GeminiModels = {
+  prompt: 'gemini-3-flash-preview',
+  image: 'gemini-2.5-flash-image',
+};
+
+const imageFromResponse = (response: GenerateContentResponse) => {
+  const image = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData)?.inlineData;
+  if (!image) throw new Error("AI returned no image");
+  return `data:${image.mimeType || 'image/png'};base64,${image.data}`;
+};
+
+export const createGeminiProvider = (apiKey: string, models: GeminiModels = DEFAULT_GEMINI_MODELS): GenerationProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: 'gemini',
+    async generatePrompt(theme) {
+      const response = await ai.models.generateContent({
+        model: models.prompt,
+        contents: promptInstruction(theme),
+      });
+      if (!response.text) throw new Error("AI returned no prompt");
+      return response.text;
+    },
+    async generateImage(prompt, { aspectRatio }) {
+      const response = await ai.models.generateContent({
+        model: models.image,
+        contents: { parts: [{ text: prompt }] },
+        config: { imageConfig: { aspectRatio } }
+      });
+      return imageFromResponse(response);
+    },
+    async extendImage(image, prompt, padding) {
+      // Gemini keeps the input's aspect ratio when editing, so pad the image with gray and
+      // have it paint over the gray.
+      const size = dataUrlSize(image);
+      const width = size.width + padding.left + padding.right;
+      const height = size.height + padding.top + padding.bottom;
+      const padded = new Resvg(`<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}">
+<rect width="${width}" height="${height}" fill="${GRAY_PADDING}"/>
+<image x="${padding.left}" y="${padding.top}" width="${size.width}" height="${size.height}" xlink:href="${escapeAttribute(image)}"/>
+</svg>`).render().asPng();
+      const response = await ai.models.generateContent({
+        model: models.image,
+        contents: {
+          parts: [
+            { inlineData: { mimeType: 'image/png', data: padded.toString('base64') } },
+            { text: extendInstruction(prompt) },
+          ],
+        },
+      });
+      return imageFromResponse(response);
+    },
+    async editImage(image, mask, instruction) {
+      const response = await ai.models.generateContent({
+        model: models.image,
+        contents: {
+          parts: [
+            { inlineData: parseDataUrl(image) },
+            { inlineData: parseDataUrl(mask) },
+            { text: editInstruction(instruction) },
+          ],
+        },
+      });
+      return imageFromResponse(response);
+    },
+  };
+};
+
+// --- LOCAL PROVIDER ---
+// FNV-1a, to turn the input text into a seed.
+const hashText = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: a small seeded generator, so the same prompt always draws the same scene.
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const CANNED_PROMPTS = [
+  (theme: string) => `Hyper-realistic retail photograph for an outdoor clothing brand, theme: ${theme}. A hiker in a technical shell jacket stands on a rocky ridge on the extreme right third of the frame, looking out over layered mountains. The left two-thirds is open sky and distant peaks, clear for text. Soft golden-hour side light, shallow haze, shot on a 35mm lens.`,
+  (theme: string) => `High-end outdoor gear campaign image, theme: ${theme}. A trail runner in a lightweight windbreaker is captured mid-stride on the extreme right third of the frame. The left two-thirds shows an empty alpine meadow fading into misty hills, leaving room for copy. Bright natural daylight, crisp detail, vibrant colors.`,
+  (theme: string) => `Cinematic brand photograph, theme: ${theme}. A climber in an insulated down jacket rests beside a tent on the extreme right third of the frame. The left two-thirds is a calm lake reflecting the mountains, uncluttered for text placement. Cool blue-hour light, long exposure, no text or logos.`,
+];
+
+interface ScenePalette {
+  skyTop: string;
+  skyBottom: string;
+  sun: string;
+  ridges: [string, string, string];
+  figure: string;
+}
+
+const PALETTES: ScenePalette[] = [
+  { skyTop: '#1e3a5f', skyBottom: '#f4a261', sun: '#ffd6a5', ridges: ['#6d597a', '#355070', '#1d2d44'], figure: '#111318' },
+  { skyTop: '#4ea8de', skyBottom: '#cfe8f7', sun: '#fff7d6', ridges: ['#8fb3c9', '#4f772d', '#31572c'], figure: '#1b1f24' },
+  { skyTop: '#0b132b', skyBottom: '#3a506b', sun: '#e0e1dd', ridges: ['#415a77', '#1b263b', '#0d1b2a'], figure: '#05070a' },
+  { skyTop: '#ff7b54', skyBottom: '#ffd56f', sun: '#fff1c1', ridges: ['#b56576', '#6d597a', '#355070'], figure: '#1a1423' },
+];
+
+const ridgePath = (random: () => number, width: number, height: number, base: number, amplitude: number) => {
+  const steps = 8 + Math.floor(random() * 6);
+  const points = Array.from({ length: steps + 1 }, (_, i) => {
+    const x = (width * i) / steps;
+    const y = height * (base - amplitude * random());
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+  return `M0,${height} L${points.join(' L')} L${width},${height} Z`;
+};
+
+/**
+ * Draws placeholder scenery as an SVG: sky, sun, three mountain ridges and a hiker on the right
+ * third, where the generated backgrounds put their subject.
+ */
+export const renderPlaceholderScene = (prompt: string, aspectRatio: GenerationAspectRatio) => {
+  const random = seededRandom(hashText(prompt));
+  const [width, height] = IMAGE_SIZES[aspectRatio];
+  const palette = PALETTES[Math.floor(random() * PALETTES.length)];
+  const sunX = width * (0.15 + random() * 0.45);
+  const sunY = height * (0.2 + random() * 0.2);
+  const ridges = [
+    ridgePath(random, width, height, 0.55, 0.25),
+    ridgePath(random, width, height, 0.7, 0.2),
+    ridgePath(random, width, height, 0.85, 0.12),
+  ];
+  const unit = height / 100;
+  const figureX = width * (0.72 + random() * 0.1);
+  const figureY = height * 0.78;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+<defs><linearGradient id="sky" x1="0" y1="0" x2="0" y2="1"><stop offset="0" stop-color="${palette.skyTop}"/><stop offset="1" stop-color="${palette.skyBottom}"/></linearGradient></defs>
+<rect width="${width}" height="${height}" fill="url(#sky)"/>
+<circle cx="${sunX.toFixed(1)}" cy="${sunY.toFixed(1)}" r="${(unit * 7).toFixed(1)}" fill="${palette.sun}" opacity="0.9"/>
+${ridges.map((d, i) => `<path d="${d}" fill="${palette.ridges[i]}"/>`).join('\n')}
+<g fill="${palette.figure}" transform="translate(${figureX.toFixed(1)} ${figureY.toFixed(1)}) scale(${unit.toFixed(2)})">
+<circle cx="0" cy="-17" r="2.2"/><path d="M-2.5,-14 L2.5,-14 L3,-5 L1.5,-5 L1.5,0 L0.3,0 L0,-5 L-0.3,0 L-1.5,0 L-1.5,-5 L-3,-5 Z"/><path d="M2.5,-14 L5,-13 L5,-7 L2.8,-7 Z"/>
+</g>
+</svg>`;
+};
+
+/**
+ * Extends an image by tiling mirrored copies of it around the original, as an SVG.
+ */
+const mirrorExtend = (image: string, padding: Padding) => {
+  const size = dataUrlSize(image);
+  const width = size.width + padding.left + padding.right;
+  const height = size.height + padding.top + padding.bottom;
+  const copies: string[] = [];
+  for (let kx = -Math.ceil(padding.left / size.width); kx <= Math.ceil(padding.right / size.width); kx++) {
+    for (let ky = -Math.ceil(padding.top / size.height); ky <= Math.ceil(padding.bottom / size.height); ky++) {
+      // Every other copy is flipped so the edges meet seamlessly.
+      const flipX = kx % 2 !== 0;
+      const flipY = ky % 2 !== 0;
+      const x = padding.left + kx * size.width + (flipX ? size.width : 0);
+      const y = padding.top + ky * size.height + (flipY ? size.height : 0);
+      copies.push(`<image transform="translate(${x} ${y}) scale(${flipX ? -1 : 1} ${flipY ? -1 : 1})" width="${size.width}" height="${size.height}" xlink:href="${escapeAttribute(image)}"/>`);
+    }
+  }
+  return `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+${copies.join('\n')}
+</svg>`;
+};
+
+/**
+ * Stands in for an edit by blurring the masked area, as an SVG.
+ */
+const blurMasked = (image: string, mask: string) => {
+  const { width, height } = dataUrlSize(image);
+  return `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+<defs>
+<filter id="blur"><feGaussianBlur stdDeviation="${(Math.max(width, height) / 60).toFixed(1)}"/></filter>
+<mask id="edit" maskUnits="userSpaceOnUse" x="0" y="0" width="${width}" height="${height}"><image width="${width}" height="${height}" preserveAspectRatio="none" xlink:href="${escapeAttribute(mask)}"/></mask>
+</defs>
+<image width="${width}" height="${height}" xlink:href="${escapeAttribute(image)}"/>
+<g mask="url(#edit)"><image width="${width}" height="${height}" xlink:href="${escapeAttribute(image)}" filter="url(#blur)"/></g>
+</svg>`;
+};
+
+const svgDataUrl = (svg: string) => `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+
+export const localProvider: GenerationProvider = {
+  name: 'local',
+  async generatePrompt(theme) {
+    return CANNED_PROMPTS[hashText(theme) % CANNED_PROMPTS.length](theme);
+  },
+  async generateImage(prompt, { aspectRatio, variation = 0 }) {
+    return svgDataUrl(renderPlaceholderScene(variation ? `${prompt}#${variation}` : prompt, aspectRatio));
+  },
+  async extendImage(image, _prompt, padding) {
+    return svgDataUrl(mirrorExtend(image, padding));
+  },
+  async editImage(image, mask) {
+    return svgDataUrl(blurMasked(image, mask));
+  },
+};
+
+/**
+ * Generates a background for a banner of the given size: at the nearest supported ratio, then
+ * outpainted to the banner's own ratio if cropping would cut away too much. If outpainting
+ * fails the unextended image is returned, to be cropped as before.
+ */
+export const generateBackground = async (provider: GenerationProvider, prompt: string, size: ImageSize, variation = 0) => {
+  const image = await provider.generateImage(prompt, { aspectRatio: snapAspectRatio(size), variation });
+  if (!needsOutpainting(size)) return image;
+  try {
+    return await provider.extendImage(image, prompt, paddingForAspect(dataUrlSize(image), size));
+  } catch (error) {
+    console.error("Outpainting failed, keeping the generated image:", error);
+    return image;
+  }
+};
+
+export type BackgroundEdit =
+  | { mode: 'inpaint'; image: string; mask: string; instruction: string }
+  | { mode: 'erase'; image: string; mask: string }
+  | { mode: 'extend'; image: string; edge: ImageEdge; amount: number; prompt: string };
+
+/**
+ * Applies an edit to a background: repaints or erases the masked area, or extends one edge.
+ */
+export const editBackground = (provider: GenerationProvider, edit: BackgroundEdit) => {
+  switch (edit.mode) {
+    case 'inpaint':
+      return provider.editImage(edit.image, edit.mask, edit.instruction);
+    case 'erase':
+      return provider.editImage(edit.image, edit.mask, ERASE_INSTRUCTION);
+    case 'extend':
+      return provider.extendImage(edit.image, edit.prompt, paddingForEdge(dataUrlSize(edit.image), edit.edge, edit.amount));
+  }
+};
+
+let provider: GenerationProvider | null = null;
+
+/**
+ * The provider named by GENERATION_PROVIDER (`gemini` by default, or `local`). Gemini models
+ * can be overridden with GEMINI_PROMPT_MODEL and GEMINI_IMAGE_MODEL.
+ */
+export const getGenerationProvider = (): GenerationProvider => {
+  if (provider) return provider;
+  const name = process.env.GENERATION_PROVIDER || 'gemini';
+  switch (name) {
+    case 'local':
+      provider = localProvider;
+      break;
+    case 'gemini': {
+      const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+      if (!apiKey) {
+        throw new Error("Server misconfiguration: API Key missing");
+      }
+      provider = createGeminiProvider(apiKey, {
+        prompt: process.env.GEMINI_PROMPT_MODEL || DEFAULT_GEMINI_MODELS.prompt,
+        image: process.env.GEMINI_IMAGE_MODEL || DEFAULT_GEMINI_MODELS.image,
+      });
+      break;
+    }
+    default:
+      throw new Error(`Server misconfiguration: unknown generation provider "${name}"`);
+  }
+  return provider;
+};
@@ -8,7 +8,8 @@ import { onRequest } from "firebase-functions/v2/https";
 import * as admin from "firebase-admin";
 import * as express from "express";
 import * as cors from "cors";
-import { GoogleGenAI } from "@google/genai";
+import { randomBytes } from "crypto";
+import { IMAGE_EDGES, editBackground, generateBackground, getGenerationProvider, BackgroundEdit } from "./generation";
 
 // Initialize Firebase Admin
 if (!admin.apps.length) {
@@ -20,7 +21,7 @@ const app = express();
 
 // Automatically allow cross-origin requests
 app.use(cors({ origin: true }));
-app.use(express.json());
+app.use(express.json({ limit: '2mb' }));
 
 // --- HELPER: Get or Create User ---
 const getOrCreateUser = async (email: string) => {
@@ -58,87 +59,566 @@ app.get('/api/user', async (req, res) => {
   }
 });
 
-// --- ROUTE: Generate Background ---
-// Added /api prefix to match Hosting rewrites and frontend calls
+// --- ROUTES: Generation ---
+// The provider's keys stay on the server; clients only ever see the generated results.
+const MAX_PROMPT_LENGTH = 4000;
+// Background candidates per request; each one costs a credit.
+const MAX_BACKGROUND_CANDIDATES = 4;
+const MAX_BACKGROUND_EDGE = 10000;
+// Used when the client doesn't send the banner's size.
+const DEFAULT_BACKGROUND_SIZE = { width: 16, height: 9 };
+
+const isBackgroundEdge = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 1 && value <= MAX_BACKGROUND_EDGE;
+
+/**
+ * Takes one credit per result, runs `generate` that many times, and gives back the credits for
+ * any runs that fail, so users only pay for results. Fails only if every run fails. Returns
+ * the results with the balance after the charge.
+ */
+const withCreditCharge = async <T>(email: string, count: number, generate: (index: number) => Promise<T>): Promise<{ results: T[]; credits: number }> => {
+  const userRef = db.collection('users').doc(email);
+  let credits = 0;
+  await db.runTransaction(async (t) => {
+    const doc = await t.get(userRef);
+    if (!doc.exists) throw new Error("User not found");
+
+    const data = doc.data();
+    if (!data || data.credits < count) throw new Error("Insufficient credits");
+
+    credits = data.credits - count;
+    t.update(userRef, { credits });
+  });
+
+  const settled = await Promise.allSettled(Array.from({ length: count }, (_, index) => generate(index)));
+  const results = settled.flatMap(outcome => (outcome.status === 'fulfilled' ? [outcome.value] : []));
+  const failed = count - results.length;
+  if (failed > 0) {
+    try {
+      await userRef.update({ credits: admin.firestore.FieldValue.increment(failed) });
+      credits += failed;
+    } catch (refundErr) {
+      console.error("Failed to refund credit:", refundErr);
+    }
+  }
+  if (results.length === 0) throw (settled[0] as PromiseRejectedResult).reason;
+  return { results, credits };
+};
+
+const generationErrorStatus = (error: any) =>
+  error.message === "Insufficient credits" ? 403 : error.message === "User not found" ? 404 : 500;
+
+app.post('/api/generate-prompt', async (req, res) => {
+  const { email, theme } = req.body;
+  if (!email || !theme) {
+    res.status(400).json({ message: 'Email and theme are required' });
+    return;
+  }
+  if (typeof theme !== 'string' || theme.length > MAX_PROMPT_LENGTH) {
+    res.status(400).json({ message: `Theme must be text of at most ${MAX_PROMPT_LENGTH} characters` });
+    return;
+  }
+
+  try {
+    const provider = getGenerationProvider();
+    const { results: [prompt], credits } = await withCreditCharge(email, 1, () => provider.generatePrompt(theme));
+    res.status(200).json({ prompt, credits });
+  } catch (error: any) {
+    console.error("Backend Prompt Error:", error);
+    res.status(generationErrorStatus(error)).json({ message: error.message || 'Internal Server Error' });
+  }
+});
+
 app.post('/api/generate-background', async (req, res) => {
-  const { theme, email } = req.body;
+  const { email, prompt, count = 1, width, height } = req.body;
+  if (!email || !prompt) {
+    res.status(400).json({ message: 'Email and prompt are required' });
+    return;
+  }
+  if (typeof prompt !== 'string' || prompt.length > MAX_PROMPT_LENGTH) {
+    res.status(400).json({ message: `Prompt must be text of at most ${MAX_PROMPT_LENGTH} characters` });
+    return;
+  }
+  if (!Number.isInteger(count) || count < 1 || count > MAX_BACKGROUND_CANDIDATES) {
+    res.status(400).json({ message: `Count must be between 1 and ${MAX_BACKGROUND_CANDIDATES}` });
+    return;
+  }
+  if ((width !== undefined || height !== undefined) && !(isBackgroundEdge(width) && isBackgroundEdge(height))) {
+    res.status(400).json({ message: `Width and height must be between 1 and ${MAX_BACKGROUND_EDGE}` });
+    return;
+  }
+  const size = width !== undefined ? { width, height } : DEFAULT_BACKGROUND_SIZE;
+
+  try {
+    const provider = getGenerationProvider();
+    const { results: imageUrls, credits } = await withCreditCharge(email, count, variation =>
+      generateBackground(provider, prompt, size, variation)
+    );
+    // `imageUrl` is kept for clients that ask for a single image.
+    res.status(200).json({ imageUrl: imageUrls[0], imageUrls, credits });
+  } catch (error: any) {
+    console.error("Backend Generation Error:", error);
+    res.status(generationErrorStatus(error)).json({ message: error.message || 'Internal Server Error' });
+  }
+});
+
+// The JSON body limit is 2 MB, shared between the image and its mask.
+const MAX_EDIT_IMAGE_LENGTH = 1500 * 1024;
+const MAX_EDIT_MASK_LENGTH = 400 * 1024;
+// Raster images only: the model can't edit SVG, and the client sends JPEG anyway. The body
+// must be plain base64, as the local provider writes these URLs into SVG attributes.
+const EDIT_IMAGE_PATTERN = /^data:image\/(jpeg|png|webp);base64,[A-Za-z0-9+/]+=*$/;
+const EDIT_MASK_PATTERN = /^data:image\/png;base64,[A-Za-z0-9+/]+=*$/;
+const DEFAULT_EXTEND_AMOUNT = 0.25;
+
+const validateBackgroundEdit = (body: any): { edit: BackgroundEdit } | { status: number; message: string } => {
+  const { image, mode, mask, instruction, edge, amount = DEFAULT_EXTEND_AMOUNT, prompt = '' } = body;
+  if (typeof image !== 'string' || !EDIT_IMAGE_PATTERN.test(image)) {
+    return { status: 400, message: 'Image must be a JPEG, PNG or WebP data URL' };
+  }
+  if (image.length > MAX_EDIT_IMAGE_LENGTH) return { status: 413, message: 'Image is too large' };
+
+  if (mode === 'extend') {
+    if (!IMAGE_EDGES.includes(edge)) return { status: 400, message: `Edge must be one of ${IMAGE_EDGES.join(', ')}` };
+    if (typeof amount !== 'number' || !(amount >= 0.05 && amount <= 1)) {
+      return { status: 400, message: 'Amount must be between 0.05 and 1' };
+    }
+    if (typeof prompt !== 'string' || prompt.length > MAX_PROMPT_LENGTH) {
+      return { status: 400, message: `Prompt must be text of at most ${MAX_PROMPT_LENGTH} characters` };
+    }
+    return { edit: { mode, image, edge, amount, prompt } };
+  }
+
+  if (mode !== 'inpaint' && mode !== 'erase') return { status: 400, message: 'Mode must be inpaint, erase or extend' };
+  if (typeof mask !== 'string' || !EDIT_MASK_PATTERN.test(mask)) return { status: 400, message: 'Mask must be a PNG data URL' };
+  if (mask.length > MAX_EDIT_MASK_LENGTH) return { status: 413, message: 'Mask is too large' };
+  if (mode === 'erase') return { edit: { mode, image, mask } };
+  if (typeof instruction !== 'string' || !instruction.trim() || instruction.length > MAX_PROMPT_LENGTH) {
+    return { status: 400, message: `Instruction must be text of at most ${MAX_PROMPT_LENGTH} characters` };
+  }
+  return { edit: { mode, image, mask, instruction: instruction.trim() } };
+};
+
+// Repaints or erases a masked area of a background, or extends one of its edges; costs a credit.
+app.post('/api/edit-background', async (req, res) => {
+  const { email } = req.body;
+  if (!email) {
+    res.status(400).json({ message: 'Email is required' });
+    return;
+  }
+  const validated = validateBackgroundEdit(req.body);
+  if (!('edit' in validated)) {
+    res.status(validated.status).json({ message: validated.message });
+    return;
+  }
 
-  if (!theme || !email) {
-    res.status(400).json({ message: 'Theme and Email are required' });
+  try {
+    const provider = getGenerationProvider();
+    const { results: [imageUrl], credits } = await withCreditCharge(email, 1, () => editBackground(provider, validated.edit));
+    res.status(200).json({ imageUrl, credits });
+  } catch (error: any) {
+    console.error("Backend Edit Error:", error);
+    res.status(generationErrorStatus(error)).json({ message: error.message || 'Internal Server Error' });
+  }
+});
+
+// --- ROUTES: Logo Library ---
+// Firestore documents are capped at 1 MiB, so keep encoded logos well under that.
+const MAX_LOGO_DATA_URL_LENGTH = 700 * 1024;
+const LOGO_DATA_URL_PATTERN = /^data:image\/(png|svg\+xml);base64,/;
+
+app.get('/api/logos', async (req, res) => {
+  const email = req.query.email as string;
+  if (!email) {
+    res.status(400).json({ message: 'Email is required' });
     return;
   }
 
-  // 1. Check API Key
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    console.error("API_KEY is not set in environment variables");
-    res.status(500).json({ message: 'Server misconfiguration: API Key missing' });
+  try {
+    const snapshot = await db.collection('logos').where('ownerEmail', '==', email).get();
+    const logos = snapshot.docs
+      .map(doc => {
+        const data = doc.data();
+        return { id: doc.id, name: data.name, dataUrl: data.dataUrl, createdAt: data.createdAt };
+      })
+      .sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt)));
+    res.status(200).json({ logos });
+  } catch (error: any) {
+    console.error("List Logos Error:", error);
+    res.status(500).json({ message: 'Failed to load logos' });
+  }
+});
+
+app.post('/api/logos', async (req, res) => {
+  const { email, name, dataUrl } = req.body;
+  if (!email || !dataUrl) {
+    res.status(400).json({ message: 'Email and dataUrl are required' });
+    return;
+  }
+  if (typeof dataUrl !== 'string' || !LOGO_DATA_URL_PATTERN.test(dataUrl)) {
+    res.status(400).json({ message: 'Logo must be a PNG or SVG image' });
+    return;
+  }
+  if (dataUrl.length > MAX_LOGO_DATA_URL_LENGTH) {
+    res.status(413).json({ message: 'Logo file is too large' });
     return;
   }
 
-  const userRef = db.collection('users').doc(email);
+  try {
+    const logo = {
+      ownerEmail: email,
+      name: String(name || 'logo').slice(0, 120),
+      dataUrl,
+      createdAt: new Date().toISOString()
+    };
+    const ref = await db.collection('logos').add(logo);
+    res.status(200).json({ id: ref.id, name: logo.name, dataUrl: logo.dataUrl, createdAt: logo.createdAt });
+  } catch (error: any) {
+    console.error("Save Logo Error:", error);
+    res.status(500).json({ message: 'Failed to save logo' });
+  }
+});
+
+app.delete('/api/logos/:id', async (req, res) => {
+  const email = req.query.email as string;
+  const { id } = req.params;
+  if (!email || !id) {
+    res.status(400).json({ message: 'Email and logo id are required' });
+    return;
+  }
+
+  try {
+    const ref = db.collection('logos').doc(id);
+    const doc = await ref.get();
+    if (!doc.exists || doc.data()?.ownerEmail !== email) {
+      res.status(404).json({ message: 'Logo not found' });
+      return;
+    }
+    await ref.delete();
+    res.status(200).json({ success: true });
+  } catch (error: any) {
+    console.error("Delete Logo Error:", error);
+    res.status(500).json({ message: 'Failed to delete logo' });
+  }
+});
+
+// --- ROUTES: Design Library ---
+// Configs are stored as JSON text: Firestore rejects the undefined fields a config may hold,
+// and documents are capped at 1 MiB.
+const MAX_DESIGN_CONFIG_LENGTH = 900 * 1024;
+const MAX_DESIGN_THUMBNAIL_LENGTH = 64 * 1024;
+const DESIGN_THUMBNAIL_PATTERN = /^data:image\/(jpeg|png|webp);base64,/;
+
+const designSummary = (id: string, data: admin.firestore.DocumentData) => ({
+  id,
+  name: data.name,
+  isTemplate: !!data.isTemplate,
+  thumbnail: data.thumbnail ?? null,
+  createdAt: data.createdAt,
+  updatedAt: data.updatedAt
+});
+
+/**
+ * Checks the parts of a design a client may send, returning the fields to store or an error.
+ */
+const validateDesignFields = (body: any): { fields: Record<string, any> } | { status: number; message: string } => {
+  const fields: Record<string, any> = {};
+  if (body.name !== undefined) fields.name = String(body.name || 'Untitled').slice(0, 120);
+  if (body.isTemplate !== undefined) fields.isTemplate = !!body.isTemplate;
+  if (body.config !== undefined) {
+    if (!body.config || typeof body.config !== 'object' || !Array.isArray(body.config.layers)) {
+      return { status: 400, message: 'Design config is invalid' };
+    }
+    fields.config = JSON.stringify(body.config);
+    if (fields.config.length > MAX_DESIGN_CONFIG_LENGTH) return { status: 413, message: 'Design is too large' };
+  }
+  if (body.thumbnail !== undefined && body.thumbnail !== null) {
+    if (typeof body.thumbnail !== 'string' || !DESIGN_THUMBNAIL_PATTERN.test(body.thumbnail)) {
+      return { status: 400, message: 'Thumbnail must be a JPEG, PNG or WebP image' };
+    }
+    if (body.thumbnail.length > MAX_DESIGN_THUMBNAIL_LENGTH) return { status: 413, message: 'Thumbnail is too large' };
+  }
+  if (body.thumbnail !== undefined) fields.thumbnail = body.thumbnail;
+  return { fields };
+};
+
+/**
+ * Loads a design if it belongs to `email`; other users' designs look the same as missing ones.
+ */
+const getOwnedDesign = async (id: string, email: string) => {
+  const ref = db.collection('designs').doc(id);
+  const doc = await ref.get();
+  const data = doc.data();
+  return doc.exists && data?.ownerEmail === email ? { ref, data } : null;
+};
+
+app.get('/api/designs', async (req, res) => {
+  const email = req.query.email as string;
+  if (!email) {
+    res.status(400).json({ message: 'Email is required' });
+    return;
+  }
+
+  try {
+    const snapshot = await db.collection('designs').where('ownerEmail', '==', email).get();
+    const designs = snapshot.docs
+      .map(doc => designSummary(doc.id, doc.data()))
+      .sort((a, b) => String(b.updatedAt).localeCompare(String(a.updatedAt)));
+    res.status(200).json({ designs });
+  } catch (error: any) {
+    console.error("List Designs Error:", error);
+    res.status(500).json({ message: 'Failed to load designs' });
+  }
+});
+
+app.get('/api/designs/:id', async (req, res) => {
+  const email = req.query.email as string;
+  const { id } = req.params;
+  if (!email || !id) {
+    res.status(400).json({ message: 'Email and design id are required' });
+    return;
+  }
 
   try {
-    // 2. Transaction: Deduct Credit
-    await db.runTransaction(async (t) => {
-      const doc = await t.get(userRef);
-      if (!doc.exists) throw new Error("User not found");
-      
-      const data = doc.data();
-      if (!data || data.credits < 1) throw new Error("Insufficient credits");
-      
-      t.update(userRef, { credits: data.credits - 1 });
-    });
-
-    // 3. Initialize AI
-    const ai = new GoogleGenAI({ apiKey });
-    const prompt = `Hyper-realistic, high-fidelity professional photography of a man wearing a high-performance waterproof outdoor jacket walking on a scenic mountain trek trail. 
-      CRITICAL COMPOSITION: The man MUST be positioned on the extreme RIGHT third of the frame. 
-      The left two-thirds of the image MUST remain clear of any major subjects to allow for text placement.
-      Theme: ${theme}. 
-      Atmosphere: Bright natural daylight, cinematic lighting, sharp crisp details, vibrant colors. 
-      Style: High-end retail brand photography for an outdoor gear company. 
-      No text, no watermarks, no logos in the image. Masterpiece quality.`;
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: { parts: [{ text: prompt }] },
-      config: { imageConfig: { aspectRatio: "16:9" } }
-    });
-
-    // 4. Extract Image
-    let imageUrl = null;
-    if (response.candidates?.[0]?.content?.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          imageUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-          break;
-        }
-      }
+    const design = await getOwnedDesign(id, email);
+    if (!design) {
+      res.status(404).json({ message: 'Design not found' });
+      return;
     }
+    res.status(200).json({ design: { ...designSummary(id, design.data), config: JSON.parse(design.data.config) } });
+  } catch (error: any) {
+    console.error("Get Design Error:", error);
+    res.status(500).json({ message: 'Failed to load design' });
+  }
+});
 
-    if (!imageUrl) throw new Error("AI returned no image");
+app.post('/api/designs', async (req, res) => {
+  const { email } = req.body;
+  if (!email || !req.body.config) {
+    res.status(400).json({ message: 'Email and config are required' });
+    return;
+  }
+  const validated = validateDesignFields(req.body);
+  if ('status' in validated) {
+    res.status(validated.status).json({ message: validated.message });
+    return;
+  }
 
-    // 5. Get final credit balance
-    const finalUserDoc = await userRef.get();
-    const currentCredits = finalUserDoc.data()?.credits || 0;
+  try {
+    const now = new Date().toISOString();
+    const design = {
+      name: 'Untitled',
+      isTemplate: false,
+      thumbnail: null,
+      ...validated.fields,
+      ownerEmail: email,
+      createdAt: now,
+      updatedAt: now
+    };
+    const ref = await db.collection('designs').add(design);
+    res.status(200).json({ design: designSummary(ref.id, design) });
+  } catch (error: any) {
+    console.error("Create Design Error:", error);
+    res.status(500).json({ message: 'Failed to save design' });
+  }
+});
 
-    res.status(200).json({ imageUrl, credits: currentCredits });
+app.put('/api/designs/:id', async (req, res) => {
+  const { email } = req.body;
+  const { id } = req.params;
+  if (!email || !id) {
+    res.status(400).json({ message: 'Email and design id are required' });
+    return;
+  }
+  const validated = validateDesignFields(req.body);
+  if ('status' in validated) {
+    res.status(validated.status).json({ message: validated.message });
+    return;
+  }
 
+  try {
+    const design = await getOwnedDesign(id, email);
+    if (!design) {
+      res.status(404).json({ message: 'Design not found' });
+      return;
+    }
+    const updates = { ...validated.fields, updatedAt: new Date().toISOString() };
+    await design.ref.update(updates);
+    res.status(200).json({ design: designSummary(id, { ...design.data, ...updates }) });
   } catch (error: any) {
-    console.error("Backend Generation Error:", error);
-    
-    // Refund logic
-    if (error.message?.includes("AI") || error.message?.includes("GoogleGenAI")) {
-       try {
-         await userRef.update({ credits: admin.firestore.FieldValue.increment(1) });
-       } catch (refundErr) {
-         console.error("Failed to refund credit:", refundErr);
-       }
+    console.error("Update Design Error:", error);
+    res.status(500).json({ message: 'Failed to save design' });
+  }
+});
+
+app.post('/api/designs/:id/duplicate', async (req, res) => {
+  const { email, name } = req.body;
+  const { id } = req.params;
+  if (!email || !id) {
+    res.status(400).json({ message: 'Email and design id are required' });
+    return;
+  }
+
+  try {
+    const source = await getOwnedDesign(id, email);
+    if (!source) {
+      res.status(404).json({ message: 'Design not found' });
+      return;
+    }
+    const now = new Date().toISOString();
+    const design = {
+      ...source.data,
+      name: String(name || source.data.name).slice(0, 120),
+      isTemplate: false,
+      createdAt: now,
+      updatedAt: now
+    };
+    const ref = await db.collection('designs').add(design);
+    res.status(200).json({ design: designSummary(ref.id, design) });
+  } catch (error: any) {
+    console.error("Duplicate Design Error:", error);
+    res.status(500).json({ message: 'Failed to duplicate design' });
+  }
+});
+
+app.delete('/api/designs/:id', async (req, res) => {
+  const email = req.query.email as string;
+  const { id } = req.params;
+  if (!email || !id) {
+    res.status(400).json({ message: 'Email and design id are required' });
+    return;
+  }
+
+  try {
+    const design = await getOwnedDesign(id, email);
+    if (!design) {
+      res.status(404).json({ message: 'Design not found' });
+      return;
     }
+    await design.ref.delete();
+    res.status(200).json({ success: true });
+  } catch (error: any) {
+    console.error("Delete Design Error:", error);
+    res.status(500).json({ message: 'Failed to delete design' });
+  }
+});
+
+// --- ROUTES: Share Links ---
+// Share links are read-only snapshots of a banner. The token is the document id; 24 random
+// bytes make links unguessable.
+const SHARE_TOKEN_BYTES = 24;
+const MAX_SHARE_DAYS = 365;
+
+const shareSummary = (token: string, data: admin.firestore.DocumentData) => ({
+  token,
+  name: data.name,
+  createdAt: data.createdAt,
+  expiresAt: data.expiresAt ?? null
+});
+
+const isShareExpired = (data: admin.firestore.DocumentData) => !!data.expiresAt && Date.parse(data.expiresAt) <= Date.now();
+
+app.post('/api/shares', async (req, res) => {
+  const { email, name, config, expiresInDays } = req.body;
+  if (!email || !config) {
+    res.status(400).json({ message: 'Email and config are required' });
+    return;
+  }
+  if (typeof config !== 'object' || !Array.isArray(config.layers)) {
+    res.status(400).json({ message: 'Design config is invalid' });
+    return;
+  }
+  if (expiresInDays != null && !(Number(expiresInDays) > 0 && Number(expiresInDays) <= MAX_SHARE_DAYS)) {
+    res.status(400).json({ message: `Expiry must be between 1 and ${MAX_SHARE_DAYS} days` });
+    return;
+  }
+  const configJson = JSON.stringify(config);
+  if (configJson.length > MAX_DESIGN_CONFIG_LENGTH) {
+    res.status(413).json({ message: 'Design is too large' });
+    return;
+  }
 
-    const statusCode = error.message === "Insufficient credits" ? 403 : 500;
-    res.status(statusCode).json({ message: error.message || 'Internal Server Error' });
+  try {
+    const token = randomBytes(SHARE_TOKEN_BYTES).toString('base64url');
+    const now = new Date();
+    const share = {
+      ownerEmail: email,
+      name: String(name || 'Banner').slice(0, 120),
+      config: configJson,
+      createdAt: now.toISOString(),
+      expiresAt: expiresInDays != null ? new Date(now.getTime() + Number(expiresInDays) * 86400000).toISOString() : null
+    };
+    await db.collection('shares').doc(token).set(share);
+    res.status(200).json({ share: shareSummary(token, share) });
+  } catch (error: any) {
+    console.error("Create Share Error:", error);
+    res.status(500).json({ message: 'Failed to create share link' });
+  }
+});
+
+app.get('/api/shares', async (req, res) => {
+  const email = req.query.email as string;
+  if (!email) {
+    res.status(400).json({ message: 'Email is required' });
+    return;
+  }
+
+  try {
+    const snapshot = await db.collection('shares').where('ownerEmail', '==', email).get();
+    const shares = snapshot.docs
+      .filter(doc => !isShareExpired(doc.data()))
+      .map(doc => shareSummary(doc.id, doc.data()))
+      .sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt)));
+    res.status(200).json({ shares });
+  } catch (error: any) {
+    console.error("List Shares Error:", error);
+    res.status(500).json({ message: 'Failed to load share links' });
+  }
+});
+
+// Revoking deletes the snapshot, so the link stops working immediately.
+app.delete('/api/shares/:token', async (req, res) => {
+  const email = req.query.email as string;
+  const { token } = req.params;
+  if (!email || !token) {
+    res.status(400).json({ message: 'Email and share token are required' });
+    return;
+  }
+
+  try {
+    const ref = db.collection('shares').doc(token);
+    const doc = await ref.get();
+    if (!doc.exists || doc.data()?.ownerEmail !== email) {
+      res.status(404).json({ message: 'Share link not found' });
+      return;
+    }
+    await ref.delete();
+    res.status(200).json({ success: true });
+  } catch (error: any) {
+    console.error("Revoke Share Error:", error);
+    res.status(500).json({ message: 'Failed to revoke share link' });
+  }
+});
+
+// Public endpoint behind a share link. Anyone with the token may view the banner.
+app.get('/api/shared/:token', async (req, res) => {
+  const { token } = req.params;
+
+  try {
+    const doc = await db.collection('shares').doc(token).get();
+    const data = doc.data();
+    if (!doc.exists || !data) {
+      res.status(404).json({ message: 'Share link not found' });
+      return;
+    }
+    if (isShareExpired(data)) {
+      res.status(410).json({ message: 'Share link has expired' });
+      return;
+    }
+    res.status(200).json({ name: data.name, config: JSON.parse(data.config), expiresAt: data.expiresAt ?? null });
+  } catch (error: any) {
+    console.error("Get Shared Banner Error:", error);
+    res.status(500).json({ message: 'Failed to load shared banner' });
   }
 });
 
@@ -0,0 +1,38 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+
+/**
+ * Plays a timeline of `duration` milliseconds once. `time` is the current position while
+ * playing and undefined otherwise, so the preview shows everything at rest when idle.
+ */
+export const useAnimationPlayback = (duration: number) => {
+  const [time, setTime] = useState<number | undefined>(undefined);
+  const frameRef = useRef<number | null>(null);
+
+  const stop = useCallback(() => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+    setTime(undefined);
+  }, []);
+
+  const play = useCallback(() => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    const start = performance.now();
+    const tick = (now: number) => {
+      const elapsed = now - start;
+      if (elapsed >= duration) {
+        frameRef.current = null;
+        setTime(undefined);
+        return;
+      }
+      setTime(elapsed);
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    frameRef.current = requestAnimationFrame(tick);
+  }, [duration]);
+
+  useEffect(() => () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+  }, []);
+
+  return { time, playing: time !== undefined, play, stop };
+};
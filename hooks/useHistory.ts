@@ -0,0 +1,103 @@
+import { useState, useCallback, useRef } from 'react';
+
+const HISTORY_LIMIT = 100;
+// Consecutive edits with the same coalesce key inside this window become one undo step.
+const COALESCE_WINDOW_MS = 1000;
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export interface SetHistoryOptions {
+  /** Edits sharing this key (e.g. typing into one field) are merged into a single undo step. */
+  coalesce?: string;
+}
+
+type Updater<T> = T | ((prev: T) => T);
+
+/**
+ * State with an undo/redo stack.
+ * `beginBatch`/`endBatch` group everything in between (such as a continuous drag) into one step.
+ */
+export const useHistory = <T,>(initial: T | (() => T)) => {
+  const [history, setHistory] = useState<HistoryState<T>>(() => ({
+    past: [],
+    present: typeof initial === 'function' ? (initial as () => T)() : initial,
+    future: [],
+  }));
+
+  const lastCoalesceRef = useRef<{ key: string | null; time: number }>({ key: null, time: 0 });
+  const batchRef = useRef<'idle' | 'open' | 'active'>('idle');
+
+  const set = useCallback((update: Updater<T>, options: SetHistoryOptions = {}) => {
+    const now = Date.now();
+    const last = lastCoalesceRef.current;
+
+    let merge = false;
+    if (batchRef.current === 'open') {
+      batchRef.current = 'active';
+    } else if (batchRef.current === 'active') {
+      merge = true;
+    } else if (options.coalesce && options.coalesce === last.key && now - last.time < COALESCE_WINDOW_MS) {
+      merge = true;
+    }
+    lastCoalesceRef.current = { key: options.coalesce ?? null, time: now };
+
+    setHistory(prev => {
+      const next = typeof update === 'function' ? (update as (prev: T) => T)(prev.present) : update;
+      if (Object.is(next, prev.present)) return prev;
+      if (merge) return { ...prev, present: next };
+      return {
+        past: [...prev.past, prev.present].slice(-HISTORY_LIMIT),
+        present: next,
+        future: [],
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    lastCoalesceRef.current = { key: null, time: 0 };
+    setHistory(prev => {
+      if (prev.past.length === 0) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    lastCoalesceRef.current = { key: null, time: 0 };
+    setHistory(prev => {
+      if (prev.future.length === 0) return prev;
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1),
+      };
+    });
+  }, []);
+
+  const beginBatch = useCallback(() => {
+    batchRef.current = 'open';
+  }, []);
+
+  const endBatch = useCallback(() => {
+    batchRef.current = 'idle';
+    lastCoalesceRef.current = { key: null, time: 0 };
+  }, []);
+
+  return {
+    state: history.present,
+    set,
+    undo,
+    redo,
+    beginBatch,
+    endBatch,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
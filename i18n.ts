@@ -10,13 +10,26 @@ export const languages = {
   'zh-CN': '简体中文'
 };
 
+/**
+ * Picks the UI language from the browser's, falling back to English.
+ */
+export const detectLanguage = () => {
+  const browserLang = navigator.language;
+  if (languages[browserLang as keyof typeof languages]) return browserLang;
+  const shortLang = browserLang.split('-')[0];
+  if (languages[shortLang as keyof typeof languages]) return shortLang;
+  if (browserLang.toLowerCase().startsWith('zh-tw') || browserLang.toLowerCase().startsWith('zh-hk')) return 'zh-TW';
+  if (browserLang.toLowerCase().startsWith('zh')) return 'zh-CN';
+  return 'en';
+};
+
 export const translations: Record<string, Record<string, string>> = {
   en: {
     appTitle: 'Banner Pro',
     credits: 'Credits:',
     generateBtn: 'Generate AI Background',
     exportBtn: 'EXPORT BANNER',
-    exportTooltip: 'Export the banner as a JPG',
+    exportTooltip: 'Export the banner as an image, a PDF, an animation or an HTML5 ad',
     generatingBtn: 'Generating...',
     dragHint: 'Hint: You can drag the text directly',
     bannerContent: 'Banner Content',
@@ -50,6 +63,256 @@ export const translations: Record<string, Record<string, string>> = {
     paypalInitError: 'Could not initialize PayPal checkout.',
     paymentFailed: 'Payment failed or was not completed.',
     paymentError: 'An error occurred while capturing the payment.',
+    layerText: 'Text',
+    layerPromo: 'Promotion',
+    layerImage: 'Image',
+    layerShape: 'Shape',
+    imageUrl: 'Image URL',
+    shapeRect: 'Rectangle',
+    shapeEllipse: 'Ellipse',
+    moveLayerUp: 'Bring forward',
+    moveLayerDown: 'Send backward',
+    duplicateLayer: 'Duplicate',
+    removeLayer: 'Remove',
+    undoTooltip: 'Undo (Ctrl+Z)',
+    redoTooltip: 'Redo (Ctrl+Shift+Z)',
+    presetWebHero: 'Website Hero',
+    presetIgSquare: 'IG Square',
+    presetIgStory: 'IG Story',
+    presetFbCover: 'Facebook Cover',
+    presetAppBanner: 'Mobile App Banner',
+    customSize: 'Custom',
+    addSize: 'Add size',
+    removeSize: 'Remove size',
+    exportAllSizes: 'Export all sizes',
+    exportAllSizesTooltip: 'Export one JPG for every size in this campaign',
+    layerProduct: 'Product',
+    products: 'Products',
+    addProduct: 'Add product',
+    productName: 'Product name',
+    salePrice: 'Sale price',
+    originalPrice: 'Original price',
+    addToBanner: 'Add card to banner',
+    currency: 'Currency',
+    badgeStyle: 'Discount badge',
+    typography: 'Typography',
+    fontFamily: 'Font',
+    fontWeight: 'Weight',
+    fontSize: 'Size (px)',
+    letterSpacing: 'Letter spacing (em)',
+    lineHeight: 'Line height',
+    textCase: 'Case',
+    caseNone: 'As typed',
+    caseUpper: 'UPPERCASE',
+    caseLower: 'lowercase',
+    caseCapitalize: 'Title Case',
+    italic: 'Italic',
+    textColor: 'Color',
+    gradient: 'Gradient',
+    textShadow: 'Shadow',
+    shadowBlur: 'Shadow blur',
+    highlightRules: 'Promotion highlights',
+    copyLanguage: 'Copy language',
+    highlightCategory_currency: 'Amounts',
+    highlightCategory_percent: 'Percentages',
+    highlightCategory_idiom: 'Discount phrases',
+    highlightCategory_keyword: 'Sale keywords',
+    highlightOff: 'Off',
+    highlight_accent: 'Accent',
+    highlight_badge: 'Badge',
+    highlight_outline: 'Outline',
+    highlight_underline: 'Underline',
+    highlightPattern: 'Text or pattern',
+    highlightRegex: 'Regular expression',
+    addHighlightRule: 'Add highlight rule',
+    snap: 'Snap',
+    snapTooltip: 'Snap to other elements, the center, thirds and margins (hold Alt to bypass)',
+    snapMargin: 'Margin',
+    snapMarginTooltip: 'Safe margin from the banner edges used as a snap line',
+    alignLeft: 'Align left edges',
+    alignCenter: 'Align centers',
+    distributeVertically: 'Distribute vertically',
+    positionX: 'X position (%)',
+    positionY: 'Y position (%)',
+    layerPosition: 'X {x}%, Y {y}%',
+    movableElement: 'movable element',
+    keyboardMoveHelp: 'Use the arrow keys to move this element, hold Shift for larger steps. Press Escape to deselect.',
+    uploadLogo: 'Upload logo',
+    uploading: 'Uploading…',
+    uploadedImage: 'Uploaded image',
+    savedLogos: 'Saved logos',
+    deleteLogo: 'Delete logo',
+    imageWidth: 'Width',
+    imageOpacity: 'Opacity',
+    recolor: 'Recolor',
+    recolorNone: 'Original',
+    recolorWhite: 'White',
+    recolorBlack: 'Black',
+    logoTypeError: 'Logos must be PNG or SVG files.',
+    logoSaveError: 'The logo was added to the banner but could not be saved to your library.',
+    backgroundPhoto: 'Background photo',
+    uploadBackground: 'Upload photo',
+    dropBackgroundHint: 'Drop a JPG, PNG or WebP photo here',
+    focalPoint: 'Focal point',
+    focalPointHint: 'Click the subject to keep it in frame',
+    backgroundZoom: 'Zoom',
+    resetCrop: 'Reset',
+    backgroundTypeError: 'Background photos must be JPG, PNG or WebP files.',
+    backgroundLoadError: 'That photo could not be loaded.',
+    exportDialogTitle: 'Export banner',
+    close: 'Close',
+    exportFormat: 'Format',
+    exportSize: 'Size',
+    exportExactPixels: 'Exact px',
+    exportQuality: 'Quality',
+    exportTransparent: 'Transparent background',
+    exportFilename: 'Filename',
+    exportFilenameTokens: 'Placeholders:',
+    exportSvgHint: 'Vector SVG with text converted to outlines, rendered on the server.',
+    exportFailed: 'Export failed. Please try another format or size.',
+    exportMaxFileSize: 'Max file size',
+    exportNoLimit: 'No limit',
+    exportMaxFileSizeHint: 'Quality is lowered, and the format switched if needed, until the file fits. As a last resort, fine detail is softened.',
+    exportOverBudget: 'Couldn\'t get under {limit}, even at the lowest quality with detail softened.',
+    exportDegraded: 'Fits, but only at a quality where compression artifacts may be visible.',
+    exportSoftened: 'Fits, but only with fine detail softened and compression artifacts likely visible.',
+    animation: 'Animation',
+    animationEffect: 'Entrance',
+    animationNone: 'None',
+    animationFade: 'Fade in',
+    animationSlideFromLeft: 'Slide from left',
+    animationSlideFromRight: 'Slide from right',
+    animationSlideFromTop: 'Slide from top',
+    animationSlideFromBottom: 'Slide from bottom',
+    animationScale: 'Scale up',
+    animationDelay: 'Delay',
+    animationDuration: 'Duration',
+    playAnimation: 'Play animation',
+    stopAnimation: 'Stop animation',
+    exportAnimated: 'Animated',
+    exportAnimatedHint: 'Plays each element\'s entrance animation. GIF and video loop after a short pause; HTML5 ads play once.',
+    exportVideoUnsupported: 'This browser can\'t record this video format.',
+    exportClickTag: 'Click-through URL',
+    exportClickTagHint: 'Used as the default clickTag. Ad servers replace it with their own tracking URL.',
+    addLanguage: 'Add language',
+    removeLanguage: 'Remove language',
+    exportCampaign: 'Campaign ZIP',
+    exportCampaignTooltip: 'Export every size in every language as one ZIP with a manifest.json',
+    safeZones: 'Safe zones',
+    safeZonesTooltip: 'Show where this platform\'s UI covers or crops the banner',
+    safeZonesUnavailable: 'Safe zones are available for preset sizes',
+    textCoverage: 'Text',
+    textCoverageTooltip: 'Share of the banner covered by text. Ad platforms recommend keeping it under 20%.',
+    safeZoneExportWarning: 'Some elements sit where the platform covers or crops the banner. Export anyway?',
+    zoneShopHeader: 'Shop header',
+    zoneIgGridCrop: 'Profile grid crop',
+    zoneIgStoryHeader: 'Story header',
+    zoneIgStoryReply: 'Reply bar',
+    zoneFbMobileCrop: 'Mobile crop',
+    zoneFbProfilePicture: 'Profile picture',
+    zoneAppIndicators: 'Carousel dots',
+    legibility: 'Legibility',
+    legibilityTooltip: 'Check text contrast against the background (WCAG)',
+    legibilityChecking: 'Checking contrast…',
+    legibilityNoText: 'No text elements to check',
+    legibilityRequired: 'WCAG AA requires {ratio}',
+    legibilityFixOverlay: 'Raise overlay',
+    legibilityFixShadow: 'Add shadow',
+    legibilityFixPlate: 'Add plate',
+    legibilityFixMove: 'Move to clear area',
+    legibilityOverlayInsufficient: 'Even a full overlay doesn\'t make this text legible. Try a shadow or a plate instead.',
+    legibilityNoEmptyRegion: 'No clear area is large enough for this element.',
+    openProject: 'Open project',
+    openProjectTooltip: 'Open a .banner.json project file',
+    saveProject: 'Save project',
+    saveProjectTooltip: 'Save the design with its images as a .banner.json file to reopen or share',
+    projectSaveFailed: 'Saving the project failed.',
+    projectInvalid: 'This file isn\'t a banner project.',
+    projectNewerVersion: 'This project was saved by a newer version of the app. Reload the page to update, then try again.',
+    designLibrary: 'Design library',
+    designLibraryTooltip: 'Your saved designs and templates',
+    saveDesign: 'Save to library',
+    saveDesignTooltip: 'Save changes to "{name}"',
+    saveDesignNewTooltip: 'Save this banner to your design library',
+    saveAsNewDesign: 'Save as new',
+    myDesigns: 'My designs',
+    templates: 'Templates',
+    template: 'Template',
+    loadingDesigns: 'Loading designs…',
+    noDesigns: 'No saved designs yet.',
+    noTemplates: 'No templates yet. Mark a design as a template to start new banners from it.',
+    useTemplate: 'Use template',
+    openDesign: 'Open',
+    duplicateDesign: 'Duplicate',
+    markTemplate: 'Make template',
+    unmarkTemplate: 'Remove template',
+    renameDesign: 'Rename',
+    deleteDesign: 'Delete design',
+    confirmDeleteDesign: 'Delete "{name}" from your library?',
+    designNamePrompt: 'Design name',
+    designCopySuffix: '(copy)',
+    designTooLarge: 'This design is too large for the library, even with a smaller background. Save it as a project file instead.',
+    designSaveFailed: 'Saving to the library failed.',
+    designLoadFailed: 'The design couldn\'t be loaded.',
+    designDeleteFailed: 'The design couldn\'t be deleted.',
+    share: 'Share',
+    shareTooltip: 'Create a read-only link for review',
+    shareDialogTitle: 'Share for review',
+    shareHint: 'Anyone with the link can view this banner in every size and language and download it, but can\'t edit it. The link shows the banner as it is now; later edits need a new link.',
+    shareExpiry: 'Link expires',
+    shareExpiresDay: '1 day',
+    shareExpiresWeek: '7 days',
+    shareExpiresMonth: '30 days',
+    shareExpiresNever: 'Never',
+    shareExpiresOn: 'Expires {date}',
+    shareCreate: 'Create link',
+    shareCreating: 'Creating…',
+    shareActiveLinks: 'Active links',
+    shareLoading: 'Loading links…',
+    shareNoLinks: 'No active links.',
+    shareCopy: 'Copy',
+    shareCopied: 'Copied',
+    shareRevoke: 'Revoke',
+    confirmRevokeShare: 'Revoke this link? Anyone who has it will no longer be able to open it.',
+    shareTooLarge: 'This banner is too large to share, even with a smaller background.',
+    shareCreateFailed: 'Creating the link failed.',
+    shareRevokeFailed: 'Revoking the link failed.',
+    sharedReadOnly: 'Shared for review · read only',
+    sharedLoading: 'Loading banner…',
+    sharedNotFound: 'This link doesn\'t exist or has been revoked.',
+    sharedExpired: 'This link has expired.',
+    sharedLoadFailed: 'The banner couldn\'t be loaded. Try again later.',
+    backgroundCandidates: 'Background candidates',
+    previewingCandidate: 'Previewing — not applied yet',
+    showCurrentBackground: 'Show current',
+    applyCandidate: 'Use this background',
+    previewCandidate: 'Preview candidate {n}',
+    candidateInUse: 'In use',
+    discardCandidate: 'Discard candidate',
+    candidateCount: 'Variations',
+    generateCostOne: 'Costs 1 credit',
+    generateCost: 'Costs {count} credits, 1 per image',
+    editBackground: 'Edit background',
+    editBackgroundTooltip: 'Change part of the background with AI, erase something or extend an edge',
+    editModeInpaint: 'Change',
+    editModeErase: 'Erase',
+    editModeExtend: 'Extend',
+    editMaskHint: 'Paint over the area to change on the banner.',
+    brushSize: 'Brush',
+    undoStroke: 'Undo stroke',
+    clearMask: 'Clear',
+    editInstruction: 'Describe the change',
+    editInstructionPlaceholder: 'e.g. make the jacket red',
+    extendEdge: 'Edge',
+    extendAmount: 'By',
+    edgeLeft: 'Left',
+    edgeRight: 'Right',
+    edgeTop: 'Top',
+    edgeBottom: 'Bottom',
+    cancel: 'Cancel',
+    applyEdit: 'Apply edit',
+    editingBackground: 'Editing...',
+    editBackgroundFailed: 'The background edit failed. No credit was used.',
   },
   fr: {
     appTitle: 'Banner Pro',
@@ -78,7 +341,7 @@ export const translations: Record<string, Record<string, string>> = {
     promo1XY: 'Promo 1 (X/Y)',
     promo2XY: 'Promo 2 (X/Y)',
     exportBtn: 'EXPORTER LA BANNIÈRE',
-    exportTooltip: 'Exporter la bannière en JPG',
+    exportTooltip: 'Exporter la bannière en image, en PDF, en animation ou en annonce HTML5',
     exportingBtn: 'Exportation...',
     insufficientCredits: 'Crédits insuffisants',
     subscribeDesc: 'Abonnez-vous à Premium pour plus de générations',
@@ -90,6 +353,256 @@ export const translations: Record<string, Record<string, string>> = {
     paypalInitError: 'Impossible d\'initialiser le paiement PayPal.',
     paymentFailed: 'Le paiement a échoué ou n\'a pas été terminé.',
     paymentError: 'Une erreur s\'est produite lors de la capture du paiement.',
+    layerText: 'Texte',
+    layerPromo: 'Promotion',
+    layerImage: 'Image',
+    layerShape: 'Forme',
+    imageUrl: 'URL de l\'image',
+    shapeRect: 'Rectangle',
+    shapeEllipse: 'Ellipse',
+    moveLayerUp: 'Avancer',
+    moveLayerDown: 'Reculer',
+    duplicateLayer: 'Dupliquer',
+    removeLayer: 'Supprimer',
+    undoTooltip: 'Annuler (Ctrl+Z)',
+    redoTooltip: 'Rétablir (Ctrl+Maj+Z)',
+    presetWebHero: 'Bannière site web',
+    presetIgSquare: 'IG carré',
+    presetIgStory: 'IG Story',
+    presetFbCover: 'Couverture Facebook',
+    presetAppBanner: 'Bannière d\'application',
+    customSize: 'Personnalisé',
+    addSize: 'Ajouter un format',
+    removeSize: 'Retirer le format',
+    exportAllSizes: 'Exporter tous les formats',
+    exportAllSizesTooltip: 'Exporter un JPG pour chaque format de la campagne',
+    layerProduct: 'Produit',
+    products: 'Produits',
+    addProduct: 'Ajouter un produit',
+    productName: 'Nom du produit',
+    salePrice: 'Prix soldé',
+    originalPrice: 'Prix d\'origine',
+    addToBanner: 'Ajouter la carte à la bannière',
+    currency: 'Devise',
+    badgeStyle: 'Badge de remise',
+    typography: 'Typographie',
+    fontFamily: 'Police',
+    fontWeight: 'Graisse',
+    fontSize: 'Taille (px)',
+    letterSpacing: 'Interlettrage (em)',
+    lineHeight: 'Interligne',
+    textCase: 'Casse',
+    caseNone: 'Tel quel',
+    caseUpper: 'MAJUSCULES',
+    caseLower: 'minuscules',
+    caseCapitalize: 'Initiales',
+    italic: 'Italique',
+    textColor: 'Couleur',
+    gradient: 'Dégradé',
+    textShadow: 'Ombre',
+    shadowBlur: 'Flou de l\'ombre',
+    highlightRules: 'Mise en avant des promos',
+    copyLanguage: 'Langue du texte',
+    highlightCategory_currency: 'Montants',
+    highlightCategory_percent: 'Pourcentages',
+    highlightCategory_idiom: 'Expressions de remise',
+    highlightCategory_keyword: 'Mots-clés soldes',
+    highlightOff: 'Désactivé',
+    highlight_accent: 'Accent',
+    highlight_badge: 'Badge',
+    highlight_outline: 'Contour',
+    highlight_underline: 'Souligné',
+    highlightPattern: 'Texte ou motif',
+    highlightRegex: 'Expression régulière',
+    addHighlightRule: 'Ajouter une règle',
+    snap: 'Magnétisme',
+    snapTooltip: 'Aligner sur les autres éléments, le centre, les tiers et les marges (Alt pour ignorer)',
+    snapMargin: 'Marge',
+    snapMarginTooltip: 'Marge depuis les bords utilisée comme repère',
+    alignLeft: 'Aligner à gauche',
+    alignCenter: 'Centrer',
+    distributeVertically: 'Répartir verticalement',
+    positionX: 'Position X (%)',
+    positionY: 'Position Y (%)',
+    layerPosition: 'X {x} %, Y {y} %',
+    movableElement: 'élément déplaçable',
+    keyboardMoveHelp: 'Utilisez les flèches pour déplacer cet élément, Maj pour des pas plus grands. Échap pour désélectionner.',
+    uploadLogo: 'Importer un logo',
+    uploading: 'Envoi…',
+    uploadedImage: 'Image importée',
+    savedLogos: 'Logos enregistrés',
+    deleteLogo: 'Supprimer le logo',
+    imageWidth: 'Largeur',
+    imageOpacity: 'Opacité',
+    recolor: 'Recolorer',
+    recolorNone: 'Original',
+    recolorWhite: 'Blanc',
+    recolorBlack: 'Noir',
+    logoTypeError: 'Les logos doivent être des fichiers PNG ou SVG.',
+    logoSaveError: 'Le logo a été ajouté à la bannière mais n\'a pas pu être enregistré dans votre bibliothèque.',
+    backgroundPhoto: 'Photo d\'arrière-plan',
+    uploadBackground: 'Importer une photo',
+    dropBackgroundHint: 'Déposez une photo JPG, PNG ou WebP ici',
+    focalPoint: 'Point focal',
+    focalPointHint: 'Cliquez sur le sujet pour le garder dans le cadre',
+    backgroundZoom: 'Zoom',
+    resetCrop: 'Réinitialiser',
+    backgroundTypeError: 'Les photos d\'arrière-plan doivent être des fichiers JPG, PNG ou WebP.',
+    backgroundLoadError: 'Impossible de charger cette photo.',
+    exportDialogTitle: 'Exporter la bannière',
+    close: 'Fermer',
+    exportFormat: 'Format',
+    exportSize: 'Taille',
+    exportExactPixels: 'Px exacts',
+    exportQuality: 'Qualité',
+    exportTransparent: 'Arrière-plan transparent',
+    exportFilename: 'Nom du fichier',
+    exportFilenameTokens: 'Variables :',
+    exportSvgHint: 'SVG vectoriel avec le texte vectorisé, généré sur le serveur.',
+    exportFailed: 'L\'export a échoué. Essayez un autre format ou une autre taille.',
+    exportMaxFileSize: 'Taille max. du fichier',
+    exportNoLimit: 'Aucune limite',
+    exportMaxFileSizeHint: 'La qualité est réduite, et le format changé si nécessaire, jusqu\'à ce que le fichier tienne. En dernier recours, les détails fins sont adoucis.',
+    exportOverBudget: 'Impossible de descendre sous {limit}, même à la qualité la plus basse avec les détails adoucis.',
+    exportDegraded: 'Respecte la limite, mais à une qualité où des artefacts de compression peuvent être visibles.',
+    exportSoftened: 'Respecte la limite, mais seulement avec les détails fins adoucis et des artefacts de compression probablement visibles.',
+    animation: 'Animation',
+    animationEffect: 'Entrée',
+    animationNone: 'Aucune',
+    animationFade: 'Fondu',
+    animationSlideFromLeft: 'Glisser depuis la gauche',
+    animationSlideFromRight: 'Glisser depuis la droite',
+    animationSlideFromTop: 'Glisser depuis le haut',
+    animationSlideFromBottom: 'Glisser depuis le bas',
+    animationScale: 'Agrandir',
+    animationDelay: 'Délai',
+    animationDuration: 'Durée',
+    playAnimation: 'Lire l\'animation',
+    stopAnimation: 'Arrêter l\'animation',
+    exportAnimated: 'Animé',
+    exportAnimatedHint: 'Joue l\'animation d\'entrée de chaque élément. Le GIF et la vidéo bouclent après une courte pause ; les annonces HTML5 se jouent une fois.',
+    exportVideoUnsupported: 'Ce navigateur ne peut pas enregistrer ce format vidéo.',
+    exportClickTag: 'URL de destination',
+    exportClickTagHint: 'Utilisée comme clickTag par défaut. Les serveurs publicitaires la remplacent par leur URL de suivi.',
+    addLanguage: 'Ajouter une langue',
+    removeLanguage: 'Supprimer la langue',
+    exportCampaign: 'ZIP de campagne',
+    exportCampaignTooltip: 'Exporter chaque format dans chaque langue en un seul ZIP avec un manifest.json',
+    safeZones: 'Zones sûres',
+    safeZonesTooltip: 'Afficher où l\'interface de la plateforme couvre ou recadre la bannière',
+    safeZonesUnavailable: 'Les zones sûres sont disponibles pour les formats prédéfinis',
+    textCoverage: 'Texte',
+    textCoverageTooltip: 'Part de la bannière couverte par du texte. Les plateformes publicitaires recommandent de rester sous 20 %.',
+    safeZoneExportWarning: 'Certains éléments se trouvent là où la plateforme couvre ou recadre la bannière. Exporter quand même ?',
+    zoneShopHeader: 'En-tête de la boutique',
+    zoneIgGridCrop: 'Recadrage de la grille du profil',
+    zoneIgStoryHeader: 'En-tête de la story',
+    zoneIgStoryReply: 'Barre de réponse',
+    zoneFbMobileCrop: 'Recadrage mobile',
+    zoneFbProfilePicture: 'Photo de profil',
+    zoneAppIndicators: 'Points du carrousel',
+    legibility: 'Lisibilité',
+    legibilityTooltip: 'Vérifier le contraste du texte sur l\'arrière-plan (WCAG)',
+    legibilityChecking: 'Vérification du contraste…',
+    legibilityNoText: 'Aucun élément de texte à vérifier',
+    legibilityRequired: 'WCAG AA exige {ratio}',
+    legibilityFixOverlay: 'Renforcer le voile',
+    legibilityFixShadow: 'Ajouter une ombre',
+    legibilityFixPlate: 'Ajouter un fond',
+    legibilityFixMove: 'Déplacer vers une zone dégagée',
+    legibilityOverlayInsufficient: 'Même un voile complet ne rend pas ce texte lisible. Essayez plutôt une ombre ou un fond.',
+    legibilityNoEmptyRegion: 'Aucune zone dégagée n\'est assez grande pour cet élément.',
+    openProject: 'Ouvrir un projet',
+    openProjectTooltip: 'Ouvrir un fichier de projet .banner.json',
+    saveProject: 'Enregistrer le projet',
+    saveProjectTooltip: 'Enregistrer le design et ses images dans un fichier .banner.json à rouvrir ou partager',
+    projectSaveFailed: 'L\'enregistrement du projet a échoué.',
+    projectInvalid: 'Ce fichier n\'est pas un projet de bannière.',
+    projectNewerVersion: 'Ce projet a été enregistré par une version plus récente de l\'application. Rechargez la page pour la mettre à jour, puis réessayez.',
+    designLibrary: 'Bibliothèque de designs',
+    designLibraryTooltip: 'Vos designs et modèles enregistrés',
+    saveDesign: 'Enregistrer dans la bibliothèque',
+    saveDesignTooltip: 'Enregistrer les modifications de « {name} »',
+    saveDesignNewTooltip: 'Enregistrer cette bannière dans votre bibliothèque',
+    saveAsNewDesign: 'Enregistrer comme nouveau',
+    myDesigns: 'Mes designs',
+    templates: 'Modèles',
+    template: 'Modèle',
+    loadingDesigns: 'Chargement des designs…',
+    noDesigns: 'Aucun design enregistré pour l\'instant.',
+    noTemplates: 'Aucun modèle pour l\'instant. Marquez un design comme modèle pour créer de nouvelles bannières à partir de celui-ci.',
+    useTemplate: 'Utiliser le modèle',
+    openDesign: 'Ouvrir',
+    duplicateDesign: 'Dupliquer',
+    markTemplate: 'Définir comme modèle',
+    unmarkTemplate: 'Retirer des modèles',
+    renameDesign: 'Renommer',
+    deleteDesign: 'Supprimer le design',
+    confirmDeleteDesign: 'Supprimer « {name} » de votre bibliothèque ?',
+    designNamePrompt: 'Nom du design',
+    designCopySuffix: '(copie)',
+    designTooLarge: 'Ce design est trop volumineux pour la bibliothèque, même avec un arrière-plan réduit. Enregistrez-le plutôt comme fichier de projet.',
+    designSaveFailed: 'L\'enregistrement dans la bibliothèque a échoué.',
+    designLoadFailed: 'Impossible de charger le design.',
+    designDeleteFailed: 'Impossible de supprimer le design.',
+    share: 'Partager',
+    shareTooltip: 'Créer un lien en lecture seule pour validation',
+    shareDialogTitle: 'Partager pour validation',
+    shareHint: 'Toute personne disposant du lien peut voir cette bannière dans toutes ses tailles et langues et la télécharger, sans pouvoir la modifier. Le lien montre la bannière telle qu\'elle est maintenant ; les modifications ultérieures nécessitent un nouveau lien.',
+    shareExpiry: 'Expiration du lien',
+    shareExpiresDay: '1 jour',
+    shareExpiresWeek: '7 jours',
+    shareExpiresMonth: '30 jours',
+    shareExpiresNever: 'Jamais',
+    shareExpiresOn: 'Expire le {date}',
+    shareCreate: 'Créer le lien',
+    shareCreating: 'Création…',
+    shareActiveLinks: 'Liens actifs',
+    shareLoading: 'Chargement des liens…',
+    shareNoLinks: 'Aucun lien actif.',
+    shareCopy: 'Copier',
+    shareCopied: 'Copié',
+    shareRevoke: 'Révoquer',
+    confirmRevokeShare: 'Révoquer ce lien ? Les personnes qui l\'ont ne pourront plus l\'ouvrir.',
+    shareTooLarge: 'Cette bannière est trop volumineuse pour être partagée, même avec un arrière-plan réduit.',
+    shareCreateFailed: 'La création du lien a échoué.',
+    shareRevokeFailed: 'La révocation du lien a échoué.',
+    sharedReadOnly: 'Partagé pour validation · lecture seule',
+    sharedLoading: 'Chargement de la bannière…',
+    sharedNotFound: 'Ce lien n\'existe pas ou a été révoqué.',
+    sharedExpired: 'Ce lien a expiré.',
+    sharedLoadFailed: 'Impossible de charger la bannière. Réessayez plus tard.',
+    backgroundCandidates: 'Fonds proposés',
+    previewingCandidate: 'Aperçu — pas encore appliqué',
+    showCurrentBackground: 'Afficher l\'actuel',
+    applyCandidate: 'Utiliser ce fond',
+    previewCandidate: 'Aperçu du fond {n}',
+    candidateInUse: 'Utilisé',
+    discardCandidate: 'Retirer ce fond',
+    candidateCount: 'Variantes',
+    generateCostOne: 'Coûte 1 crédit',
+    generateCost: 'Coûte {count} crédits, 1 par image',
+    editBackground: 'Retoucher le fond',
+    editBackgroundTooltip: 'Modifier une partie du fond avec l\'IA, effacer un élément ou agrandir un bord',
+    editModeInpaint: 'Modifier',
+    editModeErase: 'Effacer',
+    editModeExtend: 'Agrandir',
+    editMaskHint: 'Peignez sur la bannière la zone à modifier.',
+    brushSize: 'Pinceau',
+    undoStroke: 'Annuler le trait',
+    clearMask: 'Effacer tout',
+    editInstruction: 'Décrivez la modification',
+    editInstructionPlaceholder: 'ex. rendre la veste rouge',
+    extendEdge: 'Bord',
+    extendAmount: 'De',
+    edgeLeft: 'Gauche',
+    edgeRight: 'Droite',
+    edgeTop: 'Haut',
+    edgeBottom: 'Bas',
+    cancel: 'Annuler',
+    applyEdit: 'Appliquer',
+    editingBackground: 'Retouche...',
+    editBackgroundFailed: 'La retouche du fond a échoué. Aucun crédit n\'a été utilisé.',
   },
   de: {
     appTitle: 'Banner Pro',
@@ -118,7 +631,7 @@ export const translations: Record<string, Record<string, string>> = {
     promo1XY: 'Aktion 1 (X/Y)',
     promo2XY: 'Aktion 2 (X/Y)',
     exportBtn: 'BANNER EXPORTIEREN',
-    exportTooltip: 'Das Banner als JPG exportieren',
+    exportTooltip: 'Das Banner als Bild, PDF, Animation oder HTML5-Anzeige exportieren',
     exportingBtn: 'Exportiere...',
     insufficientCredits: 'Unzureichende Credits',
     subscribeDesc: 'Abonnieren Sie Premium für mehr Generierungen',
@@ -130,6 +643,256 @@ export const translations: Record<string, Record<string, string>> = {
     paypalInitError: 'PayPal-Kasse konnte nicht initialisiert werden.',
     paymentFailed: 'Zahlung fehlgeschlagen oder nicht abgeschlossen.',
     paymentError: 'Fehler bei der Erfassung der Zahlung.',
+    layerText: 'Text',
+    layerPromo: 'Aktion',
+    layerImage: 'Bild',
+    layerShape: 'Form',
+    imageUrl: 'Bild-URL',
+    shapeRect: 'Rechteck',
+    shapeEllipse: 'Ellipse',
+    moveLayerUp: 'Nach vorne',
+    moveLayerDown: 'Nach hinten',
+    duplicateLayer: 'Duplizieren',
+    removeLayer: 'Entfernen',
+    undoTooltip: 'Rückgängig (Strg+Z)',
+    redoTooltip: 'Wiederholen (Strg+Umschalt+Z)',
+    presetWebHero: 'Website-Hero',
+    presetIgSquare: 'IG quadratisch',
+    presetIgStory: 'IG Story',
+    presetFbCover: 'Facebook-Titelbild',
+    presetAppBanner: 'App-Banner',
+    customSize: 'Benutzerdefiniert',
+    addSize: 'Größe hinzufügen',
+    removeSize: 'Größe entfernen',
+    exportAllSizes: 'Alle Größen exportieren',
+    exportAllSizesTooltip: 'Ein JPG pro Größe dieser Kampagne exportieren',
+    layerProduct: 'Produkt',
+    products: 'Produkte',
+    addProduct: 'Produkt hinzufügen',
+    productName: 'Produktname',
+    salePrice: 'Angebotspreis',
+    originalPrice: 'Originalpreis',
+    addToBanner: 'Karte zum Banner hinzufügen',
+    currency: 'Währung',
+    badgeStyle: 'Rabatt-Badge',
+    typography: 'Typografie',
+    fontFamily: 'Schriftart',
+    fontWeight: 'Stärke',
+    fontSize: 'Größe (px)',
+    letterSpacing: 'Laufweite (em)',
+    lineHeight: 'Zeilenhöhe',
+    textCase: 'Schreibweise',
+    caseNone: 'Wie eingegeben',
+    caseUpper: 'GROSSBUCHSTABEN',
+    caseLower: 'kleinbuchstaben',
+    caseCapitalize: 'Wortanfänge',
+    italic: 'Kursiv',
+    textColor: 'Farbe',
+    gradient: 'Verlauf',
+    textShadow: 'Schatten',
+    shadowBlur: 'Schattenunschärfe',
+    highlightRules: 'Aktions-Hervorhebung',
+    copyLanguage: 'Textsprache',
+    highlightCategory_currency: 'Beträge',
+    highlightCategory_percent: 'Prozente',
+    highlightCategory_idiom: 'Rabattformulierungen',
+    highlightCategory_keyword: 'Sale-Schlagwörter',
+    highlightOff: 'Aus',
+    highlight_accent: 'Akzent',
+    highlight_badge: 'Badge',
+    highlight_outline: 'Kontur',
+    highlight_underline: 'Unterstrichen',
+    highlightPattern: 'Text oder Muster',
+    highlightRegex: 'Regulärer Ausdruck',
+    addHighlightRule: 'Regel hinzufügen',
+    snap: 'Einrasten',
+    snapTooltip: 'An Elementen, Mitte, Dritteln und Rändern einrasten (Alt gedrückt halten zum Umgehen)',
+    snapMargin: 'Rand',
+    snapMarginTooltip: 'Abstand zum Bannerrand als Einrastlinie',
+    alignLeft: 'Links ausrichten',
+    alignCenter: 'Zentrieren',
+    distributeVertically: 'Vertikal verteilen',
+    positionX: 'X-Position (%)',
+    positionY: 'Y-Position (%)',
+    layerPosition: 'X {x} %, Y {y} %',
+    movableElement: 'verschiebbares Element',
+    keyboardMoveHelp: 'Mit den Pfeiltasten verschieben, Umschalt für größere Schritte. Escape hebt die Auswahl auf.',
+    uploadLogo: 'Logo hochladen',
+    uploading: 'Wird hochgeladen…',
+    uploadedImage: 'Hochgeladenes Bild',
+    savedLogos: 'Gespeicherte Logos',
+    deleteLogo: 'Logo löschen',
+    imageWidth: 'Breite',
+    imageOpacity: 'Deckkraft',
+    recolor: 'Umfärben',
+    recolorNone: 'Original',
+    recolorWhite: 'Weiß',
+    recolorBlack: 'Schwarz',
+    logoTypeError: 'Logos müssen PNG- oder SVG-Dateien sein.',
+    logoSaveError: 'Das Logo wurde dem Banner hinzugefügt, konnte aber nicht in Ihrer Bibliothek gespeichert werden.',
+    backgroundPhoto: 'Hintergrundfoto',
+    uploadBackground: 'Foto hochladen',
+    dropBackgroundHint: 'JPG-, PNG- oder WebP-Foto hier ablegen',
+    focalPoint: 'Fokuspunkt',
+    focalPointHint: 'Motiv anklicken, um es im Bild zu halten',
+    backgroundZoom: 'Zoom',
+    resetCrop: 'Zurücksetzen',
+    backgroundTypeError: 'Hintergrundfotos müssen JPG-, PNG- oder WebP-Dateien sein.',
+    backgroundLoadError: 'Das Foto konnte nicht geladen werden.',
+    exportDialogTitle: 'Banner exportieren',
+    close: 'Schließen',
+    exportFormat: 'Format',
+    exportSize: 'Größe',
+    exportExactPixels: 'Exakte px',
+    exportQuality: 'Qualität',
+    exportTransparent: 'Transparenter Hintergrund',
+    exportFilename: 'Dateiname',
+    exportFilenameTokens: 'Platzhalter:',
+    exportSvgHint: 'Vektor-SVG mit in Pfade umgewandeltem Text, auf dem Server gerendert.',
+    exportFailed: 'Export fehlgeschlagen. Bitte ein anderes Format oder eine andere Größe versuchen.',
+    exportMaxFileSize: 'Max. Dateigröße',
+    exportNoLimit: 'Kein Limit',
+    exportMaxFileSizeHint: 'Die Qualität wird gesenkt und bei Bedarf das Format gewechselt, bis die Datei passt. Als letzter Ausweg werden feine Details weichgezeichnet.',
+    exportOverBudget: 'Selbst bei niedrigster Qualität und weichgezeichneten Details nicht unter {limit}.',
+    exportDegraded: 'Passt, aber nur bei einer Qualität, bei der Kompressionsartefakte sichtbar sein können.',
+    exportSoftened: 'Passt, aber nur mit weichgezeichneten Details und wahrscheinlich sichtbaren Kompressionsartefakten.',
+    animation: 'Animation',
+    animationEffect: 'Eingang',
+    animationNone: 'Keine',
+    animationFade: 'Einblenden',
+    animationSlideFromLeft: 'Von links einschieben',
+    animationSlideFromRight: 'Von rechts einschieben',
+    animationSlideFromTop: 'Von oben einschieben',
+    animationSlideFromBottom: 'Von unten einschieben',
+    animationScale: 'Vergrößern',
+    animationDelay: 'Verzögerung',
+    animationDuration: 'Dauer',
+    playAnimation: 'Animation abspielen',
+    stopAnimation: 'Animation stoppen',
+    exportAnimated: 'Animiert',
+    exportAnimatedHint: 'Spielt die Eingangsanimation jedes Elements. GIF und Video wiederholen sich nach einer kurzen Pause; HTML5-Anzeigen laufen einmal.',
+    exportVideoUnsupported: 'Dieser Browser kann dieses Videoformat nicht aufnehmen.',
+    exportClickTag: 'Klickziel-URL',
+    exportClickTagHint: 'Wird als Standard-clickTag verwendet. Ad-Server ersetzen sie durch ihre eigene Tracking-URL.',
+    addLanguage: 'Sprache hinzufügen',
+    removeLanguage: 'Sprache entfernen',
+    exportCampaign: 'Kampagnen-ZIP',
+    exportCampaignTooltip: 'Jede Größe in jeder Sprache als ein ZIP mit manifest.json exportieren',
+    safeZones: 'Sichere Zonen',
+    safeZonesTooltip: 'Zeigen, wo die Oberfläche der Plattform das Banner verdeckt oder beschneidet',
+    safeZonesUnavailable: 'Sichere Zonen gibt es für vordefinierte Größen',
+    textCoverage: 'Text',
+    textCoverageTooltip: 'Anteil des Banners, der von Text bedeckt ist. Werbeplattformen empfehlen unter 20 %.',
+    safeZoneExportWarning: 'Einige Elemente liegen dort, wo die Plattform das Banner verdeckt oder beschneidet. Trotzdem exportieren?',
+    zoneShopHeader: 'Shop-Kopfzeile',
+    zoneIgGridCrop: 'Zuschnitt im Profilraster',
+    zoneIgStoryHeader: 'Story-Kopfzeile',
+    zoneIgStoryReply: 'Antwortleiste',
+    zoneFbMobileCrop: 'Mobiler Zuschnitt',
+    zoneFbProfilePicture: 'Profilbild',
+    zoneAppIndicators: 'Karussell-Punkte',
+    legibility: 'Lesbarkeit',
+    legibilityTooltip: 'Textkontrast zum Hintergrund prüfen (WCAG)',
+    legibilityChecking: 'Kontrast wird geprüft…',
+    legibilityNoText: 'Keine Textelemente zu prüfen',
+    legibilityRequired: 'WCAG AA verlangt {ratio}',
+    legibilityFixOverlay: 'Overlay verstärken',
+    legibilityFixShadow: 'Schatten hinzufügen',
+    legibilityFixPlate: 'Fläche hinterlegen',
+    legibilityFixMove: 'In freien Bereich verschieben',
+    legibilityOverlayInsufficient: 'Selbst ein volles Overlay macht diesen Text nicht lesbar. Versuchen Sie stattdessen einen Schatten oder eine Fläche.',
+    legibilityNoEmptyRegion: 'Kein freier Bereich ist groß genug für dieses Element.',
+    openProject: 'Projekt öffnen',
+    openProjectTooltip: 'Eine .banner.json-Projektdatei öffnen',
+    saveProject: 'Projekt speichern',
+    saveProjectTooltip: 'Design mit Bildern als .banner.json-Datei speichern, um es wieder zu öffnen oder weiterzugeben',
+    projectSaveFailed: 'Das Projekt konnte nicht gespeichert werden.',
+    projectInvalid: 'Diese Datei ist kein Banner-Projekt.',
+    projectNewerVersion: 'Dieses Projekt wurde mit einer neueren App-Version gespeichert. Laden Sie die Seite neu, um zu aktualisieren, und versuchen Sie es erneut.',
+    designLibrary: 'Design-Bibliothek',
+    designLibraryTooltip: 'Ihre gespeicherten Designs und Vorlagen',
+    saveDesign: 'In Bibliothek speichern',
+    saveDesignTooltip: 'Änderungen an „{name}“ speichern',
+    saveDesignNewTooltip: 'Dieses Banner in Ihrer Design-Bibliothek speichern',
+    saveAsNewDesign: 'Als neu speichern',
+    myDesigns: 'Meine Designs',
+    templates: 'Vorlagen',
+    template: 'Vorlage',
+    loadingDesigns: 'Designs werden geladen…',
+    noDesigns: 'Noch keine gespeicherten Designs.',
+    noTemplates: 'Noch keine Vorlagen. Markieren Sie ein Design als Vorlage, um neue Banner daraus zu erstellen.',
+    useTemplate: 'Vorlage verwenden',
+    openDesign: 'Öffnen',
+    duplicateDesign: 'Duplizieren',
+    markTemplate: 'Als Vorlage',
+    unmarkTemplate: 'Keine Vorlage mehr',
+    renameDesign: 'Umbenennen',
+    deleteDesign: 'Design löschen',
+    confirmDeleteDesign: '„{name}“ aus Ihrer Bibliothek löschen?',
+    designNamePrompt: 'Name des Designs',
+    designCopySuffix: '(Kopie)',
+    designTooLarge: 'Dieses Design ist selbst mit verkleinertem Hintergrund zu groß für die Bibliothek. Speichern Sie es stattdessen als Projektdatei.',
+    designSaveFailed: 'Speichern in der Bibliothek fehlgeschlagen.',
+    designLoadFailed: 'Das Design konnte nicht geladen werden.',
+    designDeleteFailed: 'Das Design konnte nicht gelöscht werden.',
+    share: 'Teilen',
+    shareTooltip: 'Schreibgeschützten Link zur Freigabe erstellen',
+    shareDialogTitle: 'Zur Freigabe teilen',
+    shareHint: 'Jeder mit dem Link kann dieses Banner in allen Größen und Sprachen ansehen und herunterladen, aber nicht bearbeiten. Der Link zeigt den aktuellen Stand; spätere Änderungen brauchen einen neuen Link.',
+    shareExpiry: 'Link läuft ab',
+    shareExpiresDay: '1 Tag',
+    shareExpiresWeek: '7 Tage',
+    shareExpiresMonth: '30 Tage',
+    shareExpiresNever: 'Nie',
+    shareExpiresOn: 'Läuft ab am {date}',
+    shareCreate: 'Link erstellen',
+    shareCreating: 'Wird erstellt…',
+    shareActiveLinks: 'Aktive Links',
+    shareLoading: 'Links werden geladen…',
+    shareNoLinks: 'Keine aktiven Links.',
+    shareCopy: 'Kopieren',
+    shareCopied: 'Kopiert',
+    shareRevoke: 'Widerrufen',
+    confirmRevokeShare: 'Diesen Link widerrufen? Niemand kann ihn danach noch öffnen.',
+    shareTooLarge: 'Dieses Banner ist selbst mit verkleinertem Hintergrund zu groß zum Teilen.',
+    shareCreateFailed: 'Der Link konnte nicht erstellt werden.',
+    shareRevokeFailed: 'Der Link konnte nicht widerrufen werden.',
+    sharedReadOnly: 'Zur Freigabe geteilt · schreibgeschützt',
+    sharedLoading: 'Banner wird geladen…',
+    sharedNotFound: 'Dieser Link existiert nicht oder wurde widerrufen.',
+    sharedExpired: 'Dieser Link ist abgelaufen.',
+    sharedLoadFailed: 'Das Banner konnte nicht geladen werden. Versuchen Sie es später erneut.',
+    backgroundCandidates: 'Hintergrund-Varianten',
+    previewingCandidate: 'Vorschau — noch nicht übernommen',
+    showCurrentBackground: 'Aktuellen zeigen',
+    applyCandidate: 'Diesen Hintergrund verwenden',
+    previewCandidate: 'Variante {n} anzeigen',
+    candidateInUse: 'Aktiv',
+    discardCandidate: 'Variante verwerfen',
+    candidateCount: 'Varianten',
+    generateCostOne: 'Kostet 1 Credit',
+    generateCost: 'Kostet {count} Credits, 1 pro Bild',
+    editBackground: 'Hintergrund bearbeiten',
+    editBackgroundTooltip: 'Einen Teil des Hintergrunds mit KI ändern, etwas entfernen oder einen Rand erweitern',
+    editModeInpaint: 'Ändern',
+    editModeErase: 'Entfernen',
+    editModeExtend: 'Erweitern',
+    editMaskHint: 'Malen Sie auf dem Banner über den Bereich, der geändert werden soll.',
+    brushSize: 'Pinsel',
+    undoStroke: 'Strich rückgängig',
+    clearMask: 'Leeren',
+    editInstruction: 'Änderung beschreiben',
+    editInstructionPlaceholder: 'z. B. die Jacke rot färben',
+    extendEdge: 'Rand',
+    extendAmount: 'Um',
+    edgeLeft: 'Links',
+    edgeRight: 'Rechts',
+    edgeTop: 'Oben',
+    edgeBottom: 'Unten',
+    cancel: 'Abbrechen',
+    applyEdit: 'Bearbeitung anwenden',
+    editingBackground: 'Bearbeite...',
+    editBackgroundFailed: 'Die Bearbeitung ist fehlgeschlagen. Es wurde kein Credit verbraucht.',
   },
   es: {
     appTitle: 'Banner Pro',
@@ -158,7 +921,7 @@ export const translations: Record<string, Record<string, string>> = {
     promo1XY: 'Promo 1 (X/Y)',
     promo2XY: 'Promo 2 (X/Y)',
     exportBtn: 'EXPORTAR BANNER',
-    exportTooltip: 'Exportar el banner como JPG',
+    exportTooltip: 'Exportar el banner como imagen, PDF, animación o anuncio HTML5',
     exportingBtn: 'Exportando...',
     insufficientCredits: 'Créditos insuficientes',
     subscribeDesc: 'Suscríbete a Premium para más generaciones',
@@ -170,6 +933,256 @@ export const translations: Record<string, Record<string, string>> = {
     paypalInitError: 'No se pudo inicializar el pago de PayPal.',
     paymentFailed: 'El pago falló o no se completó.',
     paymentError: 'Ocurrió un error al capturar el pago.',
+    layerText: 'Texto',
+    layerPromo: 'Promoción',
+    layerImage: 'Imagen',
+    layerShape: 'Forma',
+    imageUrl: 'URL de la imagen',
+    shapeRect: 'Rectángulo',
+    shapeEllipse: 'Elipse',
+    moveLayerUp: 'Traer adelante',
+    moveLayerDown: 'Enviar atrás',
+    duplicateLayer: 'Duplicar',
+    removeLayer: 'Eliminar',
+    undoTooltip: 'Deshacer (Ctrl+Z)',
+    redoTooltip: 'Rehacer (Ctrl+Mayús+Z)',
+    presetWebHero: 'Hero del sitio web',
+    presetIgSquare: 'IG cuadrado',
+    presetIgStory: 'IG Historia',
+    presetFbCover: 'Portada de Facebook',
+    presetAppBanner: 'Banner de app',
+    customSize: 'Personalizado',
+    addSize: 'Añadir tamaño',
+    removeSize: 'Quitar tamaño',
+    exportAllSizes: 'Exportar todos los tamaños',
+    exportAllSizesTooltip: 'Exportar un JPG por cada tamaño de la campaña',
+    layerProduct: 'Producto',
+    products: 'Productos',
+    addProduct: 'Añadir producto',
+    productName: 'Nombre del producto',
+    salePrice: 'Precio de oferta',
+    originalPrice: 'Precio original',
+    addToBanner: 'Añadir tarjeta al banner',
+    currency: 'Moneda',
+    badgeStyle: 'Insignia de descuento',
+    typography: 'Tipografía',
+    fontFamily: 'Fuente',
+    fontWeight: 'Grosor',
+    fontSize: 'Tamaño (px)',
+    letterSpacing: 'Espaciado (em)',
+    lineHeight: 'Interlineado',
+    textCase: 'Mayúsculas',
+    caseNone: 'Tal cual',
+    caseUpper: 'MAYÚSCULAS',
+    caseLower: 'minúsculas',
+    caseCapitalize: 'Tipo Título',
+    italic: 'Cursiva',
+    textColor: 'Color',
+    gradient: 'Degradado',
+    textShadow: 'Sombra',
+    shadowBlur: 'Desenfoque de sombra',
+    highlightRules: 'Resaltado de promociones',
+    copyLanguage: 'Idioma del texto',
+    highlightCategory_currency: 'Importes',
+    highlightCategory_percent: 'Porcentajes',
+    highlightCategory_idiom: 'Frases de descuento',
+    highlightCategory_keyword: 'Palabras de oferta',
+    highlightOff: 'Desactivado',
+    highlight_accent: 'Acento',
+    highlight_badge: 'Insignia',
+    highlight_outline: 'Contorno',
+    highlight_underline: 'Subrayado',
+    highlightPattern: 'Texto o patrón',
+    highlightRegex: 'Expresión regular',
+    addHighlightRule: 'Añadir regla',
+    snap: 'Ajustar',
+    snapTooltip: 'Ajustar a otros elementos, centro, tercios y márgenes (mantén Alt para omitir)',
+    snapMargin: 'Margen',
+    snapMarginTooltip: 'Margen desde los bordes usado como guía',
+    alignLeft: 'Alinear a la izquierda',
+    alignCenter: 'Centrar',
+    distributeVertically: 'Distribuir verticalmente',
+    positionX: 'Posición X (%)',
+    positionY: 'Posición Y (%)',
+    layerPosition: 'X {x} %, Y {y} %',
+    movableElement: 'elemento movible',
+    keyboardMoveHelp: 'Usa las flechas para mover este elemento; mantén Mayús para pasos mayores. Escape para deseleccionar.',
+    uploadLogo: 'Subir logo',
+    uploading: 'Subiendo…',
+    uploadedImage: 'Imagen subida',
+    savedLogos: 'Logos guardados',
+    deleteLogo: 'Eliminar logo',
+    imageWidth: 'Ancho',
+    imageOpacity: 'Opacidad',
+    recolor: 'Recolorear',
+    recolorNone: 'Original',
+    recolorWhite: 'Blanco',
+    recolorBlack: 'Negro',
+    logoTypeError: 'Los logos deben ser archivos PNG o SVG.',
+    logoSaveError: 'El logo se añadió al banner, pero no se pudo guardar en tu biblioteca.',
+    backgroundPhoto: 'Foto de fondo',
+    uploadBackground: 'Subir foto',
+    dropBackgroundHint: 'Suelta aquí una foto JPG, PNG o WebP',
+    focalPoint: 'Punto focal',
+    focalPointHint: 'Haz clic en el sujeto para mantenerlo en el encuadre',
+    backgroundZoom: 'Zoom',
+    resetCrop: 'Restablecer',
+    backgroundTypeError: 'Las fotos de fondo deben ser archivos JPG, PNG o WebP.',
+    backgroundLoadError: 'No se pudo cargar la foto.',
+    exportDialogTitle: 'Exportar banner',
+    close: 'Cerrar',
+    exportFormat: 'Formato',
+    exportSize: 'Tamaño',
+    exportExactPixels: 'Px exactos',
+    exportQuality: 'Calidad',
+    exportTransparent: 'Fondo transparente',
+    exportFilename: 'Nombre de archivo',
+    exportFilenameTokens: 'Marcadores:',
+    exportSvgHint: 'SVG vectorial con el texto convertido en contornos, generado en el servidor.',
+    exportFailed: 'La exportación falló. Prueba otro formato o tamaño.',
+    exportMaxFileSize: 'Tamaño máx. de archivo',
+    exportNoLimit: 'Sin límite',
+    exportMaxFileSizeHint: 'Se reduce la calidad, y se cambia el formato si hace falta, hasta que el archivo quepa. Como último recurso, se suavizan los detalles finos.',
+    exportOverBudget: 'No se pudo bajar de {limit}, ni con la calidad más baja y los detalles suavizados.',
+    exportDegraded: 'Cabe, pero solo con una calidad en la que pueden verse artefactos de compresión.',
+    exportSoftened: 'Cabe, pero solo con los detalles finos suavizados y probables artefactos de compresión visibles.',
+    animation: 'Animación',
+    animationEffect: 'Entrada',
+    animationNone: 'Ninguna',
+    animationFade: 'Aparecer',
+    animationSlideFromLeft: 'Deslizar desde la izquierda',
+    animationSlideFromRight: 'Deslizar desde la derecha',
+    animationSlideFromTop: 'Deslizar desde arriba',
+    animationSlideFromBottom: 'Deslizar desde abajo',
+    animationScale: 'Ampliar',
+    animationDelay: 'Retraso',
+    animationDuration: 'Duración',
+    playAnimation: 'Reproducir animación',
+    stopAnimation: 'Detener animación',
+    exportAnimated: 'Animado',
+    exportAnimatedHint: 'Reproduce la animación de entrada de cada elemento. El GIF y el vídeo se repiten tras una breve pausa; los anuncios HTML5 se reproducen una vez.',
+    exportVideoUnsupported: 'Este navegador no puede grabar este formato de vídeo.',
+    exportClickTag: 'URL de destino',
+    exportClickTagHint: 'Se usa como clickTag predeterminado. Los servidores de anuncios la sustituyen por su URL de seguimiento.',
+    addLanguage: 'Añadir idioma',
+    removeLanguage: 'Quitar idioma',
+    exportCampaign: 'ZIP de campaña',
+    exportCampaignTooltip: 'Exportar cada tamaño en cada idioma en un único ZIP con un manifest.json',
+    safeZones: 'Zonas seguras',
+    safeZonesTooltip: 'Mostrar dónde la interfaz de la plataforma tapa o recorta el banner',
+    safeZonesUnavailable: 'Las zonas seguras están disponibles para los tamaños predefinidos',
+    textCoverage: 'Texto',
+    textCoverageTooltip: 'Parte del banner cubierta por texto. Las plataformas publicitarias recomiendan menos del 20 %.',
+    safeZoneExportWarning: 'Algunos elementos están donde la plataforma tapa o recorta el banner. ¿Exportar de todos modos?',
+    zoneShopHeader: 'Cabecera de la tienda',
+    zoneIgGridCrop: 'Recorte de la cuadrícula del perfil',
+    zoneIgStoryHeader: 'Cabecera de la historia',
+    zoneIgStoryReply: 'Barra de respuesta',
+    zoneFbMobileCrop: 'Recorte en móvil',
+    zoneFbProfilePicture: 'Foto de perfil',
+    zoneAppIndicators: 'Puntos del carrusel',
+    legibility: 'Legibilidad',
+    legibilityTooltip: 'Comprobar el contraste del texto con el fondo (WCAG)',
+    legibilityChecking: 'Comprobando el contraste…',
+    legibilityNoText: 'No hay elementos de texto que comprobar',
+    legibilityRequired: 'WCAG AA exige {ratio}',
+    legibilityFixOverlay: 'Subir superposición',
+    legibilityFixShadow: 'Añadir sombra',
+    legibilityFixPlate: 'Añadir placa',
+    legibilityFixMove: 'Mover a zona despejada',
+    legibilityOverlayInsufficient: 'Ni siquiera una superposición completa hace legible este texto. Prueba con una sombra o una placa.',
+    legibilityNoEmptyRegion: 'Ninguna zona despejada es lo bastante grande para este elemento.',
+    openProject: 'Abrir proyecto',
+    openProjectTooltip: 'Abrir un archivo de proyecto .banner.json',
+    saveProject: 'Guardar proyecto',
+    saveProjectTooltip: 'Guardar el diseño con sus imágenes en un archivo .banner.json para reabrirlo o compartirlo',
+    projectSaveFailed: 'No se pudo guardar el proyecto.',
+    projectInvalid: 'Este archivo no es un proyecto de banner.',
+    projectNewerVersion: 'Este proyecto se guardó con una versión más reciente de la aplicación. Recarga la página para actualizar e inténtalo de nuevo.',
+    designLibrary: 'Biblioteca de diseños',
+    designLibraryTooltip: 'Tus diseños y plantillas guardados',
+    saveDesign: 'Guardar en la biblioteca',
+    saveDesignTooltip: 'Guardar cambios en «{name}»',
+    saveDesignNewTooltip: 'Guardar este banner en tu biblioteca de diseños',
+    saveAsNewDesign: 'Guardar como nuevo',
+    myDesigns: 'Mis diseños',
+    templates: 'Plantillas',
+    template: 'Plantilla',
+    loadingDesigns: 'Cargando diseños…',
+    noDesigns: 'Aún no hay diseños guardados.',
+    noTemplates: 'Aún no hay plantillas. Marca un diseño como plantilla para crear banners nuevos a partir de él.',
+    useTemplate: 'Usar plantilla',
+    openDesign: 'Abrir',
+    duplicateDesign: 'Duplicar',
+    markTemplate: 'Hacer plantilla',
+    unmarkTemplate: 'Quitar plantilla',
+    renameDesign: 'Renombrar',
+    deleteDesign: 'Eliminar diseño',
+    confirmDeleteDesign: '¿Eliminar «{name}» de tu biblioteca?',
+    designNamePrompt: 'Nombre del diseño',
+    designCopySuffix: '(copia)',
+    designTooLarge: 'Este diseño es demasiado grande para la biblioteca, incluso con un fondo más pequeño. Guárdalo como archivo de proyecto.',
+    designSaveFailed: 'No se pudo guardar en la biblioteca.',
+    designLoadFailed: 'No se pudo cargar el diseño.',
+    designDeleteFailed: 'No se pudo eliminar el diseño.',
+    share: 'Compartir',
+    shareTooltip: 'Crear un enlace de solo lectura para revisión',
+    shareDialogTitle: 'Compartir para revisión',
+    shareHint: 'Cualquiera con el enlace puede ver este banner en todos sus tamaños e idiomas y descargarlo, pero no editarlo. El enlace muestra el banner tal como está ahora; los cambios posteriores requieren un enlace nuevo.',
+    shareExpiry: 'El enlace caduca',
+    shareExpiresDay: '1 día',
+    shareExpiresWeek: '7 días',
+    shareExpiresMonth: '30 días',
+    shareExpiresNever: 'Nunca',
+    shareExpiresOn: 'Caduca el {date}',
+    shareCreate: 'Crear enlace',
+    shareCreating: 'Creando…',
+    shareActiveLinks: 'Enlaces activos',
+    shareLoading: 'Cargando enlaces…',
+    shareNoLinks: 'No hay enlaces activos.',
+    shareCopy: 'Copiar',
+    shareCopied: 'Copiado',
+    shareRevoke: 'Revocar',
+    confirmRevokeShare: '¿Revocar este enlace? Quien lo tenga ya no podrá abrirlo.',
+    shareTooLarge: 'Este banner es demasiado grande para compartirlo, incluso con un fondo más pequeño.',
+    shareCreateFailed: 'No se pudo crear el enlace.',
+    shareRevokeFailed: 'No se pudo revocar el enlace.',
+    sharedReadOnly: 'Compartido para revisión · solo lectura',
+    sharedLoading: 'Cargando banner…',
+    sharedNotFound: 'Este enlace no existe o ha sido revocado.',
+    sharedExpired: 'Este enlace ha caducado.',
+    sharedLoadFailed: 'No se pudo cargar el banner. Inténtalo más tarde.',
+    backgroundCandidates: 'Fondos candidatos',
+    previewingCandidate: 'Vista previa — aún no aplicado',
+    showCurrentBackground: 'Ver actual',
+    applyCandidate: 'Usar este fondo',
+    previewCandidate: 'Ver candidato {n}',
+    candidateInUse: 'En uso',
+    discardCandidate: 'Descartar candidato',
+    candidateCount: 'Variaciones',
+    generateCostOne: 'Cuesta 1 crédito',
+    generateCost: 'Cuesta {count} créditos, 1 por imagen',
+    editBackground: 'Editar fondo',
+    editBackgroundTooltip: 'Cambia parte del fondo con IA, borra algo o amplía un borde',
+    editModeInpaint: 'Cambiar',
+    editModeErase: 'Borrar',
+    editModeExtend: 'Ampliar',
+    editMaskHint: 'Pinta sobre el banner la zona que quieres cambiar.',
+    brushSize: 'Pincel',
+    undoStroke: 'Deshacer trazo',
+    clearMask: 'Limpiar',
+    editInstruction: 'Describe el cambio',
+    editInstructionPlaceholder: 'p. ej. haz la chaqueta roja',
+    extendEdge: 'Borde',
+    extendAmount: 'En',
+    edgeLeft: 'Izquierda',
+    edgeRight: 'Derecha',
+    edgeTop: 'Arriba',
+    edgeBottom: 'Abajo',
+    cancel: 'Cancelar',
+    applyEdit: 'Aplicar edición',
+    editingBackground: 'Editando...',
+    editBackgroundFailed: 'La edición del fondo falló. No se usó ningún crédito.',
   },
   it: {
     appTitle: 'Banner Pro',
@@ -198,7 +1211,7 @@ export const translations: Record<string, Record<string, string>> = {
     promo1XY: 'Promo 1 (X/Y)',
     promo2XY: 'Promo 2 (X/Y)',
     exportBtn: 'ESPORTA BANNER',
-    exportTooltip: 'Esporta il banner come JPG',
+    exportTooltip: 'Esporta il banner come immagine, PDF, animazione o annuncio HTML5',
     exportingBtn: 'Esportazione...',
     insufficientCredits: 'Crediti insufficienti',
     subscribeDesc: 'Abbonati a Premium per più generazioni',
@@ -210,6 +1223,256 @@ export const translations: Record<string, Record<string, string>> = {
     paypalInitError: 'Impossibile inizializzare il checkout PayPal.',
     paymentFailed: 'Pagamento fallito o non completato.',
     paymentError: 'Si è verificato un errore durante l\'acquisizione del pagamento.',
+    layerText: 'Testo',
+    layerPromo: 'Promozione',
+    layerImage: 'Immagine',
+    layerShape: 'Forma',
+    imageUrl: 'URL dell\'immagine',
+    shapeRect: 'Rettangolo',
+    shapeEllipse: 'Ellisse',
+    moveLayerUp: 'Porta avanti',
+    moveLayerDown: 'Porta indietro',
+    duplicateLayer: 'Duplica',
+    removeLayer: 'Rimuovi',
+    undoTooltip: 'Annulla (Ctrl+Z)',
+    redoTooltip: 'Ripeti (Ctrl+Maiusc+Z)',
+    presetWebHero: 'Hero del sito',
+    presetIgSquare: 'IG quadrato',
+    presetIgStory: 'IG Storia',
+    presetFbCover: 'Copertina Facebook',
+    presetAppBanner: 'Banner app',
+    customSize: 'Personalizzato',
+    addSize: 'Aggiungi formato',
+    removeSize: 'Rimuovi formato',
+    exportAllSizes: 'Esporta tutti i formati',
+    exportAllSizesTooltip: 'Esporta un JPG per ogni formato della campagna',
+    layerProduct: 'Prodotto',
+    products: 'Prodotti',
+    addProduct: 'Aggiungi prodotto',
+    productName: 'Nome del prodotto',
+    salePrice: 'Prezzo scontato',
+    originalPrice: 'Prezzo originale',
+    addToBanner: 'Aggiungi scheda al banner',
+    currency: 'Valuta',
+    badgeStyle: 'Badge sconto',
+    typography: 'Tipografia',
+    fontFamily: 'Carattere',
+    fontWeight: 'Peso',
+    fontSize: 'Dimensione (px)',
+    letterSpacing: 'Spaziatura (em)',
+    lineHeight: 'Interlinea',
+    textCase: 'Maiuscole',
+    caseNone: 'Come digitato',
+    caseUpper: 'MAIUSCOLO',
+    caseLower: 'minuscolo',
+    caseCapitalize: 'Iniziali',
+    italic: 'Corsivo',
+    textColor: 'Colore',
+    gradient: 'Sfumatura',
+    textShadow: 'Ombra',
+    shadowBlur: 'Sfocatura ombra',
+    highlightRules: 'Evidenziazione promo',
+    copyLanguage: 'Lingua del testo',
+    highlightCategory_currency: 'Importi',
+    highlightCategory_percent: 'Percentuali',
+    highlightCategory_idiom: 'Frasi di sconto',
+    highlightCategory_keyword: 'Parole chiave saldi',
+    highlightOff: 'Disattivato',
+    highlight_accent: 'Accento',
+    highlight_badge: 'Badge',
+    highlight_outline: 'Contorno',
+    highlight_underline: 'Sottolineato',
+    highlightPattern: 'Testo o modello',
+    highlightRegex: 'Espressione regolare',
+    addHighlightRule: 'Aggiungi regola',
+    snap: 'Aggancio',
+    snapTooltip: 'Aggancia ad altri elementi, centro, terzi e margini (tieni premuto Alt per ignorare)',
+    snapMargin: 'Margine',
+    snapMarginTooltip: 'Margine dai bordi usato come guida',
+    alignLeft: 'Allinea a sinistra',
+    alignCenter: 'Centra',
+    distributeVertically: 'Distribuisci verticalmente',
+    positionX: 'Posizione X (%)',
+    positionY: 'Posizione Y (%)',
+    layerPosition: 'X {x}%, Y {y}%',
+    movableElement: 'elemento spostabile',
+    keyboardMoveHelp: 'Usa le frecce per spostare l\'elemento, tieni premuto Maiusc per passi più ampi. Esc per deselezionare.',
+    uploadLogo: 'Carica logo',
+    uploading: 'Caricamento…',
+    uploadedImage: 'Immagine caricata',
+    savedLogos: 'Loghi salvati',
+    deleteLogo: 'Elimina logo',
+    imageWidth: 'Larghezza',
+    imageOpacity: 'Opacità',
+    recolor: 'Ricolora',
+    recolorNone: 'Originale',
+    recolorWhite: 'Bianco',
+    recolorBlack: 'Nero',
+    logoTypeError: 'I loghi devono essere file PNG o SVG.',
+    logoSaveError: 'Il logo è stato aggiunto al banner ma non è stato possibile salvarlo nella tua libreria.',
+    backgroundPhoto: 'Foto di sfondo',
+    uploadBackground: 'Carica foto',
+    dropBackgroundHint: 'Trascina qui una foto JPG, PNG o WebP',
+    focalPoint: 'Punto focale',
+    focalPointHint: 'Fai clic sul soggetto per mantenerlo nell\'inquadratura',
+    backgroundZoom: 'Zoom',
+    resetCrop: 'Ripristina',
+    backgroundTypeError: 'Le foto di sfondo devono essere file JPG, PNG o WebP.',
+    backgroundLoadError: 'Impossibile caricare la foto.',
+    exportDialogTitle: 'Esporta banner',
+    close: 'Chiudi',
+    exportFormat: 'Formato',
+    exportSize: 'Dimensione',
+    exportExactPixels: 'Px esatti',
+    exportQuality: 'Qualità',
+    exportTransparent: 'Sfondo trasparente',
+    exportFilename: 'Nome file',
+    exportFilenameTokens: 'Segnaposto:',
+    exportSvgHint: 'SVG vettoriale con il testo convertito in tracciati, generato sul server.',
+    exportFailed: 'Esportazione non riuscita. Prova un altro formato o dimensione.',
+    exportMaxFileSize: 'Dimensione max file',
+    exportNoLimit: 'Nessun limite',
+    exportMaxFileSizeHint: 'La qualità viene ridotta, e il formato cambiato se necessario, finché il file non rientra. Come ultima risorsa, i dettagli fini vengono ammorbiditi.',
+    exportOverBudget: 'Impossibile scendere sotto {limit}, nemmeno alla qualità minima con i dettagli ammorbiditi.',
+    exportDegraded: 'Rientra, ma solo con una qualità in cui possono vedersi artefatti di compressione.',
+    exportSoftened: 'Rientra, ma solo con i dettagli fini ammorbiditi e probabili artefatti di compressione visibili.',
+    animation: 'Animazione',
+    animationEffect: 'Entrata',
+    animationNone: 'Nessuna',
+    animationFade: 'Dissolvenza',
+    animationSlideFromLeft: 'Scorri da sinistra',
+    animationSlideFromRight: 'Scorri da destra',
+    animationSlideFromTop: 'Scorri dall\'alto',
+    animationSlideFromBottom: 'Scorri dal basso',
+    animationScale: 'Ingrandisci',
+    animationDelay: 'Ritardo',
+    animationDuration: 'Durata',
+    playAnimation: 'Riproduci animazione',
+    stopAnimation: 'Ferma animazione',
+    exportAnimated: 'Animato',
+    exportAnimatedHint: 'Riproduce l\'animazione di entrata di ogni elemento. GIF e video ripartono dopo una breve pausa; gli annunci HTML5 si riproducono una volta.',
+    exportVideoUnsupported: 'Questo browser non può registrare questo formato video.',
+    exportClickTag: 'URL di destinazione',
+    exportClickTagHint: 'Usato come clickTag predefinito. Gli ad server lo sostituiscono con il proprio URL di tracciamento.',
+    addLanguage: 'Aggiungi lingua',
+    removeLanguage: 'Rimuovi lingua',
+    exportCampaign: 'ZIP campagna',
+    exportCampaignTooltip: 'Esporta ogni formato in ogni lingua in un unico ZIP con un manifest.json',
+    safeZones: 'Zone sicure',
+    safeZonesTooltip: 'Mostra dove l\'interfaccia della piattaforma copre o ritaglia il banner',
+    safeZonesUnavailable: 'Le zone sicure sono disponibili per i formati predefiniti',
+    textCoverage: 'Testo',
+    textCoverageTooltip: 'Parte del banner coperta dal testo. Le piattaforme pubblicitarie consigliano di restare sotto il 20%.',
+    safeZoneExportWarning: 'Alcuni elementi si trovano dove la piattaforma copre o ritaglia il banner. Esportare comunque?',
+    zoneShopHeader: 'Intestazione del negozio',
+    zoneIgGridCrop: 'Ritaglio della griglia del profilo',
+    zoneIgStoryHeader: 'Intestazione della storia',
+    zoneIgStoryReply: 'Barra di risposta',
+    zoneFbMobileCrop: 'Ritaglio su mobile',
+    zoneFbProfilePicture: 'Immagine del profilo',
+    zoneAppIndicators: 'Punti del carosello',
+    legibility: 'Leggibilità',
+    legibilityTooltip: 'Verifica il contrasto del testo sullo sfondo (WCAG)',
+    legibilityChecking: 'Verifica del contrasto…',
+    legibilityNoText: 'Nessun elemento di testo da verificare',
+    legibilityRequired: 'WCAG AA richiede {ratio}',
+    legibilityFixOverlay: 'Aumenta velatura',
+    legibilityFixShadow: 'Aggiungi ombra',
+    legibilityFixPlate: 'Aggiungi riquadro',
+    legibilityFixMove: 'Sposta in area libera',
+    legibilityOverlayInsufficient: 'Nemmeno una velatura piena rende leggibile questo testo. Prova con un\'ombra o un riquadro.',
+    legibilityNoEmptyRegion: 'Nessuna area libera è abbastanza grande per questo elemento.',
+    openProject: 'Apri progetto',
+    openProjectTooltip: 'Apri un file di progetto .banner.json',
+    saveProject: 'Salva progetto',
+    saveProjectTooltip: 'Salva il design con le immagini in un file .banner.json da riaprire o condividere',
+    projectSaveFailed: 'Salvataggio del progetto non riuscito.',
+    projectInvalid: 'Questo file non è un progetto di banner.',
+    projectNewerVersion: 'Questo progetto è stato salvato da una versione più recente dell\'app. Ricarica la pagina per aggiornare e riprova.',
+    designLibrary: 'Libreria dei design',
+    designLibraryTooltip: 'I tuoi design e modelli salvati',
+    saveDesign: 'Salva nella libreria',
+    saveDesignTooltip: 'Salva le modifiche a «{name}»',
+    saveDesignNewTooltip: 'Salva questo banner nella tua libreria',
+    saveAsNewDesign: 'Salva come nuovo',
+    myDesigns: 'I miei design',
+    templates: 'Modelli',
+    template: 'Modello',
+    loadingDesigns: 'Caricamento dei design…',
+    noDesigns: 'Ancora nessun design salvato.',
+    noTemplates: 'Ancora nessun modello. Contrassegna un design come modello per creare nuovi banner da esso.',
+    useTemplate: 'Usa modello',
+    openDesign: 'Apri',
+    duplicateDesign: 'Duplica',
+    markTemplate: 'Rendi modello',
+    unmarkTemplate: 'Rimuovi modello',
+    renameDesign: 'Rinomina',
+    deleteDesign: 'Elimina design',
+    confirmDeleteDesign: 'Eliminare «{name}» dalla libreria?',
+    designNamePrompt: 'Nome del design',
+    designCopySuffix: '(copia)',
+    designTooLarge: 'Questo design è troppo grande per la libreria, anche con uno sfondo ridotto. Salvalo invece come file di progetto.',
+    designSaveFailed: 'Salvataggio nella libreria non riuscito.',
+    designLoadFailed: 'Impossibile caricare il design.',
+    designDeleteFailed: 'Impossibile eliminare il design.',
+    share: 'Condividi',
+    shareTooltip: 'Crea un link di sola lettura per la revisione',
+    shareDialogTitle: 'Condividi per la revisione',
+    shareHint: 'Chiunque abbia il link può vedere questo banner in tutte le dimensioni e lingue e scaricarlo, ma non modificarlo. Il link mostra il banner com\'è ora; le modifiche successive richiedono un nuovo link.',
+    shareExpiry: 'Scadenza del link',
+    shareExpiresDay: '1 giorno',
+    shareExpiresWeek: '7 giorni',
+    shareExpiresMonth: '30 giorni',
+    shareExpiresNever: 'Mai',
+    shareExpiresOn: 'Scade il {date}',
+    shareCreate: 'Crea link',
+    shareCreating: 'Creazione…',
+    shareActiveLinks: 'Link attivi',
+    shareLoading: 'Caricamento dei link…',
+    shareNoLinks: 'Nessun link attivo.',
+    shareCopy: 'Copia',
+    shareCopied: 'Copiato',
+    shareRevoke: 'Revoca',
+    confirmRevokeShare: 'Revocare questo link? Chi lo possiede non potrà più aprirlo.',
+    shareTooLarge: 'Questo banner è troppo grande da condividere, anche con uno sfondo ridotto.',
+    shareCreateFailed: 'Creazione del link non riuscita.',
+    shareRevokeFailed: 'Revoca del link non riuscita.',
+    sharedReadOnly: 'Condiviso per la revisione · sola lettura',
+    sharedLoading: 'Caricamento del banner…',
+    sharedNotFound: 'Questo link non esiste o è stato revocato.',
+    sharedExpired: 'Questo link è scaduto.',
+    sharedLoadFailed: 'Impossibile caricare il banner. Riprova più tardi.',
+    backgroundCandidates: 'Sfondi candidati',
+    previewingCandidate: 'Anteprima — non ancora applicato',
+    showCurrentBackground: 'Mostra attuale',
+    applyCandidate: 'Usa questo sfondo',
+    previewCandidate: 'Anteprima candidato {n}',
+    candidateInUse: 'In uso',
+    discardCandidate: 'Scarta candidato',
+    candidateCount: 'Varianti',
+    generateCostOne: 'Costa 1 credito',
+    generateCost: 'Costa {count} crediti, 1 per immagine',
+    editBackground: 'Modifica sfondo',
+    editBackgroundTooltip: 'Modifica parte dello sfondo con l\'IA, cancella qualcosa o estendi un bordo',
+    editModeInpaint: 'Modifica',
+    editModeErase: 'Cancella',
+    editModeExtend: 'Estendi',
+    editMaskHint: 'Dipingi sul banner l\'area da modificare.',
+    brushSize: 'Pennello',
+    undoStroke: 'Annulla tratto',
+    clearMask: 'Cancella tutto',
+    editInstruction: 'Descrivi la modifica',
+    editInstructionPlaceholder: 'es. rendi rossa la giacca',
+    extendEdge: 'Bordo',
+    extendAmount: 'Di',
+    edgeLeft: 'Sinistra',
+    edgeRight: 'Destra',
+    edgeTop: 'Alto',
+    edgeBottom: 'Basso',
+    cancel: 'Annulla',
+    applyEdit: 'Applica modifica',
+    editingBackground: 'Modifica in corso...',
+    editBackgroundFailed: 'La modifica dello sfondo non è riuscita. Nessun credito utilizzato.',
   },
   ja: {
     appTitle: 'Banner Pro',
@@ -238,7 +1501,7 @@ export const translations: Record<string, Record<string, string>> = {
     promo1XY: 'プロモ 1 (X/Y)',
     promo2XY: 'プロモ 2 (X/Y)',
     exportBtn: 'バナーをエクスポート',
-    exportTooltip: 'バナーをJPGとしてエクスポート',
+    exportTooltip: 'バナーを画像・PDF・アニメーション・HTML5広告としてエクスポート',
     exportingBtn: 'エクスポート中...',
     insufficientCredits: 'クレジット不足',
     subscribeDesc: 'より多く生成するにはプレミアムを購読してください',
@@ -250,6 +1513,256 @@ export const translations: Record<string, Record<string, string>> = {
     paypalInitError: 'PayPalチェックアウトを初期化できませんでした。',
     paymentFailed: '支払いが失敗したか、完了しませんでした。',
     paymentError: '支払いのキャプチャ中にエラーが発生しました。',
+    layerText: 'テキスト',
+    layerPromo: 'プロモーション',
+    layerImage: '画像',
+    layerShape: '図形',
+    imageUrl: '画像URL',
+    shapeRect: '長方形',
+    shapeEllipse: '楕円',
+    moveLayerUp: '前面へ',
+    moveLayerDown: '背面へ',
+    duplicateLayer: '複製',
+    removeLayer: '削除',
+    undoTooltip: '元に戻す (Ctrl+Z)',
+    redoTooltip: 'やり直す (Ctrl+Shift+Z)',
+    presetWebHero: 'サイトヒーロー',
+    presetIgSquare: 'IG 正方形',
+    presetIgStory: 'IG ストーリー',
+    presetFbCover: 'Facebook カバー',
+    presetAppBanner: 'アプリバナー',
+    customSize: 'カスタム',
+    addSize: 'サイズを追加',
+    removeSize: 'サイズを削除',
+    exportAllSizes: '全サイズを書き出し',
+    exportAllSizesTooltip: 'キャンペーンの各サイズを JPG で書き出します',
+    layerProduct: '商品',
+    products: '商品',
+    addProduct: '商品を追加',
+    productName: '商品名',
+    salePrice: 'セール価格',
+    originalPrice: '通常価格',
+    addToBanner: 'カードをバナーに追加',
+    currency: '通貨',
+    badgeStyle: '割引バッジ',
+    typography: '文字スタイル',
+    fontFamily: 'フォント',
+    fontWeight: '太さ',
+    fontSize: 'サイズ (px)',
+    letterSpacing: '字間 (em)',
+    lineHeight: '行間',
+    textCase: '大文字小文字',
+    caseNone: '入力どおり',
+    caseUpper: '大文字',
+    caseLower: '小文字',
+    caseCapitalize: '先頭大文字',
+    italic: '斜体',
+    textColor: '色',
+    gradient: 'グラデーション',
+    textShadow: '影',
+    shadowBlur: '影のぼかし',
+    highlightRules: 'プロモ強調',
+    copyLanguage: 'コピーの言語',
+    highlightCategory_currency: '金額',
+    highlightCategory_percent: 'パーセント',
+    highlightCategory_idiom: '割引表現',
+    highlightCategory_keyword: 'セールキーワード',
+    highlightOff: 'オフ',
+    highlight_accent: 'アクセント',
+    highlight_badge: 'バッジ',
+    highlight_outline: 'アウトライン',
+    highlight_underline: '下線',
+    highlightPattern: 'テキストまたはパターン',
+    highlightRegex: '正規表現',
+    addHighlightRule: '強調ルールを追加',
+    snap: 'スナップ',
+    snapTooltip: '他の要素・中央・三分割線・余白にスナップ（Alt で一時解除）',
+    snapMargin: '余白',
+    snapMarginTooltip: 'スナップ線として使うバナー端からの余白',
+    alignLeft: '左揃え',
+    alignCenter: '中央揃え',
+    distributeVertically: '垂直方向に均等配置',
+    positionX: 'X 位置 (%)',
+    positionY: 'Y 位置 (%)',
+    layerPosition: 'X {x}%、Y {y}%',
+    movableElement: '移動可能な要素',
+    keyboardMoveHelp: '矢印キーで移動、Shift で大きく移動します。Escape で選択解除。',
+    uploadLogo: 'ロゴをアップロード',
+    uploading: 'アップロード中…',
+    uploadedImage: 'アップロード済み画像',
+    savedLogos: '保存済みロゴ',
+    deleteLogo: 'ロゴを削除',
+    imageWidth: '幅',
+    imageOpacity: '不透明度',
+    recolor: '色変更',
+    recolorNone: 'オリジナル',
+    recolorWhite: '白',
+    recolorBlack: '黒',
+    logoTypeError: 'ロゴはPNGまたはSVGファイルである必要があります。',
+    logoSaveError: 'ロゴはバナーに追加されましたが、ライブラリに保存できませんでした。',
+    backgroundPhoto: '背景写真',
+    uploadBackground: '写真をアップロード',
+    dropBackgroundHint: 'JPG・PNG・WebP の写真をここにドロップ',
+    focalPoint: 'フォーカルポイント',
+    focalPointHint: '被写体をクリックして常にフレーム内に保持',
+    backgroundZoom: 'ズーム',
+    resetCrop: 'リセット',
+    backgroundTypeError: '背景写真は JPG・PNG・WebP ファイルである必要があります。',
+    backgroundLoadError: '写真を読み込めませんでした。',
+    exportDialogTitle: 'バナーを書き出す',
+    close: '閉じる',
+    exportFormat: '形式',
+    exportSize: 'サイズ',
+    exportExactPixels: 'ピクセル指定',
+    exportQuality: '画質',
+    exportTransparent: '背景を透明にする',
+    exportFilename: 'ファイル名',
+    exportFilenameTokens: 'プレースホルダー：',
+    exportSvgHint: 'テキストをアウトライン化したベクター SVG（サーバーで生成）。',
+    exportFailed: '書き出しに失敗しました。別の形式かサイズをお試しください。',
+    exportMaxFileSize: '最大ファイルサイズ',
+    exportNoLimit: '制限なし',
+    exportMaxFileSizeHint: 'ファイルが収まるまで画質を下げ、必要に応じて形式を切り替えます。最終手段として細部をぼかします。',
+    exportOverBudget: '最低画質で細部をぼかしても {limit} 以下にできませんでした。',
+    exportDegraded: '収まりましたが、圧縮ノイズが目立つ可能性のある画質です。',
+    exportSoftened: '収まりましたが、細部をぼかしており、圧縮ノイズも目立つ可能性があります。',
+    animation: 'アニメーション',
+    animationEffect: '登場効果',
+    animationNone: 'なし',
+    animationFade: 'フェードイン',
+    animationSlideFromLeft: '左からスライド',
+    animationSlideFromRight: '右からスライド',
+    animationSlideFromTop: '上からスライド',
+    animationSlideFromBottom: '下からスライド',
+    animationScale: '拡大',
+    animationDelay: '遅延',
+    animationDuration: '長さ',
+    playAnimation: 'アニメーションを再生',
+    stopAnimation: 'アニメーションを停止',
+    exportAnimated: 'アニメーション',
+    exportAnimatedHint: '各要素の登場アニメーションを再生します。GIFと動画は少し止まってからループし、HTML5広告は1回だけ再生されます。',
+    exportVideoUnsupported: 'このブラウザはこの動画形式で録画できません。',
+    exportClickTag: 'クリック先URL',
+    exportClickTagHint: '既定のclickTagとして使われます。広告サーバーが独自の計測URLに置き換えます。',
+    addLanguage: '言語を追加',
+    removeLanguage: '言語を削除',
+    exportCampaign: 'キャンペーンZIP',
+    exportCampaignTooltip: 'すべてのサイズと言語を manifest.json 付きの1つのZIPにエクスポート',
+    safeZones: 'セーフゾーン',
+    safeZonesTooltip: 'プラットフォームのUIがバナーを覆う・切り取る範囲を表示',
+    safeZonesUnavailable: 'セーフゾーンはプリセットサイズで利用できます',
+    textCoverage: 'テキスト',
+    textCoverageTooltip: 'テキストが占めるバナーの割合。広告プラットフォームは20%未満を推奨しています。',
+    safeZoneExportWarning: '一部の要素がプラットフォームに覆われる・切り取られる位置にあります。このままエクスポートしますか？',
+    zoneShopHeader: 'ショップのヘッダー',
+    zoneIgGridCrop: 'プロフィールグリッドの切り取り',
+    zoneIgStoryHeader: 'ストーリーのヘッダー',
+    zoneIgStoryReply: '返信バー',
+    zoneFbMobileCrop: 'モバイルでの切り取り',
+    zoneFbProfilePicture: 'プロフィール写真',
+    zoneAppIndicators: 'カルーセルのドット',
+    legibility: '読みやすさ',
+    legibilityTooltip: '背景に対する文字のコントラストを確認 (WCAG)',
+    legibilityChecking: 'コントラストを確認中…',
+    legibilityNoText: '確認するテキスト要素がありません',
+    legibilityRequired: 'WCAG AA の基準は {ratio}',
+    legibilityFixOverlay: 'オーバーレイを濃く',
+    legibilityFixShadow: '影を追加',
+    legibilityFixPlate: '背景プレートを追加',
+    legibilityFixMove: '空いた場所へ移動',
+    legibilityOverlayInsufficient: 'オーバーレイを最大にしてもこのテキストは読みやすくなりません。影か背景プレートをお試しください。',
+    legibilityNoEmptyRegion: 'この要素を置ける空いた場所がありません。',
+    openProject: 'プロジェクトを開く',
+    openProjectTooltip: '.banner.json プロジェクトファイルを開く',
+    saveProject: 'プロジェクトを保存',
+    saveProjectTooltip: 'デザインと画像を .banner.json ファイルに保存して、再度開いたり共有したりできます',
+    projectSaveFailed: 'プロジェクトを保存できませんでした。',
+    projectInvalid: 'このファイルはバナープロジェクトではありません。',
+    projectNewerVersion: 'このプロジェクトは新しいバージョンのアプリで保存されています。ページを再読み込みして更新してから、もう一度お試しください。',
+    designLibrary: 'デザインライブラリ',
+    designLibraryTooltip: '保存したデザインとテンプレート',
+    saveDesign: 'ライブラリに保存',
+    saveDesignTooltip: '「{name}」への変更を保存',
+    saveDesignNewTooltip: 'このバナーをデザインライブラリに保存',
+    saveAsNewDesign: '新規として保存',
+    myDesigns: 'マイデザイン',
+    templates: 'テンプレート',
+    template: 'テンプレート',
+    loadingDesigns: 'デザインを読み込み中…',
+    noDesigns: '保存したデザインはまだありません。',
+    noTemplates: 'テンプレートはまだありません。デザインをテンプレートに設定すると、そこから新しいバナーを作成できます。',
+    useTemplate: 'テンプレートを使う',
+    openDesign: '開く',
+    duplicateDesign: '複製',
+    markTemplate: 'テンプレートにする',
+    unmarkTemplate: 'テンプレート解除',
+    renameDesign: '名前を変更',
+    deleteDesign: 'デザインを削除',
+    confirmDeleteDesign: '「{name}」をライブラリから削除しますか?',
+    designNamePrompt: 'デザイン名',
+    designCopySuffix: '(コピー)',
+    designTooLarge: '背景を縮小してもこのデザインはライブラリに保存できるサイズを超えています。プロジェクトファイルとして保存してください。',
+    designSaveFailed: 'ライブラリに保存できませんでした。',
+    designLoadFailed: 'デザインを読み込めませんでした。',
+    designDeleteFailed: 'デザインを削除できませんでした。',
+    share: '共有',
+    shareTooltip: '確認用の閲覧専用リンクを作成',
+    shareDialogTitle: '確認用に共有',
+    shareHint: 'リンクを知っている人は、このバナーをすべてのサイズと言語で閲覧・ダウンロードできますが、編集はできません。リンクは現在の状態を表示します。後の変更には新しいリンクが必要です。',
+    shareExpiry: 'リンクの有効期限',
+    shareExpiresDay: '1日',
+    shareExpiresWeek: '7日',
+    shareExpiresMonth: '30日',
+    shareExpiresNever: '無期限',
+    shareExpiresOn: '{date} に期限切れ',
+    shareCreate: 'リンクを作成',
+    shareCreating: '作成中…',
+    shareActiveLinks: '有効なリンク',
+    shareLoading: 'リンクを読み込み中…',
+    shareNoLinks: '有効なリンクはありません。',
+    shareCopy: 'コピー',
+    shareCopied: 'コピー済み',
+    shareRevoke: '無効化',
+    confirmRevokeShare: 'このリンクを無効にしますか?リンクを持っている人は開けなくなります。',
+    shareTooLarge: '背景を縮小してもこのバナーは共有できるサイズを超えています。',
+    shareCreateFailed: 'リンクを作成できませんでした。',
+    shareRevokeFailed: 'リンクを無効にできませんでした。',
+    sharedReadOnly: '確認用に共有 · 閲覧のみ',
+    sharedLoading: 'バナーを読み込み中…',
+    sharedNotFound: 'このリンクは存在しないか、無効にされています。',
+    sharedExpired: 'このリンクは期限切れです。',
+    sharedLoadFailed: 'バナーを読み込めませんでした。後でもう一度お試しください。',
+    backgroundCandidates: '背景候補',
+    previewingCandidate: 'プレビュー中 — まだ適用されていません',
+    showCurrentBackground: '現在の背景を表示',
+    applyCandidate: 'この背景を使用',
+    previewCandidate: '候補 {n} をプレビュー',
+    candidateInUse: '使用中',
+    discardCandidate: '候補を削除',
+    candidateCount: 'バリエーション数',
+    generateCostOne: '1 クレジット消費',
+    generateCost: '{count} クレジット消費（1 枚につき 1）',
+    editBackground: '背景を編集',
+    editBackgroundTooltip: 'AI で背景の一部を変更、不要物を消去、または端を拡張',
+    editModeInpaint: '変更',
+    editModeErase: '消去',
+    editModeExtend: '拡張',
+    editMaskHint: 'バナー上で変更したい範囲をなぞってください。',
+    brushSize: 'ブラシ',
+    undoStroke: 'ストロークを取り消す',
+    clearMask: 'クリア',
+    editInstruction: '変更内容を入力',
+    editInstructionPlaceholder: '例：ジャケットを赤にする',
+    extendEdge: '端',
+    extendAmount: '拡張量',
+    edgeLeft: '左',
+    edgeRight: '右',
+    edgeTop: '上',
+    edgeBottom: '下',
+    cancel: 'キャンセル',
+    applyEdit: '編集を適用',
+    editingBackground: '編集中...',
+    editBackgroundFailed: '背景の編集に失敗しました。クレジットは消費されていません。',
   },
   ko: {
     appTitle: 'Banner Pro',
@@ -278,7 +1791,7 @@ export const translations: Record<string, Record<string, string>> = {
     promo1XY: '프로모 1 (X/Y)',
     promo2XY: '프로모 2 (X/Y)',
     exportBtn: '배너 내보내기',
-    exportTooltip: '배너를 JPG로 내보내기',
+    exportTooltip: '배너를 이미지, PDF, 애니메이션 또는 HTML5 광고로 내보내기',
     exportingBtn: '내보내는 중...',
     insufficientCredits: '크레딧 부족',
     subscribeDesc: '더 많은 생성을 위해 프리미엄 구독',
@@ -290,6 +1803,256 @@ export const translations: Record<string, Record<string, string>> = {
     paypalInitError: 'PayPal 결제를 초기화할 수 없습니다.',
     paymentFailed: '결제가 실패했거나 완료되지 않았습니다.',
     paymentError: '결제를 캡처하는 중 오류가 발생했습니다.',
+    layerText: '텍스트',
+    layerPromo: '프로모션',
+    layerImage: '이미지',
+    layerShape: '도형',
+    imageUrl: '이미지 URL',
+    shapeRect: '사각형',
+    shapeEllipse: '타원',
+    moveLayerUp: '앞으로',
+    moveLayerDown: '뒤로',
+    duplicateLayer: '복제',
+    removeLayer: '삭제',
+    undoTooltip: '실행 취소 (Ctrl+Z)',
+    redoTooltip: '다시 실행 (Ctrl+Shift+Z)',
+    presetWebHero: '웹사이트 히어로',
+    presetIgSquare: 'IG 정사각형',
+    presetIgStory: 'IG 스토리',
+    presetFbCover: 'Facebook 커버',
+    presetAppBanner: '앱 배너',
+    customSize: '사용자 지정',
+    addSize: '크기 추가',
+    removeSize: '크기 제거',
+    exportAllSizes: '모든 크기 내보내기',
+    exportAllSizesTooltip: '캠페인의 모든 크기를 JPG로 내보냅니다',
+    layerProduct: '상품',
+    products: '상품',
+    addProduct: '상품 추가',
+    productName: '상품명',
+    salePrice: '할인가',
+    originalPrice: '정가',
+    addToBanner: '배너에 카드 추가',
+    currency: '통화',
+    badgeStyle: '할인 배지',
+    typography: '타이포그래피',
+    fontFamily: '글꼴',
+    fontWeight: '굵기',
+    fontSize: '크기 (px)',
+    letterSpacing: '자간 (em)',
+    lineHeight: '행간',
+    textCase: '대소문자',
+    caseNone: '입력대로',
+    caseUpper: '대문자',
+    caseLower: '소문자',
+    caseCapitalize: '단어 첫 글자',
+    italic: '기울임',
+    textColor: '색상',
+    gradient: '그라데이션',
+    textShadow: '그림자',
+    shadowBlur: '그림자 흐림',
+    highlightRules: '프로모션 강조',
+    copyLanguage: '문구 언어',
+    highlightCategory_currency: '금액',
+    highlightCategory_percent: '퍼센트',
+    highlightCategory_idiom: '할인 문구',
+    highlightCategory_keyword: '세일 키워드',
+    highlightOff: '끔',
+    highlight_accent: '강조',
+    highlight_badge: '배지',
+    highlight_outline: '외곽선',
+    highlight_underline: '밑줄',
+    highlightPattern: '텍스트 또는 패턴',
+    highlightRegex: '정규식',
+    addHighlightRule: '강조 규칙 추가',
+    snap: '스냅',
+    snapTooltip: '다른 요소, 중앙, 삼등분선, 여백에 맞춤 (Alt 키로 해제)',
+    snapMargin: '여백',
+    snapMarginTooltip: '스냅 선으로 사용할 가장자리 여백',
+    alignLeft: '왼쪽 정렬',
+    alignCenter: '가운데 정렬',
+    distributeVertically: '세로 균등 분배',
+    positionX: 'X 위치 (%)',
+    positionY: 'Y 위치 (%)',
+    layerPosition: 'X {x}%, Y {y}%',
+    movableElement: '이동 가능한 요소',
+    keyboardMoveHelp: '화살표 키로 이동하고 Shift로 크게 이동합니다. Esc로 선택 해제.',
+    uploadLogo: '로고 업로드',
+    uploading: '업로드 중…',
+    uploadedImage: '업로드된 이미지',
+    savedLogos: '저장된 로고',
+    deleteLogo: '로고 삭제',
+    imageWidth: '너비',
+    imageOpacity: '불투명도',
+    recolor: '색상 변경',
+    recolorNone: '원본',
+    recolorWhite: '흰색',
+    recolorBlack: '검정',
+    logoTypeError: '로고는 PNG 또는 SVG 파일이어야 합니다.',
+    logoSaveError: '로고가 배너에 추가되었지만 라이브러리에 저장하지 못했습니다.',
+    backgroundPhoto: '배경 사진',
+    uploadBackground: '사진 업로드',
+    dropBackgroundHint: 'JPG, PNG 또는 WebP 사진을 여기에 놓으세요',
+    focalPoint: '초점',
+    focalPointHint: '피사체를 클릭하면 프레임 안에 유지됩니다',
+    backgroundZoom: '확대',
+    resetCrop: '초기화',
+    backgroundTypeError: '배경 사진은 JPG, PNG 또는 WebP 파일이어야 합니다.',
+    backgroundLoadError: '사진을 불러올 수 없습니다.',
+    exportDialogTitle: '배너 내보내기',
+    close: '닫기',
+    exportFormat: '형식',
+    exportSize: '크기',
+    exportExactPixels: '픽셀 지정',
+    exportQuality: '품질',
+    exportTransparent: '투명 배경',
+    exportFilename: '파일 이름',
+    exportFilenameTokens: '자리표시자:',
+    exportSvgHint: '텍스트를 윤곽선으로 변환한 벡터 SVG(서버에서 렌더링).',
+    exportFailed: '내보내기에 실패했습니다. 다른 형식이나 크기를 시도해 보세요.',
+    exportMaxFileSize: '최대 파일 크기',
+    exportNoLimit: '제한 없음',
+    exportMaxFileSizeHint: '파일이 제한에 맞을 때까지 품질을 낮추고 필요하면 형식을 바꿉니다. 마지막 수단으로 세부 묘사를 흐리게 합니다.',
+    exportOverBudget: '최저 품질로 세부 묘사를 흐리게 해도 {limit} 이하로 줄일 수 없습니다.',
+    exportDegraded: '제한에 맞지만 압축 손상이 보일 수 있는 품질입니다.',
+    exportSoftened: '제한에 맞지만 세부 묘사를 흐리게 했고 압축 손상이 보일 수 있습니다.',
+    animation: '애니메이션',
+    animationEffect: '등장 효과',
+    animationNone: '없음',
+    animationFade: '페이드 인',
+    animationSlideFromLeft: '왼쪽에서 슬라이드',
+    animationSlideFromRight: '오른쪽에서 슬라이드',
+    animationSlideFromTop: '위에서 슬라이드',
+    animationSlideFromBottom: '아래에서 슬라이드',
+    animationScale: '확대',
+    animationDelay: '지연',
+    animationDuration: '길이',
+    playAnimation: '애니메이션 재생',
+    stopAnimation: '애니메이션 정지',
+    exportAnimated: '애니메이션',
+    exportAnimatedHint: '각 요소의 등장 애니메이션을 재생합니다. GIF와 동영상은 잠시 멈춘 뒤 반복되고, HTML5 광고는 한 번만 재생됩니다.',
+    exportVideoUnsupported: '이 브라우저는 이 동영상 형식으로 녹화할 수 없습니다.',
+    exportClickTag: '클릭 연결 URL',
+    exportClickTagHint: '기본 clickTag로 사용됩니다. 광고 서버가 자체 추적 URL로 바꿉니다.',
+    addLanguage: '언어 추가',
+    removeLanguage: '언어 삭제',
+    exportCampaign: '캠페인 ZIP',
+    exportCampaignTooltip: '모든 크기와 언어를 manifest.json이 포함된 하나의 ZIP으로 내보내기',
+    safeZones: '안전 영역',
+    safeZonesTooltip: '플랫폼 UI가 배너를 가리거나 잘라내는 영역 표시',
+    safeZonesUnavailable: '안전 영역은 프리셋 크기에서 사용할 수 있습니다',
+    textCoverage: '텍스트',
+    textCoverageTooltip: '텍스트가 차지하는 배너 비율. 광고 플랫폼은 20% 미만을 권장합니다.',
+    safeZoneExportWarning: '일부 요소가 플랫폼이 가리거나 잘라내는 위치에 있습니다. 그래도 내보낼까요?',
+    zoneShopHeader: '쇼핑몰 헤더',
+    zoneIgGridCrop: '프로필 그리드 잘림',
+    zoneIgStoryHeader: '스토리 헤더',
+    zoneIgStoryReply: '답장 바',
+    zoneFbMobileCrop: '모바일 잘림',
+    zoneFbProfilePicture: '프로필 사진',
+    zoneAppIndicators: '캐러셀 점',
+    legibility: '가독성',
+    legibilityTooltip: '배경 대비 텍스트 명암비 확인 (WCAG)',
+    legibilityChecking: '명암비 확인 중…',
+    legibilityNoText: '확인할 텍스트 요소가 없습니다',
+    legibilityRequired: 'WCAG AA 기준은 {ratio}',
+    legibilityFixOverlay: '오버레이 강화',
+    legibilityFixShadow: '그림자 추가',
+    legibilityFixPlate: '배경 판 추가',
+    legibilityFixMove: '빈 영역으로 이동',
+    legibilityOverlayInsufficient: '오버레이를 최대로 해도 이 텍스트는 읽기 어렵습니다. 그림자나 배경 판을 사용해 보세요.',
+    legibilityNoEmptyRegion: '이 요소를 놓을 만큼 넓은 빈 영역이 없습니다.',
+    openProject: '프로젝트 열기',
+    openProjectTooltip: '.banner.json 프로젝트 파일 열기',
+    saveProject: '프로젝트 저장',
+    saveProjectTooltip: '디자인과 이미지를 .banner.json 파일로 저장해 다시 열거나 공유합니다',
+    projectSaveFailed: '프로젝트를 저장하지 못했습니다.',
+    projectInvalid: '이 파일은 배너 프로젝트가 아닙니다.',
+    projectNewerVersion: '이 프로젝트는 더 새로운 버전의 앱에서 저장되었습니다. 페이지를 새로고침해 업데이트한 뒤 다시 시도하세요.',
+    designLibrary: '디자인 라이브러리',
+    designLibraryTooltip: '저장한 디자인과 템플릿',
+    saveDesign: '라이브러리에 저장',
+    saveDesignTooltip: '"{name}"에 변경 사항 저장',
+    saveDesignNewTooltip: '이 배너를 디자인 라이브러리에 저장',
+    saveAsNewDesign: '새로 저장',
+    myDesigns: '내 디자인',
+    templates: '템플릿',
+    template: '템플릿',
+    loadingDesigns: '디자인 불러오는 중…',
+    noDesigns: '저장한 디자인이 아직 없습니다.',
+    noTemplates: '템플릿이 아직 없습니다. 디자인을 템플릿으로 지정하면 그것으로 새 배너를 시작할 수 있습니다.',
+    useTemplate: '템플릿 사용',
+    openDesign: '열기',
+    duplicateDesign: '복제',
+    markTemplate: '템플릿으로 지정',
+    unmarkTemplate: '템플릿 해제',
+    renameDesign: '이름 변경',
+    deleteDesign: '디자인 삭제',
+    confirmDeleteDesign: '"{name}"을(를) 라이브러리에서 삭제할까요?',
+    designNamePrompt: '디자인 이름',
+    designCopySuffix: '(사본)',
+    designTooLarge: '배경을 줄여도 이 디자인은 라이브러리에 저장하기에 너무 큽니다. 대신 프로젝트 파일로 저장하세요.',
+    designSaveFailed: '라이브러리에 저장하지 못했습니다.',
+    designLoadFailed: '디자인을 불러오지 못했습니다.',
+    designDeleteFailed: '디자인을 삭제하지 못했습니다.',
+    share: '공유',
+    shareTooltip: '검토용 읽기 전용 링크 만들기',
+    shareDialogTitle: '검토용으로 공유',
+    shareHint: '링크가 있는 사람은 이 배너를 모든 크기와 언어로 보고 다운로드할 수 있지만 편집할 수는 없습니다. 링크는 현재 상태를 보여 주며, 이후 변경 사항은 새 링크가 필요합니다.',
+    shareExpiry: '링크 만료',
+    shareExpiresDay: '1일',
+    shareExpiresWeek: '7일',
+    shareExpiresMonth: '30일',
+    shareExpiresNever: '만료 없음',
+    shareExpiresOn: '{date} 만료',
+    shareCreate: '링크 만들기',
+    shareCreating: '만드는 중…',
+    shareActiveLinks: '활성 링크',
+    shareLoading: '링크 불러오는 중…',
+    shareNoLinks: '활성 링크가 없습니다.',
+    shareCopy: '복사',
+    shareCopied: '복사됨',
+    shareRevoke: '해지',
+    confirmRevokeShare: '이 링크를 해지할까요? 링크를 가진 사람은 더 이상 열 수 없습니다.',
+    shareTooLarge: '배경을 줄여도 이 배너는 공유하기에 너무 큽니다.',
+    shareCreateFailed: '링크를 만들지 못했습니다.',
+    shareRevokeFailed: '링크를 해지하지 못했습니다.',
+    sharedReadOnly: '검토용 공유 · 읽기 전용',
+    sharedLoading: '배너 불러오는 중…',
+    sharedNotFound: '이 링크는 존재하지 않거나 해지되었습니다.',
+    sharedExpired: '이 링크는 만료되었습니다.',
+    sharedLoadFailed: '배너를 불러오지 못했습니다. 나중에 다시 시도하세요.',
+    backgroundCandidates: '배경 후보',
+    previewingCandidate: '미리보기 중 — 아직 적용되지 않음',
+    showCurrentBackground: '현재 배경 보기',
+    applyCandidate: '이 배경 사용',
+    previewCandidate: '후보 {n} 미리보기',
+    candidateInUse: '사용 중',
+    discardCandidate: '후보 삭제',
+    candidateCount: '변형 수',
+    generateCostOne: '1 크레딧 사용',
+    generateCost: '{count} 크레딧 사용 (이미지당 1)',
+    editBackground: '배경 편집',
+    editBackgroundTooltip: 'AI로 배경 일부를 변경하거나, 지우거나, 가장자리를 확장',
+    editModeInpaint: '변경',
+    editModeErase: '지우기',
+    editModeExtend: '확장',
+    editMaskHint: '배너에서 변경할 영역을 칠하세요.',
+    brushSize: '브러시',
+    undoStroke: '획 취소',
+    clearMask: '지우기',
+    editInstruction: '변경 내용 설명',
+    editInstructionPlaceholder: '예: 재킷을 빨간색으로',
+    extendEdge: '가장자리',
+    extendAmount: '확장량',
+    edgeLeft: '왼쪽',
+    edgeRight: '오른쪽',
+    edgeTop: '위',
+    edgeBottom: '아래',
+    cancel: '취소',
+    applyEdit: '편집 적용',
+    editingBackground: '편집 중...',
+    editBackgroundFailed: '배경 편집에 실패했습니다. 크레딧은 사용되지 않았습니다.',
   },
   'zh-TW': {
     appTitle: 'Banner Pro',
@@ -318,7 +2081,7 @@ export const translations: Record<string, Record<string, string>> = {
     promo1XY: '促銷 1 (X/Y)',
     promo2XY: '促銷 2 (X/Y)',
     exportBtn: '匯出橫幅',
-    exportTooltip: '將橫幅匯出為 JPG',
+    exportTooltip: '將橫幅匯出為圖片、PDF、動畫或 HTML5 廣告',
     exportingBtn: '匯出中...',
     insufficientCredits: '點數不足',
     subscribeDesc: '訂閱 Premium 方案以獲得更多生成次數',
@@ -330,6 +2093,256 @@ export const translations: Record<string, Record<string, string>> = {
     paypalInitError: '無法初始化 PayPal 結帳。',
     paymentFailed: '付款失敗或未完成。',
     paymentError: '擷取付款時發生錯誤。',
+    layerText: '文字',
+    layerPromo: '促銷',
+    layerImage: '圖片',
+    layerShape: '形狀',
+    imageUrl: '圖片網址',
+    shapeRect: '矩形',
+    shapeEllipse: '橢圓',
+    moveLayerUp: '上移一層',
+    moveLayerDown: '下移一層',
+    duplicateLayer: '複製',
+    removeLayer: '刪除',
+    undoTooltip: '復原 (Ctrl+Z)',
+    redoTooltip: '重做 (Ctrl+Shift+Z)',
+    presetWebHero: '官網主視覺',
+    presetIgSquare: 'IG 方形',
+    presetIgStory: 'IG 限時動態',
+    presetFbCover: 'Facebook 封面',
+    presetAppBanner: 'App 橫幅',
+    customSize: '自訂',
+    addSize: '新增尺寸',
+    removeSize: '移除尺寸',
+    exportAllSizes: '匯出所有尺寸',
+    exportAllSizesTooltip: '為此活動的每個尺寸各匯出一張 JPG',
+    layerProduct: '商品',
+    products: '商品',
+    addProduct: '新增商品',
+    productName: '商品名稱',
+    salePrice: '特價',
+    originalPrice: '原價',
+    addToBanner: '加入橫幅',
+    currency: '幣別',
+    badgeStyle: '折扣標籤',
+    typography: '文字樣式',
+    fontFamily: '字型',
+    fontWeight: '字重',
+    fontSize: '字級 (px)',
+    letterSpacing: '字距 (em)',
+    lineHeight: '行高',
+    textCase: '大小寫',
+    caseNone: '依輸入',
+    caseUpper: '全大寫',
+    caseLower: '全小寫',
+    caseCapitalize: '首字大寫',
+    italic: '斜體',
+    textColor: '顏色',
+    gradient: '漸層',
+    textShadow: '陰影',
+    shadowBlur: '陰影模糊',
+    highlightRules: '促銷重點標示',
+    copyLanguage: '文案語言',
+    highlightCategory_currency: '金額',
+    highlightCategory_percent: '百分比',
+    highlightCategory_idiom: '折扣用語',
+    highlightCategory_keyword: '特賣關鍵字',
+    highlightOff: '關閉',
+    highlight_accent: '強調',
+    highlight_badge: '徽章',
+    highlight_outline: '外框',
+    highlight_underline: '底線',
+    highlightPattern: '文字或規則',
+    highlightRegex: '正規表示式',
+    addHighlightRule: '新增標示規則',
+    snap: '吸附',
+    snapTooltip: '吸附至其他元素、中心、三等分線與邊界（按住 Alt 暫停）',
+    snapMargin: '邊界',
+    snapMarginTooltip: '作為吸附線的橫幅邊界距離',
+    alignLeft: '靠左對齊',
+    alignCenter: '置中對齊',
+    distributeVertically: '垂直均分',
+    positionX: 'X 位置 (%)',
+    positionY: 'Y 位置 (%)',
+    layerPosition: 'X {x}%，Y {y}%',
+    movableElement: '可移動元素',
+    keyboardMoveHelp: '使用方向鍵移動此元素，按住 Shift 可大幅移動。按 Esc 取消選取。',
+    uploadLogo: '上傳標誌',
+    uploading: '上傳中…',
+    uploadedImage: '已上傳圖片',
+    savedLogos: '已儲存標誌',
+    deleteLogo: '刪除標誌',
+    imageWidth: '寬度',
+    imageOpacity: '不透明度',
+    recolor: '重新著色',
+    recolorNone: '原色',
+    recolorWhite: '白色',
+    recolorBlack: '黑色',
+    logoTypeError: '標誌必須是 PNG 或 SVG 檔案。',
+    logoSaveError: '標誌已加入橫幅，但無法儲存到您的資料庫。',
+    backgroundPhoto: '背景照片',
+    uploadBackground: '上傳照片',
+    dropBackgroundHint: '將 JPG、PNG 或 WebP 照片拖放到這裡',
+    focalPoint: '焦點',
+    focalPointHint: '點擊主體，讓它保持在畫面中',
+    backgroundZoom: '縮放',
+    resetCrop: '重設',
+    backgroundTypeError: '背景照片必須是 JPG、PNG 或 WebP 檔案。',
+    backgroundLoadError: '無法載入這張照片。',
+    exportDialogTitle: '匯出橫幅',
+    close: '關閉',
+    exportFormat: '格式',
+    exportSize: '尺寸',
+    exportExactPixels: '指定像素',
+    exportQuality: '品質',
+    exportTransparent: '透明背景',
+    exportFilename: '檔名',
+    exportFilenameTokens: '可用變數：',
+    exportSvgHint: '文字已轉為外框的向量 SVG，由伺服器產生。',
+    exportFailed: '匯出失敗，請改用其他格式或尺寸。',
+    exportMaxFileSize: '檔案大小上限',
+    exportNoLimit: '不限',
+    exportMaxFileSizeHint: '會降低畫質，必要時切換格式，直到檔案符合上限。最後手段是柔化細節。',
+    exportOverBudget: '即使使用最低畫質並柔化細節，也無法低於 {limit}。',
+    exportDegraded: '符合上限，但畫質可能出現明顯的壓縮痕跡。',
+    exportSoftened: '符合上限，但細節已柔化，且可能出現明顯的壓縮痕跡。',
+    animation: '動畫',
+    animationEffect: '進場效果',
+    animationNone: '無',
+    animationFade: '淡入',
+    animationSlideFromLeft: '從左側滑入',
+    animationSlideFromRight: '從右側滑入',
+    animationSlideFromTop: '從上方滑入',
+    animationSlideFromBottom: '從下方滑入',
+    animationScale: '放大',
+    animationDelay: '延遲',
+    animationDuration: '長度',
+    playAnimation: '播放動畫',
+    stopAnimation: '停止動畫',
+    exportAnimated: '動態',
+    exportAnimatedHint: '播放每個元素的進場動畫。GIF 與影片會在短暫停留後循環，HTML5 廣告只播放一次。',
+    exportVideoUnsupported: '此瀏覽器無法錄製這種影片格式。',
+    exportClickTag: '點擊連結網址',
+    exportClickTagHint: '作為預設的 clickTag，廣告伺服器會換成自己的追蹤網址。',
+    addLanguage: '新增語言',
+    removeLanguage: '移除語言',
+    exportCampaign: '活動 ZIP',
+    exportCampaignTooltip: '將所有尺寸與語言匯出成一個含 manifest.json 的 ZIP',
+    safeZones: '安全區',
+    safeZonesTooltip: '顯示平台介面會遮住或裁切橫幅的區域',
+    safeZonesUnavailable: '安全區僅適用於預設尺寸',
+    textCoverage: '文字',
+    textCoverageTooltip: '文字佔橫幅的比例。廣告平台建議低於 20%。',
+    safeZoneExportWarning: '部分元素位於平台會遮住或裁切的區域，仍要匯出嗎？',
+    zoneShopHeader: '商店頁首',
+    zoneIgGridCrop: '個人檔案格狀裁切',
+    zoneIgStoryHeader: '限時動態頁首',
+    zoneIgStoryReply: '回覆列',
+    zoneFbMobileCrop: '行動版裁切',
+    zoneFbProfilePicture: '大頭貼照',
+    zoneAppIndicators: '輪播指示點',
+    legibility: '易讀性',
+    legibilityTooltip: '檢查文字與背景的對比 (WCAG)',
+    legibilityChecking: '正在檢查對比…',
+    legibilityNoText: '沒有可檢查的文字元素',
+    legibilityRequired: 'WCAG AA 要求 {ratio}',
+    legibilityFixOverlay: '加深遮罩',
+    legibilityFixShadow: '加入陰影',
+    legibilityFixPlate: '加入底板',
+    legibilityFixMove: '移到空白區域',
+    legibilityOverlayInsufficient: '即使遮罩全開,這段文字仍不易閱讀。請改用陰影或底板。',
+    legibilityNoEmptyRegion: '沒有足夠大的空白區域可放置此元素。',
+    openProject: '開啟專案',
+    openProjectTooltip: '開啟 .banner.json 專案檔',
+    saveProject: '儲存專案',
+    saveProjectTooltip: '將設計與圖片儲存為 .banner.json 檔,方便重新開啟或分享',
+    projectSaveFailed: '無法儲存專案。',
+    projectInvalid: '此檔案不是橫幅專案。',
+    projectNewerVersion: '此專案由較新版本的應用程式儲存。請重新載入頁面更新後再試一次。',
+    designLibrary: '設計庫',
+    designLibraryTooltip: '已儲存的設計與範本',
+    saveDesign: '儲存到設計庫',
+    saveDesignTooltip: '儲存「{name}」的變更',
+    saveDesignNewTooltip: '將此橫幅儲存到設計庫',
+    saveAsNewDesign: '另存新設計',
+    myDesigns: '我的設計',
+    templates: '範本',
+    template: '範本',
+    loadingDesigns: '正在載入設計…',
+    noDesigns: '尚未儲存任何設計。',
+    noTemplates: '尚無範本。將設計標記為範本,即可以它建立新橫幅。',
+    useTemplate: '使用範本',
+    openDesign: '開啟',
+    duplicateDesign: '複製',
+    markTemplate: '設為範本',
+    unmarkTemplate: '取消範本',
+    renameDesign: '重新命名',
+    deleteDesign: '刪除設計',
+    confirmDeleteDesign: '要從設計庫刪除「{name}」嗎?',
+    designNamePrompt: '設計名稱',
+    designCopySuffix: '(副本)',
+    designTooLarge: '即使縮小背景,此設計仍超出設計庫的容量。請改存為專案檔。',
+    designSaveFailed: '無法儲存到設計庫。',
+    designLoadFailed: '無法載入設計。',
+    designDeleteFailed: '無法刪除設計。',
+    share: '分享',
+    shareTooltip: '建立供審閱的唯讀連結',
+    shareDialogTitle: '分享以供審閱',
+    shareHint: '擁有連結的人都能以所有尺寸與語言檢視並下載此橫幅,但無法編輯。連結顯示的是目前的版本,之後的修改需要建立新連結。',
+    shareExpiry: '連結到期',
+    shareExpiresDay: '1 天',
+    shareExpiresWeek: '7 天',
+    shareExpiresMonth: '30 天',
+    shareExpiresNever: '永不',
+    shareExpiresOn: '{date} 到期',
+    shareCreate: '建立連結',
+    shareCreating: '建立中…',
+    shareActiveLinks: '有效連結',
+    shareLoading: '正在載入連結…',
+    shareNoLinks: '沒有有效的連結。',
+    shareCopy: '複製',
+    shareCopied: '已複製',
+    shareRevoke: '撤銷',
+    confirmRevokeShare: '要撤銷此連結嗎?擁有連結的人將無法再開啟。',
+    shareTooLarge: '即使縮小背景,此橫幅仍過大而無法分享。',
+    shareCreateFailed: '無法建立連結。',
+    shareRevokeFailed: '無法撤銷連結。',
+    sharedReadOnly: '分享以供審閱 · 唯讀',
+    sharedLoading: '正在載入橫幅…',
+    sharedNotFound: '此連結不存在或已被撤銷。',
+    sharedExpired: '此連結已過期。',
+    sharedLoadFailed: '無法載入橫幅,請稍後再試。',
+    backgroundCandidates: '背景候選',
+    previewingCandidate: '預覽中 — 尚未套用',
+    showCurrentBackground: '顯示目前背景',
+    applyCandidate: '使用此背景',
+    previewCandidate: '預覽候選 {n}',
+    candidateInUse: '使用中',
+    discardCandidate: '移除候選',
+    candidateCount: '變化數量',
+    generateCostOne: '消耗 1 點數',
+    generateCost: '消耗 {count} 點數（每張 1 點）',
+    editBackground: '編輯背景',
+    editBackgroundTooltip: '用 AI 修改部分背景、擦除物件或延伸邊緣',
+    editModeInpaint: '修改',
+    editModeErase: '擦除',
+    editModeExtend: '延伸',
+    editMaskHint: '在橫幅上塗抹要修改的區域。',
+    brushSize: '筆刷',
+    undoStroke: '復原筆畫',
+    clearMask: '清除',
+    editInstruction: '描述修改內容',
+    editInstructionPlaceholder: '例如：把外套改成紅色',
+    extendEdge: '邊緣',
+    extendAmount: '延伸',
+    edgeLeft: '左',
+    edgeRight: '右',
+    edgeTop: '上',
+    edgeBottom: '下',
+    cancel: '取消',
+    applyEdit: '套用編輯',
+    editingBackground: '編輯中...',
+    editBackgroundFailed: '背景編輯失敗，未扣除點數。',
   },
   'zh-CN': {
     appTitle: 'Banner Pro',
@@ -358,7 +2371,7 @@ export const translations: Record<string, Record<string, string>> = {
     promo1XY: '促销 1 (X/Y)',
     promo2XY: '促销 2 (X/Y)',
     exportBtn: '导出横幅',
-    exportTooltip: '将横幅导出为 JPG',
+    exportTooltip: '将横幅导出为图片、PDF、动画或 HTML5 广告',
     exportingBtn: '导出中...',
     insufficientCredits: '点数不足',
     subscribeDesc: '订阅 Premium 方案以获得更多生成次数',
@@ -370,5 +2383,255 @@ export const translations: Record<string, Record<string, string>> = {
     paypalInitError: '无法初始化 PayPal 结账。',
     paymentFailed: '付款失败或未完成。',
     paymentError: '获取付款时发生错误。',
+    layerText: '文字',
+    layerPromo: '促销',
+    layerImage: '图片',
+    layerShape: '形状',
+    imageUrl: '图片网址',
+    shapeRect: '矩形',
+    shapeEllipse: '椭圆',
+    moveLayerUp: '上移一层',
+    moveLayerDown: '下移一层',
+    duplicateLayer: '复制',
+    removeLayer: '删除',
+    undoTooltip: '撤销 (Ctrl+Z)',
+    redoTooltip: '重做 (Ctrl+Shift+Z)',
+    presetWebHero: '官网主视觉',
+    presetIgSquare: 'IG 方形',
+    presetIgStory: 'IG 快拍',
+    presetFbCover: 'Facebook 封面',
+    presetAppBanner: 'App 横幅',
+    customSize: '自定义',
+    addSize: '添加尺寸',
+    removeSize: '移除尺寸',
+    exportAllSizes: '导出所有尺寸',
+    exportAllSizesTooltip: '为此活动的每个尺寸各导出一张 JPG',
+    layerProduct: '商品',
+    products: '商品',
+    addProduct: '添加商品',
+    productName: '商品名称',
+    salePrice: '特价',
+    originalPrice: '原价',
+    addToBanner: '加入横幅',
+    currency: '币种',
+    badgeStyle: '折扣标签',
+    typography: '文字样式',
+    fontFamily: '字体',
+    fontWeight: '字重',
+    fontSize: '字号 (px)',
+    letterSpacing: '字距 (em)',
+    lineHeight: '行高',
+    textCase: '大小写',
+    caseNone: '按输入',
+    caseUpper: '全大写',
+    caseLower: '全小写',
+    caseCapitalize: '首字母大写',
+    italic: '斜体',
+    textColor: '颜色',
+    gradient: '渐变',
+    textShadow: '阴影',
+    shadowBlur: '阴影模糊',
+    highlightRules: '促销重点标示',
+    copyLanguage: '文案语言',
+    highlightCategory_currency: '金额',
+    highlightCategory_percent: '百分比',
+    highlightCategory_idiom: '折扣用语',
+    highlightCategory_keyword: '特卖关键字',
+    highlightOff: '关闭',
+    highlight_accent: '强调',
+    highlight_badge: '徽章',
+    highlight_outline: '描边',
+    highlight_underline: '下划线',
+    highlightPattern: '文字或规则',
+    highlightRegex: '正则表达式',
+    addHighlightRule: '添加标示规则',
+    snap: '吸附',
+    snapTooltip: '吸附至其他元素、中心、三等分线与边距（按住 Alt 暂停）',
+    snapMargin: '边距',
+    snapMarginTooltip: '作为吸附线的横幅边距',
+    alignLeft: '左对齐',
+    alignCenter: '居中对齐',
+    distributeVertically: '垂直均分',
+    positionX: 'X 位置 (%)',
+    positionY: 'Y 位置 (%)',
+    layerPosition: 'X {x}%，Y {y}%',
+    movableElement: '可移动元素',
+    keyboardMoveHelp: '使用方向键移动此元素，按住 Shift 可大幅移动。按 Esc 取消选择。',
+    uploadLogo: '上传标志',
+    uploading: '上传中…',
+    uploadedImage: '已上传图片',
+    savedLogos: '已保存标志',
+    deleteLogo: '删除标志',
+    imageWidth: '宽度',
+    imageOpacity: '不透明度',
+    recolor: '重新着色',
+    recolorNone: '原色',
+    recolorWhite: '白色',
+    recolorBlack: '黑色',
+    logoTypeError: '标志必须是 PNG 或 SVG 文件。',
+    logoSaveError: '标志已添加到横幅，但无法保存到您的库。',
+    backgroundPhoto: '背景照片',
+    uploadBackground: '上传照片',
+    dropBackgroundHint: '将 JPG、PNG 或 WebP 照片拖放到这里',
+    focalPoint: '焦点',
+    focalPointHint: '点击主体，让它保持在画面中',
+    backgroundZoom: '缩放',
+    resetCrop: '重置',
+    backgroundTypeError: '背景照片必须是 JPG、PNG 或 WebP 文件。',
+    backgroundLoadError: '无法加载这张照片。',
+    exportDialogTitle: '导出横幅',
+    close: '关闭',
+    exportFormat: '格式',
+    exportSize: '尺寸',
+    exportExactPixels: '指定像素',
+    exportQuality: '质量',
+    exportTransparent: '透明背景',
+    exportFilename: '文件名',
+    exportFilenameTokens: '可用变量：',
+    exportSvgHint: '文字已转为轮廓的矢量 SVG，由服务器生成。',
+    exportFailed: '导出失败，请改用其他格式或尺寸。',
+    exportMaxFileSize: '文件大小上限',
+    exportNoLimit: '不限',
+    exportMaxFileSizeHint: '会降低画质，必要时切换格式，直到文件符合上限。最后手段是柔化细节。',
+    exportOverBudget: '即使使用最低画质并柔化细节，也无法低于 {limit}。',
+    exportDegraded: '符合上限，但画质可能出现明显的压缩痕迹。',
+    exportSoftened: '符合上限，但细节已柔化，且可能出现明显的压缩痕迹。',
+    animation: '动画',
+    animationEffect: '进场效果',
+    animationNone: '无',
+    animationFade: '淡入',
+    animationSlideFromLeft: '从左侧滑入',
+    animationSlideFromRight: '从右侧滑入',
+    animationSlideFromTop: '从上方滑入',
+    animationSlideFromBottom: '从下方滑入',
+    animationScale: '放大',
+    animationDelay: '延迟',
+    animationDuration: '时长',
+    playAnimation: '播放动画',
+    stopAnimation: '停止动画',
+    exportAnimated: '动态',
+    exportAnimatedHint: '播放每个元素的进场动画。GIF 与视频会在短暂停留后循环，HTML5 广告只播放一次。',
+    exportVideoUnsupported: '此浏览器无法录制这种视频格式。',
+    exportClickTag: '点击链接网址',
+    exportClickTagHint: '作为默认的 clickTag，广告服务器会替换为自己的跟踪网址。',
+    addLanguage: '添加语言',
+    removeLanguage: '移除语言',
+    exportCampaign: '活动 ZIP',
+    exportCampaignTooltip: '将所有尺寸与语言导出为一个含 manifest.json 的 ZIP',
+    safeZones: '安全区',
+    safeZonesTooltip: '显示平台界面会遮住或裁切横幅的区域',
+    safeZonesUnavailable: '安全区仅适用于预设尺寸',
+    textCoverage: '文字',
+    textCoverageTooltip: '文字占横幅的比例。广告平台建议低于 20%。',
+    safeZoneExportWarning: '部分元素位于平台会遮住或裁切的区域，仍要导出吗？',
+    zoneShopHeader: '商店页眉',
+    zoneIgGridCrop: '主页网格裁切',
+    zoneIgStoryHeader: '快拍页眉',
+    zoneIgStoryReply: '回复栏',
+    zoneFbMobileCrop: '移动端裁切',
+    zoneFbProfilePicture: '头像',
+    zoneAppIndicators: '轮播指示点',
+    legibility: '易读性',
+    legibilityTooltip: '检查文字与背景的对比 (WCAG)',
+    legibilityChecking: '正在检查对比…',
+    legibilityNoText: '没有可检查的文字元素',
+    legibilityRequired: 'WCAG AA 要求 {ratio}',
+    legibilityFixOverlay: '加深遮罩',
+    legibilityFixShadow: '添加阴影',
+    legibilityFixPlate: '添加底板',
+    legibilityFixMove: '移到空白区域',
+    legibilityOverlayInsufficient: '即使遮罩全开,这段文字仍不易阅读。请改用阴影或底板。',
+    legibilityNoEmptyRegion: '没有足够大的空白区域可放置此元素。',
+    openProject: '打开项目',
+    openProjectTooltip: '打开 .banner.json 项目文件',
+    saveProject: '保存项目',
+    saveProjectTooltip: '将设计与图片保存为 .banner.json 文件,便于重新打开或分享',
+    projectSaveFailed: '无法保存项目。',
+    projectInvalid: '此文件不是横幅项目。',
+    projectNewerVersion: '此项目由较新版本的应用保存。请重新加载页面更新后再试一次。',
+    designLibrary: '设计库',
+    designLibraryTooltip: '已保存的设计与模板',
+    saveDesign: '保存到设计库',
+    saveDesignTooltip: '保存「{name}」的更改',
+    saveDesignNewTooltip: '将此横幅保存到设计库',
+    saveAsNewDesign: '另存为新设计',
+    myDesigns: '我的设计',
+    templates: '模板',
+    template: '模板',
+    loadingDesigns: '正在加载设计…',
+    noDesigns: '尚未保存任何设计。',
+    noTemplates: '尚无模板。将设计标记为模板,即可基于它创建新横幅。',
+    useTemplate: '使用模板',
+    openDesign: '打开',
+    duplicateDesign: '复制',
+    markTemplate: '设为模板',
+    unmarkTemplate: '取消模板',
+    renameDesign: '重命名',
+    deleteDesign: '删除设计',
+    confirmDeleteDesign: '要从设计库删除「{name}」吗?',
+    designNamePrompt: '设计名称',
+    designCopySuffix: '(副本)',
+    designTooLarge: '即使缩小背景,此设计仍超出设计库的容量。请改存为项目文件。',
+    designSaveFailed: '无法保存到设计库。',
+    designLoadFailed: '无法加载设计。',
+    designDeleteFailed: '无法删除设计。',
+    share: '分享',
+    shareTooltip: '创建供审阅的只读链接',
+    shareDialogTitle: '分享以供审阅',
+    shareHint: '拥有链接的人都能以所有尺寸和语言查看并下载此横幅,但无法编辑。链接显示的是当前版本,之后的修改需要创建新链接。',
+    shareExpiry: '链接到期',
+    shareExpiresDay: '1 天',
+    shareExpiresWeek: '7 天',
+    shareExpiresMonth: '30 天',
+    shareExpiresNever: '永不',
+    shareExpiresOn: '{date} 到期',
+    shareCreate: '创建链接',
+    shareCreating: '创建中…',
+    shareActiveLinks: '有效链接',
+    shareLoading: '正在加载链接…',
+    shareNoLinks: '没有有效的链接。',
+    shareCopy: '复制',
+    shareCopied: '已复制',
+    shareRevoke: '撤销',
+    confirmRevokeShare: '要撤销此链接吗?拥有链接的人将无法再打开。',
+    shareTooLarge: '即使缩小背景,此横幅仍过大而无法分享。',
+    shareCreateFailed: '无法创建链接。',
+    shareRevokeFailed: '无法撤销链接。',
+    sharedReadOnly: '分享以供审阅 · 只读',
+    sharedLoading: '正在加载横幅…',
+    sharedNotFound: '此链接不存在或已被撤销。',
+    sharedExpired: '此链接已过期。',
+    sharedLoadFailed: '无法加载横幅,请稍后再试。',
+    backgroundCandidates: '背景候选',
+    previewingCandidate: '预览中 — 尚未应用',
+    showCurrentBackground: '显示当前背景',
+    applyCandidate: '使用此背景',
+    previewCandidate: '预览候选 {n}',
+    candidateInUse: '使用中',
+    discardCandidate: '移除候选',
+    candidateCount: '变体数量',
+    generateCostOne: '消耗 1 点数',
+    generateCost: '消耗 {count} 点数（每张 1 点）',
+    editBackground: '编辑背景',
+    editBackgroundTooltip: '用 AI 修改部分背景、擦除物体或扩展边缘',
+    editModeInpaint: '修改',
+    editModeErase: '擦除',
+    editModeExtend: '扩展',
+    editMaskHint: '在横幅上涂抹要修改的区域。',
+    brushSize: '笔刷',
+    undoStroke: '撤销笔画',
+    clearMask: '清除',
+    editInstruction: '描述修改内容',
+    editInstructionPlaceholder: '例如：把外套改成红色',
+    extendEdge: '边缘',
+    extendAmount: '扩展',
+    edgeLeft: '左',
+    edgeRight: '右',
+    edgeTop: '上',
+    edgeBottom: '下',
+    cancel: '取消',
+    applyEdit: '应用编辑',
+    editingBackground: '编辑中...',
+    editBackgroundFailed: '背景编辑失败，未扣除点数。',
   }
 };
@@ -2,15 +2,19 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import SharedBannerPage from './components/SharedBannerPage';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Share links open a read-only page instead of the editor.
+const shareMatch = window.location.pathname.match(/^\/share\/([\w-]+)\/?$/);
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {shareMatch ? <SharedBannerPage token={shareMatch[1]} /> : <App />}
   </React.StrictMode>
 );
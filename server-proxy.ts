@@ -5,13 +5,14 @@
  * 
  * PRE-REQUISITES:
  * 1. npm install firebase-admin @google/genai
- * 2. Set process.env.API_KEY (Gemini)
+ * 2. Set process.env.GEMINI_API_KEY (Gemini), or GENERATION_PROVIDER=local to work offline
  * 3. Set Google Application Credentials for Firebase Admin
  */
 
-import { GoogleGenAI } from "@google/genai";
 import * as admin from "firebase-admin";
 import Stripe from "stripe";
+import { randomBytes } from "crypto";
+import { IMAGE_EDGES, editBackground, generateBackground, getGenerationProvider, type BackgroundEdit } from "./server-generation.ts";
 
 let stripeClient: Stripe | null = null;
 const getStripe = () => {
@@ -33,20 +34,42 @@ try {
 } catch (error) {
   console.warn("Firebase Admin initialization failed. Using mock DB.", error);
   // Mock DB implementation for dev environment without credentials
-  const mockUsers: Record<string, any> = {};
-  db = {
-    collection: (name: string) => ({
-      doc: (id: string) => ({
-        get: async () => ({
-          exists: !!mockUsers[id],
-          data: () => mockUsers[id]
-        }),
-        set: async (data: any) => { mockUsers[id] = data; },
-        update: async (data: any) => { 
-            if(mockUsers[id]) mockUsers[id] = { ...mockUsers[id], ...data }; 
-        }
-      })
+  const mockCollections: Record<string, Record<string, any>> = {};
+  const mockDoc = (store: Record<string, any>, id: string) => ({
+    id,
+    get: async () => ({
+      id,
+      exists: !!store[id],
+      data: () => store[id]
     }),
+    set: async (data: any) => { store[id] = data; },
+    update: async (data: any) => { 
+        if(store[id]) store[id] = { ...store[id], ...data }; 
+    },
+    delete: async () => { delete store[id]; }
+  });
+  const mockQuery = (store: Record<string, any>, filters: [string, any][]) => ({
+    where: (field: string, _op: string, value: any) => mockQuery(store, [...filters, [field, value]]),
+    get: async () => {
+      const docs = Object.entries(store)
+        .filter(([, data]) => filters.every(([field, value]) => data[field] === value))
+        .map(([id, data]) => ({ id, exists: true, data: () => data }));
+      return { docs, empty: docs.length === 0 };
+    }
+  });
+  db = {
+    collection: (name: string) => {
+      const store = (mockCollections[name] ||= {});
+      return {
+        doc: (id: string = Math.random().toString(36).slice(2, 12)) => mockDoc(store, id),
+        add: async (data: any) => {
+          const ref = mockDoc(store, Math.random().toString(36).slice(2, 12));
+          await ref.set(data);
+          return ref;
+        },
+        ...mockQuery(store, [])
+      };
+    },
     runTransaction: async (callback: any) => {
       // Simple mock transaction
       return callback({
@@ -282,73 +305,551 @@ export const handleGetUser = async (req: any, res: any) => {
   }
 };
 
-// --- ENDPOINT: Generate Background ---
-export const handleDeductCredit = async (req: any, res: any) => {
-  if (req.method !== 'POST') {
-    return res.status(405).json({ message: 'Method Not Allowed' });
+// --- GENERATION ---
+// The provider's keys stay on the server; clients only ever see the generated results.
+const MAX_PROMPT_LENGTH = 4000;
+// Background candidates per request; each one costs a credit.
+const MAX_BACKGROUND_CANDIDATES = 4;
+const MAX_BACKGROUND_EDGE = 10000;
+// Used when the client doesn't send the banner's size.
+const DEFAULT_BACKGROUND_SIZE = { width: 16, height: 9 };
+
+const isBackgroundEdge = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 1 && value <= MAX_BACKGROUND_EDGE;
+
+/**
+ * Takes one credit per result, runs `generate` that many times, and gives back the credits for
+ * any runs that fail, so users only pay for results. Fails only if every run fails. Returns
+ * the results with the balance after the charge.
+ */
+const withCreditCharge = async <T>(email: string, count: number, generate: (index: number) => Promise<T>): Promise<{ results: T[]; credits: number }> => {
+  const userRef = db.collection('users').doc(email);
+  let credits = 0;
+  await db.runTransaction(async (t: any) => {
+    const doc = await t.get(userRef);
+    if (!doc.exists) {
+      throw new Error("User not found");
+    }
+    const data = doc.data();
+    if (!data || data.credits < count) {
+      throw new Error("Insufficient credits");
+    }
+    credits = data.credits - count;
+    t.update(userRef, { credits });
+  });
+
+  const settled = await Promise.allSettled(Array.from({ length: count }, (_, index) => generate(index)));
+  const results = settled.flatMap(outcome => (outcome.status === 'fulfilled' ? [outcome.value] : []));
+  const failed = count - results.length;
+  if (failed > 0) {
+    try {
+      await db.runTransaction(async (t: any) => {
+        const doc = await t.get(userRef);
+        t.update(userRef, { credits: (doc.data()?.credits || 0) + failed });
+      });
+      credits += failed;
+    } catch (refundError) {
+      console.error("Failed to refund credit:", refundError);
+    }
+  }
+  if (results.length === 0) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+  return { results, credits };
+};
+
+const generationErrorStatus = (error: any) =>
+  error.message === "Insufficient credits" ? 403 : error.message === "User not found" ? 404 : 500;
+
+export const handleGeneratePrompt = async (req: any, res: any) => {
+  if (req.method !== 'POST') return res.status(405).json({ message: 'Method Not Allowed' });
+
+  const { email, theme } = req.body;
+  if (!email || !theme) {
+    return res.status(400).json({ message: 'Email and theme are required' });
+  }
+  if (typeof theme !== 'string' || theme.length > MAX_PROMPT_LENGTH) {
+    return res.status(400).json({ message: `Theme must be text of at most ${MAX_PROMPT_LENGTH} characters` });
+  }
+
+  try {
+    const provider = getGenerationProvider();
+    const { results: [prompt], credits } = await withCreditCharge(email, 1, () => provider.generatePrompt(theme));
+    res.status(200).json({ prompt, credits });
+  } catch (error: any) {
+    console.error("Generate Prompt Error:", error);
+    res.status(generationErrorStatus(error)).json({ message: error.message || 'Internal Server Error' });
+  }
+};
+
+export const handleGenerateBackground = async (req: any, res: any) => {
+  if (req.method !== 'POST') return res.status(405).json({ message: 'Method Not Allowed' });
+
+  const { email, prompt, count = 1, width, height } = req.body;
+  if (!email || !prompt) {
+    return res.status(400).json({ message: 'Email and prompt are required' });
+  }
+  if (typeof prompt !== 'string' || prompt.length > MAX_PROMPT_LENGTH) {
+    return res.status(400).json({ message: `Prompt must be text of at most ${MAX_PROMPT_LENGTH} characters` });
+  }
+  if (!Number.isInteger(count) || count < 1 || count > MAX_BACKGROUND_CANDIDATES) {
+    return res.status(400).json({ message: `Count must be between 1 and ${MAX_BACKGROUND_CANDIDATES}` });
+  }
+  if ((width !== undefined || height !== undefined) && !(isBackgroundEdge(width) && isBackgroundEdge(height))) {
+    return res.status(400).json({ message: `Width and height must be between 1 and ${MAX_BACKGROUND_EDGE}` });
+  }
+  const size = width !== undefined ? { width, height } : DEFAULT_BACKGROUND_SIZE;
+
+  try {
+    const provider = getGenerationProvider();
+    const { results: imageUrls, credits } = await withCreditCharge(email, count, variation =>
+      generateBackground(provider, prompt, size, variation)
+    );
+    // `imageUrl` is kept for clients that ask for a single image.
+    res.status(200).json({ imageUrl: imageUrls[0], imageUrls, credits });
+  } catch (error: any) {
+    console.error("Generate Background Error:", error);
+    res.status(generationErrorStatus(error)).json({ message: error.message || 'Internal Server Error' });
+  }
+};
+
+// The JSON body limit is 2 MB, shared between the image and its mask.
+const MAX_EDIT_IMAGE_LENGTH = 1500 * 1024;
+const MAX_EDIT_MASK_LENGTH = 400 * 1024;
+// Raster images only: the model can't edit SVG, and the client sends JPEG anyway. The body
+// must be plain base64, as the local provider writes these URLs into SVG attributes.
+const EDIT_IMAGE_PATTERN = /^data:image\/(jpeg|png|webp);base64,[A-Za-z0-9+/]+=*$/;
+const EDIT_MASK_PATTERN = /^data:image\/png;base64,[A-Za-z0-9+/]+=*$/;
+const DEFAULT_EXTEND_AMOUNT = 0.25;
+
+const validateBackgroundEdit = (body: any): { edit: BackgroundEdit } | { status: number; message: string } => {
+  const { image, mode, mask, instruction, edge, amount = DEFAULT_EXTEND_AMOUNT, prompt = '' } = body;
+  if (typeof image !== 'string' || !EDIT_IMAGE_PATTERN.test(image)) {
+    return { status: 400, message: 'Image must be a JPEG, PNG or WebP data URL' };
   }
+  if (image.length > MAX_EDIT_IMAGE_LENGTH) return { status: 413, message: 'Image is too large' };
+
+  if (mode === 'extend') {
+    if (!IMAGE_EDGES.includes(edge)) return { status: 400, message: `Edge must be one of ${IMAGE_EDGES.join(', ')}` };
+    if (typeof amount !== 'number' || !(amount >= 0.05 && amount <= 1)) {
+      return { status: 400, message: 'Amount must be between 0.05 and 1' };
+    }
+    if (typeof prompt !== 'string' || prompt.length > MAX_PROMPT_LENGTH) {
+      return { status: 400, message: `Prompt must be text of at most ${MAX_PROMPT_LENGTH} characters` };
+    }
+    return { edit: { mode, image, edge, amount, prompt } };
+  }
+
+  if (mode !== 'inpaint' && mode !== 'erase') return { status: 400, message: 'Mode must be inpaint, erase or extend' };
+  if (typeof mask !== 'string' || !EDIT_MASK_PATTERN.test(mask)) return { status: 400, message: 'Mask must be a PNG data URL' };
+  if (mask.length > MAX_EDIT_MASK_LENGTH) return { status: 413, message: 'Mask is too large' };
+  if (mode === 'erase') return { edit: { mode, image, mask } };
+  if (typeof instruction !== 'string' || !instruction.trim() || instruction.length > MAX_PROMPT_LENGTH) {
+    return { status: 400, message: `Instruction must be text of at most ${MAX_PROMPT_LENGTH} characters` };
+  }
+  return { edit: { mode, image, mask, instruction: instruction.trim() } };
+};
+
+/**
+ * Repaints or erases a masked area of a background, or extends one of its edges. Charged one
+ * credit, like a generation.
+ */
+export const handleEditBackground = async (req: any, res: any) => {
+  if (req.method !== 'POST') return res.status(405).json({ message: 'Method Not Allowed' });
 
   const { email } = req.body;
-  const amount = 1; // Hardcoded to prevent client manipulation
+  if (!email) {
+    return res.status(400).json({ message: 'Email is required' });
+  }
+  const validated = validateBackgroundEdit(req.body);
+  if (!('edit' in validated)) {
+    return res.status(validated.status).json({ message: validated.message });
+  }
+
+  try {
+    const provider = getGenerationProvider();
+    const { results: [imageUrl], credits } = await withCreditCharge(email, 1, () => editBackground(provider, validated.edit));
+    res.status(200).json({ imageUrl, credits });
+  } catch (error: any) {
+    console.error("Edit Background Error:", error);
+    res.status(generationErrorStatus(error)).json({ message: error.message || 'Internal Server Error' });
+  }
+};
 
+// --- LOGO LIBRARY ---
+// Firestore documents are capped at 1 MiB, so keep encoded logos well under that.
+const MAX_LOGO_DATA_URL_LENGTH = 700 * 1024;
+const LOGO_DATA_URL_PATTERN = /^data:image\/(png|svg\+xml);base64,/;
+
+export const handleListLogos = async (req: any, res: any) => {
+  const email = req.query.email;
   if (!email) {
     return res.status(400).json({ message: 'Email is required' });
   }
 
-  const userRef = db.collection('users').doc(email);
+  try {
+    const snapshot = await db.collection('logos').where('ownerEmail', '==', email).get();
+    const logos = snapshot.docs
+      .map((doc: any) => {
+        const data = doc.data();
+        return { id: doc.id, name: data.name, dataUrl: data.dataUrl, createdAt: data.createdAt };
+      })
+      .sort((a: any, b: any) => String(b.createdAt).localeCompare(String(a.createdAt)));
+    res.status(200).json({ logos });
+  } catch (error: any) {
+    console.error("List Logos Error:", error);
+    res.status(500).json({ message: 'Failed to load logos' });
+  }
+};
+
+export const handleSaveLogo = async (req: any, res: any) => {
+  if (req.method !== 'POST') return res.status(405).json({ message: 'Method Not Allowed' });
+
+  const { email, name, dataUrl } = req.body;
+  if (!email || !dataUrl) {
+    return res.status(400).json({ message: 'Email and dataUrl are required' });
+  }
+  if (typeof dataUrl !== 'string' || !LOGO_DATA_URL_PATTERN.test(dataUrl)) {
+    return res.status(400).json({ message: 'Logo must be a PNG or SVG image' });
+  }
+  if (dataUrl.length > MAX_LOGO_DATA_URL_LENGTH) {
+    return res.status(413).json({ message: 'Logo file is too large' });
+  }
 
   try {
-    let newCredits = 0;
-    await db.runTransaction(async (t: any) => {
-      const doc = await t.get(userRef);
-      if (!doc.exists) {
-        throw new Error("User not found");
-      }
-      const data = doc.data();
-      if (!data || data.credits < amount) {
-        throw new Error("Insufficient credits");
-      }
-      newCredits = data.credits - amount;
-      t.update(userRef, { credits: newCredits });
-    });
+    const logo = {
+      ownerEmail: email,
+      name: String(name || 'logo').slice(0, 120),
+      dataUrl,
+      createdAt: new Date().toISOString()
+    };
+    const ref = await db.collection('logos').add(logo);
+    res.status(200).json({ id: ref.id, name: logo.name, dataUrl: logo.dataUrl, createdAt: logo.createdAt });
+  } catch (error: any) {
+    console.error("Save Logo Error:", error);
+    res.status(500).json({ message: 'Failed to save logo' });
+  }
+};
+
+export const handleDeleteLogo = async (req: any, res: any) => {
+  const email = req.query.email;
+  const { id } = req.params;
+  if (!email || !id) {
+    return res.status(400).json({ message: 'Email and logo id are required' });
+  }
 
-    res.status(200).json({ credits: newCredits });
+  try {
+    const ref = db.collection('logos').doc(id);
+    const doc = await ref.get();
+    if (!doc.exists || doc.data().ownerEmail !== email) {
+      return res.status(404).json({ message: 'Logo not found' });
+    }
+    await ref.delete();
+    res.status(200).json({ success: true });
   } catch (error: any) {
-    console.error("Deduct Credit Error:", error);
-    const statusCode = error.message === "Insufficient credits" ? 403 : 500;
-    res.status(statusCode).json({ message: error.message || 'Internal Server Error' });
+    console.error("Delete Logo Error:", error);
+    res.status(500).json({ message: 'Failed to delete logo' });
   }
 };
 
-export const handleRefundCredit = async (req: any, res: any) => {
-  if (req.method !== 'POST') {
-    return res.status(405).json({ message: 'Method Not Allowed' });
+// --- DESIGN LIBRARY ---
+// Configs are stored as JSON text: Firestore rejects the undefined fields a config may hold,
+// and documents are capped at 1 MiB.
+const MAX_DESIGN_CONFIG_LENGTH = 900 * 1024;
+const MAX_DESIGN_THUMBNAIL_LENGTH = 64 * 1024;
+const DESIGN_THUMBNAIL_PATTERN = /^data:image\/(jpeg|png|webp);base64,/;
+
+const designSummary = (id: string, data: any) => ({
+  id,
+  name: data.name,
+  isTemplate: !!data.isTemplate,
+  thumbnail: data.thumbnail ?? null,
+  createdAt: data.createdAt,
+  updatedAt: data.updatedAt
+});
+
+/**
+ * Checks the parts of a design a client may send, returning the fields to store or an error.
+ */
+const validateDesignFields = (body: any): { fields: Record<string, any> } | { status: number; message: string } => {
+  const fields: Record<string, any> = {};
+  if (body.name !== undefined) fields.name = String(body.name || 'Untitled').slice(0, 120);
+  if (body.isTemplate !== undefined) fields.isTemplate = !!body.isTemplate;
+  if (body.config !== undefined) {
+    if (!body.config || typeof body.config !== 'object' || !Array.isArray(body.config.layers)) {
+      return { status: 400, message: 'Design config is invalid' };
+    }
+    fields.config = JSON.stringify(body.config);
+    if (fields.config.length > MAX_DESIGN_CONFIG_LENGTH) return { status: 413, message: 'Design is too large' };
+  }
+  if (body.thumbnail !== undefined && body.thumbnail !== null) {
+    if (typeof body.thumbnail !== 'string' || !DESIGN_THUMBNAIL_PATTERN.test(body.thumbnail)) {
+      return { status: 400, message: 'Thumbnail must be a JPEG, PNG or WebP image' };
+    }
+    if (body.thumbnail.length > MAX_DESIGN_THUMBNAIL_LENGTH) return { status: 413, message: 'Thumbnail is too large' };
   }
+  if (body.thumbnail !== undefined) fields.thumbnail = body.thumbnail;
+  return { fields };
+};
 
+/**
+ * Loads a design if it belongs to `email`; other users' designs look the same as missing ones.
+ */
+const getOwnedDesign = async (id: string, email: string) => {
+  const ref = db.collection('designs').doc(id);
+  const doc = await ref.get();
+  return doc.exists && doc.data().ownerEmail === email ? { ref, data: doc.data() } : null;
+};
+
+export const handleListDesigns = async (req: any, res: any) => {
+  const email = req.query.email;
+  if (!email) {
+    return res.status(400).json({ message: 'Email is required' });
+  }
+
+  try {
+    const snapshot = await db.collection('designs').where('ownerEmail', '==', email).get();
+    const designs = snapshot.docs
+      .map((doc: any) => designSummary(doc.id, doc.data()))
+      .sort((a: any, b: any) => String(b.updatedAt).localeCompare(String(a.updatedAt)));
+    res.status(200).json({ designs });
+  } catch (error: any) {
+    console.error("List Designs Error:", error);
+    res.status(500).json({ message: 'Failed to load designs' });
+  }
+};
+
+export const handleGetDesign = async (req: any, res: any) => {
+  const email = req.query.email;
+  const { id } = req.params;
+  if (!email || !id) {
+    return res.status(400).json({ message: 'Email and design id are required' });
+  }
+
+  try {
+    const design = await getOwnedDesign(id, email);
+    if (!design) {
+      return res.status(404).json({ message: 'Design not found' });
+    }
+    res.status(200).json({ design: { ...designSummary(id, design.data), config: JSON.parse(design.data.config) } });
+  } catch (error: any) {
+    console.error("Get Design Error:", error);
+    res.status(500).json({ message: 'Failed to load design' });
+  }
+};
+
+export const handleCreateDesign = async (req: any, res: any) => {
+  const { email } = req.body;
+  if (!email || !req.body.config) {
+    return res.status(400).json({ message: 'Email and config are required' });
+  }
+  const validated = validateDesignFields(req.body);
+  if ('status' in validated) {
+    return res.status(validated.status).json({ message: validated.message });
+  }
+
+  try {
+    const now = new Date().toISOString();
+    const design = {
+      name: 'Untitled',
+      isTemplate: false,
+      thumbnail: null,
+      ...validated.fields,
+      ownerEmail: email,
+      createdAt: now,
+      updatedAt: now
+    };
+    const ref = await db.collection('designs').add(design);
+    res.status(200).json({ design: designSummary(ref.id, design) });
+  } catch (error: any) {
+    console.error("Create Design Error:", error);
+    res.status(500).json({ message: 'Failed to save design' });
+  }
+};
+
+export const handleUpdateDesign = async (req: any, res: any) => {
   const { email } = req.body;
-  const amount = 1; // Hardcoded to prevent client manipulation
+  const { id } = req.params;
+  if (!email || !id) {
+    return res.status(400).json({ message: 'Email and design id are required' });
+  }
+  const validated = validateDesignFields(req.body);
+  if ('status' in validated) {
+    return res.status(validated.status).json({ message: validated.message });
+  }
+
+  try {
+    const design = await getOwnedDesign(id, email);
+    if (!design) {
+      return res.status(404).json({ message: 'Design not found' });
+    }
+    const updates = { ...validated.fields, updatedAt: new Date().toISOString() };
+    await design.ref.update(updates);
+    res.status(200).json({ design: designSummary(id, { ...design.data, ...updates }) });
+  } catch (error: any) {
+    console.error("Update Design Error:", error);
+    res.status(500).json({ message: 'Failed to save design' });
+  }
+};
 
+export const handleDuplicateDesign = async (req: any, res: any) => {
+  const { email, name } = req.body;
+  const { id } = req.params;
+  if (!email || !id) {
+    return res.status(400).json({ message: 'Email and design id are required' });
+  }
+
+  try {
+    const source = await getOwnedDesign(id, email);
+    if (!source) {
+      return res.status(404).json({ message: 'Design not found' });
+    }
+    const now = new Date().toISOString();
+    const design = {
+      ...source.data,
+      name: String(name || source.data.name).slice(0, 120),
+      isTemplate: false,
+      createdAt: now,
+      updatedAt: now
+    };
+    const ref = await db.collection('designs').add(design);
+    res.status(200).json({ design: designSummary(ref.id, design) });
+  } catch (error: any) {
+    console.error("Duplicate Design Error:", error);
+    res.status(500).json({ message: 'Failed to duplicate design' });
+  }
+};
+
+export const handleDeleteDesign = async (req: any, res: any) => {
+  const email = req.query.email;
+  const { id } = req.params;
+  if (!email || !id) {
+    return res.status(400).json({ message: 'Email and design id are required' });
+  }
+
+  try {
+    const design = await getOwnedDesign(id, email);
+    if (!design) {
+      return res.status(404).json({ message: 'Design not found' });
+    }
+    await design.ref.delete();
+    res.status(200).json({ success: true });
+  } catch (error: any) {
+    console.error("Delete Design Error:", error);
+    res.status(500).json({ message: 'Failed to delete design' });
+  }
+};
+
+// --- SHARE LINKS ---
+// Share links are read-only snapshots of a banner. The token is the document id; 24 random
+// bytes make links unguessable.
+const SHARE_TOKEN_BYTES = 24;
+const MAX_SHARE_DAYS = 365;
+
+const shareSummary = (token: string, data: any) => ({
+  token,
+  name: data.name,
+  createdAt: data.createdAt,
+  expiresAt: data.expiresAt ?? null
+});
+
+const isShareExpired = (data: any) => !!data.expiresAt && Date.parse(data.expiresAt) <= Date.now();
+
+export const handleCreateShare = async (req: any, res: any) => {
+  const { email, name, config, expiresInDays } = req.body;
+  if (!email || !config) {
+    return res.status(400).json({ message: 'Email and config are required' });
+  }
+  if (typeof config !== 'object' || !Array.isArray(config.layers)) {
+    return res.status(400).json({ message: 'Design config is invalid' });
+  }
+  if (expiresInDays != null && !(Number(expiresInDays) > 0 && Number(expiresInDays) <= MAX_SHARE_DAYS)) {
+    return res.status(400).json({ message: `Expiry must be between 1 and ${MAX_SHARE_DAYS} days` });
+  }
+  const configJson = JSON.stringify(config);
+  if (configJson.length > MAX_DESIGN_CONFIG_LENGTH) {
+    return res.status(413).json({ message: 'Design is too large' });
+  }
+
+  try {
+    const token = randomBytes(SHARE_TOKEN_BYTES).toString('base64url');
+    const now = new Date();
+    const share = {
+      ownerEmail: email,
+      name: String(name || 'Banner').slice(0, 120),
+      config: configJson,
+      createdAt: now.toISOString(),
+      expiresAt: expiresInDays != null ? new Date(now.getTime() + Number(expiresInDays) * 86400000).toISOString() : null
+    };
+    await db.collection('shares').doc(token).set(share);
+    res.status(200).json({ share: shareSummary(token, share) });
+  } catch (error: any) {
+    console.error("Create Share Error:", error);
+    res.status(500).json({ message: 'Failed to create share link' });
+  }
+};
+
+export const handleListShares = async (req: any, res: any) => {
+  const email = req.query.email;
   if (!email) {
     return res.status(400).json({ message: 'Email is required' });
   }
 
-  const userRef = db.collection('users').doc(email);
+  try {
+    const snapshot = await db.collection('shares').where('ownerEmail', '==', email).get();
+    const shares = snapshot.docs
+      .filter((doc: any) => !isShareExpired(doc.data()))
+      .map((doc: any) => shareSummary(doc.id, doc.data()))
+      .sort((a: any, b: any) => String(b.createdAt).localeCompare(String(a.createdAt)));
+    res.status(200).json({ shares });
+  } catch (error: any) {
+    console.error("List Shares Error:", error);
+    res.status(500).json({ message: 'Failed to load share links' });
+  }
+};
+
+/**
+ * Revoking deletes the snapshot, so the link stops working immediately.
+ */
+export const handleRevokeShare = async (req: any, res: any) => {
+  const email = req.query.email;
+  const { token } = req.params;
+  if (!email || !token) {
+    return res.status(400).json({ message: 'Email and share token are required' });
+  }
 
   try {
-    let newCredits = 0;
-    await db.runTransaction(async (t: any) => {
-      const doc = await t.get(userRef);
-      if (!doc.exists) {
-        throw new Error("User not found");
-      }
-      const data = doc.data();
-      newCredits = data.credits + amount;
-      t.update(userRef, { credits: newCredits });
-    });
+    const ref = db.collection('shares').doc(token);
+    const doc = await ref.get();
+    if (!doc.exists || doc.data().ownerEmail !== email) {
+      return res.status(404).json({ message: 'Share link not found' });
+    }
+    await ref.delete();
+    res.status(200).json({ success: true });
+  } catch (error: any) {
+    console.error("Revoke Share Error:", error);
+    res.status(500).json({ message: 'Failed to revoke share link' });
+  }
+};
 
-    res.status(200).json({ credits: newCredits });
+/**
+ * Public endpoint behind a share link. Anyone with the token may view the banner.
+ */
+export const handleGetSharedBanner = async (req: any, res: any) => {
+  const { token } = req.params;
+
+  try {
+    const doc = await db.collection('shares').doc(String(token)).get();
+    if (!doc.exists) {
+      return res.status(404).json({ message: 'Share link not found' });
+    }
+    const data = doc.data();
+    if (isShareExpired(data)) {
+      return res.status(410).json({ message: 'Share link has expired' });
+    }
+    res.status(200).json({ name: data.name, config: JSON.parse(data.config), expiresAt: data.expiresAt ?? null });
   } catch (error: any) {
-    console.error("Refund Credit Error:", error);
-    res.status(500).json({ message: error.message || 'Internal Server Error' });
+    console.error("Get Shared Banner Error:", error);
+    res.status(500).json({ message: 'Failed to load shared banner' });
   }
 };
@@ -0,0 +1,402 @@
+import { lookup } from 'node:dns/promises';
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { BlockList } from 'node:net';
+import path from 'node:path';
+import opentype from 'opentype.js';
+import { Resvg } from '@resvg/resvg-js';
+import jpeg from 'jpeg-js';
+import { imageSize } from 'image-size';
+import type { BannerConfig, BannerLayer, TextStyle } from './types';
+import { migrateBannerConfig } from './utils/layers.ts';
+import { configForSize } from './utils/campaign.ts';
+import { FONT_FAMILIES } from './utils/typography.ts';
+import { buildBannerSvg, collectImageSources, type FontMetrics, type FontRun, type ResolvedImage, type TextMeasurer } from './utils/bannerSvg.ts';
+
+const require = createRequire(import.meta.url);
+
+// --- FONTS ---
+// Fonts come from version-pinned npm packages rather than the system or a CDN,
+// so every machine renders with byte-identical font files.
+const WEIGHT_NAMES: Record<number, string> = {
+  100: 'Thin', 200: 'ExtraLight', 300: 'Light', 400: 'Regular', 500: 'Medium',
+  600: 'SemiBold', 700: 'Bold', 800: 'ExtraBold', 900: 'Black',
+};
+const DEFAULT_FAMILY = 'Noto Sans TC';
+// Families tried, in order, for characters the requested family doesn't cover.
+const FALLBACK_FAMILIES = ['Noto Sans TC', 'Noto Sans KR', 'Noto Sans JP'];
+
+interface LoadedFont {
+  file: string;
+  font: opentype.Font;
+}
+
+const loadedFonts = new Map<string, LoadedFont>();
+
+const resolveFamily = (family: string) =>
+  FONT_FAMILIES.some(f => f.family === family) ? family : DEFAULT_FAMILY;
+
+const resolveWeight = (family: string, weight: number) => {
+  const available = FONT_FAMILIES.find(f => f.family === family)?.weights ?? [400];
+  return available.reduce((best, w) => (Math.abs(w - weight) < Math.abs(best - weight) ? w : best), available[0]);
+};
+
+const fontFilePath = (family: string, weight: number) => {
+  const packageDir = path.dirname(require.resolve(`@expo-google-fonts/${family.toLowerCase().replace(/ /g, '-')}/package.json`));
+  const style = `${weight}${WEIGHT_NAMES[weight]}`;
+  return path.join(packageDir, style, `${family.replace(/ /g, '')}_${style}.ttf`);
+};
+
+const loadFont = (family: string, weight: number): LoadedFont => {
+  const key = `${family}:${weight}`;
+  let loaded = loadedFonts.get(key);
+  if (!loaded) {
+    const file = fontFilePath(family, weight);
+    const buffer = readFileSync(file);
+    const font = opentype.parse(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength));
+    // opentype.js throws on some GSUB lookups (Inter's contextual ccmp, for one), so glyphs are
+    // mapped straight from the cmap. Kerning is still applied from GPOS when laying them out.
+    font.stringToGlyphs = text => Array.from(text, char => font.charToGlyph(char));
+    loaded = { file, font };
+    loadedFonts.set(key, loaded);
+  }
+  return loaded;
+};
+
+/**
+ * Measures text with opentype.js and records every font file used, so the rasterizer can be
+ * given exactly those fonts and nothing from the host system. With `outlineText`, text is
+ * converted to paths so the SVG doesn't need the fonts at all.
+ */
+const createMeasurer = (usedFiles: Set<string>, outlineText = false): TextMeasurer => {
+  const use = (family: string, weight: number) => {
+    const loaded = loadFont(family, weight);
+    usedFiles.add(loaded.file);
+    return loaded.font;
+  };
+
+  const fontFor = (char: string, family: string, weight: number) => {
+    for (const candidate of [family, ...FALLBACK_FAMILIES.filter(f => f !== family)]) {
+      const candidateWeight = resolveWeight(candidate, weight);
+      const font = use(candidate, candidateWeight);
+      if (font.charToGlyphIndex(char) > 0) return { family: candidate, weight: candidateWeight, font };
+    }
+    return null;
+  };
+
+  return {
+    layout(text, requestedFamily, requestedWeight, size, letterSpacing) {
+      const family = resolveFamily(requestedFamily);
+      const weight = resolveWeight(family, requestedWeight);
+      const runs: (FontRun & { font: opentype.Font })[] = [];
+
+      for (const char of text) {
+        const previous = runs[runs.length - 1];
+        // Whitespace stays with the surrounding run instead of forcing a font switch.
+        const match = /\s/.test(char) && previous ? previous : fontFor(char, family, weight) ?? { family, weight, font: use(family, weight) };
+        if (previous && previous.family === match.family && previous.weight === match.weight) {
+          previous.text += char;
+        } else {
+          runs.push({ text: char, family: match.family, weight: match.weight, width: 0, font: match.font });
+        }
+      }
+
+      return runs.map(({ font, ...run }) => ({
+        ...run,
+        width: font.getAdvanceWidth(run.text, size, { kerning: true, letterSpacing: size ? letterSpacing / size : 0 }),
+      }));
+    },
+
+    outline: outlineText
+      ? (run, x, baseline, size, letterSpacing) =>
+          use(run.family, run.weight)
+            .getPath(run.text, x, baseline, size, { kerning: true, letterSpacing: size ? letterSpacing / size : 0 })
+            .toPathData(2)
+      : undefined,
+
+    metrics(requestedFamily, requestedWeight): FontMetrics {
+      const family = resolveFamily(requestedFamily);
+      const font = use(family, resolveWeight(family, requestedWeight));
+      const os2 = font.tables.os2;
+      const unitsPerEm = font.unitsPerEm;
+      // Browsers use the typographic metrics only when the font asks for them.
+      const useTypoMetrics = (os2.fsSelection & 128) !== 0;
+      return {
+        ascent: (useTypoMetrics ? os2.sTypoAscender : font.ascender) / unitsPerEm,
+        descent: -(useTypoMetrics ? os2.sTypoDescender : font.descender) / unitsPerEm,
+        strikeoutPosition: os2.yStrikeoutPosition / unitsPerEm,
+        strikeoutSize: os2.yStrikeoutSize / unitsPerEm,
+      };
+    },
+  };
+};
+
+// --- IMAGES ---
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+const IMAGE_FETCH_TIMEOUT_MS = 10000;
+// Raster formats only: resvg would render an SVG image as a nested document, which can load
+// files from the server, so SVG logos and backgrounds are left out as if they failed to load.
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+// Remote images are only fetched from these hosts; everything else has to be inlined as a data URL.
+// RENDER_IMAGE_HOSTS replaces the list with a comma-separated one.
+const DEFAULT_IMAGE_HOSTS = ['images.unsplash.com', 'firebasestorage.googleapis.com'];
+const imageHosts = () =>
+  (process.env.RENDER_IMAGE_HOSTS?.split(',') ?? DEFAULT_IMAGE_HOSTS).map(host => host.trim().toLowerCase()).filter(Boolean);
+
+// Loopback, private, link-local, shared and multicast ranges an image host must never resolve to.
+const BLOCKED_ADDRESSES = new BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['::ffff:0:0', 96], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, 'ipv6'));
+
+const assertPublicHost = async (hostname: string) => {
+  const addresses = await lookup(hostname, { all: true });
+  if (addresses.some(({ address, family }) => BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'))) {
+    throw new Error(`Image host ${hostname} resolves to a private address`);
+  }
+};
+
+/** Reads a response body, giving up as soon as it passes the image size limit. */
+const readLimitedBody = async (response: Response): Promise<Buffer> => {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > MAX_IMAGE_BYTES) throw new Error('Image is too large');
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > MAX_IMAGE_BYTES) {
+      await reader.cancel();
+      throw new Error('Image is too large');
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+};
+
+const readImageSource = async (src: string): Promise<Buffer | null> => {
+  const dataUrl = src.match(/^data:[^,]*?(;base64)?,(.*)$/s);
+  if (dataUrl) {
+    return dataUrl[1] ? Buffer.from(dataUrl[2], 'base64') : Buffer.from(decodeURIComponent(dataUrl[2]));
+  }
+
+  let url: URL;
+  try {
+    url = new URL(src);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+  if (!imageHosts().includes(url.hostname.toLowerCase())) {
+    throw new Error(`Image host ${url.hostname} is not allowed`);
+  }
+  await assertPublicHost(url.hostname);
+
+  // Redirects would skip the host checks above, so they fail instead of being followed.
+  const response = await fetch(url, { redirect: 'error', signal: AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS) });
+  if (!response.ok) throw new Error(`Image request failed with ${response.status}`);
+  return readLimitedBody(response);
+};
+
+/**
+ * Loads every image in the banner and inlines it as a data URL with its intrinsic size.
+ * Images that fail to load are left out, as a broken image would be in the browser.
+ */
+const resolveImages = async (config: BannerConfig): Promise<Record<string, ResolvedImage>> => {
+  const images: Record<string, ResolvedImage> = {};
+  await Promise.all(collectImageSources(config).map(async src => {
+    try {
+      const buffer = await readImageSource(src);
+      if (!buffer) return;
+      const { width, height, type } = imageSize(buffer);
+      const mime = type && IMAGE_MIME_TYPES[type];
+      if (!width || !height || !mime) return;
+      images[src] = { href: `data:${mime};base64,${buffer.toString('base64')}`, width, height };
+    } catch (error) {
+      console.error("Render image error:", error);
+    }
+  }));
+  return images;
+};
+
+// --- VALIDATION ---
+// The config comes straight from an unauthenticated request. Colors and numbers end up in SVG
+// attributes, so only plain CSS colors and finite numbers are let through.
+const COLOR_PATTERN = /^(#[0-9a-f]{3,8}|rgba?\(\s*\d+(\.\d+)?%?(\s*,\s*\d+(\.\d+)?%?){2,3}\s*\)|transparent)$/i;
+
+const isColor = (value: unknown) => typeof value === 'string' && COLOR_PATTERN.test(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isObjectArray = (value: unknown) => Array.isArray(value) && value.every(item => item !== null && typeof item === 'object');
+const clampOpacity = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Whether a request config has the shape migrateBannerConfig and configForSize rely on.
+ */
+const isConfigShape = (config: any) =>
+  isObjectArray(config.layers) &&
+  isNumber(config.width) && isNumber(config.height) &&
+  (!Array.isArray(config.sizes) || isObjectArray(config.sizes)) &&
+  (!Array.isArray(config.products) || isObjectArray(config.products));
+
+const sanitizeTextStyle = (style: TextStyle): TextStyle | null => {
+  const { gradient, shadow } = style;
+  if (![style.fontSize, style.fontWeight, style.letterSpacing, style.lineHeight].every(isNumber) || !isColor(style.color)) return null;
+  if (gradient && !(isColor(gradient.from) && isColor(gradient.to))) return null;
+  if (shadow && !([shadow.opacity, shadow.blur, shadow.offsetX, shadow.offsetY].every(isNumber) && isColor(shadow.color))) return null;
+  return { ...style, shadow: shadow && { ...shadow, opacity: clampOpacity(shadow.opacity) } };
+};
+
+const sanitizeLayer = (layer: BannerLayer): BannerLayer | null => {
+  if (!isNumber(layer.x) || !isNumber(layer.y)) return null;
+  switch (layer.type) {
+    case 'text':
+    case 'promo': {
+      const style = sanitizeTextStyle(layer.style);
+      return style && typeof layer.text === 'string' ? { ...layer, style } : null;
+    }
+    case 'image':
+      return isNumber(layer.width) && isNumber(layer.opacity) ? { ...layer, opacity: clampOpacity(layer.opacity) } : null;
+    case 'shape':
+      return isNumber(layer.width) && isNumber(layer.height) && isNumber(layer.opacity) && isColor(layer.color)
+        ? { ...layer, opacity: clampOpacity(layer.opacity) }
+        : null;
+    case 'product':
+      return isNumber(layer.width) ? layer : null;
+    default:
+      // Unknown layer types render nothing.
+      return layer;
+  }
+};
+
+/**
+ * Checks every color and number a migrated config puts into the SVG and clamps its opacities,
+ * or returns null when one isn't valid. Regex highlight rules are dropped: a pathological
+ * pattern would block the server for every user, so only plain-text rules apply here.
+ */
+const sanitizeRenderConfig = (config: BannerConfig): BannerConfig | null => {
+  const { backgroundCrop, highlights } = config;
+  if (![config.width, config.height, config.overlayOpacity, backgroundCrop.focalX, backgroundCrop.focalY, backgroundCrop.zoom].every(isNumber)) {
+    return null;
+  }
+  const layers = config.layers.map(sanitizeLayer);
+  if (layers.some(layer => !layer)) return null;
+  return {
+    ...config,
+    overlayOpacity: clampOpacity(config.overlayOpacity),
+    layers: layers as BannerLayer[],
+    highlights: { ...highlights, custom: Array.isArray(highlights.custom) ? highlights.custom.filter(rule => !rule.isRegex) : [] },
+  };
+};
+
+// --- RENDERING ---
+export type RenderFormat = 'png' | 'jpeg' | 'svg';
+
+export interface RenderOptions {
+  format: RenderFormat;
+  /** JPEG quality between 0 and 1. */
+  quality: number;
+  /** Output pixels per banner pixel. */
+  scale: number;
+  /** Draw only the layers, leaving the background transparent (PNG and SVG). */
+  transparent?: boolean;
+}
+
+const MAX_OUTPUT_EDGE = 8192;
+
+/**
+ * Renders a banner to an image buffer. The SVG is rasterized by resvg, which doesn't depend on
+ * a GPU or system fonts, so the same config and options give the same pixels on any machine.
+ * SVG output is returned as-is, with text outlined so it looks the same in any viewer.
+ */
+export const renderBanner = async (config: BannerConfig, options: RenderOptions) => {
+  const usedFonts = new Set<string>();
+  const images = await resolveImages(config);
+
+  if (options.format === 'svg') {
+    const svg = buildBannerSvg(config, { fonts: createMeasurer(usedFonts, true), images }, { transparent: options.transparent, scale: options.scale });
+    return { buffer: Buffer.from(svg), contentType: 'image/svg+xml' };
+  }
+
+  const svg = buildBannerSvg(config, { fonts: createMeasurer(usedFonts), images }, { transparent: options.transparent });
+
+  const resvg = new Resvg(svg, {
+    fitTo: { mode: 'width', value: Math.round(config.width * options.scale) },
+    font: { fontFiles: [...usedFonts], loadSystemFonts: false, defaultFontFamily: DEFAULT_FAMILY },
+  });
+  const rendered = resvg.render();
+
+  if (options.format === 'jpeg') {
+    const encoded = jpeg.encode(
+      { data: rendered.pixels, width: rendered.width, height: rendered.height },
+      Math.round(options.quality * 100)
+    );
+    return { buffer: Buffer.from(encoded.data), contentType: 'image/jpeg' };
+  }
+  return { buffer: rendered.asPng(), contentType: 'image/png' };
+};
+
+export const handleRender = async (req: any, res: any) => {
+  if (req.method !== 'POST') return res.status(405).json({ message: 'Method Not Allowed' });
+
+  const { config, sizeId, format = 'png', quality = 0.95, scale = 1, transparent = false } = req.body || {};
+  if (!config || typeof config !== 'object') {
+    return res.status(400).json({ message: 'Banner config is required' });
+  }
+  if (format !== 'png' && format !== 'jpeg' && format !== 'svg') {
+    return res.status(400).json({ message: 'Format must be png, jpeg or svg' });
+  }
+  if (typeof quality !== 'number' || quality <= 0 || quality > 1) {
+    return res.status(400).json({ message: 'Quality must be between 0 and 1' });
+  }
+  if (typeof scale !== 'number' || scale <= 0 || scale > 4) {
+    return res.status(400).json({ message: 'Scale must be between 0 and 4' });
+  }
+
+  if (!isConfigShape(config)) {
+    return res.status(400).json({ message: 'Banner config is invalid' });
+  }
+
+  let banner: BannerConfig | null;
+  try {
+    banner = migrateBannerConfig(config);
+    if (sizeId !== undefined) {
+      if (!banner.sizes.some(size => size.id === sizeId)) {
+        return res.status(400).json({ message: 'Unknown size' });
+      }
+      banner = configForSize(banner, sizeId);
+    }
+    banner = sanitizeRenderConfig(banner);
+  } catch {
+    banner = null;
+  }
+  if (!banner) {
+    return res.status(400).json({ message: 'Banner config is invalid' });
+  }
+  if (!(banner.width > 0 && banner.height > 0) || Math.max(banner.width, banner.height) * scale > MAX_OUTPUT_EDGE) {
+    return res.status(400).json({ message: 'Banner size is out of range' });
+  }
+
+  try {
+    const { buffer, contentType } = await renderBanner(banner, { format, quality, scale, transparent: transparent === true });
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Length', buffer.length);
+    res.status(200).send(buffer);
+  } catch (error: any) {
+    console.error("Render Error:", error);
+    res.status(500).json({ message: 'Failed to render banner' });
+  }
+};
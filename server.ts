@@ -1,24 +1,44 @@
 import "dotenv/config";
 import express from "express";
+import path from "path";
 import { createServer as createViteServer } from "vite";
-import { handleGetUser, handleDeductCredit, handleRefundCredit, handleCreatePayPalOrder, handleCapturePayPalOrder, handleCreateStripeSession, handleVerifyStripeSession } from "./server-proxy.ts";
+import { handleGetUser, handleGeneratePrompt, handleGenerateBackground, handleEditBackground, handleCreatePayPalOrder, handleCapturePayPalOrder, handleCreateStripeSession, handleVerifyStripeSession, handleListLogos, handleSaveLogo, handleDeleteLogo, handleListDesigns, handleGetDesign, handleCreateDesign, handleUpdateDesign, handleDuplicateDesign, handleDeleteDesign, handleCreateShare, handleListShares, handleRevokeShare, handleGetSharedBanner } from "./server-proxy.ts";
+import { handleRender } from "./server-render.ts";
 
 async function startServer() {
   const app = express();
   const PORT = process.env.PORT ? parseInt(process.env.PORT, 10) : 3000;
 
-  // Parse JSON bodies (as sent by API clients)
-  app.use(express.json());
+  // Render requests carry whole banner configs, background photos included, so they get
+  // their own larger body limit ahead of the default parser.
+  app.post("/api/render", express.json({ limit: '25mb' }), handleRender);
+
+  // Parse JSON bodies (as sent by API clients); uploaded images arrive as data URLs
+  app.use(express.json({ limit: '2mb' }));
 
   // API routes
   app.get("/api/health", (req, res) => res.json({ status: "ok" }));
   app.get("/api/user", handleGetUser);
-  app.post("/api/deduct-credit", handleDeductCredit);
-  app.post("/api/refund-credit", handleRefundCredit);
+  app.post("/api/generate-prompt", handleGeneratePrompt);
+  app.post("/api/generate-background", handleGenerateBackground);
+  app.post("/api/edit-background", handleEditBackground);
   app.post("/api/paypal/create-order", handleCreatePayPalOrder);
   app.post("/api/paypal/capture-order", handleCapturePayPalOrder);
   app.post("/api/stripe/create-session", handleCreateStripeSession);
   app.post("/api/stripe/verify-session", handleVerifyStripeSession);
+  app.get("/api/logos", handleListLogos);
+  app.post("/api/logos", handleSaveLogo);
+  app.delete("/api/logos/:id", handleDeleteLogo);
+  app.get("/api/designs", handleListDesigns);
+  app.get("/api/designs/:id", handleGetDesign);
+  app.post("/api/designs", handleCreateDesign);
+  app.put("/api/designs/:id", handleUpdateDesign);
+  app.post("/api/designs/:id/duplicate", handleDuplicateDesign);
+  app.delete("/api/designs/:id", handleDeleteDesign);
+  app.post("/api/shares", handleCreateShare);
+  app.get("/api/shares", handleListShares);
+  app.delete("/api/shares/:token", handleRevokeShare);
+  app.get("/api/shared/:token", handleGetSharedBanner);
 
   // Vite middleware for development
   if (process.env.NODE_ENV !== "production") {
@@ -30,6 +50,8 @@ async function startServer() {
   } else {
     // Production static file serving
     app.use(express.static('dist'));
+    // Share links are client-side pages
+    app.get("/share/:token", (req, res) => res.sendFile(path.resolve('dist/index.html')));
   }
 
   app.listen(PORT, "0.0.0.0", () => {
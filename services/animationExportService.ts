@@ -0,0 +1,173 @@
+import { GIFEncoder, quantize, applyPalette } from 'gifenc';
+import { strToU8, zipSync, type Zippable } from 'fflate';
+import { BannerConfig, ExportResult, ExportSettings } from '../types';
+import { CaptureFrame, canvasToBlob, renderBannerToCanvas, supportedVideoMimeType, withOffscreenBanner } from './exportService';
+import { ANIMATION_HOLD_MS, totalAnimationDuration } from '../utils/animation';
+import { buildHtml5AdDocument, Html5AdSlice } from '../utils/html5Ad';
+
+const GIF_FPS = 20;
+const VIDEO_FPS = 30;
+const VIDEO_BITS_PER_SECOND = 8_000_000;
+
+interface ScheduledFrame {
+  time: number;
+  /** How long the frame stays on screen, in milliseconds. */
+  duration: number;
+}
+
+/**
+ * Frames from the start of the animations to the moment the last element settles, which is
+ * then held before the loop restarts. A banner without animations is a single held frame.
+ */
+const frameSchedule = (config: BannerConfig, fps: number): ScheduledFrame[] => {
+  const end = totalAnimationDuration(config);
+  const interval = 1000 / fps;
+  const frames: ScheduledFrame[] = [];
+  for (let time = 0; time < end; time += interval) frames.push({ time, duration: interval });
+  frames.push({ time: end, duration: ANIMATION_HOLD_MS });
+  return frames;
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const canvasBytes = async (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Uint8Array(await (await canvasToBlob(canvas, type, quality)).arrayBuffer());
+
+/**
+ * Encodes a looping GIF with a palette per frame.
+ */
+const exportGif = async (config: BannerConfig, scale: number): Promise<Blob> =>
+  withOffscreenBanner(config, { pixelRatio: scale }, async capture => {
+    const gif = GIFEncoder();
+    for (const frame of frameSchedule(config, GIF_FPS)) {
+      const canvas = await capture(frame.time);
+      const { data, width, height } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+      const palette = quantize(data, 256);
+      gif.writeFrame(applyPalette(data, palette), width, height, { palette, delay: frame.duration, repeat: 0 });
+    }
+    gif.finish();
+    return new Blob([gif.bytes()], { type: 'image/gif' });
+  });
+
+/**
+ * Records the frames with MediaRecorder. Capturing a frame takes longer than showing it, so the
+ * recorder is paused while each frame renders and runs only for the frame's own duration.
+ */
+const recordVideo = async (capture: CaptureFrame, frames: ScheduledFrame[], mimeType: string, width: number, height: number): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  // H.264 and VP8/VP9 encoders want even dimensions.
+  canvas.width = Math.max(2, Math.round(width / 2) * 2);
+  canvas.height = Math.max(2, Math.round(height / 2) * 2);
+  const context = canvas.getContext('2d')!;
+
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise(resolve => {
+    recorder.onstop = resolve;
+  });
+
+  recorder.start();
+  recorder.pause();
+  for (const frame of frames) {
+    context.drawImage(await capture(frame.time), 0, 0, canvas.width, canvas.height);
+    recorder.resume();
+    track.requestFrame();
+    await wait(frame.duration);
+    recorder.pause();
+  }
+  recorder.stop();
+  await stopped;
+  track.stop();
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+};
+
+const exportVideo = async (config: BannerConfig, scale: number, format: 'mp4' | 'webm'): Promise<Blob> => {
+  const mimeType = supportedVideoMimeType(format);
+  if (!mimeType) throw new Error(`Recording ${format} is not supported in this browser`);
+  return withOffscreenBanner(config, { pixelRatio: scale }, capture =>
+    recordVideo(capture, frameSchedule(config, VIDEO_FPS), mimeType, config.width * scale, config.height * scale)
+  );
+};
+
+/**
+ * The bounding box of the canvas's visible pixels, or null when it is fully transparent.
+ */
+const visibleBounds = (canvas: HTMLCanvasElement) => {
+  const { data, width, height } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+  let left = width, top = height, right = -1, bottom = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue;
+      if (x < left) left = x;
+      if (x > right) right = x;
+      if (y < top) top = y;
+      if (y > bottom) bottom = y;
+    }
+  }
+  return right < 0 ? null : { left, top, width: right - left + 1, height: bottom - top + 1 };
+};
+
+const cropCanvas = (canvas: HTMLCanvasElement, bounds: { left: number; top: number; width: number; height: number }) => {
+  const cropped = document.createElement('canvas');
+  cropped.width = bounds.width;
+  cropped.height = bounds.height;
+  cropped.getContext('2d')!.drawImage(canvas, bounds.left, bounds.top, bounds.width, bounds.height, 0, 0, bounds.width, bounds.height);
+  return cropped;
+};
+
+/**
+ * Builds an HTML5 ad zip: the background as a JPEG and each element as its own cropped PNG,
+ * so elements can be animated with CSS. Everything is rasterized, so the ad needs no web fonts.
+ */
+const exportHtml5Ad = async (config: BannerConfig, settings: ExportSettings, scale: number): Promise<Blob> => {
+  const files: Zippable = {};
+  const slices: Html5AdSlice[] = [];
+
+  const background = await renderBannerToCanvas({ ...config, layers: [] }, { pixelRatio: scale });
+  files['background.jpg'] = [await canvasBytes(background, 'image/jpeg', settings.quality), { level: 0 }];
+  slices.push({ file: 'background.jpg', left: 0, top: 0, width: config.width, height: config.height });
+
+  for (const [index, layer] of config.layers.entries()) {
+    const canvas = await renderBannerToCanvas({ ...config, layers: [layer] }, { pixelRatio: scale, transparent: true, layersOnly: true });
+    const bounds = visibleBounds(canvas);
+    if (!bounds) continue;
+    const file = `element-${index + 1}.png`;
+    files[file] = [await canvasBytes(cropCanvas(canvas, bounds), 'image/png'), { level: 0 }];
+    slices.push({
+      file,
+      left: bounds.left / scale,
+      top: bounds.top / scale,
+      width: bounds.width / scale,
+      height: bounds.height / scale,
+      animation: layer.animation,
+    });
+  }
+
+  const title = config.layers.find(layer => layer.type === 'text');
+  const html = buildHtml5AdDocument(config, slices, settings.clickTagUrl, title?.type === 'text' ? title.text : 'Banner');
+  files['index.html'] = strToU8(html);
+  return new Blob([zipSync(files, { level: 9 })], { type: 'application/zip' });
+};
+
+/**
+ * Exports the banner's entrance animations as a GIF, a video or an HTML5 ad zip.
+ */
+export const exportAnimatedBanner = async (config: BannerConfig, settings: ExportSettings, scale: number): Promise<ExportResult> => {
+  const { format } = settings;
+  switch (format) {
+    case 'gif':
+      return { blob: await exportGif(config, scale), format };
+    case 'mp4':
+    case 'webm':
+      return { blob: await exportVideo(config, scale, format), format };
+    case 'html5':
+      return { blob: await exportHtml5Ad(config, settings, scale), format, quality: settings.quality };
+    default:
+      throw new Error(`${format} is not an animated format`);
+  }
+};
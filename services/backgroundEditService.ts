@@ -0,0 +1,61 @@
+import type { BackgroundCrop } from '../types';
+import { Size, frameToImageTransform } from '../utils/background';
+import { encodeImageAsJpeg, loadImage } from './imageService';
+
+/** A brush stroke on the edit mask, in banner pixels. */
+export interface MaskStroke {
+  points: { x: number; y: number }[];
+  radius: number;
+}
+
+// Keeps the image and its mask inside the server's request size limit.
+const EDIT_IMAGE_EDGE = 1536;
+const EDIT_IMAGE_QUALITY = 0.9;
+
+/**
+ * Traces strokes onto a canvas context, with round ends so single clicks leave a dot.
+ */
+export const drawMaskStrokes = (ctx: CanvasRenderingContext2D, strokes: MaskStroke[], color: string) => {
+  ctx.strokeStyle = color;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  for (const stroke of strokes) {
+    ctx.lineWidth = stroke.radius * 2;
+    ctx.beginPath();
+    stroke.points.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+    // A lone point needs a segment of its own to be drawn.
+    if (stroke.points.length === 1) ctx.lineTo(stroke.points[0].x + 0.01, stroke.points[0].y);
+    ctx.stroke();
+  }
+};
+
+/**
+ * Prepares a background for editing: the photo re-encoded at a size the server accepts and,
+ * when strokes are given, a matching black-and-white mask with the painted area in white.
+ * The strokes are drawn on a banner of size `frame` showing the photo with `crop`, so they're
+ * mapped through the same framing onto the photo.
+ */
+export const prepareBackgroundEdit = async (
+  src: string,
+  crop: BackgroundCrop,
+  frame: Size,
+  strokes?: MaskStroke[]
+): Promise<{ image: string; mask?: string }> => {
+  const photo = await loadImage(src);
+  const natural = { width: photo.naturalWidth, height: photo.naturalHeight };
+  const image = await encodeImageAsJpeg(src, EDIT_IMAGE_EDGE, EDIT_IMAGE_QUALITY);
+  if (!strokes) return { image };
+
+  const fit = Math.min(1, EDIT_IMAGE_EDGE / Math.max(natural.width, natural.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(natural.width * fit);
+  canvas.height = Math.round(natural.height * fit);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  const { scale, offsetX, offsetY } = frameToImageTransform(crop, frame, natural);
+  ctx.setTransform(scale * fit, 0, 0, scale * fit, offsetX * fit, offsetY * fit);
+  drawMaskStrokes(ctx, strokes, '#fff');
+  return { image, mask: canvas.toDataURL('image/png') };
+};
@@ -0,0 +1,99 @@
+import { zipSync, strToU8, type Zippable } from 'fflate';
+import { BannerConfig, ExportedFile, ExportSettings } from '../types';
+import { exportBanner, resolveExportScale } from './exportService';
+import { configForSize } from '../utils/campaign';
+import { configForLocale } from '../utils/copyVariants';
+import { buildExportFilename } from '../utils/exportFilename';
+
+/**
+ * One file in a campaign ZIP, as listed in its manifest.json.
+ */
+interface ManifestEntry {
+  file: string;
+  size: string;
+  locale: string;
+  format: string;
+  /** Banner size in layout pixels. */
+  width: number;
+  height: number;
+  /** Dimensions of the exported file. */
+  pixelWidth: number;
+  pixelHeight: number;
+  bytes: number;
+  quality?: number;
+  /** Present when a file size limit was set. */
+  withinSizeLimit?: boolean;
+}
+
+export interface CampaignExport {
+  zip: Blob;
+  files: ExportedFile[];
+}
+
+/**
+ * Filenames in a batch need both the size and the language to tell combinations apart.
+ */
+export const campaignFilenamePattern = (pattern: string) =>
+  ['{size}', '{lang}'].reduce((result, token) => (result.includes(token) ? result : `${result}-${token}`), pattern);
+
+/**
+ * Counts the files a campaign export produces: every size in every language.
+ */
+export const campaignFileCount = (config: BannerConfig) => config.sizes.length * config.copyVariants.length;
+
+export interface CampaignBanner {
+  banner: BannerConfig;
+  sizeId: string;
+  locale: string;
+}
+
+/**
+ * Every size in every language, as the configs to render.
+ */
+export const campaignBanners = (config: BannerConfig): CampaignBanner[] =>
+  config.copyVariants.flatMap(variant => {
+    const localized = configForLocale(config, variant.locale);
+    return config.sizes.map(size => ({ banner: configForSize(localized, size.id), sizeId: size.id, locale: variant.locale }));
+  });
+
+/**
+ * Renders every size in every language, one after another, and packs them into a single ZIP
+ * with a manifest.json describing each file. Every size uses the scale chosen for the active one.
+ */
+export const exportCampaign = async (
+  config: BannerConfig,
+  settings: ExportSettings,
+  onProgress?: (done: number, total: number) => void
+): Promise<CampaignExport> => {
+  const scale = resolveExportScale(settings, config);
+  const pattern = campaignFilenamePattern(settings.filenamePattern);
+  const total = campaignFileCount(config);
+  const archive: Zippable = {};
+  const files: ExportedFile[] = [];
+  const manifest: ManifestEntry[] = [];
+
+  for (const { banner, sizeId, locale } of campaignBanners(config)) {
+    const result = await exportBanner(banner, settings, scale);
+    const filename = buildExportFilename(pattern, banner, result.format, sizeId);
+
+    archive[filename] = [new Uint8Array(await result.blob.arrayBuffer()), { level: 0 }];
+    files.push({ filename, result });
+    manifest.push({
+      file: filename,
+      size: sizeId,
+      locale,
+      format: result.format,
+      width: banner.width,
+      height: banner.height,
+      pixelWidth: Math.round(banner.width * scale),
+      pixelHeight: Math.round(banner.height * scale),
+      bytes: result.blob.size,
+      quality: result.quality,
+      withinSizeLimit: result.budget?.fits,
+    });
+    onProgress?.(files.length, total);
+  }
+
+  archive['manifest.json'] = strToU8(JSON.stringify({ generatedAt: new Date().toISOString(), files: manifest }, null, 2));
+  return { zip: new Blob([zipSync(archive)], { type: 'application/zip' }), files };
+};
@@ -0,0 +1,142 @@
+import { BannerConfig, SavedDesign, SavedDesignSummary } from '../types';
+import { renderBannerToCanvas } from './exportService';
+import { encodeImageAsJpeg } from './imageService';
+
+// Matches the server's limit on stored configs.
+const MAX_DESIGN_CONFIG_LENGTH = 900 * 1024;
+
+// Background re-encodes tried in turn when a design is too large for the library.
+const BACKGROUND_FIT_STEPS = [
+  { maxEdge: 2560, quality: 0.85 },
+  { maxEdge: 1920, quality: 0.8 },
+  { maxEdge: 1280, quality: 0.75 },
+];
+
+const THUMBNAIL_WIDTH = 320;
+
+export type SaveDesignResult =
+  | { design: SavedDesignSummary; error?: undefined }
+  | { design?: undefined; error: 'too-large' | 'failed' };
+
+/**
+ * Generated and uploaded backgrounds are embedded as data URLs and often exceed what a
+ * stored document holds, so they are re-encoded smaller until the design fits.
+ */
+export const fitDesignConfig = async (config: BannerConfig): Promise<BannerConfig> => {
+  let fitted = config;
+  for (const step of BACKGROUND_FIT_STEPS) {
+    if (JSON.stringify(fitted).length <= MAX_DESIGN_CONFIG_LENGTH || !config.backgroundImage?.startsWith('data:')) break;
+    fitted = { ...config, backgroundImage: await encodeImageAsJpeg(config.backgroundImage, step.maxEdge, step.quality) };
+  }
+  return fitted;
+};
+
+const renderThumbnail = async (config: BannerConfig): Promise<string | null> => {
+  try {
+    const canvas = await renderBannerToCanvas(config, { pixelRatio: THUMBNAIL_WIDTH / config.width });
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch (error) {
+    console.warn("Design thumbnail could not be rendered:", error);
+    return null;
+  }
+};
+
+const sendDesign = async (url: string, method: string, body: Record<string, unknown>): Promise<SaveDesignResult> => {
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      const errData = await response.json().catch(() => ({}));
+      if (response.status === 413) return { error: 'too-large' };
+      throw new Error(errData.message || 'Failed to save design');
+    }
+    const data = await response.json();
+    return { design: data.design };
+  } catch (error) {
+    console.error("Error saving design:", error);
+    return { error: 'failed' };
+  }
+};
+
+export const listDesigns = async (email: string): Promise<SavedDesignSummary[]> => {
+  try {
+    const response = await fetch(`/api/designs?email=${encodeURIComponent(email)}`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+    if (!response.ok) throw new Error('Failed to fetch designs');
+    const data = await response.json();
+    return data.designs;
+  } catch (error) {
+    console.error("Error fetching designs:", error);
+    return [];
+  }
+};
+
+export const getDesign = async (email: string, id: string): Promise<SavedDesign | null> => {
+  try {
+    const response = await fetch(`/api/designs/${encodeURIComponent(id)}?email=${encodeURIComponent(email)}`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+    if (!response.ok) throw new Error('Failed to fetch design');
+    const data = await response.json();
+    return data.design;
+  } catch (error) {
+    console.error("Error fetching design:", error);
+    return null;
+  }
+};
+
+/**
+ * Saves the banner as a new design in the library, with a thumbnail for the library view.
+ */
+export const createDesign = async (email: string, name: string, config: BannerConfig): Promise<SaveDesignResult> =>
+  sendDesign('/api/designs', 'POST', {
+    email,
+    name,
+    config: await fitDesignConfig(config),
+    thumbnail: await renderThumbnail(config),
+  });
+
+/**
+ * Overwrites a library design with the current banner.
+ */
+export const saveDesign = async (email: string, id: string, config: BannerConfig): Promise<SaveDesignResult> =>
+  sendDesign(`/api/designs/${encodeURIComponent(id)}`, 'PUT', {
+    email,
+    config: await fitDesignConfig(config),
+    thumbnail: await renderThumbnail(config),
+  });
+
+/**
+ * Renames a design or marks it as a template, leaving its content as it is.
+ */
+export const updateDesignDetails = async (
+  email: string,
+  id: string,
+  details: Partial<Pick<SavedDesignSummary, 'name' | 'isTemplate'>>
+): Promise<SaveDesignResult> =>
+  sendDesign(`/api/designs/${encodeURIComponent(id)}`, 'PUT', { email, ...details });
+
+export const duplicateDesign = async (email: string, id: string, name: string): Promise<SaveDesignResult> =>
+  sendDesign(`/api/designs/${encodeURIComponent(id)}/duplicate`, 'POST', { email, name });
+
+export const deleteDesign = async (email: string, id: string): Promise<boolean> => {
+  try {
+    const response = await fetch(`/api/designs/${encodeURIComponent(id)}?email=${encodeURIComponent(email)}`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' }
+    });
+    return response.ok;
+  } catch (error) {
+    console.error("Error deleting design:", error);
+    return false;
+  }
+};
@@ -0,0 +1,337 @@
+import React from 'react';
+import { createRoot } from 'react-dom/client';
+import { flushSync } from 'react-dom';
+import { getFontEmbedCSS, toCanvas } from 'html-to-image';
+import { BannerConfig, ExportFormat, ExportResult, ExportSettings } from '../types';
+import BannerPreview from '../components/BannerPreview';
+import { DEFAULT_FILENAME_PATTERN } from '../utils/exportFilename';
+import { LayerBox, measureLayerBoxes } from '../utils/alignment';
+
+interface CaptureOptions {
+  pixelRatio: number;
+  transparent?: boolean;
+  /** Captures only the elements, without the banner's decorative accent bar. */
+  layersOnly?: boolean;
+}
+
+/** Re-renders the mounted banner at a point in its animation and captures it. */
+export type CaptureFrame = (animationTime?: number) => Promise<HTMLCanvasElement>;
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'jpeg',
+  sizeMode: 'scale',
+  scale: 2,
+  pixelWidth: 0,
+  quality: 0.95,
+  transparent: false,
+  dpi: 300,
+  filenamePattern: DEFAULT_FILENAME_PATTERN,
+  maxFileSizeKb: null,
+  clickTagUrl: '',
+};
+
+/** Formats that keep an alpha channel. */
+export const TRANSPARENT_FORMATS: ExportFormat[] = ['png', 'webp', 'svg'];
+
+/** Formats rendered frame by frame from the entrance animations. */
+export const ANIMATED_FORMATS: ExportFormat[] = ['gif', 'mp4', 'webm', 'html5'];
+
+const VIDEO_MIME_TYPES: Record<'mp4' | 'webm', string[]> = {
+  mp4: ['video/mp4;codecs=avc1.42E01E', 'video/mp4'],
+  webm: ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'],
+};
+
+/**
+ * The MediaRecorder type this browser can record the video format with, or null if it can't.
+ */
+export const supportedVideoMimeType = (format: 'mp4' | 'webm') =>
+  typeof MediaRecorder === 'undefined' ? null : VIDEO_MIME_TYPES[format].find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+
+/** Formats that can be fitted under a file size limit. */
+export const BUDGET_FORMATS: ExportFormat[] = ['png', 'jpeg', 'webp'];
+
+// Below this quality, JPEG and WebP artifacts start to show around text and flat color.
+const VISIBLE_QUALITY_FLOOR = 0.6;
+const MIN_QUALITY = 0.3;
+const QUALITY_SEARCH_STEPS = 6;
+// Last resort once the lowest quality still doesn't fit: resample the image through these
+// fractions of its size, which drops fine detail (and color detail with it) at the same dimensions.
+const SOFTEN_FACTORS = [0.75, 0.5];
+
+/**
+ * Leaves editor-only overlays (selection outlines, guides) out of exported images.
+ */
+export const exportFilter = (node: HTMLElement) =>
+  !(node instanceof HTMLElement && node.dataset.exportIgnore !== undefined);
+
+// The preview frame's rounded corners, border and drop shadow aren't part of the banner.
+const EXPORT_ROOT_STYLE: Partial<CSSStyleDeclaration> = {
+  borderRadius: '0',
+  border: 'none',
+  boxShadow: 'none',
+};
+
+const waitForImages = async (node: HTMLElement) => {
+  const images = Array.from(node.querySelectorAll('img'));
+  await Promise.all(images.map(img =>
+    img.complete ? Promise.resolve() : new Promise<void>(resolve => {
+      img.addEventListener('load', () => resolve(), { once: true });
+      img.addEventListener('error', () => resolve(), { once: true });
+    })
+  ));
+};
+
+/**
+ * Mounts a banner off-screen at exactly `config.width` pixels for as long as `use` runs.
+ * Each capture is `pixelRatio` times that size. Works for any campaign size, not only the
+ * one on screen, and fonts are embedded once however many frames are captured.
+ */
+export const withOffscreenBanner = async <T>(
+  config: BannerConfig,
+  options: CaptureOptions,
+  use: (capture: CaptureFrame, banner: HTMLDivElement) => Promise<T>
+): Promise<T> => {
+  const host = document.createElement('div');
+  host.style.position = 'fixed';
+  host.style.left = '-100000px';
+  host.style.top = '0';
+  host.style.width = `${config.width}px`;
+  document.body.appendChild(host);
+
+  const root = createRoot(host);
+  try {
+    const bannerRef = React.createRef<HTMLDivElement>();
+    const render = (animationTime?: number) => flushSync(() => {
+      root.render(React.createElement(BannerPreview, { ref: bannerRef, config, transparentBackground: options.transparent, animationTime }));
+    });
+    render();
+    if (!bannerRef.current) throw new Error('Banner failed to render');
+
+    await waitForImages(bannerRef.current);
+    await document.fonts.ready;
+
+    const filter = options.layersOnly
+      ? (node: HTMLElement) => exportFilter(node) && !(node instanceof HTMLElement && node.dataset.bannerDecoration !== undefined)
+      : exportFilter;
+    let fontEmbedCSS: string | undefined;
+
+    return await use(async (animationTime) => {
+      fontEmbedCSS ??= await getFontEmbedCSS(bannerRef.current!, { filter });
+      render(animationTime);
+      return toCanvas(bannerRef.current!, {
+        pixelRatio: options.pixelRatio,
+        width: config.width,
+        height: config.height,
+        cacheBust: true,
+        filter,
+        fontEmbedCSS,
+        style: EXPORT_ROOT_STYLE,
+      });
+    }, bannerRef.current);
+  } finally {
+    root.unmount();
+    host.remove();
+  }
+};
+
+/**
+ * Lays a banner out off-screen and measures its elements, e.g. for a size that isn't on screen.
+ */
+export const measureBannerLayers = (config: BannerConfig): Promise<LayerBox[]> =>
+  withOffscreenBanner(config, { pixelRatio: 1 }, async (_, banner) => {
+    const canvas = banner.querySelector<HTMLElement>('[data-banner-canvas]');
+    return canvas ? measureLayerBoxes(canvas, config.layers) : [];
+  });
+
+/**
+ * Renders a banner off-screen and captures it to a canvas, with every element at rest.
+ */
+export const renderBannerToCanvas = (config: BannerConfig, options: CaptureOptions): Promise<HTMLCanvasElement> =>
+  withOffscreenBanner(config, options, capture => capture());
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      // Browsers without an encoder for the type silently fall back to PNG.
+      if (!blob || blob.type !== type) reject(new Error(`Encoding ${type} is not supported in this browser`));
+      else resolve(blob);
+    }, type, quality);
+  });
+
+/**
+ * Formats to try, in order, when fitting under a size limit: the chosen one first, then
+ * ones that usually compress smaller. JPEG is only an option when nothing needs to stay transparent.
+ */
+const budgetFormats = (format: ExportFormat, transparent: boolean): ExportFormat[] => {
+  const fallbacks: ExportFormat[] = transparent ? ['webp'] : ['webp', 'jpeg'];
+  return [format, ...fallbacks.filter(f => f !== format)];
+};
+
+/**
+ * A copy of the canvas at the same size, scaled down by `factor` and back up, so it carries
+ * less detail for the encoder to spend bytes on.
+ */
+const softenCanvas = (canvas: HTMLCanvasElement, factor: number) => {
+  const small = document.createElement('canvas');
+  small.width = Math.max(1, Math.round(canvas.width * factor));
+  small.height = Math.max(1, Math.round(canvas.height * factor));
+  const smallCtx = small.getContext('2d');
+  const softened = document.createElement('canvas');
+  softened.width = canvas.width;
+  softened.height = canvas.height;
+  const ctx = softened.getContext('2d');
+  if (!smallCtx || !ctx) throw new Error('Canvas 2D context is not available');
+  smallCtx.imageSmoothingQuality = 'high';
+  smallCtx.drawImage(canvas, 0, 0, small.width, small.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(small, 0, 0, softened.width, softened.height);
+  return softened;
+};
+
+/**
+ * Encodes the canvas as large as it can be while staying under `maxBytes`. Quality is
+ * binary-searched per format, first down to the point where artifacts become visible and
+ * only then below it. Browser encoders choose chroma subsampling themselves and can't be told
+ * otherwise, so when even the lowest quality is too big the image is softened instead, which
+ * thins out luma and chroma detail alike while keeping the output size. When nothing fits,
+ * the smallest file is returned.
+ */
+const encodeWithinBudget = async (canvas: HTMLCanvasElement, settings: ExportSettings, transparent: boolean, maxBytes: number): Promise<ExportResult> => {
+  let smallest: ExportResult | null = null;
+
+  const tryEncode = async (source: HTMLCanvasElement, format: ExportFormat, quality?: number) => {
+    const result: ExportResult = { blob: await canvasToBlob(source, `image/${format}`, quality), format, quality };
+    if (!smallest || result.blob.size < smallest.blob.size) smallest = result;
+    return result.blob.size <= maxBytes ? result : null;
+  };
+
+  // The highest quality between `low` and `high` whose file fits, or null if even `low` doesn't.
+  const searchQuality = async (source: HTMLCanvasElement, format: ExportFormat, low: number, high: number) => {
+    let best = await tryEncode(source, format, low);
+    if (!best) return null;
+    const atHigh = await tryEncode(source, format, high);
+    if (atHigh) return atHigh;
+    for (let step = 0; step < QUALITY_SEARCH_STEPS; step++) {
+      const quality = (low + high) / 2;
+      const result = await tryEncode(source, format, quality);
+      if (result) {
+        best = result;
+        low = quality;
+      } else {
+        high = quality;
+      }
+    }
+    return best;
+  };
+
+  const floor = Math.min(VISIBLE_QUALITY_FLOOR, settings.quality);
+  // PNG ignores quality, so it's only encoded again when the image itself changes.
+  const passes = [
+    { source: () => canvas, low: floor, high: settings.quality, degraded: false, softened: false, png: true },
+    { source: () => canvas, low: MIN_QUALITY, high: floor, degraded: true, softened: false, png: false },
+    ...SOFTEN_FACTORS.map(factor => ({
+      source: () => softenCanvas(canvas, factor), low: MIN_QUALITY, high: floor, degraded: true, softened: true, png: true,
+    })),
+  ];
+  for (const pass of passes) {
+    const source = pass.source();
+    for (const format of budgetFormats(settings.format, transparent)) {
+      try {
+        const found = format === 'png'
+          ? (pass.png ? await tryEncode(source, 'png') : null)
+          : await searchQuality(source, format, pass.low, pass.high);
+        if (found) return { ...found, budget: { limitBytes: maxBytes, fits: true, degraded: pass.degraded, softened: pass.softened } };
+      } catch (error) {
+        // This browser can't encode the format; move on to the next one.
+        console.error("Error encoding export:", error);
+      }
+    }
+  }
+
+  if (!smallest) throw new Error('No image format could be encoded');
+  return { ...(smallest as ExportResult), budget: { limitBytes: maxBytes, fits: false, degraded: true, softened: true } };
+};
+
+/**
+ * Places the captured banner on a single PDF page whose physical size follows from the DPI.
+ */
+const canvasToPdf = async (canvas: HTMLCanvasElement, config: BannerConfig, settings: ExportSettings): Promise<Blob> => {
+  const { jsPDF } = await import('jspdf');
+  const width = (config.width / settings.dpi) * 72;
+  const height = (config.height / settings.dpi) * 72;
+  const pdf = new jsPDF({ orientation: width >= height ? 'landscape' : 'portrait', unit: 'pt', format: [width, height], compress: true });
+  pdf.addImage(canvas.toDataURL('image/jpeg', settings.quality), 'JPEG', 0, 0, width, height);
+  return pdf.output('blob');
+};
+
+/**
+ * Vector SVGs come from the server renderer, which lays the banner out with text as outlines.
+ */
+const fetchBannerSvg = async (config: BannerConfig, scale: number, transparent: boolean): Promise<Blob> => {
+  const response = await fetch('/api/render', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ config, format: 'svg', scale, transparent })
+  });
+  if (!response.ok) {
+    const errData = await response.json().catch(() => ({}));
+    throw new Error(errData.message || 'Failed to render SVG');
+  }
+  return response.blob();
+};
+
+let serverRenderCheck: Promise<boolean> | null = null;
+
+/**
+ * Whether this deployment serves /api/render. The Node server registers it but the Cloud Function
+ * doesn't, so an empty request answers with a 400 or a 404 without rendering anything.
+ */
+export const isServerRenderAvailable = (): Promise<boolean> => {
+  serverRenderCheck ??= fetch('/api/render', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: '{}'
+  })
+    .then(response => response.status !== 404)
+    .catch(() => false);
+  return serverRenderCheck;
+};
+
+/**
+ * Output pixels per banner pixel for the chosen size option.
+ */
+export const resolveExportScale = (settings: ExportSettings, config: BannerConfig) =>
+  settings.sizeMode === 'pixels' && config.width > 0 ? settings.pixelWidth / config.width : settings.scale;
+
+/**
+ * Exports a banner in the chosen format, fitted under the file size limit when one is set.
+ * `scale` defaults to the one the settings resolve to for this banner.
+ */
+export const exportBanner = async (config: BannerConfig, settings: ExportSettings, scale = resolveExportScale(settings, config)): Promise<ExportResult> => {
+  const { format } = settings;
+  if (ANIMATED_FORMATS.includes(format)) {
+    const { exportAnimatedBanner } = await import('./animationExportService');
+    return exportAnimatedBanner(config, settings, scale);
+  }
+  const transparent = settings.transparent && TRANSPARENT_FORMATS.includes(format);
+  if (format === 'svg') return { blob: await fetchBannerSvg(config, scale, transparent), format };
+
+  const canvas = await renderBannerToCanvas(config, { pixelRatio: scale, transparent });
+  if (format === 'pdf') return { blob: await canvasToPdf(canvas, config, settings), format, quality: settings.quality };
+  if (settings.maxFileSizeKb && BUDGET_FORMATS.includes(format)) {
+    // Ad networks differ on whether a KB is 1000 or 1024 bytes; the smaller reading is accepted by all.
+    return encodeWithinBudget(canvas, settings, transparent, settings.maxFileSizeKb * 1000);
+  }
+  const quality = format === 'png' ? undefined : settings.quality;
+  return { blob: await canvasToBlob(canvas, `image/${format}`, quality), format, quality };
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  // Give the browser a moment to start the download before releasing the data.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -1,8 +1,6 @@
-
-import { GoogleGenAI } from "@google/genai";
-
 interface GenerateResponse {
-  imageUrl: string | null;
+  /** Empty when nothing was generated. */
+  imageUrls: string[];
   credits: number;
 }
 
@@ -27,114 +25,89 @@ export const getUserProfile = async (email: string): Promise<UserProfile | null>
   }
 };
 
+// Generation runs on the server, which holds the Gemini key, charges the credit and refunds it
+// if generation fails. A credits value of -1 means nothing was generated.
+
 export const generateNewPrompt = async (theme: string, email: string): Promise<{prompt: string | null, credits: number}> => {
   try {
-    // 1. Deduct credit via backend
-    const deductResponse = await fetch('/api/deduct-credit', {
+    const response = await fetch('/api/generate-prompt', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ email, amount: 1 }),
+      body: JSON.stringify({ email, theme }),
     });
 
-    if (!deductResponse.ok) {
-      const errorData = await deductResponse.json();
-      throw new Error(errorData.message || 'Failed to deduct credit');
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to generate prompt');
     }
 
-    const { credits } = await deductResponse.json();
-
-    // 2. Call Gemini API
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) throw new Error("API Key not found");
-    const ai = new GoogleGenAI({ apiKey });
-    const promptInstruction = `You are an expert AI image prompt engineer. Generate a highly detailed, hyper-realistic image generation prompt for an outdoor clothing brand banner. 
-The theme is: ${theme}.
-CRITICAL REQUIREMENT: The prompt MUST specify that the main subject (a person wearing outdoor gear) is positioned on the extreme RIGHT third of the frame, leaving the left two-thirds completely empty/clear for text placement.
-The prompt should describe the lighting, atmosphere, and camera style (high-end retail photography).
-Do not include any conversational text, just the prompt itself.`;
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: promptInstruction,
-    });
-
-    return {
-      prompt: response.text || null,
-      credits
-    };
+    return await response.json();
   } catch (error) {
-    console.error("Frontend error generating prompt:", error);
-    // Refund credit if Gemini fails
-    try {
-      await fetch('/api/refund-credit', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email, amount: 1 }),
-      });
-    } catch (e) {
-      console.error("Refund failed", e);
-    }
-    return { prompt: null, credits: -1 }; 
+    console.error("Error generating prompt:", error);
+    return { prompt: null, credits: -1 };
   }
 };
 
-export const generateOutdoorBackground = async (prompt: string, email: string): Promise<GenerateResponse> => {
+interface GenerateOptions {
+  count: number;
+  /** The banner size; backgrounds are generated at, or extended to, its aspect ratio. */
+  width: number;
+  height: number;
+}
+
+/**
+ * Generates `count` background candidates from one prompt, charged a credit each. Candidates
+ * that fail are refunded, so fewer than `count` may come back.
+ */
+export const generateOutdoorBackground = async (prompt: string, email: string, { count, width, height }: GenerateOptions): Promise<GenerateResponse> => {
   try {
-    // 1. Deduct credit via backend
-    const deductResponse = await fetch('/api/deduct-credit', {
+    const response = await fetch('/api/generate-background', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ email, amount: 1 }),
+      body: JSON.stringify({ email, prompt, count, width, height }),
     });
 
-    if (!deductResponse.ok) {
-      const errorData = await deductResponse.json();
-      throw new Error(errorData.message || 'Failed to deduct credit');
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to generate background');
     }
 
-    const { credits } = await deductResponse.json();
+    const { imageUrls, credits } = await response.json();
+    return { imageUrls, credits };
+  } catch (error) {
+    console.error("Error generating background:", error);
+    return { imageUrls: [], credits: -1 };
+  }
+};
+
+export type BackgroundEdge = 'top' | 'right' | 'bottom' | 'left';
 
-    // 2. Call Gemini API
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) throw new Error("API Key not found");
-    const ai = new GoogleGenAI({ apiKey });
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: { parts: [{ text: prompt }] },
-      config: { imageConfig: { aspectRatio: "16:9" } }
-    });
+export type BackgroundEditRequest =
+  | { mode: 'inpaint'; image: string; mask: string; instruction: string }
+  | { mode: 'erase'; image: string; mask: string }
+  | { mode: 'extend'; image: string; edge: BackgroundEdge; amount: number; prompt: string };
 
-    let imageUrl = null;
-    if (response.candidates && response.candidates[0] && response.candidates[0].content && response.candidates[0].content.parts) {
-        for (const part of response.candidates[0].content.parts) {
-            if (part.inlineData) {
-                const base64EncodeString = part.inlineData.data;
-                imageUrl = `data:${part.inlineData.mimeType || 'image/png'};base64,${base64EncodeString}`;
-                break;
-            }
-        }
-    }
+/**
+ * Repaints or erases the masked area of a background, or extends one of its edges, for one
+ * credit. A credits value of -1 means the edit failed and nothing was charged.
+ */
+export const editBackgroundImage = async (email: string, edit: BackgroundEditRequest): Promise<{ imageUrl: string | null; credits: number }> => {
+  try {
+    const response = await fetch('/api/edit-background', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, ...edit }),
+    });
 
-    if (!imageUrl) {
-        throw new Error("No image generated");
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to edit background');
     }
 
-    return {
-      imageUrl,
-      credits
-    };
+    const { imageUrl, credits } = await response.json();
+    return { imageUrl, credits };
   } catch (error) {
-    console.error("Frontend error generating background:", error);
-    // Refund credit if Gemini fails
-    try {
-      await fetch('/api/refund-credit', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email, amount: 1 }),
-      });
-    } catch (e) {
-      console.error("Refund failed", e);
-    }
-    return { imageUrl: null, credits: -1 }; 
+    console.error("Error editing background:", error);
+    return { imageUrl: null, credits: -1 };
   }
 };
@@ -0,0 +1,53 @@
+/**
+ * Reads an uploaded file into a data URL, so the image is embedded in the config and
+ * exports without any cross-origin fetches.
+ */
+export const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    // Remote photos must allow CORS, or the canvas they're drawn on can't be read back.
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to decode image'));
+    img.src = src;
+  });
+
+// Large enough for the biggest preset at 2x export, small enough to keep configs manageable.
+const MAX_BACKGROUND_EDGE = 3840;
+
+export const isSupportedPhoto = (file: File) => /^image\/(jpeg|png|webp)$/.test(file.type);
+
+/**
+ * Re-encodes an image as JPEG, downscaled so its long edge is at most `maxEdge` pixels.
+ */
+export const encodeImageAsJpeg = async (src: string, maxEdge: number, quality: number): Promise<string> => {
+  const img = await loadImage(src);
+  const scale = Math.min(1, maxEdge / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.naturalWidth * scale);
+  canvas.height = Math.round(img.naturalHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return src;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+/**
+ * Loads a background photo from disk, downscaling camera-sized shots so the long edge is at
+ * most `MAX_BACKGROUND_EDGE` pixels. Smaller images are embedded as-is.
+ */
+export const prepareBackgroundPhoto = async (file: File): Promise<string> => {
+  const dataUrl = await readFileAsDataUrl(file);
+  const img = await loadImage(dataUrl);
+  if (Math.max(img.naturalWidth, img.naturalHeight) <= MAX_BACKGROUND_EDGE) return dataUrl;
+  return encodeImageAsJpeg(dataUrl, MAX_BACKGROUND_EDGE, 0.92);
+};
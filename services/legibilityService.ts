@@ -0,0 +1,51 @@
+import { BannerConfig, BannerLayer } from '../types';
+import { renderBannerToCanvas } from './exportService';
+import { isTextElement, measureLegibility, type PixelSample } from '../utils/contrast';
+import type { LayerBox } from '../utils/alignment';
+
+// Backgrounds are sampled at this width; contrast doesn't need full resolution.
+const SAMPLE_WIDTH = 320;
+
+/**
+ * Renders everything that sits behind the copy: the background with its overlay and the
+ * non-text elements, such as plates, logos and product cards.
+ */
+export const sampleBackground = async (config: BannerConfig): Promise<PixelSample> => {
+  const canvas = await renderBannerToCanvas(
+    { ...config, layers: config.layers.filter(layer => !isTextElement(layer)) },
+    { pixelRatio: SAMPLE_WIDTH / config.width }
+  );
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context is not available');
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+// Steps of the overlay search; each one renders the background again.
+const OVERLAY_SEARCH_STEPS = 6;
+
+/**
+ * Finds the lowest overlay opacity, above the current one, at which the element is legible.
+ * Returns null when even a fully opaque overlay isn't enough.
+ */
+export const overlayOpacityForLegibility = async (
+  config: BannerConfig,
+  layer: BannerLayer,
+  box: LayerBox
+): Promise<number | null> => {
+  if (!isTextElement(layer)) return null;
+  const passesAt = async (overlayOpacity: number) => {
+    const sample = await sampleBackground({ ...config, overlayOpacity });
+    return measureLegibility(layer, box, config, sample)?.passes ?? false;
+  };
+
+  if (!(await passesAt(1))) return null;
+  let low = config.overlayOpacity;
+  let high = 1;
+  for (let step = 0; step < OVERLAY_SEARCH_STEPS; step++) {
+    const middle = (low + high) / 2;
+    if (await passesAt(middle)) high = middle;
+    else low = middle;
+  }
+  // Round up to the overlay slider's step.
+  return Math.min(1, Math.ceil(high * 100) / 100);
+};
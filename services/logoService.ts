@@ -0,0 +1,49 @@
+import { SavedLogo } from '../types';
+
+export const listLogos = async (email: string): Promise<SavedLogo[]> => {
+  try {
+    const response = await fetch(`/api/logos?email=${encodeURIComponent(email)}`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+    if (!response.ok) throw new Error('Failed to fetch logos');
+    const data = await response.json();
+    return data.logos;
+  } catch (error) {
+    console.error("Error fetching logos:", error);
+    return [];
+  }
+};
+
+export const uploadLogo = async (email: string, name: string, dataUrl: string): Promise<SavedLogo | null> => {
+  try {
+    const response = await fetch('/api/logos', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, name, dataUrl })
+    });
+
+    if (!response.ok) {
+      const errData = await response.json().catch(() => ({}));
+      throw new Error(errData.message || 'Failed to save logo');
+    }
+    return await response.json();
+  } catch (error) {
+    console.error("Error saving logo:", error);
+    return null;
+  }
+};
+
+export const deleteLogo = async (email: string, id: string): Promise<boolean> => {
+  try {
+    const response = await fetch(`/api/logos/${encodeURIComponent(id)}?email=${encodeURIComponent(email)}`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' }
+    });
+    return response.ok;
+  } catch (error) {
+    console.error("Error deleting logo:", error);
+    return false;
+  }
+};
@@ -0,0 +1,42 @@
+import { BannerConfig } from '../types';
+import { configImages, createProject, parseProject, type ParsedProject } from '../utils/projectFile';
+import { buildProjectFilename } from '../utils/exportFilename';
+import { downloadBlob } from './exportService';
+import { readFileAsDataUrl } from './imageService';
+
+/**
+ * Fetches an image into a data URL so the project file carries it. Returns null for images
+ * the browser may not read, such as cross-origin URLs without CORS headers; those are saved
+ * as references.
+ */
+const embedImage = async (src: string): Promise<string | null> => {
+  if (src.startsWith('data:')) return src;
+  try {
+    const response = await fetch(src, { mode: 'cors' });
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    if (!blob.type.startsWith('image/')) return null;
+    return await readFileAsDataUrl(new File([blob], 'image', { type: blob.type }));
+  } catch (error) {
+    console.warn(`Keeping ${src} as a reference:`, error);
+    return null;
+  }
+};
+
+/**
+ * Saves the design as a `.banner.json` project with its images embedded where possible.
+ */
+export const saveProject = async (config: BannerConfig) => {
+  const embedded = new Map<string, string>();
+  for (const src of configImages(config)) {
+    const dataUrl = await embedImage(src);
+    if (dataUrl) embedded.set(src, dataUrl);
+  }
+
+  const project = createProject(config, embedded, process.env.APP_VERSION ?? 'unknown');
+  const blob = new Blob([JSON.stringify(project, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, buildProjectFilename(config));
+};
+
+export const openProject = async (file: File): Promise<ParsedProject> =>
+  parseProject(await file.text());
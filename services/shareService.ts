@@ -0,0 +1,94 @@
+import { BannerConfig, ShareLink } from '../types';
+import { fitDesignConfig } from './designService';
+
+export type CreateShareResult =
+  | { share: ShareLink; error?: undefined }
+  | { share?: undefined; error: 'too-large' | 'failed' };
+
+export interface SharedBanner {
+  name: string;
+  config: BannerConfig;
+  expiresAt: string | null;
+}
+
+export type SharedBannerResult =
+  | { banner: SharedBanner; error?: undefined }
+  | { banner?: undefined; error: 'not-found' | 'expired' | 'failed' };
+
+export const shareUrl = (token: string) => `${window.location.origin}/share/${token}`;
+
+/**
+ * Creates a read-only link to a snapshot of the banner. Later edits don't change what the
+ * link shows.
+ */
+export const createShare = async (
+  email: string,
+  name: string,
+  config: BannerConfig,
+  expiresInDays: number | null
+): Promise<CreateShareResult> => {
+  try {
+    const response = await fetch('/api/shares', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, name, config: await fitDesignConfig(config), expiresInDays })
+    });
+
+    if (!response.ok) {
+      const errData = await response.json().catch(() => ({}));
+      if (response.status === 413) return { error: 'too-large' };
+      throw new Error(errData.message || 'Failed to create share link');
+    }
+    const data = await response.json();
+    return { share: data.share };
+  } catch (error) {
+    console.error("Error creating share link:", error);
+    return { error: 'failed' };
+  }
+};
+
+export const listShares = async (email: string): Promise<ShareLink[]> => {
+  try {
+    const response = await fetch(`/api/shares?email=${encodeURIComponent(email)}`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+    if (!response.ok) throw new Error('Failed to fetch share links');
+    const data = await response.json();
+    return data.shares;
+  } catch (error) {
+    console.error("Error fetching share links:", error);
+    return [];
+  }
+};
+
+export const revokeShare = async (email: string, token: string): Promise<boolean> => {
+  try {
+    const response = await fetch(`/api/shares/${encodeURIComponent(token)}?email=${encodeURIComponent(email)}`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' }
+    });
+    return response.ok;
+  } catch (error) {
+    console.error("Error revoking share link:", error);
+    return false;
+  }
+};
+
+export const getSharedBanner = async (token: string): Promise<SharedBannerResult> => {
+  try {
+    const response = await fetch(`/api/shared/${encodeURIComponent(token)}`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+    if (response.status === 404) return { error: 'not-found' };
+    if (response.status === 410) return { error: 'expired' };
+    if (!response.ok) throw new Error('Failed to fetch shared banner');
+    return { banner: await response.json() };
+  } catch (error) {
+    console.error("Error fetching shared banner:", error);
+    return { error: 'failed' };
+  }
+};
@@ -1,14 +1,188 @@
 
+export type LayerType = 'text' | 'promo' | 'image' | 'shape' | 'product';
+
+export type AnimationEffect = 'fade' | 'slide-from-left' | 'slide-from-right' | 'slide-from-top' | 'slide-from-bottom' | 'scale';
+
+/**
+ * How an element enters when the banner appears. Times are in milliseconds from the start.
+ */
+export interface LayerAnimation {
+  effect: AnimationEffect;
+  delay: number;
+  duration: number;
+}
+
+/**
+ * Fields shared by every element on the banner.
+ * Positions are percentages of the banner: `x` is the left edge, `y` the vertical center.
+ */
+interface BaseLayer {
+  id: string;
+  type: LayerType;
+  x: number;
+  y: number;
+  /** Entrance animation for animated exports; the element is simply shown when unset. */
+  animation?: LayerAnimation;
+}
+
+export interface TextShadow {
+  color: string;
+  opacity: number;
+  blur: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+/**
+ * Typography for text-bearing layers. Sizes are in banner pixels, so they scale with `BannerConfig.width`.
+ */
+export interface TextStyle {
+  fontFamily: string;
+  fontWeight: number;
+  fontStyle: 'normal' | 'italic';
+  fontSize: number;
+  /** In em. */
+  letterSpacing: number;
+  lineHeight: number;
+  color: string;
+  /** Top-to-bottom gradient fill; overrides `color` when set. */
+  gradient: { from: string; to: string } | null;
+  textTransform: 'none' | 'uppercase' | 'lowercase' | 'capitalize';
+  shadow: TextShadow | null;
+}
+
+export interface TextLayer extends BaseLayer {
+  type: 'text';
+  text: string;
+  style: TextStyle;
+}
+
+export interface PromoLayer extends BaseLayer {
+  type: 'promo';
+  text: string;
+  style: TextStyle;
+}
+
+export interface ImageLayer extends BaseLayer {
+  type: 'image';
+  src: string;
+  /** Width as a percentage of the banner width; height follows the image's aspect ratio. */
+  width: number;
+  opacity: number;
+  /** Flattens the image to a single color, e.g. a white logo over a dark photo. */
+  recolor: 'none' | 'white' | 'black';
+}
+
+export interface ShapeLayer extends BaseLayer {
+  type: 'shape';
+  shape: 'rect' | 'ellipse';
+  /** Width and height as percentages of the banner size. */
+  width: number;
+  height: number;
+  color: string;
+  opacity: number;
+}
+
+/**
+ * A price card for one entry of `BannerConfig.products`.
+ */
+export interface ProductLayer extends BaseLayer {
+  type: 'product';
+  productId: string;
+  /** Card width as a percentage of the banner width. */
+  width: number;
+  /** ISO 4217 code used to format the prices. */
+  currency: string;
+  /** `percent` shows "-30%", `zhe` shows the Chinese "7折" notation. */
+  badgeStyle: 'percent' | 'zhe';
+}
+
+export type BannerLayer = TextLayer | PromoLayer | ImageLayer | ShapeLayer | ProductLayer;
+
+export type HighlightStyleId = 'accent' | 'badge' | 'outline' | 'underline';
+
+/** Groups of built-in promotion patterns, each of which can be given a style or switched off. */
+export type HighlightCategory = 'currency' | 'percent' | 'idiom' | 'keyword';
+
+export interface CustomHighlightRule {
+  id: string;
+  /** Literal text to highlight, or a regular expression source when `isRegex` is set. */
+  pattern: string;
+  isRegex: boolean;
+  style: HighlightStyleId;
+}
+
+export interface HighlightSettings {
+  categories: Record<HighlightCategory, HighlightStyleId | null>;
+  /** Checked before the built-in rules, so they win when matches overlap. */
+  custom: CustomHighlightRule[];
+}
+
+export interface LayerPosition {
+  x: number;
+  y: number;
+}
+
+/**
+ * One output size of a campaign. Layer positions for the active size live on the layers
+ * themselves; `positions` holds the layout of every other size, keyed by layer id.
+ */
+export interface CampaignSize {
+  id: string;
+  width: number;
+  height: number;
+  positions: Record<string, LayerPosition>;
+}
+
+/**
+ * The banner copy in one language. The active language's text lives on the layers themselves;
+ * `texts` holds the copy of every other language, keyed by layer id.
+ */
+export interface CopyVariant {
+  locale: string;
+  texts: Record<string, string>;
+}
+
+/**
+ * How the background photo is framed. The focal point is kept in view at every banner size.
+ */
+export interface BackgroundCrop {
+  /** Point of interest in the photo, in percent of its width / height. */
+  focalX: number;
+  focalY: number;
+  /** 1 fills the banner; larger values zoom in around the focal point. */
+  zoom: number;
+}
+
 export interface BannerConfig {
-  title: string;
-  discount: string;
-  discount2: string;
   theme: string;
   prompt: string;
   backgroundImage: string | null;
+  backgroundCrop: BackgroundCrop;
   overlayOpacity: number;
   width: number;
   height: number;
+  /** Ordered bottom to top; later layers render above earlier ones. */
+  layers: BannerLayer[];
+  /** Language of the banner copy (BCP 47), used to pick locale-specific highlight rules. */
+  locale: string;
+  /** Every language the copy is written in; `locale` is the active one. */
+  copyVariants: CopyVariant[];
+  highlights: HighlightSettings;
+  /** Products available to product card layers. */
+  products: Product[];
+  /** Every size this campaign is produced in; `width`/`height` mirror the active one. */
+  sizes: CampaignSize[];
+  activeSizeId: string;
+}
+
+/**
+ * The original fixed three-slot config, kept so older saved configs can be migrated.
+ */
+export interface LegacyBannerConfig extends Omit<BannerConfig, 'backgroundCrop' | 'copyVariants' | 'layers' | 'locale' | 'highlights' | 'products' | 'sizes' | 'activeSizeId'> {
+  title: string;
+  discount: string;
+  discount2: string;
   titleX: number;
   titleY: number;
   discountX: number;
@@ -23,6 +197,45 @@ export interface UserAccount {
   email: string;
 }
 
+/**
+ * A logo or brand mark saved to the user's library on the server.
+ */
+export interface SavedLogo {
+  id: string;
+  name: string;
+  dataUrl: string;
+  createdAt: string;
+}
+
+/**
+ * A design in the user's cloud library, without its config, as listed in the library.
+ * Templates are designs marked as starting points for new banners.
+ */
+export interface SavedDesignSummary {
+  id: string;
+  name: string;
+  isTemplate: boolean;
+  /** Small JPEG preview as a data URL. */
+  thumbnail: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SavedDesign extends SavedDesignSummary {
+  config: BannerConfig;
+}
+
+/**
+ * A read-only link to a snapshot of a banner.
+ */
+export interface ShareLink {
+  token: string;
+  name: string;
+  createdAt: string;
+  /** Null for links that don't expire. */
+  expiresAt: string | null;
+}
+
 export interface Product {
   id: string;
   name: string;
@@ -30,3 +243,48 @@ export interface Product {
   originalPrice: number;
   imageUrl: string;
 }
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp' | 'svg' | 'pdf' | 'gif' | 'mp4' | 'webm' | 'html5';
+
+export interface ExportSettings {
+  format: ExportFormat;
+  /** `scale` multiplies the banner size; `pixels` exports at an exact width. */
+  sizeMode: 'scale' | 'pixels';
+  scale: number;
+  pixelWidth: number;
+  /** Encoder quality between 0 and 1 for JPEG, WebP and the images inside PDFs and HTML5 ads. */
+  quality: number;
+  /** Leaves out the background photo (PNG, WebP and SVG only). */
+  transparent: boolean;
+  /** Print resolution used for the PDF page size. */
+  dpi: number;
+  /** Filename with `{title}`, `{size}`, `{lang}`, `{width}`, `{height}` and `{date}` placeholders. */
+  filenamePattern: string;
+  /** Largest allowed file in kilobytes for PNG, JPEG and WebP, or null for no limit. */
+  maxFileSizeKb: number | null;
+  /** Landing page for HTML5 ads, used as the default `clickTag` until the ad server sets its own. */
+  clickTagUrl: string;
+}
+
+export interface ExportResult {
+  blob: Blob;
+  /** Can differ from the requested format when another one was needed to fit the size limit. */
+  format: ExportFormat;
+  /** Encoder quality used, for lossy formats. */
+  quality?: number;
+  /** Present when a file size limit was applied. */
+  budget?: {
+    limitBytes: number;
+    fits: boolean;
+    /** Quality had to drop low enough for compression artifacts to show, or the limit wasn't met. */
+    degraded: boolean;
+    /** Fine detail was resampled away because the lowest quality alone didn't fit. */
+    softened: boolean;
+  };
+}
+
+/** A downloaded export, listed in the export dialog when a size limit was applied. */
+export interface ExportedFile {
+  filename: string;
+  result: ExportResult;
+}
@@ -0,0 +1,136 @@
+import type { BannerLayer } from '../types';
+
+/**
+ * A layer's bounding box in percentages of the banner.
+ */
+export interface LayerBox {
+  id: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface SnapGuide {
+  /** `vertical` guides are lines at an x position, `horizontal` ones at a y position. */
+  orientation: 'vertical' | 'horizontal';
+  position: number;
+}
+
+export interface SnapOptions {
+  /** Snap distance in percent of the banner width / height. */
+  thresholdX: number;
+  thresholdY: number;
+  /** Inset from the banner edges, in percent, that also acts as a snap line. */
+  margin: number;
+}
+
+const BANNER_LINES = [100 / 3, 50, 200 / 3];
+
+/**
+ * Measures rendered layers inside the banner canvas. Offsets are used rather than client rects,
+ * so hover and drag scale effects don't skew the result.
+ */
+export const measureLayerBoxes = (canvas: HTMLElement, layers: BannerLayer[]): LayerBox[] => {
+  const canvasWidth = canvas.offsetWidth;
+  const canvasHeight = canvas.offsetHeight;
+  if (!canvasWidth || !canvasHeight) return [];
+
+  return layers.flatMap(layer => {
+    const el = canvas.querySelector<HTMLElement>(`[data-layer-id="${CSS.escape(layer.id)}"]`);
+    if (!el) return [];
+    const width = (el.offsetWidth / canvasWidth) * 100;
+    const height = (el.offsetHeight / canvasHeight) * 100;
+    // Layers are anchored by their left edge and vertical center.
+    return [{ id: layer.id, left: layer.x, top: layer.y - height / 2, width, height }];
+  });
+};
+
+const findSnap = (edges: number[], targets: number[], threshold: number) => {
+  let best: { delta: number; target: number } | null = null;
+  for (const edge of edges) {
+    for (const target of targets) {
+      const delta = target - edge;
+      if (Math.abs(delta) <= threshold && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+        best = { delta, target };
+      }
+    }
+  }
+  return best;
+};
+
+/**
+ * Snaps a moving box to the edges and centers of the other boxes, the banner center and thirds,
+ * and the configured margin. Returns the offset to apply and the guides to draw.
+ */
+export const snapBox = (moving: LayerBox, others: LayerBox[], options: SnapOptions) => {
+  const xTargets = [options.margin, 100 - options.margin, ...BANNER_LINES];
+  const yTargets = [options.margin, 100 - options.margin, ...BANNER_LINES];
+  others.forEach(box => {
+    xTargets.push(box.left, box.left + box.width / 2, box.left + box.width);
+    yTargets.push(box.top, box.top + box.height / 2, box.top + box.height);
+  });
+
+  const snapX = findSnap(
+    [moving.left, moving.left + moving.width / 2, moving.left + moving.width],
+    xTargets,
+    options.thresholdX
+  );
+  const snapY = findSnap(
+    [moving.top, moving.top + moving.height / 2, moving.top + moving.height],
+    yTargets,
+    options.thresholdY
+  );
+
+  const guides: SnapGuide[] = [];
+  if (snapX) guides.push({ orientation: 'vertical', position: snapX.target });
+  if (snapY) guides.push({ orientation: 'horizontal', position: snapY.target });
+
+  return { dx: snapX?.delta ?? 0, dy: snapY?.delta ?? 0, guides };
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export type AlignCommand = 'left' | 'center';
+
+/**
+ * Aligns the selected layers to the left edge or horizontal center of their combined bounds.
+ */
+export const alignLayers = (layers: BannerLayer[], boxes: LayerBox[], ids: string[], command: AlignCommand): BannerLayer[] => {
+  const selected = boxes.filter(box => ids.includes(box.id));
+  if (selected.length < 2) return layers;
+
+  const minLeft = Math.min(...selected.map(box => box.left));
+  const maxRight = Math.max(...selected.map(box => box.left + box.width));
+  const center = (minLeft + maxRight) / 2;
+
+  return layers.map(layer => {
+    const box = selected.find(b => b.id === layer.id);
+    if (!box) return layer;
+    const x = command === 'left' ? minLeft : center - box.width / 2;
+    return { ...layer, x: round(x) };
+  });
+};
+
+/**
+ * Spaces the selected layers so the vertical gaps between them are equal.
+ * The top-most and bottom-most layers stay where they are.
+ */
+export const distributeLayersVertically = (layers: BannerLayer[], boxes: LayerBox[], ids: string[]): BannerLayer[] => {
+  const selected = boxes.filter(box => ids.includes(box.id)).sort((a, b) => a.top - b.top);
+  if (selected.length < 3) return layers;
+
+  const first = selected[0];
+  const last = selected[selected.length - 1];
+  const totalHeight = selected.reduce((sum, box) => sum + box.height, 0);
+  const gap = (last.top + last.height - first.top - totalHeight) / (selected.length - 1);
+
+  const centers: Record<string, number> = {};
+  let cursor = first.top;
+  selected.forEach(box => {
+    centers[box.id] = cursor + box.height / 2;
+    cursor += box.height + gap;
+  });
+
+  return layers.map(layer => (layer.id in centers ? { ...layer, y: round(centers[layer.id]) } : layer));
+};
@@ -0,0 +1,89 @@
+import type { AnimationEffect, BannerConfig, LayerAnimation } from '../types';
+
+export const ANIMATION_EFFECTS: AnimationEffect[] = [
+  'fade', 'slide-from-left', 'slide-from-right', 'slide-from-top', 'slide-from-bottom', 'scale',
+];
+
+export const DEFAULT_LAYER_ANIMATION: LayerAnimation = { effect: 'fade', delay: 0, duration: 600 };
+
+// Slider limits. Together they keep a banner within the IAB's 15 second animation cap.
+export const MAX_ANIMATION_DELAY_MS = 10000;
+export const MAX_ANIMATION_DURATION_MS = 5000;
+
+/** How long the finished banner stays on screen before a GIF or video loop restarts. */
+export const ANIMATION_HOLD_MS = 2000;
+
+// Slides start this fraction of the banner's width or height away from their final position.
+const SLIDE_DISTANCE = 0.15;
+const SCALE_FROM = 0.6;
+
+/** `easeOutCubic`, the timing the frame renderer uses, written as a CSS timing function. */
+export const ANIMATION_EASING_CSS = 'cubic-bezier(0.33, 1, 0.68, 1)';
+
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+
+/**
+ * An element's appearance at one moment of its animation. Offsets are in banner pixels.
+ */
+export interface AnimationPose {
+  opacity: number;
+  dx: number;
+  dy: number;
+  scale: number;
+}
+
+export const REST_POSE: AnimationPose = { opacity: 1, dx: 0, dy: 0, scale: 1 };
+
+/**
+ * Where an effect starts. Every effect ends at the rest pose.
+ */
+export const animationStartPose = (effect: AnimationEffect, config: BannerConfig): AnimationPose => {
+  const slideX = config.width * SLIDE_DISTANCE;
+  const slideY = config.height * SLIDE_DISTANCE;
+  switch (effect) {
+    case 'fade':
+      return { ...REST_POSE, opacity: 0 };
+    case 'slide-from-left':
+      return { ...REST_POSE, opacity: 0, dx: -slideX };
+    case 'slide-from-right':
+      return { ...REST_POSE, opacity: 0, dx: slideX };
+    case 'slide-from-top':
+      return { ...REST_POSE, opacity: 0, dy: -slideY };
+    case 'slide-from-bottom':
+      return { ...REST_POSE, opacity: 0, dy: slideY };
+    case 'scale':
+      return { ...REST_POSE, opacity: 0, scale: SCALE_FROM };
+  }
+};
+
+/**
+ * The pose `time` milliseconds after the banner appears. Elements without an animation
+ * are always at rest.
+ */
+export const animationPoseAt = (animation: LayerAnimation | undefined, time: number, config: BannerConfig): AnimationPose => {
+  if (!animation) return REST_POSE;
+  const elapsed = time - animation.delay;
+  const progress = animation.duration > 0 ? Math.min(1, Math.max(0, elapsed / animation.duration)) : (elapsed >= 0 ? 1 : 0);
+  const eased = easeOutCubic(progress);
+  const start = animationStartPose(animation.effect, config);
+  return {
+    opacity: start.opacity + (1 - start.opacity) * eased,
+    dx: start.dx * (1 - eased),
+    dy: start.dy * (1 - eased),
+    scale: start.scale + (1 - start.scale) * eased,
+  };
+};
+
+/**
+ * A CSS transform for a pose; `unit` converts banner pixels to the target's length unit.
+ */
+export const poseTransform = (pose: AnimationPose, unit: (px: number) => string) =>
+  `translate(${unit(pose.dx)}, ${unit(pose.dy)}) scale(${pose.scale})`;
+
+export const hasAnimations = (config: BannerConfig) => config.layers.some(layer => layer.animation);
+
+/**
+ * Milliseconds until the last element has finished entering.
+ */
+export const totalAnimationDuration = (config: BannerConfig) =>
+  config.layers.reduce((end, layer) => layer.animation ? Math.max(end, layer.animation.delay + layer.animation.duration) : end, 0);
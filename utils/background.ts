@@ -0,0 +1,53 @@
+import type { CSSProperties } from 'react';
+import type { BackgroundCrop } from '../types';
+
+export const DEFAULT_BACKGROUND_CROP: BackgroundCrop = { focalX: 50, focalY: 50, zoom: 1 };
+
+export const MAX_BACKGROUND_ZOOM = 3;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Styles for the background `<img>`. `object-position` pins the focal point to the same
+ * relative spot of the frame, so it stays visible whatever the banner's aspect ratio, and
+ * zooming scales around that point so the photo keeps covering the banner.
+ * Only plain CSS is used, so the off-screen and `toJpeg` exports frame the photo identically.
+ */
+export const backgroundImageStyle = (crop: BackgroundCrop): CSSProperties => {
+  const focalX = clamp(crop.focalX, 0, 100);
+  const focalY = clamp(crop.focalY, 0, 100);
+  const zoom = clamp(crop.zoom, 1, MAX_BACKGROUND_ZOOM);
+  return {
+    objectFit: 'cover',
+    objectPosition: `${focalX}% ${focalY}%`,
+    transform: zoom !== 1 ? `scale(${zoom})` : undefined,
+    transformOrigin: `${focalX}% ${focalY}%`,
+  };
+};
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+/**
+ * Maps a point on a banner of size `frame` to the background photo's pixels, as
+ * `image = frame * scale + offset` per axis. Mirrors the framing of `backgroundImageStyle`:
+ * the cover fit, the object position and the zoom around the focal point.
+ */
+export const frameToImageTransform = (crop: BackgroundCrop, frame: Size, image: Size) => {
+  const focalX = clamp(crop.focalX, 0, 100) / 100;
+  const focalY = clamp(crop.focalY, 0, 100) / 100;
+  const zoom = clamp(crop.zoom, 1, MAX_BACKGROUND_ZOOM);
+  const cover = Math.max(frame.width / image.width, frame.height / image.height);
+  // Where the unzoomed photo's top-left corner sits in the frame, and the zoom's origin.
+  const positionX = (frame.width - image.width * cover) * focalX;
+  const positionY = (frame.height - image.height * cover) * focalY;
+  const originX = frame.width * focalX;
+  const originY = frame.height * focalY;
+  return {
+    scale: 1 / (zoom * cover),
+    offsetX: (originX * (1 - 1 / zoom) - positionX) / cover,
+    offsetY: (originY * (1 - 1 / zoom) - positionY) / cover,
+  };
+};
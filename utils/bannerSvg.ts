@@ -0,0 +1,542 @@
+import type { BannerConfig, BannerLayer, HighlightStyleId, ImageLayer, ProductLayer, PromoLayer, ShapeLayer, TextLayer, TextShadow, TextStyle } from '../types';
+import { segmentPromotion } from './promoRules.ts';
+import { formatDiscountBadge, formatPrice } from './products.ts';
+
+/**
+ * A piece of text set in a single font file. Text falls back to another family for glyphs
+ * the requested one doesn't have, so one string may produce several runs.
+ */
+export interface FontRun {
+  text: string;
+  family: string;
+  weight: number;
+  /** Advance width in banner pixels, including letter spacing. */
+  width: number;
+}
+
+/**
+ * Vertical font metrics as fractions of the font size. `descent` is positive below the baseline.
+ */
+export interface FontMetrics {
+  ascent: number;
+  descent: number;
+  strikeoutPosition: number;
+  strikeoutSize: number;
+}
+
+export interface TextMeasurer {
+  layout(text: string, family: string, weight: number, size: number, letterSpacing: number): FontRun[];
+  metrics(family: string, weight: number): FontMetrics;
+  /** When provided, text is drawn as outlines from this path data instead of `<text>` elements. */
+  outline?(run: FontRun, x: number, baseline: number, size: number, letterSpacing: number): string;
+}
+
+export interface ResolvedImage {
+  href: string;
+  width: number;
+  height: number;
+}
+
+export interface BannerSvgOptions {
+  /** Leaves out the background photo and its overlays, so only the layers are drawn. */
+  transparent?: boolean;
+  /** Multiplies the SVG's width and height; the drawing itself stays in banner pixels. */
+  scale?: number;
+}
+
+export interface SvgRenderContext {
+  fonts: TextMeasurer;
+  /** Decoded images keyed by the `src` used in the config. Missing entries are skipped. */
+  images: Record<string, ResolvedImage>;
+}
+
+// Tailwind v4 palette values and fixed pixel effects used by BannerPreview.
+const COLORS = {
+  orange400: '#ff8904',
+  orange500: '#ff6900',
+  orange600: '#f54900',
+  slate200: '#e2e8f0',
+  slate400: '#90a1b9',
+  slate900: '#0f172b',
+  emerald950: '#002c22',
+};
+const ACCENT_GLOW: TextShadow = { color: '#ea580c', opacity: 0.5, offsetX: 0, offsetY: 4, blur: 12 };
+const OUTLINE_SHADOW: TextShadow = { color: '#000000', opacity: 0.6, offsetX: 0, offsetY: 2, blur: 6 };
+const CARD_SHADOW: TextShadow = { color: '#000000', opacity: 0.5, offsetX: 0, offsetY: 8, blur: 24 };
+const CARD_BADGE_SHADOW: TextShadow = { color: '#000000', opacity: 0.1, offsetX: 0, offsetY: 4, blur: 6 };
+
+// The browser's inherited line height (Tailwind preflight) and root font size.
+const BODY_LINE_HEIGHT = 1.5;
+const ROOT_FONT_SIZE = 16;
+// Skew browsers apply when synthesizing italics for fonts loaded without an italic face.
+const FAKE_ITALIC_SKEW = 0.25;
+const CARD_FONT = 'Noto Sans TC';
+
+const RECOLOR_MATRICES: Record<ImageLayer['recolor'], string | null> = {
+  none: null,
+  white: '0 0 0 0 1  0 0 0 0 1  0 0 0 0 1  0 0 0 1 0',
+  black: '0 0 0 0 0  0 0 0 0 0  0 0 0 0 0  0 0 0 1 0',
+};
+
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+// Config values can come from an untrusted request, so every string that ends up in an
+// attribute goes through escapeXml and every number through num.
+const escapeXml = (text: string) =>
+  String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const applyTextTransform = (text: string, transform: TextStyle['textTransform']) => {
+  switch (transform) {
+    case 'uppercase': return text.toUpperCase();
+    case 'lowercase': return text.toLowerCase();
+    case 'capitalize': return text.replace(/(^|\s)(\S)/g, (_, space, first) => space + first.toUpperCase());
+    default: return text;
+  }
+};
+
+interface TextPiece {
+  runs: FontRun[];
+  width: number;
+  size: number;
+  metrics: FontMetrics;
+  italic: boolean;
+  outline?: TextMeasurer['outline'];
+}
+
+/**
+ * Collects `<defs>` entries while a banner is built, handing out unique ids.
+ */
+class SvgDefs {
+  private entries: string[] = [];
+  private counter = 0;
+
+  add(prefix: string, build: (id: string) => string) {
+    const id = `${prefix}${++this.counter}`;
+    this.entries.push(build(id));
+    return id;
+  }
+
+  shadow(shadow: TextShadow) {
+    return this.add('shadow', id =>
+      `<filter id="${id}" x="-50%" y="-50%" width="200%" height="200%" color-interpolation-filters="sRGB">` +
+      `<feDropShadow dx="${num(shadow.offsetX)}" dy="${num(shadow.offsetY)}" stdDeviation="${num(shadow.blur / 2)}" flood-color="${escapeXml(shadow.color)}" flood-opacity="${num(shadow.opacity)}"/></filter>`);
+  }
+
+  verticalGradient(top: number, bottom: number, stops: [string, number, number][]) {
+    return this.add('gradient', id =>
+      `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="0" y1="${num(top)}" x2="0" y2="${num(bottom)}">` +
+      stops.map(([color, opacity, offset]) => `<stop offset="${num(offset)}" stop-color="${escapeXml(color)}" stop-opacity="${num(opacity)}"/>`).join('') +
+      `</linearGradient>`);
+  }
+
+  toString() {
+    return this.entries.length ? `<defs>${this.entries.join('')}</defs>` : '';
+  }
+}
+
+const measure = (fonts: TextMeasurer, text: string, family: string, weight: number, size: number, letterSpacing: number, italic: boolean): TextPiece => {
+  const runs = fonts.layout(text, family, weight, size, letterSpacing);
+  return {
+    runs,
+    width: runs.reduce((sum, run) => sum + run.width, 0),
+    size,
+    metrics: fonts.metrics(family, weight),
+    italic,
+    outline: fonts.outline?.bind(fonts),
+  };
+};
+
+/**
+ * Distance from the top of a line box to the baseline, matching how CSS centers the
+ * font's content area within `line-height`.
+ */
+const baselineInLineBox = (piece: TextPiece, lineBox: number) =>
+  (lineBox - (piece.metrics.ascent + piece.metrics.descent) * piece.size) / 2 + piece.metrics.ascent * piece.size;
+
+/**
+ * Emits a measured piece of text. Each run gets an explicit x, so the output follows the
+ * server-side measurements rather than the SVG renderer's own layout.
+ */
+const textElement = (piece: TextPiece, x: number, baseline: number, letterSpacing: number, attrs: string) => {
+  let cursor = x;
+  const spans = piece.runs.map(run => {
+    const span = piece.outline
+      ? `<path d="${piece.outline(run, cursor, baseline, piece.size, letterSpacing)}"/>`
+      : `<tspan x="${num(cursor)}" font-family="${escapeXml(run.family)}" font-weight="${num(run.weight)}">${escapeXml(run.text)}</tspan>`;
+    cursor += run.width;
+    return span;
+  }).join('');
+  const text = piece.outline
+    ? `<g ${attrs}>${spans}</g>`
+    : `<text y="${num(baseline)}" font-size="${num(piece.size)}" letter-spacing="${num(letterSpacing)}" xml:space="preserve" ${attrs}>${spans}</text>`;
+  if (!piece.italic) return text;
+  // Skew around the baseline, as browsers do for synthesized italics.
+  return `<g transform="matrix(1 0 ${-FAKE_ITALIC_SKEW} 1 ${num(FAKE_ITALIC_SKEW * baseline)} 0)">${text}</g>`;
+};
+
+const filterAttr = (defs: SvgDefs, shadow: TextShadow | null) => (shadow ? ` filter="url(#${defs.shadow(shadow)})"` : '');
+
+/**
+ * The fill for a styled text element: a solid color, or a top-to-bottom gradient over its box.
+ */
+const textFill = (defs: SvgDefs, style: TextStyle, top: number, bottom: number) =>
+  style.gradient
+    ? `url(#${defs.verticalGradient(top, bottom, [[style.gradient.from, 1, 0], [style.gradient.to, 1, 1]])})`
+    : escapeXml(style.color);
+
+const renderTextLayer = (layer: TextLayer, config: BannerConfig, ctx: SvgRenderContext, defs: SvgDefs) => {
+  const { style } = layer;
+  const letterSpacing = style.letterSpacing * style.fontSize;
+  const lineBox = style.lineHeight * style.fontSize;
+  const lines = applyTextTransform(layer.text, style.textTransform).split('\n')
+    .map(line => measure(ctx.fonts, line, style.fontFamily, style.fontWeight, style.fontSize, letterSpacing, style.fontStyle === 'italic'));
+
+  const left = (layer.x / 100) * config.width;
+  const height = lines.length * lineBox;
+  const top = (layer.y / 100) * config.height - height / 2;
+  const fill = textFill(defs, style, top, top + height);
+
+  const body = lines
+    .map((line, i) => textElement(line, left, top + i * lineBox + baselineInLineBox(line, lineBox), letterSpacing, `fill="${fill}"`))
+    .join('');
+  return `<g opacity="0.95"${filterAttr(defs, style.shadow)}>${body}</g>`;
+};
+
+interface RowItem {
+  width: number;
+  height: number;
+  /** Distance from the item's top to its baseline. */
+  baseline: number;
+  draw: (left: number, top: number) => string;
+}
+
+/**
+ * Lays out items on a shared baseline, like a `flex items-baseline` row.
+ */
+const layoutBaselineRow = (items: RowItem[], gap = 0) => {
+  const above = Math.max(0, ...items.map(item => item.baseline));
+  const below = Math.max(0, ...items.map(item => item.height - item.baseline));
+  const width = items.reduce((sum, item) => sum + item.width, 0) + gap * Math.max(0, items.length - 1);
+  return {
+    width,
+    height: above + below,
+    draw: (left: number, top: number) => {
+      let cursor = left;
+      return items.map(item => {
+        const out = item.draw(cursor, top + above - item.baseline);
+        cursor += item.width + gap;
+        return out;
+      }).join('');
+    },
+  };
+};
+
+const highlightItem = (text: string, look: HighlightStyleId, style: TextStyle, ctx: SvgRenderContext, defs: SvgDefs): RowItem => {
+  // Highlights inherit the row's letter spacing, which resolves against the root font size.
+  const letterSpacing = style.letterSpacing * ROOT_FONT_SIZE;
+  const family = style.fontFamily;
+
+  switch (look) {
+    case 'accent':
+    case 'outline': {
+      const piece = measure(ctx.fonts, text, family, 900, style.fontSize * 1.8, letterSpacing, true);
+      const margin = piece.size * 0.15;
+      return {
+        width: piece.width + margin * 2,
+        height: piece.size,
+        baseline: baselineInLineBox(piece, piece.size),
+        draw: (left, top) => {
+          const baseline = top + baselineInLineBox(piece, piece.size);
+          if (look === 'accent') {
+            const fill = defs.verticalGradient(top, top + piece.size, [[COLORS.orange400, 1, 0], [COLORS.orange600, 1, 1]]);
+            return `<g${filterAttr(defs, ACCENT_GLOW)}>${textElement(piece, left + margin, baseline, letterSpacing, `fill="url(#${fill})"`)}</g>`;
+          }
+          const strokeWidth = Math.max(1, style.fontSize * 0.04);
+          return `<g${filterAttr(defs, OUTLINE_SHADOW)}>${textElement(piece, left + margin, baseline, letterSpacing, `fill="none" stroke="${COLORS.orange400}" stroke-width="${num(strokeWidth)}" stroke-linejoin="round"`)}</g>`;
+        },
+      };
+    }
+    case 'badge': {
+      const piece = measure(ctx.fonts, text, family, 900, style.fontSize * 1.2, letterSpacing, true);
+      const padX = piece.size * 0.5;
+      const padY = piece.size * 0.15;
+      const margin = piece.size * 0.25;
+      const height = piece.size + padY * 2;
+      return {
+        width: piece.width + padX * 2 + margin * 2,
+        height,
+        baseline: padY + baselineInLineBox(piece, piece.size),
+        draw: (left, top) => {
+          const pillWidth = piece.width + padX * 2;
+          const pill = `<rect x="${num(left + margin)}" y="${num(top)}" width="${num(pillWidth)}" height="${num(height)}" rx="${num(height / 2)}" fill="${COLORS.orange600}"${filterAttr(defs, ACCENT_GLOW)}/>`;
+          return pill + textElement(piece, left + margin + padX, top + padY + baselineInLineBox(piece, piece.size), letterSpacing, 'fill="#ffffff"');
+        },
+      };
+    }
+    case 'underline': {
+      const piece = measure(ctx.fonts, text, family, 900, style.fontSize * 1.2, letterSpacing, false);
+      const margin = piece.size * 0.1;
+      const lineBox = piece.size * BODY_LINE_HEIGHT;
+      return {
+        width: piece.width + margin * 2,
+        height: lineBox,
+        baseline: baselineInLineBox(piece, lineBox),
+        draw: (left, top) => {
+          const baseline = top + baselineInLineBox(piece, lineBox);
+          const thickness = piece.size * 0.12;
+          return textElement(piece, left + margin, baseline, letterSpacing, `fill="${COLORS.orange400}"`) +
+            `<rect x="${num(left + margin)}" y="${num(baseline + piece.size * 0.15)}" width="${num(piece.width)}" height="${num(thickness)}" fill="${COLORS.orange500}"/>`;
+        },
+      };
+    }
+  }
+};
+
+const renderPromoLayer = (layer: PromoLayer, config: BannerConfig, ctx: SvgRenderContext, defs: SvgDefs) => {
+  const { style } = layer;
+  const letterSpacing = style.letterSpacing * style.fontSize;
+  const lineBox = style.lineHeight * style.fontSize;
+
+  const items = segmentPromotion(layer.text, config.highlights, config.locale).map(segment => {
+    if (segment.highlight) return highlightItem(segment.text.trim(), segment.highlight, style, ctx, defs);
+    const piece = measure(ctx.fonts, applyTextTransform(segment.text, style.textTransform), style.fontFamily, style.fontWeight, style.fontSize, letterSpacing, style.fontStyle === 'italic');
+    return {
+      width: piece.width,
+      height: lineBox,
+      baseline: baselineInLineBox(piece, lineBox),
+      draw: (left, top) => {
+        const fill = textFill(defs, style, top, top + lineBox);
+        return `<g${filterAttr(defs, style.shadow)}>${textElement(piece, left, top + baselineInLineBox(piece, lineBox), letterSpacing, `fill="${fill}"`)}</g>`;
+      },
+    };
+  });
+
+  const row = layoutBaselineRow(items);
+  const left = (layer.x / 100) * config.width;
+  const top = (layer.y / 100) * config.height - row.height / 2;
+  return `<g>${row.draw(left, top)}</g>`;
+};
+
+const coverRect = (image: ResolvedImage, width: number, height: number, focalX = 50, focalY = 50) => {
+  const scale = Math.max(width / image.width, height / image.height);
+  const drawnWidth = image.width * scale;
+  const drawnHeight = image.height * scale;
+  return {
+    x: (width - drawnWidth) * (focalX / 100),
+    y: (height - drawnHeight) * (focalY / 100),
+    width: drawnWidth,
+    height: drawnHeight,
+  };
+};
+
+const imageElement = (image: ResolvedImage, x: number, y: number, width: number, height: number, attrs = '') =>
+  `<image href="${escapeXml(image.href)}" x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}" preserveAspectRatio="none"${attrs}/>`;
+
+const renderImageLayer = (layer: ImageLayer, config: BannerConfig, ctx: SvgRenderContext, defs: SvgDefs) => {
+  const image = layer.src ? ctx.images[layer.src] : undefined;
+  if (!image) return '';
+  const width = (layer.width / 100) * config.width;
+  const height = width * (image.height / image.width);
+  const top = (layer.y / 100) * config.height - height / 2;
+  const matrix = RECOLOR_MATRICES[layer.recolor];
+  const filter = matrix
+    ? ` filter="url(#${defs.add('recolor', id => `<filter id="${id}" color-interpolation-filters="sRGB"><feColorMatrix type="matrix" values="${matrix}"/></filter>`)})"`
+    : '';
+  return imageElement(image, (layer.x / 100) * config.width, top, width, height, ` opacity="${num(layer.opacity)}"${filter}`);
+};
+
+const renderShapeLayer = (layer: ShapeLayer, config: BannerConfig) => {
+  const width = (layer.width / 100) * config.width;
+  const height = (layer.height / 100) * config.height;
+  const left = (layer.x / 100) * config.width;
+  const top = (layer.y / 100) * config.height - height / 2;
+  return layer.shape === 'ellipse'
+    ? `<ellipse cx="${num(left + width / 2)}" cy="${num(top + height / 2)}" rx="${num(width / 2)}" ry="${num(height / 2)}" fill="${escapeXml(layer.color)}" opacity="${num(layer.opacity)}"/>`
+    : `<rect x="${num(left)}" y="${num(top)}" width="${num(width)}" height="${num(height)}" fill="${escapeXml(layer.color)}" opacity="${num(layer.opacity)}"/>`;
+};
+
+/**
+ * Shortens text with an ellipsis until it fits, like CSS `truncate`.
+ */
+const truncate = (fonts: TextMeasurer, text: string, weight: number, size: number, maxWidth: number) => {
+  let piece = measure(fonts, text, CARD_FONT, weight, size, 0, false);
+  if (piece.width <= maxWidth) return piece;
+  const chars = [...text];
+  while (chars.length > 0) {
+    chars.pop();
+    piece = measure(fonts, `${chars.join('').trimEnd()}…`, CARD_FONT, weight, size, 0, false);
+    if (piece.width <= maxWidth) break;
+  }
+  return piece;
+};
+
+const textItem = (piece: TextPiece, fill: string, strike = false): RowItem => {
+  const lineBox = piece.size * BODY_LINE_HEIGHT;
+  return {
+    width: piece.width,
+    height: lineBox,
+    baseline: baselineInLineBox(piece, lineBox),
+    draw: (left, top) => {
+      const baseline = top + baselineInLineBox(piece, lineBox);
+      const text = textElement(piece, left, baseline, 0, `fill="${fill}"`);
+      if (!strike) return text;
+      const thickness = piece.metrics.strikeoutSize * piece.size;
+      return text + `<rect x="${num(left)}" y="${num(baseline - piece.metrics.strikeoutPosition * piece.size - thickness / 2)}" width="${num(piece.width)}" height="${num(thickness)}" fill="${fill}"/>`;
+    },
+  };
+};
+
+const renderProductLayer = (layer: ProductLayer, config: BannerConfig, ctx: SvgRenderContext, defs: SvgDefs) => {
+  const product = config.products.find(p => p.id === layer.productId);
+  if (!product) return '';
+  // Card measurements are fractions of the card width, as in the preview.
+  const card = (layer.width / 100) * config.width;
+  const padX = card * 0.06;
+  const padY = card * 0.04;
+
+  const name = textItem(truncate(ctx.fonts, product.name, 700, card * 0.08, card - padX * 2), COLORS.slate900);
+  const priceItems = [textItem(measure(ctx.fonts, formatPrice(product.price, layer.currency), CARD_FONT, 900, card * 0.14, 0, false), COLORS.orange600)];
+  if (product.originalPrice > product.price) {
+    priceItems.push(textItem(measure(ctx.fonts, formatPrice(product.originalPrice, layer.currency), CARD_FONT, 700, card * 0.07, 0, false), COLORS.slate400, true));
+  }
+  const prices = layoutBaselineRow(priceItems, card * 0.04);
+
+  const height = card + padY + name.height + prices.height + padY;
+  const left = (layer.x / 100) * config.width;
+  const top = (layer.y / 100) * config.height - height / 2;
+  const radius = card * 0.06;
+
+  const clip = defs.add('card', id => `<clipPath id="${id}"><rect x="${num(left)}" y="${num(top)}" width="${num(card)}" height="${num(height)}" rx="${num(radius)}"/></clipPath>`);
+  const image = product.imageUrl ? ctx.images[product.imageUrl] : undefined;
+  let photo = `<rect x="${num(left)}" y="${num(top)}" width="${num(card)}" height="${num(card)}" fill="${COLORS.slate200}"/>`;
+  if (image) {
+    const cover = coverRect(image, card, card);
+    const photoClip = defs.add('photo', id => `<clipPath id="${id}"><rect x="${num(left)}" y="${num(top)}" width="${num(card)}" height="${num(card)}"/></clipPath>`);
+    photo = `<g clip-path="url(#${photoClip})">${imageElement(image, left + cover.x, top + cover.y, cover.width, cover.height)}</g>`;
+  }
+
+  let badge = '';
+  const badgeText = formatDiscountBadge(product.price, product.originalPrice, layer.badgeStyle);
+  if (badgeText) {
+    const piece = measure(ctx.fonts, badgeText, CARD_FONT, 900, card * 0.1, 0, true);
+    const badgePadX = card * 0.05;
+    const badgePadY = card * 0.015;
+    const lineBox = piece.size * BODY_LINE_HEIGHT;
+    const badgeHeight = lineBox + badgePadY * 2;
+    const badgeWidth = piece.width + badgePadX * 2;
+    const badgeLeft = left + card - card * 0.04 - badgeWidth;
+    const badgeTop = top + card * 0.04;
+    badge = `<rect x="${num(badgeLeft)}" y="${num(badgeTop)}" width="${num(badgeWidth)}" height="${num(badgeHeight)}" rx="${num(badgeHeight / 2)}" fill="${COLORS.orange600}"${filterAttr(defs, CARD_BADGE_SHADOW)}/>` +
+      textElement(piece, badgeLeft + badgePadX, badgeTop + badgePadY + baselineInLineBox(piece, lineBox), 0, 'fill="#ffffff"');
+  }
+
+  const textTop = top + card + padY;
+  return `<g>` +
+    `<rect x="${num(left)}" y="${num(top)}" width="${num(card)}" height="${num(height)}" rx="${num(radius)}" fill="#ffffff" fill-opacity="0.95"${filterAttr(defs, CARD_SHADOW)}/>` +
+    `<g clip-path="url(#${clip})">${photo}${badge}` +
+    name.draw(left + padX, textTop) +
+    prices.draw(left + padX, textTop + name.height) +
+    `</g></g>`;
+};
+
+const renderLayer = (layer: BannerLayer, config: BannerConfig, ctx: SvgRenderContext, defs: SvgDefs) => {
+  switch (layer.type) {
+    case 'text': return renderTextLayer(layer, config, ctx, defs);
+    case 'promo': return renderPromoLayer(layer, config, ctx, defs);
+    case 'image': return renderImageLayer(layer, config, ctx, defs);
+    case 'shape': return renderShapeLayer(layer, config);
+    case 'product': return renderProductLayer(layer, config, ctx, defs);
+  }
+};
+
+const renderBackground = (config: BannerConfig, ctx: SvgRenderContext, defs: SvgDefs) => {
+  const { width, height } = config;
+  const image = config.backgroundImage ? ctx.images[config.backgroundImage] : undefined;
+  if (!image) {
+    const gradient = defs.add('bg', id =>
+      `<linearGradient id="${id}" x1="0" y1="1" x2="1" y2="0">` +
+      `<stop offset="0" stop-color="${COLORS.slate900}"/><stop offset="0.5" stop-color="${COLORS.emerald950}"/><stop offset="1" stop-color="${COLORS.slate900}"/></linearGradient>`);
+    return `<rect width="${num(width)}" height="${num(height)}" fill="url(#${gradient})"/>`;
+  }
+
+  // Mirrors `backgroundImageStyle`: cover, pinned at the focal point, then zoomed around it.
+  const { focalX, focalY, zoom } = config.backgroundCrop;
+  const cover = coverRect(image, width, height, focalX, focalY);
+  const originX = (focalX / 100) * width;
+  const originY = (focalY / 100) * height;
+  const scale = Math.max(1, zoom);
+  return imageElement(
+    image,
+    originX + (cover.x - originX) * scale,
+    originY + (cover.y - originY) * scale,
+    cover.width * scale,
+    cover.height * scale
+  );
+};
+
+const renderOverlays = (config: BannerConfig, defs: SvgDefs) => {
+  const { width, height, overlayOpacity } = config;
+  const horizontal = defs.add('overlay', id =>
+    `<linearGradient id="${id}" x1="0" y1="0" x2="1" y2="0">` +
+    `<stop offset="0" stop-opacity="0.95"/><stop offset="0.5" stop-opacity="0.5"/><stop offset="1" stop-opacity="0"/></linearGradient>`);
+  const vertical = defs.add('overlay', id =>
+    `<linearGradient id="${id}" x1="0" y1="1" x2="0" y2="0">` +
+    `<stop offset="0" stop-opacity="0.6"/><stop offset="0.5" stop-opacity="0"/><stop offset="1" stop-opacity="0.2"/></linearGradient>`);
+  return `<rect width="${num(width)}" height="${num(height)}" fill="url(#${horizontal})" opacity="${num(overlayOpacity)}"/>` +
+    `<rect width="${num(width)}" height="${num(height)}" fill="url(#${vertical})" opacity="${num(overlayOpacity * 0.5)}"/>`;
+};
+
+const renderAccentBar = (config: BannerConfig, defs: SvgDefs) => {
+  const gradient = defs.add('accent', id =>
+    `<linearGradient id="${id}" x1="0" y1="0" x2="1" y2="0">` +
+    `<stop offset="0" stop-color="${COLORS.orange600}" stop-opacity="0.5"/><stop offset="1" stop-color="${COLORS.orange600}" stop-opacity="0"/></linearGradient>`);
+  return `<rect x="0" y="${num(config.height - 4)}" width="${num(config.width)}" height="4" fill="url(#${gradient})"/>`;
+};
+
+/**
+ * Every image source a banner needs, so the caller can resolve them before building the SVG.
+ */
+export const collectImageSources = (config: BannerConfig): string[] => {
+  const sources = new Set<string>();
+  if (config.backgroundImage) sources.add(config.backgroundImage);
+  config.layers.forEach(layer => {
+    if (layer.type === 'image' && layer.src) sources.add(layer.src);
+    if (layer.type === 'product') {
+      const product = config.products.find(p => p.id === layer.productId);
+      if (product?.imageUrl) sources.add(product.imageUrl);
+    }
+  });
+  return [...sources];
+};
+
+/**
+ * Every font family a banner's text uses. Product cards always use the card font.
+ */
+export const collectFontFamilies = (config: BannerConfig): string[] => {
+  const families = new Set<string>();
+  config.layers.forEach(layer => {
+    if (layer.type === 'text' || layer.type === 'promo') families.add(layer.style.fontFamily);
+    if (layer.type === 'product') families.add(CARD_FONT);
+  });
+  return [...families];
+};
+
+/**
+ * Builds a standalone SVG of the banner at `config.width` × `config.height`, following the
+ * same layout rules as BannerPreview: layers are anchored by their left edge and vertical
+ * center, and every size is in banner pixels. Text is positioned from the measurer's font
+ * metrics, so the result doesn't depend on the fonts installed where it's rasterized.
+ */
+export const buildBannerSvg = (config: BannerConfig, ctx: SvgRenderContext, options: BannerSvgOptions = {}): string => {
+  const defs = new SvgDefs();
+  const scale = options.scale ?? 1;
+  const content = [
+    ...(options.transparent ? [] : [renderBackground(config, ctx, defs), renderOverlays(config, defs)]),
+    ...config.layers.map(layer => renderLayer(layer, config, ctx, defs)),
+    renderAccentBar(config, defs),
+  ].join('');
+
+  const clip = defs.add('banner', id => `<clipPath id="${id}"><rect width="${num(config.width)}" height="${num(config.height)}"/></clipPath>`);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${num(config.width * scale)}" height="${num(config.height * scale)}" viewBox="0 0 ${num(config.width)} ${num(config.height)}">` +
+    `${defs}<g clip-path="url(#${clip})">${content}</g></svg>`;
+};
@@ -0,0 +1,95 @@
+import type { BannerConfig, CampaignSize, LayerPosition } from '../types';
+
+export interface SizePreset {
+  id: string;
+  /** i18n key for the preset's display name. */
+  labelKey: string;
+  width: number;
+  height: number;
+}
+
+export const SIZE_PRESETS: SizePreset[] = [
+  { id: 'web-hero', labelKey: 'presetWebHero', width: 1644, height: 604 },
+  { id: 'ig-square', labelKey: 'presetIgSquare', width: 1080, height: 1080 },
+  { id: 'ig-story', labelKey: 'presetIgStory', width: 1080, height: 1920 },
+  { id: 'fb-cover', labelKey: 'presetFbCover', width: 1640, height: 624 },
+  { id: 'app-banner', labelKey: 'presetAppBanner', width: 1200, height: 400 },
+];
+
+export const getSizePreset = (id: string) => SIZE_PRESETS.find(preset => preset.id === id);
+
+const capturePositions = (config: BannerConfig): Record<string, LayerPosition> =>
+  Object.fromEntries(config.layers.map(layer => [layer.id, { x: layer.x, y: layer.y }]));
+
+/**
+ * Returns the config as it looks at the given campaign size, without making that size active.
+ * Layers that have never been placed at that size keep their current position.
+ */
+export const configForSize = (config: BannerConfig, sizeId: string): BannerConfig => {
+  if (sizeId === config.activeSizeId) return config;
+  const size = config.sizes.find(s => s.id === sizeId);
+  if (!size) return config;
+
+  return {
+    ...config,
+    width: size.width,
+    height: size.height,
+    layers: config.layers.map(layer => {
+      const position = size.positions[layer.id];
+      return position ? { ...layer, ...position } : layer;
+    }),
+  };
+};
+
+/**
+ * Makes another campaign size active. The current layout is saved to the size being left,
+ * and the target size's layout is applied to the layers.
+ */
+export const switchSize = (config: BannerConfig, sizeId: string): BannerConfig => {
+  if (sizeId === config.activeSizeId || !config.sizes.some(s => s.id === sizeId)) return config;
+
+  const saved: BannerConfig = {
+    ...config,
+    sizes: config.sizes.map(size =>
+      size.id === config.activeSizeId ? { ...size, positions: capturePositions(config) } : size
+    ),
+  };
+  return { ...configForSize(saved, sizeId), activeSizeId: sizeId };
+};
+
+/**
+ * Adds a preset size to the campaign, starting from the current layout.
+ */
+export const addSize = (config: BannerConfig, presetId: string): BannerConfig => {
+  const preset = getSizePreset(presetId);
+  if (!preset || config.sizes.some(s => s.id === presetId)) return config;
+
+  const size: CampaignSize = {
+    id: preset.id,
+    width: preset.width,
+    height: preset.height,
+    positions: capturePositions(config),
+  };
+  return { ...config, sizes: [...config.sizes, size] };
+};
+
+/**
+ * Removes a size from the campaign. The last remaining size cannot be removed;
+ * removing the active size switches to the first remaining one.
+ */
+export const removeSize = (config: BannerConfig, sizeId: string): BannerConfig => {
+  if (config.sizes.length <= 1) return config;
+  const base = sizeId === config.activeSizeId
+    ? switchSize(config, config.sizes.find(s => s.id !== sizeId)!.id)
+    : config;
+  return { ...base, sizes: base.sizes.filter(s => s.id !== sizeId) };
+};
+
+/**
+ * Changes the dimensions of the active size, keeping `width`/`height` and the size list in sync.
+ */
+export const resizeActiveSize = (config: BannerConfig, updates: { width?: number; height?: number }): BannerConfig => ({
+  ...config,
+  ...updates,
+  sizes: config.sizes.map(size => (size.id === config.activeSizeId ? { ...size, ...updates } : size)),
+});
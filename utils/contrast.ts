@@ -0,0 +1,229 @@
+import type { BannerConfig, BannerLayer, HighlightStyleId, PromoLayer, TextLayer, TextShadow, TextStyle } from '../types';
+import type { LayerBox } from './alignment';
+import { createLayer } from './layers';
+import { segmentPromotion } from './promoRules';
+
+/**
+ * Pixels of the rendered background, as returned by `CanvasRenderingContext2D.getImageData`.
+ */
+export interface PixelSample {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+type Rgb = [number, number, number];
+
+export const hexToRgb = (hex: string): Rgb => {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value;
+  const n = parseInt(full, 16) || 0;
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+const linearChannel = (value: number) => {
+  const c = value / 255;
+  return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+};
+
+/** WCAG relative luminance, 0 for black to 1 for white. */
+export const relativeLuminance = ([r, g, b]: Rgb) =>
+  0.2126 * linearChannel(r) + 0.7152 * linearChannel(g) + 0.0722 * linearChannel(b);
+
+/** WCAG contrast ratio between two luminances, from 1 to 21. */
+export const contrastRatio = (a: number, b: number) =>
+  (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+
+/**
+ * WCAG AA minimum: 3:1 for large text (24px, or 18.66px bold), 4.5:1 otherwise.
+ */
+export const requiredContrast = (style: TextStyle) =>
+  style.fontSize >= 24 || (style.fontSize >= 18.66 && style.fontWeight >= 700) ? 3 : 4.5;
+
+type TextElement = TextLayer | PromoLayer;
+
+export const isTextElement = (layer: BannerLayer): layer is TextElement =>
+  layer.type === 'text' || layer.type === 'promo';
+
+/** A color the text is drawn in, with the shadow drawn behind it. */
+interface TextInk {
+  color: Rgb;
+  shadow: Pick<TextShadow, 'color' | 'opacity'> | null;
+}
+
+// Highlight colors and shadows as BannerPreview draws them. Badges sit on their own orange
+// plate, so the background doesn't affect them.
+const HIGHLIGHT_INKS: Partial<Record<HighlightStyleId, TextInk[]>> = {
+  accent: [{ color: hexToRgb('#fb923c'), shadow: null }, { color: hexToRgb('#ea580c'), shadow: null }],
+  outline: [{ color: hexToRgb('#fb923c'), shadow: { color: '#000000', opacity: 0.6 } }],
+  underline: [{ color: hexToRgb('#fb923c'), shadow: null }],
+};
+
+const layerInks = (layer: TextElement, config: BannerConfig): TextInk[] => {
+  const { style } = layer;
+  const colors = style.gradient ? [style.gradient.from, style.gradient.to] : [style.color];
+  const base = colors.map(color => ({ color: hexToRgb(color), shadow: style.shadow }));
+  if (layer.type === 'text') return base;
+
+  const segments = segmentPromotion(layer.text, config.highlights, config.locale);
+  const highlighted = [...new Set(segments.flatMap(s => (s.highlight ? [s.highlight] : [])))];
+  const hasPlainText = segments.some(s => !s.highlight && s.text.trim());
+  return [...(hasPlainText ? base : []), ...highlighted.flatMap(id => HIGHLIGHT_INKS[id] ?? [])];
+};
+
+// At most this many pixels are read per element, spread evenly over its box.
+const MAX_SAMPLES = 600;
+
+const regionPixels = (sample: PixelSample, box: LayerBox): Rgb[] => {
+  const left = Math.max(0, Math.floor((box.left / 100) * sample.width));
+  const top = Math.max(0, Math.floor((box.top / 100) * sample.height));
+  const right = Math.min(sample.width, Math.ceil(((box.left + box.width) / 100) * sample.width));
+  const bottom = Math.min(sample.height, Math.ceil(((box.top + box.height) / 100) * sample.height));
+  const step = Math.max(1, Math.floor(Math.sqrt(((right - left) * (bottom - top)) / MAX_SAMPLES)));
+
+  const pixels: Rgb[] = [];
+  for (let y = top; y < bottom; y += step) {
+    for (let x = left; x < right; x += step) {
+      const i = (y * sample.width + x) * 4;
+      pixels.push([sample.data[i], sample.data[i + 1], sample.data[i + 2]]);
+    }
+  }
+  return pixels;
+};
+
+// A blurred shadow only darkens part of the area around each glyph, so it counts for part of
+// its opacity.
+const SHADOW_WEIGHT = 0.5;
+
+// Text has to stand out from all but the worst tenth of its background, so a few bright
+// highlights don't fail an otherwise readable element.
+const PERCENTILE = 0.1;
+
+const inkContrast = (pixels: Rgb[], ink: TextInk) => {
+  const textLuminance = relativeLuminance(ink.color);
+  const shadow = ink.shadow ? hexToRgb(ink.shadow.color) : null;
+  const weight = ink.shadow ? ink.shadow.opacity * SHADOW_WEIGHT : 0;
+
+  const ratios = pixels.map(pixel => {
+    const behind = shadow
+      ? pixel.map((c, i) => c + (shadow[i] - c) * weight) as Rgb
+      : pixel;
+    return contrastRatio(textLuminance, relativeLuminance(behind));
+  }).sort((a, b) => a - b);
+  return ratios[Math.floor(ratios.length * PERCENTILE)];
+};
+
+export interface LegibilityResult {
+  layerId: string;
+  /** Contrast of the element's weakest color against its background. */
+  contrast: number;
+  required: number;
+  passes: boolean;
+  /** The text is lighter than its background, so darkening the background helps. */
+  lightText: boolean;
+}
+
+/**
+ * Measures an element's contrast against the background pixels under its box. Returns null
+ * when the element has nothing to measure.
+ */
+export const measureLegibility = (
+  layer: TextElement,
+  box: LayerBox,
+  config: BannerConfig,
+  sample: PixelSample
+): LegibilityResult | null => {
+  const inks = layerInks(layer, config);
+  const pixels = regionPixels(sample, box);
+  if (inks.length === 0 || pixels.length === 0) return null;
+
+  const worst = inks
+    .map(ink => ({ ink, contrast: inkContrast(pixels, ink) }))
+    .reduce((a, b) => (b.contrast < a.contrast ? b : a));
+  const luminances = pixels.map(relativeLuminance).sort((a, b) => a - b);
+  const required = requiredContrast(layer.style);
+
+  return {
+    layerId: layer.id,
+    contrast: worst.contrast,
+    required,
+    passes: worst.contrast >= required,
+    lightText: relativeLuminance(worst.ink.color) > luminances[Math.floor(luminances.length / 2)],
+  };
+};
+
+/**
+ * Checks every text and promotion element in the banner, in layer order.
+ */
+export const checkLegibility = (config: BannerConfig, boxes: LayerBox[], sample: PixelSample): LegibilityResult[] =>
+  config.layers.flatMap(layer => {
+    const box = boxes.find(b => b.id === layer.id);
+    const result = box && isTextElement(layer) ? measureLegibility(layer, box, config, sample) : null;
+    return result ? [result] : [];
+  });
+
+/**
+ * A strong shadow in the opposite tone of the text, sized from the font.
+ */
+export const legibilityShadow = (style: TextStyle, lightText: boolean): TextShadow => ({
+  color: lightText ? '#000000' : '#ffffff',
+  opacity: 0.9,
+  blur: Math.max(4, Math.round(style.fontSize * 0.25)),
+  offsetX: 0,
+  offsetY: Math.max(1, Math.round(style.fontSize * 0.04)),
+});
+
+// Padding around the text on a plate, in percent of the banner.
+const PLATE_PADDING = 2;
+
+/**
+ * A translucent plate to place behind an element's box, dark for light text and light for
+ * dark text.
+ */
+export const createLegibilityPlate = (box: LayerBox, lightText: boolean): BannerLayer => {
+  const left = Math.max(0, box.left - PLATE_PADDING);
+  const top = Math.max(0, box.top - PLATE_PADDING);
+  const height = Math.min(100, box.top + box.height + PLATE_PADDING) - top;
+  // Layers are positioned by their vertical center.
+  return createLayer('shape', {
+    x: left,
+    y: top + height / 2,
+    width: Math.min(100, box.left + box.width + PLATE_PADDING) - left,
+    height,
+    color: lightText ? '#000000' : '#ffffff',
+    opacity: 0.6,
+  } as Partial<BannerLayer>);
+};
+
+// Candidate positions are tried on a grid with this spacing, in percent.
+const POSITION_STEP = 2.5;
+
+const boxesOverlap = (a: LayerBox, b: LayerBox) =>
+  a.left < b.left + b.width && a.left + a.width > b.left &&
+  a.top < b.top + b.height && a.top + a.height > b.top;
+
+/**
+ * Finds the nearest position where the element is legible and doesn't overlap the other
+ * elements. Returns the layer's new x/y, or null when there is no such place.
+ */
+export const findLegiblePosition = (
+  layer: TextElement,
+  box: LayerBox,
+  config: BannerConfig,
+  sample: PixelSample,
+  obstacles: LayerBox[]
+): { x: number; y: number } | null => {
+  let best: { left: number; top: number; distance: number } | null = null;
+
+  for (let top = 0; top + box.height <= 100; top += POSITION_STEP) {
+    for (let left = 0; left + box.width <= 100; left += POSITION_STEP) {
+      const candidate = { ...box, left, top };
+      const distance = Math.hypot(left - box.left, top - box.top);
+      if (best && distance >= best.distance) continue;
+      if (obstacles.some(other => boxesOverlap(candidate, other))) continue;
+      if (measureLegibility(layer, candidate, config, sample)?.passes) best = { left, top, distance };
+    }
+  }
+
+  return best && { x: layer.x + best.left - box.left, y: layer.y + best.top - box.top };
+};
@@ -0,0 +1,61 @@
+import type { BannerConfig } from '../types';
+
+const captureTexts = (config: BannerConfig): Record<string, string> =>
+  Object.fromEntries(config.layers.flatMap(layer =>
+    layer.type === 'text' || layer.type === 'promo' ? [[layer.id, layer.text]] : []
+  ));
+
+/**
+ * Returns the config with another language's copy, without making that language active.
+ * Layers that have no text in that language yet keep the current text.
+ */
+export const configForLocale = (config: BannerConfig, locale: string): BannerConfig => {
+  if (locale === config.locale) return config;
+  const variant = config.copyVariants.find(v => v.locale === locale);
+  if (!variant) return config;
+
+  return {
+    ...config,
+    locale,
+    layers: config.layers.map(layer => {
+      const text = variant.texts[layer.id];
+      return text !== undefined && (layer.type === 'text' || layer.type === 'promo') ? { ...layer, text } : layer;
+    }),
+  };
+};
+
+/**
+ * Makes another language active. The current copy is saved to the language being left,
+ * and the target language's copy is applied to the layers.
+ */
+export const switchLocale = (config: BannerConfig, locale: string): BannerConfig => {
+  if (locale === config.locale || !config.copyVariants.some(v => v.locale === locale)) return config;
+
+  const saved: BannerConfig = {
+    ...config,
+    copyVariants: config.copyVariants.map(variant =>
+      variant.locale === config.locale ? { ...variant, texts: captureTexts(config) } : variant
+    ),
+  };
+  return configForLocale(saved, locale);
+};
+
+/**
+ * Adds a language to the campaign, starting from the current copy so it can be translated in place.
+ */
+export const addCopyVariant = (config: BannerConfig, locale: string): BannerConfig => {
+  if (config.copyVariants.some(v => v.locale === locale)) return config;
+  return { ...config, copyVariants: [...config.copyVariants, { locale, texts: captureTexts(config) }] };
+};
+
+/**
+ * Removes a language. The last remaining language cannot be removed; removing the active one
+ * switches to the first remaining language.
+ */
+export const removeCopyVariant = (config: BannerConfig, locale: string): BannerConfig => {
+  if (config.copyVariants.length <= 1) return config;
+  const base = locale === config.locale
+    ? switchLocale(config, config.copyVariants.find(v => v.locale !== locale)!.locale)
+    : config;
+  return { ...base, copyVariants: base.copyVariants.filter(v => v.locale !== locale) };
+};
@@ -0,0 +1,64 @@
+import type { BannerConfig, ExportFormat } from '../types';
+import { PROJECT_FILE_EXTENSION } from './projectFile';
+
+export const DEFAULT_FILENAME_PATTERN = '{title}-{size}-{date}';
+
+export const FORMAT_EXTENSIONS: Record<ExportFormat, string> = {
+  png: 'png',
+  jpeg: 'jpg',
+  webp: 'webp',
+  svg: 'svg',
+  pdf: 'pdf',
+  gif: 'gif',
+  mp4: 'mp4',
+  webm: 'webm',
+  html5: 'zip',
+};
+
+// Characters that aren't allowed in filenames on common file systems.
+const UNSAFE_CHARACTERS = /[\s\\/:*?"<>|\u0000-\u001f]+/g;
+
+const sanitize = (text: string) =>
+  text.normalize('NFKC').replace(UNSAFE_CHARACTERS, '-').replace(/-{2,}/g, '-').replace(/^[-.]+|[-.]+$/g, '');
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * The banner's title: the text of the first text layer, or "banner" when there is none.
+ */
+const bannerTitle = (config: BannerConfig) => {
+  const title = config.layers.find(layer => layer.type === 'text');
+  return (title?.type === 'text' && sanitize(title.text).slice(0, 60)) || 'banner';
+};
+
+const fillPattern = (pattern: string, config: BannerConfig, sizeId: string, date: Date) => {
+  const values: Record<string, string> = {
+    title: bannerTitle(config),
+    size: sizeId,
+    lang: config.locale,
+    width: String(config.width),
+    height: String(config.height),
+    date: formatDate(date),
+  };
+  return sanitize(pattern.replace(/\{(\w+)\}/g, (match, token) => values[token] ?? match)) || 'banner';
+};
+
+/**
+ * Fills in a filename pattern for a banner and adds the format's extension. Pass `sizeId` for
+ * configs from `configForSize`, which keep the active size's id.
+ */
+export const buildExportFilename = (pattern: string, config: BannerConfig, format: ExportFormat, sizeId = config.activeSizeId, date = new Date()) =>
+  `${fillPattern(pattern, config, sizeId, date)}.${FORMAT_EXTENSIONS[format]}`;
+
+/**
+ * Name of the ZIP holding a whole campaign.
+ */
+export const buildCampaignArchiveFilename = (config: BannerConfig, date = new Date()) =>
+  `${fillPattern('{title}-campaign-{date}', config, config.activeSizeId, date)}.zip`;
+
+/**
+ * Name of a saved project file.
+ */
+export const buildProjectFilename = (config: BannerConfig) =>
+  `${fillPattern('{title}', config, config.activeSizeId, new Date())}${PROJECT_FILE_EXTENSION}`;
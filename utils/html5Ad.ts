@@ -0,0 +1,60 @@
+import type { BannerConfig, LayerAnimation } from '../types';
+import { ANIMATION_EASING_CSS, animationStartPose, poseTransform } from './animation.ts';
+
+/**
+ * One image of an HTML5 ad, positioned in banner pixels.
+ */
+export interface Html5AdSlice {
+  file: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  animation?: LayerAnimation;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const px = (value: number) => `${Math.round(value * 100) / 100}px`;
+
+const sliceKeyframes = (slice: Html5AdSlice, index: number, config: BannerConfig) => {
+  if (!slice.animation) return '';
+  const start = animationStartPose(slice.animation.effect, config);
+  return `@keyframes enter-${index} { from { opacity: ${start.opacity}; transform: ${poseTransform(start, px)}; } to { opacity: 1; transform: none; } }\n` +
+    `#slice-${index} { animation: enter-${index} ${slice.animation.duration}ms ${ANIMATION_EASING_CSS} ${slice.animation.delay}ms both; }\n`;
+};
+
+/**
+ * Builds the `index.html` of an HTML5 display ad following the IAB and Google Ads conventions:
+ * an `ad.size` meta tag, a global `clickTag` that ad servers can override, and a click-through
+ * opened with `window.open(window.clickTag)`. Animations play once, with CSS only.
+ */
+export const buildHtml5AdDocument = (config: BannerConfig, slices: Html5AdSlice[], clickTagUrl: string, title: string) => {
+  // JSON is a valid JS string literal; escaping "<" keeps it from closing the script element.
+  const clickTag = JSON.stringify(clickTagUrl).replace(/</g, '\\u003c');
+  const images = slices.map((slice, index) =>
+    `<img id="slice-${index}" src="${escapeHtml(slice.file)}" alt="" style="left: ${px(slice.left)}; top: ${px(slice.top)}; width: ${px(slice.width)}; height: ${px(slice.height)};">`
+  );
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(config.locale)}">
+<head>
+<meta charset="utf-8">
+<meta name="ad.size" content="width=${config.width},height=${config.height}">
+<title>${escapeHtml(title)}</title>
+<script>var clickTag = ${clickTag};</script>
+<style>
+html, body { margin: 0; padding: 0; }
+#ad { position: relative; display: block; width: ${config.width}px; height: ${config.height}px; overflow: hidden; cursor: pointer; }
+#ad img { position: absolute; display: block; border: 0; }
+${slices.map((slice, index) => sliceKeyframes(slice, index, config)).join('')}</style>
+</head>
+<body>
+<a id="ad" href="javascript:window.open(window.clickTag)">
+${images.join('\n')}
+</a>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,149 @@
+import type { BannerConfig, BannerLayer, LayerType, LegacyBannerConfig } from '../types';
+import { DEFAULT_HEADING_STYLE, DEFAULT_PROMO_STYLE } from './typography.ts';
+import { DEFAULT_HIGHLIGHT_SETTINGS } from './promoRules.ts';
+import { DEFAULT_BACKGROUND_CROP } from './background.ts';
+
+export const createLayerId = () =>
+  `layer-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+/**
+ * Builds a new layer of the given type with sensible defaults, placed near the left third
+ * where the generated backgrounds leave room for copy.
+ */
+export const createLayer = (type: LayerType, overrides: Partial<BannerLayer> = {}): BannerLayer => {
+  const base = { id: createLayerId(), x: 10, y: 50 };
+  let layer: BannerLayer;
+  switch (type) {
+    case 'text':
+      layer = { ...base, type, text: 'New Heading', style: { ...DEFAULT_HEADING_STYLE } };
+      break;
+    case 'promo':
+      layer = { ...base, type, text: '8折', style: { ...DEFAULT_PROMO_STYLE } };
+      break;
+    case 'image':
+      layer = { ...base, type, src: '', width: 15, opacity: 1, recolor: 'none' };
+      break;
+    case 'shape':
+      layer = { ...base, type, shape: 'rect', width: 30, height: 20, color: '#ea580c', opacity: 0.8 };
+      break;
+    case 'product':
+      layer = { ...base, type, x: 60, productId: '', width: 14, currency: 'TWD', badgeStyle: 'percent' };
+      break;
+  }
+  return { ...layer, ...overrides } as BannerLayer;
+};
+
+export const updateLayer = (layers: BannerLayer[], id: string, updates: Partial<BannerLayer>): BannerLayer[] =>
+  layers.map(layer => (layer.id === id ? ({ ...layer, ...updates } as BannerLayer) : layer));
+
+export const removeLayer = (layers: BannerLayer[], id: string): BannerLayer[] =>
+  layers.filter(layer => layer.id !== id);
+
+/**
+ * Inserts a copy of the layer directly above the original, nudged so it doesn't sit exactly on top.
+ */
+export const duplicateLayer = (layers: BannerLayer[], id: string): BannerLayer[] => {
+  const index = layers.findIndex(layer => layer.id === id);
+  if (index === -1) return layers;
+  const source = layers[index];
+  const copy = {
+    ...source,
+    id: createLayerId(),
+    x: Math.min(100, source.x + 2),
+    y: Math.min(100, source.y + 2),
+  } as BannerLayer;
+  return [...layers.slice(0, index + 1), copy, ...layers.slice(index + 1)];
+};
+
+/**
+ * Inserts a layer directly beneath another one in the stack.
+ */
+export const insertLayerBelow = (layers: BannerLayer[], id: string, layer: BannerLayer): BannerLayer[] => {
+  const index = layers.findIndex(l => l.id === id);
+  if (index === -1) return layers;
+  return [...layers.slice(0, index), layer, ...layers.slice(index)];
+};
+
+/**
+ * Moves a layer one step up (towards the front) or down (towards the back) in the stack.
+ */
+export const moveLayer = (layers: BannerLayer[], id: string, direction: 'up' | 'down'): BannerLayer[] => {
+  const index = layers.findIndex(layer => layer.id === id);
+  const target = direction === 'up' ? index + 1 : index - 1;
+  if (index === -1 || target < 0 || target >= layers.length) return layers;
+  const next = [...layers];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+const isLegacyConfig = (config: BannerConfig | LegacyBannerConfig): config is LegacyBannerConfig =>
+  !Array.isArray((config as BannerConfig).layers) && 'title' in config;
+
+/**
+ * Brings an older saved config up to the current shape: converts the fixed
+ * title/discount/discount2 fields into layers, and fills in text styles, highlight rules,
+ * the product list, the campaign size, the background crop and the copy variants for configs
+ * saved before those existed.
+ * Up-to-date configs are returned unchanged.
+ */
+export const migrateBannerConfig = (config: BannerConfig | LegacyBannerConfig | Partial<BannerConfig>): BannerConfig => {
+  let migrated = config as BannerConfig;
+
+  if (isLegacyConfig(config as BannerConfig | LegacyBannerConfig)) {
+    const {
+      title, discount, discount2,
+      titleX, titleY, discountX, discountY, discount2X, discount2Y,
+      ...rest
+    } = config as LegacyBannerConfig;
+
+    migrated = {
+      ...rest,
+      layers: [
+        { id: 'title', type: 'text', text: title, x: titleX, y: titleY },
+        { id: 'discount', type: 'promo', text: discount, x: discountX, y: discountY },
+        { id: 'discount2', type: 'promo', text: discount2, x: discount2X, y: discount2Y },
+      ],
+    } as BannerConfig;
+  }
+
+  if (migrated.layers.some(layer => (layer.type === 'text' || layer.type === 'promo') && !layer.style)) {
+    migrated = {
+      ...migrated,
+      layers: migrated.layers.map(layer => {
+        if (layer.type === 'text' && !layer.style) return { ...layer, style: { ...DEFAULT_HEADING_STYLE } };
+        if (layer.type === 'promo' && !layer.style) return { ...layer, style: { ...DEFAULT_PROMO_STYLE } };
+        return layer;
+      }),
+    };
+  }
+
+  if (!migrated.locale || !migrated.highlights) {
+    migrated = {
+      ...migrated,
+      locale: migrated.locale || 'zh-TW',
+      highlights: migrated.highlights || DEFAULT_HIGHLIGHT_SETTINGS,
+    };
+  }
+
+  if (!migrated.backgroundCrop) {
+    migrated = { ...migrated, backgroundCrop: { ...DEFAULT_BACKGROUND_CROP } };
+  }
+
+  if (!Array.isArray(migrated.products)) {
+    migrated = { ...migrated, products: [] };
+  }
+
+  if (!Array.isArray(migrated.sizes) || migrated.sizes.length === 0) {
+    migrated = {
+      ...migrated,
+      sizes: [{ id: 'custom', width: migrated.width, height: migrated.height, positions: {} }],
+      activeSizeId: 'custom',
+    };
+  }
+
+  if (!Array.isArray(migrated.copyVariants) || migrated.copyVariants.length === 0) {
+    migrated = { ...migrated, copyVariants: [{ locale: migrated.locale, texts: {} }] };
+  }
+
+  return migrated;
+};
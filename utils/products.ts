@@ -0,0 +1,54 @@
+import type { Product, ProductLayer } from '../types';
+
+export const createProduct = (overrides: Partial<Product> = {}): Product => ({
+  id: `product-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+  name: 'New Product',
+  price: 0,
+  originalPrice: 0,
+  imageUrl: '',
+  ...overrides,
+});
+
+/**
+ * Returns the sale price as a fraction of the original price, or null when there is no discount.
+ */
+export const discountRatio = (price: number, originalPrice: number): number | null => {
+  if (!(originalPrice > 0) || !(price >= 0) || price >= originalPrice) return null;
+  return price / originalPrice;
+};
+
+/**
+ * Formats the discount badge text, e.g. "-30%" or "7折" (70% of the original price).
+ * Chinese discounts drop a trailing zero: 0.7 is "7折" but 0.75 is "75折".
+ */
+export const formatDiscountBadge = (
+  price: number,
+  originalPrice: number,
+  style: ProductLayer['badgeStyle']
+): string | null => {
+  const ratio = discountRatio(price, originalPrice);
+  if (ratio === null) return null;
+
+  if (style === 'zhe') {
+    const hundredths = Math.max(1, Math.round(ratio * 100));
+    return `${hundredths % 10 === 0 ? hundredths / 10 : hundredths}折`;
+  }
+  return `-${Math.max(1, Math.round((1 - ratio) * 100))}%`;
+};
+
+/**
+ * Formats a price with a fixed locale so exports look the same on every machine.
+ */
+export const formatPrice = (value: number, currency: string): string => {
+  const fractionDigits = Number.isInteger(value) ? 0 : 2;
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    }).format(value);
+  } catch {
+    return `${currency} ${value}`;
+  }
+};
@@ -0,0 +1,142 @@
+import type { BannerConfig, LegacyBannerConfig } from '../types';
+import { migrateBannerConfig } from './layers';
+
+export const PROJECT_FILE_EXTENSION = '.banner.json';
+
+const PROJECT_FORMAT = 'banner-creator-project';
+
+/**
+ * Version of the project file envelope. Bump it together with a new entry in
+ * `PROJECT_MIGRATIONS` whenever saved files need converting; changes inside `BannerConfig`
+ * alone are handled by `migrateBannerConfig`.
+ */
+export const PROJECT_SCHEMA_VERSION = 1;
+
+// Images embedded in the file are referenced from the config as `asset:<id>`.
+const ASSET_PREFIX = 'asset:';
+
+/**
+ * A saved design: the config, the images it uses and the versions it was saved with.
+ */
+export interface BannerProject {
+  format: typeof PROJECT_FORMAT;
+  schemaVersion: number;
+  /** Version of the app that wrote the file, for troubleshooting. */
+  appVersion: string;
+  savedAt: string;
+  config: BannerConfig;
+  /** Embedded images as data URLs, keyed by asset id. Images that couldn't be embedded stay URLs in the config. */
+  assets: Record<string, string>;
+}
+
+/**
+ * Applies `map` to every image reference in the config: the background, image layers and
+ * product photos.
+ */
+export const mapConfigImages = (config: BannerConfig, map: (src: string) => string): BannerConfig => ({
+  ...config,
+  backgroundImage: config.backgroundImage && map(config.backgroundImage),
+  layers: config.layers.map(layer => (layer.type === 'image' && layer.src ? { ...layer, src: map(layer.src) } : layer)),
+  products: config.products.map(product => (product.imageUrl ? { ...product, imageUrl: map(product.imageUrl) } : product)),
+});
+
+export const configImages = (config: BannerConfig) => {
+  const images = new Set<string>();
+  mapConfigImages(config, src => {
+    images.add(src);
+    return src;
+  });
+  return [...images];
+};
+
+/**
+ * Builds a project from a config. `embedded` maps image URLs to the data URLs stored in the
+ * file; the same image used in several places is stored once.
+ */
+export const createProject = (config: BannerConfig, embedded: Map<string, string>, appVersion: string): BannerProject => {
+  const assets: Record<string, string> = {};
+  const assetIds = new Map<string, string>();
+  const projectConfig = mapConfigImages(config, src => {
+    const dataUrl = embedded.get(src);
+    if (!dataUrl) return src;
+    if (!assetIds.has(dataUrl)) {
+      const id = `image-${assetIds.size + 1}`;
+      assetIds.set(dataUrl, id);
+      assets[id] = dataUrl;
+    }
+    return `${ASSET_PREFIX}${assetIds.get(dataUrl)}`;
+  });
+
+  return {
+    format: PROJECT_FORMAT,
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    appVersion,
+    savedAt: new Date().toISOString(),
+    config: projectConfig,
+    assets,
+  };
+};
+
+type ProjectMigration = (project: Record<string, any>) => Record<string, any>;
+
+/**
+ * Upgrades a file from the schema version it's keyed by to the next one.
+ */
+const PROJECT_MIGRATIONS: Record<number, ProjectMigration> = {
+  // Version 0 is a bare config, as kept before project files existed.
+  0: ({ config }) => ({
+    format: PROJECT_FORMAT,
+    schemaVersion: 1,
+    appVersion: 'unknown',
+    savedAt: '',
+    config,
+    assets: {},
+  }),
+};
+
+export type ProjectParseError = 'invalid' | 'newer-version';
+
+export type ParsedProject =
+  | { project: BannerProject; error?: undefined }
+  | { project?: undefined; error: ProjectParseError };
+
+const isBareConfig = (value: Record<string, any>) =>
+  Array.isArray(value.layers) || 'title' in value;
+
+/**
+ * Reads a project file, upgrading older files to the current schema and config shape, and
+ * resolves embedded images back into the config.
+ */
+export const parseProject = (text: string): ParsedProject => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { error: 'invalid' };
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return { error: 'invalid' };
+
+  let project = data as Record<string, any>;
+  if (project.format !== PROJECT_FORMAT) {
+    if (!isBareConfig(project)) return { error: 'invalid' };
+    project = { schemaVersion: 0, config: project };
+  }
+
+  let version = typeof project.schemaVersion === 'number' ? project.schemaVersion : 0;
+  if (version > PROJECT_SCHEMA_VERSION) return { error: 'newer-version' };
+  while (version < PROJECT_SCHEMA_VERSION) {
+    const migrate = PROJECT_MIGRATIONS[version];
+    if (!migrate) return { error: 'invalid' };
+    project = migrate(project);
+    version = project.schemaVersion;
+  }
+
+  if (!project.config || typeof project.config !== 'object' || !isBareConfig(project.config)) return { error: 'invalid' };
+  const assets: Record<string, string> = project.assets && typeof project.assets === 'object' ? project.assets : {};
+  const config = mapConfigImages(
+    migrateBannerConfig(project.config as BannerConfig | LegacyBannerConfig),
+    src => (src.startsWith(ASSET_PREFIX) ? assets[src.slice(ASSET_PREFIX.length)] ?? '' : src)
+  );
+
+  return { project: { ...(project as BannerProject), config, assets } };
+};
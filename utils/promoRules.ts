@@ -0,0 +1,122 @@
+import type { CustomHighlightRule, HighlightCategory, HighlightSettings, HighlightStyleId } from '../types';
+
+interface BuiltInRule {
+  category: HighlightCategory;
+  pattern: RegExp;
+  /** Language prefixes the rule applies to; omitted means every locale. */
+  locales?: string[];
+}
+
+export interface PromoSegment {
+  text: string;
+  highlight: HighlightStyleId | null;
+}
+
+const OFF = String.raw`(?:\s*(?:off|OFF|Off|オフ|할인))?`;
+const NUMBER = String.raw`\d+(?:[.,]\d+)*`;
+const CJK_NUMERAL = '[一二兩两三四五六七八九十\\d]';
+
+export const BUILT_IN_RULES: BuiltInRule[] = [
+  // Currency amounts: "$25 OFF", "€10 off", "NT$500", "10€", "100元", "500円引き".
+  { category: 'currency', pattern: new RegExp(String.raw`(?:NT|US|HK|S|A|C)?\$\s?${NUMBER}${OFF}`) },
+  { category: 'currency', pattern: new RegExp(String.raw`[€£¥₩]\s?${NUMBER}${OFF}`) },
+  { category: 'currency', pattern: new RegExp(String.raw`${NUMBER}\s?(?:€|元|円|원)(?:引き)?${OFF}`) },
+
+  // Percentages: "-30%", "15% OFF", "50%オフ", "30% 할인".
+  { category: 'percent', pattern: new RegExp(String.raw`[-−]?\d+(?:\.\d+)?\s?%${OFF}`) },
+
+  // Chinese discount idioms: "2件8折", "88折", "七折", "買一送一", "半價", "免運".
+  { category: 'idiom', pattern: new RegExp(String.raw`\d+件\d+(?:\.\d+)?折`), locales: ['zh'] },
+  { category: 'idiom', pattern: new RegExp(String.raw`第${CJK_NUMERAL}件\d*(?:\.\d+)?折`), locales: ['zh'] },
+  { category: 'idiom', pattern: new RegExp(String.raw`(?:\d+(?:\.\d+)?|${CJK_NUMERAL})\s?折(?:起)?`), locales: ['zh', 'ja'] },
+  { category: 'idiom', pattern: new RegExp(String.raw`[買买]${CJK_NUMERAL}+送${CJK_NUMERAL}+`), locales: ['zh'] },
+  { category: 'idiom', pattern: /半價|半价|免運費?|免运费?|限時特價|限时特价/, locales: ['zh'] },
+  { category: 'idiom', pattern: /半額|送料無料|\d+割引/, locales: ['ja'] },
+  { category: 'idiom', pattern: /반값|무료\s?배송|\d\+\d/, locales: ['ko'] },
+
+  // Sale keywords, per language.
+  { category: 'keyword', pattern: /\b(?:SALE|BOGO|CLEARANCE|HALF PRICE|FREE SHIPPING|BLACK FRIDAY)\b/i, locales: ['en'] },
+  { category: 'keyword', pattern: /\b(?:SOLDES|PROMO|LIVRAISON GRATUITE)\b/i, locales: ['fr'] },
+  { category: 'keyword', pattern: /\b(?:SALE|RABATT|SCHLUSSVERKAUF|GRATIS VERSAND)\b/i, locales: ['de'] },
+  { category: 'keyword', pattern: /\b(?:REBAJAS|OFERTA|ENVÍO GRATIS)\b/i, locales: ['es'] },
+  { category: 'keyword', pattern: /\b(?:SALDI|SCONTO|SPEDIZIONE GRATUITA)\b/i, locales: ['it'] },
+  { category: 'keyword', pattern: /\bSALE\b|セール/i, locales: ['ja'] },
+  { category: 'keyword', pattern: /\bSALE\b|세일|특가/i, locales: ['ko'] },
+  { category: 'keyword', pattern: /\bSALE\b|特賣|特卖|優惠|优惠/i, locales: ['zh'] },
+];
+
+export const DEFAULT_HIGHLIGHT_SETTINGS: HighlightSettings = {
+  categories: { currency: 'accent', percent: 'accent', idiom: 'accent', keyword: 'badge' },
+  custom: [],
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compiles a user-defined rule, returning null for empty or invalid patterns.
+ */
+export const compileCustomRule = (rule: CustomHighlightRule): RegExp | null => {
+  if (!rule.pattern) return null;
+  try {
+    return new RegExp(rule.isRegex ? rule.pattern : escapeRegExp(rule.pattern), 'gi');
+  } catch {
+    return null;
+  }
+};
+
+const appliesToLocale = (rule: BuiltInRule, locale: string) =>
+  !rule.locales || rule.locales.some(prefix => locale.toLowerCase().startsWith(prefix));
+
+interface Match {
+  start: number;
+  end: number;
+  style: HighlightStyleId;
+  /** 0 for custom rules, 1 for built-in ones. */
+  tier: number;
+}
+
+/**
+ * Splits promotion copy into plain and highlighted segments.
+ * Custom rules are placed first; built-in rules then fill the remaining text. Within a tier,
+ * overlapping matches resolve to the earliest start, then the longest match.
+ */
+export const segmentPromotion = (text: string, settings: HighlightSettings, locale: string): PromoSegment[] => {
+  const candidates: { regex: RegExp; style: HighlightStyleId; tier: number }[] = [];
+
+  settings.custom.forEach(rule => {
+    const regex = compileCustomRule(rule);
+    if (regex) candidates.push({ regex, style: rule.style, tier: 0 });
+  });
+  BUILT_IN_RULES.forEach(rule => {
+    const style = settings.categories[rule.category];
+    if (style && appliesToLocale(rule, locale)) {
+      // A fresh global copy per call, so no lastIndex state leaks between renders.
+      candidates.push({ regex: new RegExp(rule.pattern.source, rule.pattern.flags.replace('g', '') + 'g'), style, tier: 1 });
+    }
+  });
+
+  const matches: Match[] = [];
+  candidates.forEach(({ regex, style, tier }) => {
+    for (const m of text.matchAll(regex)) {
+      if (!m[0]) continue;
+      matches.push({ start: m.index!, end: m.index! + m[0].length, style, tier });
+    }
+  });
+  matches.sort((a, b) => a.tier - b.tier || a.start - b.start || (b.end - b.start) - (a.end - a.start));
+
+  const accepted: Match[] = [];
+  for (const match of matches) {
+    if (!accepted.some(other => match.start < other.end && other.start < match.end)) accepted.push(match);
+  }
+  accepted.sort((a, b) => a.start - b.start);
+
+  const segments: PromoSegment[] = [];
+  let cursor = 0;
+  for (const match of accepted) {
+    if (match.start > cursor) segments.push({ text: text.slice(cursor, match.start), highlight: null });
+    segments.push({ text: text.slice(match.start, match.end), highlight: match.style });
+    cursor = match.end;
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), highlight: null });
+  return segments;
+};
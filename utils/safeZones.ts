@@ -0,0 +1,91 @@
+import type { BannerLayer } from '../types';
+import type { LayerBox } from './alignment';
+
+/**
+ * Part of a banner that a platform covers with its own UI or crops away, in percentages of
+ * the banner.
+ */
+export interface SafeZoneRegion {
+  /** i18n key naming what covers this area. */
+  labelKey: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Covered areas for each size preset. Custom sizes have none.
+ */
+export const SAFE_ZONES: Record<string, SafeZoneRegion[]> = {
+  // Shop themes commonly float a transparent header over the hero image.
+  'web-hero': [
+    { labelKey: 'zoneShopHeader', left: 0, top: 0, width: 100, height: 12 },
+  ],
+  // The profile grid shows square posts cropped to 3:4.
+  'ig-square': [
+    { labelKey: 'zoneIgGridCrop', left: 0, top: 0, width: 12.5, height: 100 },
+    { labelKey: 'zoneIgGridCrop', left: 87.5, top: 0, width: 12.5, height: 100 },
+  ],
+  // The account header at the top and the reply bar at the bottom of a story.
+  'ig-story': [
+    { labelKey: 'zoneIgStoryHeader', left: 0, top: 0, width: 100, height: 14 },
+    { labelKey: 'zoneIgStoryReply', left: 0, top: 80, width: 100, height: 20 },
+  ],
+  // Mobile shows the cover at 16:9, cropping the sides; the profile picture overlaps the lower left.
+  'fb-cover': [
+    { labelKey: 'zoneFbMobileCrop', left: 0, top: 0, width: 16, height: 100 },
+    { labelKey: 'zoneFbMobileCrop', left: 84, top: 0, width: 16, height: 100 },
+    { labelKey: 'zoneFbProfilePicture', left: 3, top: 55, width: 20, height: 45 },
+  ],
+  // Carousel dots in app home screens.
+  'app-banner': [
+    { labelKey: 'zoneAppIndicators', left: 35, top: 88, width: 30, height: 12 },
+  ],
+};
+
+export const safeZoneRegions = (sizeId: string) => SAFE_ZONES[sizeId] ?? [];
+
+export interface SafeZoneConflict {
+  layerId: string;
+  labelKey: string;
+}
+
+const overlaps = (box: LayerBox, region: SafeZoneRegion) =>
+  box.left < region.left + region.width && box.left + box.width > region.left &&
+  box.top < region.top + region.height && box.top + box.height > region.top;
+
+/**
+ * Elements that reach into a covered area, each with the first area it overlaps.
+ */
+export const findSafeZoneConflicts = (boxes: LayerBox[], regions: SafeZoneRegion[]): SafeZoneConflict[] =>
+  boxes.flatMap(box => {
+    const region = regions.find(r => overlaps(box, r));
+    return region ? [{ layerId: box.id, labelKey: region.labelKey }] : [];
+  });
+
+/** Ad platforms have long recommended keeping text to at most a fifth of an ad image. */
+export const TEXT_COVERAGE_LIMIT = 20;
+
+// Coverage is sampled on a grid this many cells across in each direction.
+const COVERAGE_GRID = 100;
+
+/**
+ * The percentage of the banner covered by text and promotion elements. Overlapping elements
+ * count once.
+ */
+export const textCoverage = (layers: BannerLayer[], boxes: LayerBox[]) => {
+  const textIds = new Set(layers.filter(layer => layer.type === 'text' || layer.type === 'promo').map(layer => layer.id));
+  const textBoxes = boxes.filter(box => textIds.has(box.id));
+  if (textBoxes.length === 0) return 0;
+
+  let covered = 0;
+  for (let row = 0; row < COVERAGE_GRID; row++) {
+    const y = ((row + 0.5) / COVERAGE_GRID) * 100;
+    for (let column = 0; column < COVERAGE_GRID; column++) {
+      const x = ((column + 0.5) / COVERAGE_GRID) * 100;
+      if (textBoxes.some(box => x >= box.left && x < box.left + box.width && y >= box.top && y < box.top + box.height)) covered++;
+    }
+  }
+  return (covered / (COVERAGE_GRID * COVERAGE_GRID)) * 100;
+};
@@ -0,0 +1,104 @@
+import type { CSSProperties } from 'react';
+import type { TextShadow, TextStyle } from '../types';
+
+export interface FontFamily {
+  family: string;
+  /** Weights published by Google Fonts; requesting any other weight makes the stylesheet fail. */
+  weights: number[];
+}
+
+export const FONT_FAMILIES: FontFamily[] = [
+  { family: 'Noto Sans TC', weights: [300, 400, 500, 700, 900] },
+  { family: 'Noto Serif TC', weights: [400, 700, 900] },
+  { family: 'Noto Sans SC', weights: [300, 400, 500, 700, 900] },
+  { family: 'Noto Sans JP', weights: [300, 400, 500, 700, 900] },
+  { family: 'Noto Sans KR', weights: [300, 400, 500, 700, 900] },
+  { family: 'Inter', weights: [300, 400, 500, 700, 900] },
+  { family: 'Montserrat', weights: [300, 400, 500, 700, 900] },
+  { family: 'Oswald', weights: [300, 400, 500, 700] },
+  { family: 'Bebas Neue', weights: [400] },
+  { family: 'Playfair Display', weights: [400, 500, 700, 900] },
+];
+
+export const getFontWeights = (family: string) =>
+  FONT_FAMILIES.find(f => f.family === family)?.weights ?? [400, 700];
+
+export const DEFAULT_HEADING_STYLE: TextStyle = {
+  fontFamily: 'Noto Sans TC',
+  fontWeight: 900,
+  fontStyle: 'italic',
+  fontSize: 64,
+  letterSpacing: -0.05,
+  lineHeight: 1,
+  color: '#ffffff',
+  gradient: null,
+  textTransform: 'uppercase',
+  shadow: { color: '#000000', opacity: 0.7, blur: 8, offsetX: 0, offsetY: 4 },
+};
+
+export const DEFAULT_PROMO_STYLE: TextStyle = {
+  fontFamily: 'Noto Sans TC',
+  fontWeight: 700,
+  fontStyle: 'normal',
+  fontSize: 38,
+  letterSpacing: 0.05,
+  lineHeight: 1.2,
+  color: '#f2f2f2',
+  gradient: null,
+  textTransform: 'none',
+  shadow: { color: '#000000', opacity: 0.8, blur: 4, offsetX: 0, offsetY: 2 },
+};
+
+/**
+ * Converts banner pixels into container-relative units, so text keeps the same proportions
+ * at any preview width and in every export.
+ */
+export const bannerUnits = (px: number, bannerWidth: number) =>
+  `${bannerWidth > 0 ? (px / bannerWidth) * 100 : 0}cqw`;
+
+export const hexToRgba = (hex: string, alpha: number) => {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value.slice(0, 6);
+  const num = parseInt(full, 16) || 0;
+  return `rgba(${(num >> 16) & 255}, ${(num >> 8) & 255}, ${num & 255}, ${alpha})`;
+};
+
+const shadowToCss = (shadow: TextShadow, bannerWidth: number) =>
+  `drop-shadow(${bannerUnits(shadow.offsetX, bannerWidth)} ${bannerUnits(shadow.offsetY, bannerWidth)} ${bannerUnits(shadow.blur, bannerWidth)} ${hexToRgba(shadow.color, shadow.opacity)})`;
+
+/**
+ * Builds the inline CSS for a text style. Shadows use `filter: drop-shadow` so they also
+ * work on gradient-filled text.
+ */
+export const textStyleToCss = (style: TextStyle, bannerWidth: number): CSSProperties => ({
+  fontFamily: `'${style.fontFamily}', sans-serif`,
+  fontWeight: style.fontWeight,
+  fontStyle: style.fontStyle,
+  fontSize: bannerUnits(style.fontSize, bannerWidth),
+  letterSpacing: `${style.letterSpacing}em`,
+  lineHeight: style.lineHeight,
+  textTransform: style.textTransform,
+  filter: style.shadow ? shadowToCss(style.shadow, bannerWidth) : undefined,
+  ...(style.gradient
+    ? {
+        backgroundImage: `linear-gradient(to bottom, ${style.gradient.from}, ${style.gradient.to})`,
+        WebkitBackgroundClip: 'text',
+        backgroundClip: 'text',
+        color: 'transparent',
+      }
+    : { color: style.color }),
+});
+
+const loadedFonts = new Set<string>();
+
+/**
+ * Adds the Google Fonts stylesheet for a family the first time it is used.
+ */
+export const loadFont = (family: string) => {
+  if (typeof document === 'undefined' || loadedFonts.has(family)) return;
+  loadedFonts.add(family);
+  const link = document.createElement('link');
+  link.rel = 'stylesheet';
+  link.href = `https://fonts.googleapis.com/css2?family=${encodeURIComponent(family).replace(/%20/g, '+')}:wght@${getFontWeights(family).join(';')}&display=swap`;
+  document.head.appendChild(link);
+};